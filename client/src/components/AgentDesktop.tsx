@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Drawer,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Tabs,
+  Tab,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import SearchIcon from '@mui/icons-material/Search';
+import apiClient from '../utils/apiClient';
+import type { AccountSearchResult, AccountSection, DesktopLookup } from '../context/chat-types';
+import type { ScenarioAccount } from '../context/persona-scenario-types';
+
+interface AgentDesktopProps {
+  open: boolean;
+  onClose: () => void;
+  conversationId: string | null;
+  // Creates the server conversation if the call has not started yet
+  ensureConversation: () => Promise<string>;
+  onLookup: (lookup: DesktopLookup) => void;
+}
+
+const SECTIONS: Array<{ id: AccountSection; label: string }> = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'services', label: 'Services' },
+  { id: 'devices', label: 'Devices' },
+  { id: 'memos', label: 'Memos' },
+  { id: 'outages', label: 'Outages' }
+];
+
+type SectionData = {
+  overview: Pick<ScenarioAccount, 'account_number' | 'holder' | 'authorized_users'>;
+  services: ScenarioAccount['services'];
+  devices: ScenarioAccount['devices'];
+  memos: ScenarioAccount['memos'];
+  outages: NonNullable<ScenarioAccount['outages']>;
+};
+
+const errorDetails = (error: unknown, fallback: string): string =>
+  (error as { response?: { data?: { details?: string } } })?.response?.data?.details || fallback;
+
+/**
+ * Mock agent desktop (CRM) for the scenario's account. The trainee searches by
+ * account number, phone, email or name, then opens sections one at a time.
+ * The server logs every search and section view for the evaluation.
+ */
+const AgentDesktop: React.FC<AgentDesktopProps> = ({ open, onClose, conversationId, ensureConversation, onLookup }) => {
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [results, setResults] = useState<AccountSearchResult[] | null>(null);
+  const [account, setAccount] = useState<AccountSearchResult | null>(null);
+  const [section, setSection] = useState<AccountSection>('overview');
+  const [sections, setSections] = useState<Partial<SectionData>>({});
+  const [loadingSection, setLoadingSection] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Conversation the desktop state belongs to; the first search may create it
+  const desktopConversationRef = useRef<string | null>(conversationId);
+
+  // A different call starts with an empty desktop
+  useEffect(() => {
+    if (conversationId === desktopConversationRef.current) return;
+    desktopConversationRef.current = conversationId;
+    setQuery('');
+    setResults(null);
+    setAccount(null);
+    setSections({});
+    setSection('overview');
+    setError(null);
+  }, [conversationId]);
+
+  const loadSection = async (id: string, next: AccountSection) => {
+    setSection(next);
+    setLoadingSection(true);
+    setError(null);
+    try {
+      const { data } = await apiClient.get<{ data: SectionData[AccountSection]; lookup: DesktopLookup }>(
+        `/api/conversations/${id}/desktop/account/${next}`
+      );
+      setSections(prev => ({ ...prev, [next]: data.data }));
+      onLookup(data.lookup);
+    } catch (loadError) {
+      console.error('Failed to load account section:', loadError);
+      setError(errorDetails(loadError, 'Failed to load account details.'));
+    } finally {
+      setLoadingSection(false);
+    }
+  };
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const id = await ensureConversation();
+      desktopConversationRef.current = id;
+      const { data } = await apiClient.get<{ results: AccountSearchResult[]; lookup: DesktopLookup }>(
+        `/api/conversations/${id}/desktop/search`,
+        { params: { q: query.trim() } }
+      );
+      setResults(data.results);
+      onLookup(data.lookup);
+    } catch (searchError) {
+      console.error('Account search failed:', searchError);
+      setError(errorDetails(searchError, 'Account search failed.'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleOpenAccount = async (result: AccountSearchResult) => {
+    const id = desktopConversationRef.current;
+    if (!id) return;
+    setAccount(result);
+    setSections({});
+    await loadSection(id, 'overview');
+  };
+
+  const handleSectionChange = (_event: React.SyntheticEvent, next: AccountSection) => {
+    const id = desktopConversationRef.current;
+    if (!id) return;
+    // Re-opening a section is logged too, so it is always fetched again
+    loadSection(id, next);
+  };
+
+  const renderSection = () => {
+    if (loadingSection) return <CircularProgress size={24} sx={{ m: 2 }} />;
+    switch (section) {
+      case 'overview': {
+        const overview = sections.overview;
+        if (!overview) return null;
+        const rows: Array<[string, string | undefined]> = [
+          ['Account number', overview.account_number],
+          ['Account holder', overview.holder.name],
+          ['Phone', overview.holder.phone],
+          ['Email', overview.holder.email],
+          ['Service address', overview.holder.service_address],
+          ['Security PIN', overview.holder.security_pin],
+          ['Last 4 of SSN', overview.holder.last4_ssn],
+          ['Customer since', overview.holder.customer_since]
+        ];
+        return (
+          <List dense>
+            {rows.filter(([, value]) => value).map(([label, value]) => (
+              <ListItem key={label} disableGutters>
+                <ListItemText primary={value} secondary={label} />
+              </ListItem>
+            ))}
+            {overview.authorized_users?.map(user => (
+              <ListItem key={user.name} disableGutters>
+                <ListItemText primary={user.name} secondary={`Authorized user (${user.relationship})`} />
+              </ListItem>
+            ))}
+          </List>
+        );
+      }
+      case 'services':
+        return (
+          <List dense>
+            {sections.services?.map(service => (
+              <ListItem key={service.name} disableGutters>
+                <ListItemText
+                  primary={`${service.name}${service.monthly_rate !== undefined ? ` · $${service.monthly_rate.toFixed(2)}/mo` : ''}`}
+                  secondary={[service.status, service.notes].filter(Boolean).join(' · ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        );
+      case 'devices':
+        return (
+          <List dense>
+            {sections.devices?.map(device => (
+              <ListItem key={`${device.type}-${device.serial ?? device.model}`} disableGutters>
+                <ListItemText
+                  primary={`${device.type}: ${device.model}`}
+                  secondary={[device.status, device.serial && `S/N ${device.serial}`, device.last_seen && `Last seen ${device.last_seen}`].filter(Boolean).join(' · ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        );
+      case 'memos':
+        return sections.memos?.length === 0
+          ? <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>No memos on this account.</Typography>
+          : (
+            <List dense>
+              {sections.memos?.map((memo, index) => (
+                <ListItem key={index} disableGutters alignItems="flex-start">
+                  <ListItemText primary={memo.note} secondary={`${memo.date} · ${memo.author}`} />
+                </ListItem>
+              ))}
+            </List>
+          );
+      case 'outages':
+        return sections.outages?.length === 0
+          ? <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>No outages reported for this service area.</Typography>
+          : (
+            <List dense>
+              {sections.outages?.map((outage, index) => (
+                <ListItem key={index} disableGutters alignItems="flex-start">
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Chip size="small" label={outage.status} color={outage.status === 'active' ? 'error' : 'default'} />
+                        {outage.description}
+                      </Box>
+                    }
+                    secondary={[`Area ${outage.area}`, outage.started_at && `Started ${outage.started_at}`, outage.estimated_resolution && `ETR ${outage.estimated_resolution}`].filter(Boolean).join(' · ')}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          );
+    }
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 420, p: 2, display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>Agent Desktop</Typography>
+          <IconButton aria-label="close agent desktop" onClick={onClose} size="small">
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Box>
+        <Box component="form" onSubmit={handleSearch} sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Account number, phone, email or name"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+          />
+          <Button type="submit" variant="contained" disabled={searching || !query.trim()} startIcon={<SearchIcon />}>
+            Search
+          </Button>
+        </Box>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {results && !account && (
+          results.length === 0
+            ? <Typography variant="body2" color="text.secondary">No matching accounts.</Typography>
+            : (
+              <List dense>
+                {results.map(result => (
+                  <ListItem key={result.accountNumber} disableGutters secondaryAction={
+                    <Button size="small" onClick={() => handleOpenAccount(result)}>Open</Button>
+                  }>
+                    <ListItemText primary={result.holderName} secondary={[result.accountNumber, result.serviceAddress].filter(Boolean).join(' · ')} />
+                  </ListItem>
+                ))}
+              </List>
+            )
+        )}
+        {account && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: 0, flex: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>{account.holderName}</Typography>
+              <Button size="small" onClick={() => setAccount(null)}>Back to results</Button>
+            </Box>
+            <Tabs value={section} onChange={handleSectionChange} variant="scrollable" scrollButtons="auto">
+              {SECTIONS.map(s => <Tab key={s.id} value={s.id} label={s.label} sx={{ textTransform: 'none', minWidth: 0 }} />)}
+            </Tabs>
+            <Box sx={{ flex: 1, overflowY: 'auto' }}>
+              {renderSection()}
+            </Box>
+          </Box>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default AgentDesktop;
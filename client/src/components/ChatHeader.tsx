@@ -35,17 +35,15 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
   }
 
   // Determine which TTS voice will be used and get the display name
-  let voiceName = selectedVoice;
-  let voiceDisplayName = selectedVoice;
-  
-  if (!voiceName) {
-    // Fallback based on avatar gender
-    voiceName = randomAvatarUrl.includes('/men/') ? 'AndrewNeural' : 'JennyNeural';
+  let voiceDisplayName: string;
+  if (selectedVoice) {
+    // Get the friendly display name from the server's voice catalog
+    const voiceOption = getVoiceByValue(selectedVoice);
+    voiceDisplayName = voiceOption ? voiceOption.name : selectedVoice;
+  } else {
+    // Fallback based on avatar gender; the server picks its default voice for it
+    voiceDisplayName = randomAvatarUrl.includes('/men/') ? 'Default male' : 'Default female';
   }
-  
-  // Get the friendly display name from voice options
-  const voiceOption = getVoiceByValue(voiceName);
-  voiceDisplayName = voiceOption ? voiceOption.name : voiceName;
 
   // Compose chips for persona, mood, scenario, template, and voice
   const chips = [
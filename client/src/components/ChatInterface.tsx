@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useAudioPlayer } from '../hooks/useAudioPlayer';
-import { useAzureSpeechRecognition } from '../hooks/useAzureSpeechRecognition';
+import { useVoiceChannel } from '../hooks/useVoiceChannel';
 import { useRetry } from '../hooks/useRetry';
 import {
   Container,
@@ -11,6 +11,7 @@ import {
   Box,
   Button
 } from '@mui/material';
+import DesktopWindowsIcon from '@mui/icons-material/DesktopWindows';
 import MenuBar from './MenuBar';
 import ChatHeader from './ChatHeader';
 import MessageList from './MessageList';
@@ -23,11 +24,31 @@ import { useAuth } from '../context/AuthContext';
 import { fetchSubstitutedSystemPrompt } from '../utils/speechApi';
 import { usePersonaScenario } from '../context/PersonaScenarioContext';
 import { useMood } from '../context/MoodContext';
-import type { ScenarioParameters, ChatRequest } from '../context/scenario-parameters';
-import type { EvaluationExportData } from '../context/chat-types';
+import type { ScenarioParameters, VoiceMode } from '../context/scenario-parameters';
+import type {
+  ConversationBranchInfo,
+  ConversationMessage,
+  EvaluationExportData,
+  ExitCriteriaAssessment,
+  SpeechAnalytics,
+  SpeechRecognitionDetail
+} from '../context/chat-types';
+import type { ModelParameters } from '../context/persona-scenario-types';
 import apiClient from '../utils/apiClient';
+import { streamConversationTurn, streamRegeneratedReply, streamCoachingHints, ChatStreamError } from '../utils/chatStream';
+import type { ConversationTurnInput, ConversationTurnResult, ReplyAssessment } from '../utils/chatStream';
+import { describeChatError, isRetryableChatError, getRetryAfterMs } from '../utils/chatErrors';
+import { playbackIdFor } from '../utils/playback';
+import ConversationHistoryMenu from './ConversationHistoryMenu';
+import CoachingPanel from './CoachingPanel';
+import AgentDesktop from './AgentDesktop';
+import { useCoachingSettings } from '../hooks/useCoachingSettings';
+import { usePersistentState } from '../hooks/usePersistentState';
 
 interface Message {
+  id?: string;
+  parentId?: string | null;
+  siblingIds?: string[];
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
@@ -36,78 +57,197 @@ interface Message {
     completion_tokens: number;
     total_tokens: number;
   };
+  modelParameters?: ModelParameters;
+  isStreaming?: boolean;
+  interrupted?: boolean;
+  recognition?: SpeechRecognitionDetail;
 }
 
+// A new user turn (optionally branching off an earlier message), or a new reply to a stored user message
+type ReplyRequest =
+  | ({ kind: 'turn' } & ConversationTurnInput)
+  | { kind: 'regenerate'; messageId: string };
+
+// Records which version of each message the transcript uses, so exports say which branch was evaluated
+const describeBranch = (messages: Message[]): ConversationBranchInfo | undefined => {
+  const stored = messages.filter((m): m is Message & { id: string } => Boolean(m.id));
+  if (stored.length === 0) return undefined;
+  return {
+    leafMessageId: stored[stored.length - 1].id,
+    messageIds: stored.map(m => m.id),
+    alternatives: stored
+      .filter(m => (m.siblingIds?.length ?? 0) > 1)
+      .map(m => ({ messageId: m.id, version: m.siblingIds!.indexOf(m.id) + 1, versionCount: m.siblingIds!.length }))
+  };
+};
+
 const ChatInterface: React.FC = () => {
   const { isAuthenticated } = useAuth();
   const { currentTemplate } = useTemplate();
-  const { messages, setMessages, totalTokens, setTotalTokens } = useChat();
-  const { selectedVoice, setSelectedVoice } = useVoice();
+  const {
+    messages,
+    setMessages,
+    totalTokens,
+    setTotalTokens,
+    conversationId,
+    contextSummary,
+    setContextSummary,
+    exitCriteria,
+    setExitCriteria,
+    coachingHints,
+    setCoachingHints,
+    desktopLookups,
+    setDesktopLookups,
+    startConversation,
+    resumeConversation,
+    forkConversation,
+    selectBranch,
+    interruptReply,
+    listConversations,
+    deleteConversation,
+    resetConversation
+  } = useChat();
+  const { selectedVoice, setSelectedVoice, languageOverride, sessionLanguage } = useVoice();
   const { selectedPersona, selectedScenario, generatedName, setSelectedPersona, setSelectedScenario } = usePersonaScenario();
   const { selectedMood, setSelectedMood } = useMood();
   
   const [exportJson, setExportJson] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Assessment whose offer to end the call the user declined, by the reply it was made after
+  const [exitOfferDismissedFor, setExitOfferDismissedFor] = useState<string | null>(null);
+  const { settings: coachingSettings, setCoachingEnabled } = useCoachingSettings(isAuthenticated);
+  const [coachingPanelOpen, setCoachingPanelOpen] = usePersistentState<boolean>('coachingPanelOpen', true);
+  // Whether voice calls are recorded for supervisors to listen back to
+  const [recordCalls, setRecordCalls] = usePersistentState<boolean>('recordCalls', false);
+  // Whether voice calls go through recognition, chat and synthesis, or to the Realtime model directly
+  const [voiceMode, setVoiceMode] = usePersistentState<VoiceMode>('voiceMode', 'pipeline');
+  const [streamingHint, setStreamingHint] = useState<string | null>(null);
+  const [desktopOpen, setDesktopOpen] = useState(false);
   const messagesEndRef = React.useRef<HTMLDivElement>(null);
   const messagesRef = React.useRef<Message[]>(messages);
+  const streamAbortRef = React.useRef<AbortController | null>(null);
+  // The speech recognizer holds on to the handler from when listening started,
+  // so the active conversation is read through a ref rather than the closure
+  const conversationIdRef = React.useRef<string | null>(conversationId);
+  const parametersKeyRef = React.useRef<string | null>(null);
+  const coachingEnabledRef = React.useRef(false);
   const theme = useTheme();
-  const { playAudio, isPlaying, currentPlayingId } = useAudioPlayer();
+  const {
+    playAudio,
+    replayAudio,
+    isPlaying,
+    isPaused,
+    currentPlayingId,
+    timeToFirstAudio: clipTimeToFirstAudio,
+    pauseAudio,
+    resumeAudio,
+    stopAudio,
+    interruptAudio
+  } = useAudioPlayer();
+  // The reply being read aloud as the customer's live turn, so talking over it can cut it short
+  const liveReplyRef = React.useRef<{ playbackId: string; messageId: string } | null>(null);
   const { executeWithRetry } = useRetry({ maxAttempts: 3, delayMs: 1000 });
-  // Keep messagesRef in sync and persist to storage
+  // Turn requests only retry failures the server reports as transient
+  const { executeWithRetry: executeTurnWithRetry } = useRetry({
+    maxAttempts: 3,
+    delayMs: 1000,
+    shouldRetry: isRetryableChatError,
+    getRetryAfterMs
+  });
+  // Keep refs in sync with the latest state
   useEffect(() => {
     messagesRef.current = messages;
-    localStorage.setItem('chatMessages', JSON.stringify(messages));
-    localStorage.setItem('totalTokens', totalTokens.toString());
-  }, [messages, totalTokens]);
-  // Seed the system prompt only on initial mount
+  }, [messages]);
   useEffect(() => {
-    if (messages.length === 0 && currentTemplate) {
-      setMessages([{ role: 'system', content: currentTemplate.prompt, timestamp: Date.now() }]);
-    }
-  }, [messages.length, currentTemplate, setMessages]);
-  // Reset conversation when the selected scenario/template changes
+    conversationIdRef.current = conversationId;
+  }, [conversationId]);
   useEffect(() => {
-    if (!currentTemplate) return;
-    const sysMsg: Message = { role: 'system', content: currentTemplate.prompt, timestamp: Date.now() };
-    setMessages([sysMsg]);
-    setTotalTokens(0);
-    localStorage.setItem('chatMessages', JSON.stringify([sysMsg]));    localStorage.removeItem('totalTokens');
-  }, [currentTemplate, setMessages, setTotalTokens]);
-  // Fetch and update system prompt from backend when scenario parameters change
+    coachingEnabledRef.current = Boolean(coachingSettings?.enabled);
+  }, [coachingSettings]);
+  // Cancel any in-flight reply stream when leaving the chat
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  // Scenario parameters for the current persona/scenario/mood/template selection
+  const buildParameters = (): ScenarioParameters => ({
+    persona: selectedPersona?.id || '',
+    mood: selectedMood?.mood || '',
+    name: generatedName?.full || selectedPersona?.name || '',
+    gender: generatedName?.gender,
+    voice: selectedVoice || '',
+    templateName: currentTemplate?.name || '',
+    scenarioId: selectedScenario?.id || '',
+    ...(languageOverride ?? {}),
+  });
+  const parameters = buildParameters();
+  const parametersKey = JSON.stringify(parameters);
+
+  // Start over with a fresh system prompt preview when the selection changes.
+  // The first run only records the selection so a resumed conversation is kept.
   useEffect(() => {
-    // Only run if authenticated and if persona, mood, or voice is set
-    if (!isAuthenticated || (!selectedPersona && !selectedMood && !selectedVoice)) return;const parameters: ScenarioParameters = {
-      persona: selectedPersona?.id || '',
-      mood: selectedMood?.mood || '',
-      name: generatedName?.full || selectedPersona?.name || '',
-      gender: generatedName?.gender,
-      voice: selectedVoice || '',
-      templateName: currentTemplate?.name || '',
-      scenarioId: selectedScenario?.id || '',
-    };
+    const previousKey = parametersKeyRef.current;
+    parametersKeyRef.current = parametersKey;
+    if (previousKey === parametersKey || (previousKey === null && conversationIdRef.current)) return;
 
-    console.log('Frontend: Calling fetchSubstitutedSystemPrompt with:', parameters);
-    
-    fetchSubstitutedSystemPrompt(parameters)
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    resetConversation();
+    // Only preview the rendered prompt if authenticated and persona, mood, or voice is set
+    const previewParameters: ScenarioParameters = JSON.parse(parametersKey);
+    if (!isAuthenticated || (!previewParameters.persona && !previewParameters.mood && !previewParameters.voice)) return;
+
+    console.log('Frontend: Calling fetchSubstitutedSystemPrompt with:', previewParameters);
+    fetchSubstitutedSystemPrompt(previewParameters)
       .then(systemPrompt => {
-        console.log('Frontend: Received systemPrompt:', systemPrompt);
-        setMessages([{ role: 'system', content: systemPrompt, timestamp: Date.now() }]);
-        setTotalTokens(0);
-        localStorage.setItem('chatMessages', JSON.stringify([{ role: 'system', content: systemPrompt, timestamp: Date.now() }]));
-        localStorage.removeItem('totalTokens');
+        // A conversation may have started while the preview was loading
+        if (parametersKeyRef.current !== parametersKey || conversationIdRef.current) return;
+        resetConversation(systemPrompt);
       })
       .catch(error => {
+        // Keep the template prompt shown by resetConversation
         console.error('Frontend: Failed to fetch substituted system prompt:', error);
-        // fallback to template if backend fails
-        if (currentTemplate) {
-          setMessages([{ role: 'system', content: currentTemplate.prompt, timestamp: Date.now() }]);
-        }
-        setTotalTokens(0);
-        localStorage.removeItem('totalTokens');
-      });  }, [isAuthenticated, selectedPersona, selectedScenario, selectedMood, selectedVoice, generatedName, currentTemplate, setMessages, setTotalTokens]);  // Track timestamps and end conversation
+      });
+  }, [parametersKey, isAuthenticated, resetConversation]);
+
+  // Create the server conversation on the first turn; later turns reuse it
+  const ensureConversation = async (turnParameters: ScenarioParameters): Promise<string> => {
+    if (conversationIdRef.current) return conversationIdRef.current;
+    const conversation = await startConversation({ ...turnParameters, voiceMode });
+    conversationIdRef.current = conversation.id;
+    // Show the prompt the server actually rendered for this conversation
+    setMessages(prev => prev.map(m => m.role === 'system' ? { ...m, content: conversation.systemPrompt } : m));
+    return conversation.id;
+  };
+
+  const handleResumeConversation = async (id: string) => {
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    try {
+      await resumeConversation(id);
+      conversationIdRef.current = id;
+    } catch (error) {
+      console.error('Failed to resume conversation:', error);
+      setErrorMessage('Failed to load that conversation. Please try again.');
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      if (conversationIdRef.current === id) conversationIdRef.current = null;
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      setErrorMessage('Failed to delete that conversation. Please try again.');
+    }
+  };
+
+  // Track timestamps and end conversation
   const handleEndConversation = async () => {
     if (messages.length === 0) return;
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    // Write the call audio out before the export dialog asks for it
+    await saveCallRecording();
     const endTime = Date.now();
     
     // Find the first user message to start the timer from
@@ -122,6 +262,17 @@ const ChatInterface: React.FC = () => {
     } catch (error) {
       console.error('Failed to fetch server stats:', error);
     }
+
+    // Delivery analytics are computed once the recording (if any) is saved, so they use its timing
+    let speechAnalytics: SpeechAnalytics | null = null;
+    if (conversationId) {
+      try {
+        const { data } = await apiClient.post<{ speechAnalytics: SpeechAnalytics }>(`/api/conversations/${conversationId}/analytics`);
+        speechAnalytics = data.speechAnalytics;
+      } catch (error) {
+        console.error('Failed to compute speech analytics:', error);
+      }
+    }
     
     // Fetch scenario details to get evaluation criteria
     let scenarioDetails = null;
@@ -175,7 +326,7 @@ const ChatInterface: React.FC = () => {
     const exportData: EvaluationExportData = {
       // Conversation metadata
       exportTimestamp: endTime,
-      conversationId: `conv_${startTime}_${endTime}`,
+      conversationId: conversationId ?? `conv_${startTime}_${endTime}`,
       
       // Context information
       context: {        persona: selectedPersona ? {
@@ -222,8 +373,15 @@ const ChatInterface: React.FC = () => {
           role: msg.role, 
           content: msg.content, 
           timestamp: msg.timestamp,
-          usage: msg.usage 
+          usage: msg.usage,
+          modelParameters: msg.modelParameters,
+          recognition: msg.recognition
         })),
+        contextSummary,
+        exitCriteria,
+        coachingHints: coachingSettings?.enabled || coachingHints.length > 0 ? coachingHints : undefined,
+        desktopLookups,
+        branch: describeBranch(messages),
         messageCount: messages.filter(m => m.role !== 'system').length,
         userMessageCount: messages.filter(m => m.role === 'user').length,
         assistantMessageCount: messages.filter(m => m.role === 'assistant').length,
@@ -248,8 +406,13 @@ const ChatInterface: React.FC = () => {
         serverStats: serverStats ? {
           llmTokenCount: serverStats.llmTokenCount,
           speechDurationSeconds: serverStats.speechDurationSeconds,
-          audioCharacterCount: serverStats.audioCharacterCount
-        } : null
+          audioCharacterCount: serverStats.audioCharacterCount,
+          interruptionCount: serverStats.interruptionCount ?? 0,
+          replyLatency: serverStats.replyLatency
+        } : null,
+
+        // Trainee delivery: pace, filler words, talk ratio, dead air and response latency
+        speechAnalytics
       },
         // Evaluation criteria (for scenario-based evaluation)
       evaluationCriteria: {
@@ -280,78 +443,169 @@ const ChatInterface: React.FC = () => {
     setSelectedMood(null);
     setSelectedVoice(null);
     
-    // Reset chat messages and token count
-    if (currentTemplate) {
-      setMessages([{ role: 'system', content: currentTemplate.prompt, timestamp: Date.now() }]);
-      setTotalTokens(0);
-    } else {
-      setMessages([]);
-      setTotalTokens(0);
-    }
-  };// Clear chat but keep only the system prompt
+    // Reset chat messages and token count; the evaluated conversation stays in history
+    conversationIdRef.current = null;
+    resetConversation();
+  };// Clear chat but keep only the system prompt; the next turn starts a new conversation
   const handleClearChat = () => {
-    if (currentTemplate) {
-      setMessages([{ role: 'system', content: currentTemplate.prompt, timestamp: Date.now() }]);
-      setTotalTokens(0);
-    } else {
-      setMessages([]);
-      setTotalTokens(0);
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    conversationIdRef.current = null;
+    resetConversation();
+  };
+
+  // Streams coaching hints for a turn alongside the reply; failures only cost the hint
+  const requestCoachingHints = async (activeConversationId: string, turn: ConversationTurnInput, signal: AbortSignal) => {
+    setStreamingHint('');
+    try {
+      const hint = await streamCoachingHints(activeConversationId, turn, {
+        onDelta: delta => setStreamingHint(prev => (prev ?? '') + delta)
+      }, signal);
+      setCoachingHints(prev => [...prev, hint]);
+    } catch (error) {
+      if (!signal.aborted) console.warn('Coaching hints unavailable for this turn:', error);
+    } finally {
+      if (!signal.aborted) setStreamingHint(null);
     }
   };
 
-  const handleVoiceInput = async (transcript: string) => {
-    if (!transcript.trim()) return;
+  const handleCoachingEnabledChange = async (enabled: boolean) => {
+    try {
+      await setCoachingEnabled(enabled);
+    } catch (error) {
+      console.error('Failed to update coaching settings:', error);
+      setErrorMessage('Failed to update coaching settings. Please try again.');
+    }
+  };
 
-    const userMessage: Message = { role: 'user', content: transcript, timestamp: Date.now() };
-    // Compute updatedMessages to include the new user message and update state
-    let updatedMessages: Message[] = [];
-    setMessages(prev => {
-      updatedMessages = [...prev, userMessage];
-      return updatedMessages;
-    });
+  /**
+   * Streams the assistant reply to a new user turn, or a new reply to a stored
+   * user message, and plays it. `keep` is how many of the shown messages stay;
+   * the rest belong to the branch being edited or regenerated.
+   */
+  const runReply = async (request: ReplyRequest, keep?: number) => {
+    const userMessage: Message | null = request.kind === 'turn'
+      ? { role: 'user', content: request.content, timestamp: Date.now(), recognition: request.recognition }
+      : null;
+    // Edits and regenerations leave the old version on another branch
+    const isBranching = request.kind === 'regenerate' || request.parentId !== undefined;
+    setMessages(prev => [...prev.slice(0, keep ?? prev.length), ...(userMessage ? [userMessage] : [])]);
     setIsLoading(true);
-    setErrorMessage(null);    // Collect scenario parameters from context
-    const parameters: ScenarioParameters = {
-      persona: selectedPersona?.id || '',
-      mood: selectedMood?.mood || '',
-      name: generatedName?.full || selectedPersona?.name || '',
-      gender: generatedName?.gender,
-      voice: selectedVoice || '',
-      templateName: currentTemplate?.name || '',
-      scenarioId: selectedScenario?.id || '',
-    };
+    setErrorMessage(null);
+    // Only one reply streams at a time; a newer turn supersedes an older one
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    const assistantTimestamp = Date.now();
+    const isStreamedMessage = (m: Message) => m.role === 'assistant' && m.timestamp === assistantTimestamp;
+    let streamStarted = false;
+    // Attach the server ids once the turn is persisted
+    const withServerIds = (prev: Message[], turn: ConversationTurnResult) =>
+      prev.map(m => m === userMessage ? { ...m, id: turn.userMessage.id, parentId: turn.userMessage.parentId } : m);
 
     try {
-      const response = await executeWithRetry(
-        () => apiClient.post('/api/chat', {
-          // Send the full messages thread for context
-          messages: updatedMessages.map(({ role, content }) => ({ role, content })),
-          parameters,
-        } as ChatRequest),
-        (error, attempt) => {
-          console.error(`Attempt ${attempt} failed:`, error);
-          if (error instanceof Error) {
-            setErrorMessage(
-              `Network error (attempt ${attempt}/3). Retrying...`
-            );
+      const activeConversationId = await ensureConversation(parameters);
+      if (request.kind === 'turn' && coachingEnabledRef.current) {
+        void requestCoachingHints(activeConversationId, request, abortController.signal);
+      }
+      let assistantMessage: Message;
+      try {
+        // Render the assistant bubble as token deltas arrive
+        const handlers = {
+          onDelta: (delta: string) => {
+            if (!streamStarted) {
+              streamStarted = true;
+              setMessages(prev => [...prev, { role: 'assistant', content: delta, timestamp: assistantTimestamp, isStreaming: true }]);
+            } else {
+              setMessages(prev => prev.map(m => isStreamedMessage(m) ? { ...m, content: m.content + delta } : m));
+            }
+          },
+          // Comes in after the reply, while it is already being spoken
+          onAssessment: ({ exitCriteria }: Required<ReplyAssessment>) => {
+            if (!abortController.signal.aborted) setExitCriteria(exitCriteria);
           }
+        };
+        const result = request.kind === 'turn'
+          ? await streamConversationTurn(activeConversationId, request, handlers, abortController.signal)
+          : await streamRegeneratedReply(activeConversationId, request.messageId, handlers, abortController.signal);
+
+        assistantMessage = {
+          id: result.assistantMessage.id,
+          parentId: result.assistantMessage.parentId,
+          role: 'assistant',
+          content: result.content,
+          timestamp: assistantTimestamp,
+          usage: result.usage,
+          modelParameters: result.modelParameters
+        };
+        const finalMessage = assistantMessage;
+        setContextSummary(result.contextSummary ?? null);
+        setMessages(prev => {
+          const next = withServerIds(prev, result);
+          return streamStarted
+            ? next.map(m => isStreamedMessage(m) ? finalMessage : m)
+            : [...next, finalMessage];
+        });
+      } catch (streamError) {
+        // Chat was cleared or a newer turn started; nothing left to update
+        if (abortController.signal.aborted) return;
+
+        if (streamError instanceof ChatStreamError && streamError.receivedContent) {
+          // Keep what was already shown but flag it as incomplete
+          console.error('Chat stream dropped mid-reply:', streamError);
+          setMessages(prev => prev.map(m => isStreamedMessage(m) ? { ...m, isStreaming: false, interrupted: true } : m));
+          setErrorMessage(streamError.code
+            ? describeChatError(streamError)
+            : 'The response was interrupted before it finished. Please try again.');
+          return;
         }
-      );
-
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: response.data.content,
-        timestamp: Date.now(),
-        usage: response.data.usage
-      };
-      
-      // Update total token count if usage data is available
-      if (response.data.usage) {
-        setTotalTokens(prev => prev + response.data.usage.total_tokens);
+
+        // The server accepted the turn or explained why it failed; retrying elsewhere won't help
+        if (!(streamError instanceof ChatStreamError) || streamError.opened || streamError.code) throw streamError;
+
+        // Stream endpoint unreachable: fall back to the non-streaming endpoint
+        console.warn('Chat stream unavailable, falling back to non-streaming turn:', streamError);
+        const response = await executeTurnWithRetry(
+          () => request.kind === 'turn'
+            ? apiClient.post<ConversationTurnResult>(`/api/conversations/${activeConversationId}/turns`, { content: request.content, parentId: request.parentId, recognition: request.recognition })
+            : apiClient.post<ConversationTurnResult>(`/api/conversations/${activeConversationId}/regenerate`, { messageId: request.messageId }),
+          (error, attempt) => {
+            console.error(`Attempt ${attempt} failed:`, error);
+            setErrorMessage(`${describeChatError(error)} Retrying (attempt ${attempt + 1}/3)...`);
+          }
+        );
+        setErrorMessage(null);
+
+        assistantMessage = {
+          id: response.data.assistantMessage.id,
+          parentId: response.data.assistantMessage.parentId,
+          role: 'assistant',
+          content: response.data.content,
+          timestamp: Date.now(),
+          usage: response.data.usage,
+          modelParameters: response.data.modelParameters
+        };
+        const fallbackMessage = assistantMessage;
+        setExitCriteria(response.data.exitCriteria ?? null);
+        setContextSummary(response.data.contextSummary ?? null);
+        // Append assistant message
+        setMessages(prev => [...withServerIds(prev, response.data), fallbackMessage]);
       }
       
-      // Append assistant message
-      setMessages(prev => [...prev, assistantMessage]);
+      if (isBranching) {
+        // Reload the branch so the version switchers include the new message
+        try {
+          await resumeConversation(activeConversationId);
+        } catch (refreshError) {
+          console.warn('Failed to refresh conversation branches:', refreshError);
+        }
+        if (abortController.signal.aborted) return;
+      } else if (assistantMessage.usage) {
+        // Update total token count if usage data is available
+        const usage = assistantMessage.usage;
+        setTotalTokens(prev => prev + usage.total_tokens);
+      }
       
       try {        // Use selectedVoice if set, otherwise fall back to generated name's gender
         let voiceNameOrGender: string | undefined = selectedVoice || undefined;
@@ -361,8 +615,10 @@ const ChatInterface: React.FC = () => {
           // Fallback to avatar URL parsing if no generated name
           voiceNameOrGender = avatarUrl.includes('/men/') ? 'male' : 'female';
         }
+        const playbackId = playbackIdFor(assistantMessage, messages.length);
+        liveReplyRef.current = assistantMessage.id ? { playbackId, messageId: assistantMessage.id } : null;
         await executeWithRetry(
-          () => playAudio(assistantMessage.content, `msg-${messages.length + 1}`, voiceNameOrGender),
+          () => speakReply(assistantMessage.content, playbackId, voiceNameOrGender),
           (error, attempt) => {
             console.error(`Audio playback attempt ${attempt} failed:`, error);
           }
@@ -373,18 +629,154 @@ const ChatInterface: React.FC = () => {
       }
       
     } catch (error) {
+      // Explain the failure in the UI rather than as a reply from the simulated customer
       console.error('Error sending message after retries:', error);
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: 'Sorry, I encountered a network error. Please check your connection and try again.',
-        timestamp: Date.now()
-      }]);
+      setErrorMessage(describeChatError(error));
     } finally {
+      if (streamAbortRef.current === abortController) {
+        streamAbortRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
-  const { isListening, error, startListening, stopListening } = useAzureSpeechRecognition(handleVoiceInput);
+  const handleVoiceInput = async (transcript: string, recognition?: SpeechRecognitionDetail) => {
+    if (!transcript.trim()) return;
+    await runReply({ kind: 'turn', content: transcript, recognition });
+  };
+
+  // Regenerates the reply to a user message; for an assistant message, the one it answered
+  const handleRegenerate = (index: number) => {
+    const message = messages[index];
+    const messageId = message.role === 'assistant' ? message.parentId : message.id;
+    if (!messageId) return;
+    void runReply({ kind: 'regenerate', messageId }, message.role === 'assistant' ? index : index + 1);
+  };
+
+  const handleEditMessage = (index: number, content: string) => {
+    void runReply({ kind: 'turn', content, parentId: messages[index].parentId ?? null }, index);
+  };
+
+  // Forking at a user message asks for a new reply to it; at a reply, the next turn continues from there
+  const handleFork = async (index: number) => {
+    const message = messages[index];
+    if (message.role === 'user') {
+      handleRegenerate(index);
+      return;
+    }
+    if (!message.id) return;
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    try {
+      await forkConversation(message.id);
+    } catch (error) {
+      console.error('Failed to fork conversation:', error);
+      setErrorMessage('Failed to branch the conversation. Please try again.');
+    }
+  };
+
+  const handleSelectBranch = async (messageId: string) => {
+    streamAbortRef.current?.abort();
+    setStreamingHint(null);
+    try {
+      await selectBranch(messageId);
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+      setErrorMessage('Failed to show that version. Please try again.');
+    }
+  };
+
+  const {
+    isListening,
+    error,
+    interimTranscript,
+    startListening,
+    stopListening,
+    isSpeaking,
+    currentSpeakingId,
+    timeToFirstAudio: speechTimeToFirstAudio,
+    speak,
+    interruptSpeech,
+    setCallRecording,
+    saveCallRecording,
+  } = useVoiceChannel(handleVoiceInput, {
+    onSpeechStart: () => handleBargeIn(),
+    onTurn: (message, assessment) => handleSpokenTurn(message, assessment)
+  });
+
+  // The first turn creates the conversation, so recording starts before it has an id
+  useEffect(() => {
+    setCallRecording(recordCalls, conversationId);
+  }, [recordCalls, conversationId, setCallRecording]);
+
+  // Speech-to-speech turns are stored by the server as they are spoken; show them as they arrive
+  const handleSpokenTurn = (message: ConversationMessage, assessment?: ExitCriteriaAssessment) => {
+    setMessages(prev => [...prev, {
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role,
+      content: message.content,
+      timestamp: Date.parse(message.createdAt),
+      usage: message.metadata?.usage,
+      recognition: message.metadata?.recognition
+    }]);
+    const usage = message.metadata?.usage;
+    if (usage) setTotalTokens(prev => prev + usage.total_tokens);
+    if (message.role === 'assistant') setExitCriteria(assessment ?? null);
+  };
+
+  // Talking over the customer stops the reply at once; the stored reply keeps only what was heard
+  const handleBargeIn = () => {
+    const stopped = interruptSpeech() ?? interruptAudio();
+    const reply = liveReplyRef.current;
+    if (!stopped || !reply || reply.playbackId !== stopped.id) return;
+    liveReplyRef.current = null;
+    interruptReply(reply.messageId, stopped.spokenChars).catch(error => {
+      console.error('Failed to record interruption:', error);
+    });
+  };
+
+  // Replies stream over the voice channel; if it cannot be reached, stream them over HTTP instead.
+  // The customer speaks in the selected mood's voice style and the session's language.
+  const speakReply = async (text: string, id: string, voice?: string) => {
+    const mood = selectedMood?.mood || undefined;
+    try {
+      await speak(text, id, voice, mood, sessionLanguage.language);
+    } catch (channelError) {
+      console.warn('Voice channel playback failed, falling back to HTTP synthesis:', channelError);
+      await playAudio(text, id, voice, mood, sessionLanguage.language);
+    }
+  };
+
+  // Replays fetch the whole clip, which the server's audio cache and the browser can answer without synthesizing again
+  const replayMessage = (text: string, id: string, voice?: string) => {
+    void replayAudio(text, id, voice, selectedMood?.mood || undefined, sessionLanguage.language);
+  };
+
+  // Only HTTP playback can pause; the voice channel plays replies as they are generated
+  const canPauseReply = isPlaying && !isSpeaking;
+
+  // Stopping a reply by hand leaves the stored message whole, unlike talking over it
+  const stopPlayback = () => {
+    interruptSpeech();
+    stopAudio();
+  };
+
+  // Offer to end and evaluate once the scenario's exit criteria say the call is over; a later assessment offers again
+  const exitOfferKey = exitCriteria ? exitCriteria.messageId ?? exitCriteria.assessedAt : null;
+  const showExitOffer = Boolean(
+    conversationId &&
+    exitCriteria &&
+    exitCriteria.state !== 'in-progress' &&
+    exitOfferDismissedFor !== exitOfferKey &&
+    !isLoading &&
+    !exportJson
+  );
+  const handleAcceptExitOffer = async () => {
+    setExitOfferDismissedFor(exitOfferKey);
+    if (isListening) stopListening();
+    await handleEndConversation();
+  };
 
   // Update error message when speech recognition error occurs
   useEffect(() => {
@@ -396,8 +788,19 @@ const ChatInterface: React.FC = () => {
   const toggleListening = async () => {
     if (isListening) {
       stopListening();
+    } else if (voiceMode === 'speech-to-speech') {
+      // The Realtime model plays the customer of a stored conversation, so the call needs one first
+      let activeConversationId: string;
+      try {
+        activeConversationId = await ensureConversation(parameters);
+      } catch (error) {
+        console.error('Failed to start conversation for speech-to-speech call:', error);
+        setErrorMessage(describeChatError(error));
+        return;
+      }
+      await startListening(sessionLanguage, { mode: 'speech-to-speech', conversationId: activeConversationId });
     } else {
-      await startListening();
+      await startListening(sessionLanguage);
     }
   };
   const [avatarUrl, setAvatarUrl] = useState<string>('');
@@ -472,31 +875,55 @@ const ChatInterface: React.FC = () => {
             overflow: 'hidden', // Prevent container overflow
           }}
         >
-          {/* Messages container with proper scrolling */}
+          {/* Messages container with proper scrolling, coaching hints alongside */}
           <Box sx={{ 
             flex: 1, 
             display: 'flex', 
-            flexDirection: 'column', 
+            flexDirection: 'row', 
             minHeight: 0, // Allow flex shrinking
             overflow: 'hidden' // Ensure MessageList handles its own scrolling
           }}>
+            <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0, minHeight: 0 }}>
             <MessageList
               messages={messages}
               expandedSystemIndexes={expandedSystemIndexes}
               setExpandedSystemIndexes={setExpandedSystemIndexes}
               avatarUrl={avatarUrl}
-              playAudio={playAudio}
-              isPlaying={isPlaying}
-              currentPlayingId={currentPlayingId}
+              playAudio={replayMessage}
+              isPlaying={isSpeaking || isPlaying}
+              currentPlayingId={currentSpeakingId ?? currentPlayingId}
+              isPaused={isPaused}
+              onPauseAudio={canPauseReply ? pauseAudio : undefined}
+              onResumeAudio={resumeAudio}
+              onStopAudio={stopPlayback}
+              timeToFirstAudio={{ ...speechTimeToFirstAudio, ...clipTimeToFirstAudio }}
               isLoading={isLoading}
               messagesEndRef={messagesEndRef as React.RefObject<HTMLDivElement>}
+              onRegenerate={handleRegenerate}
+              onEdit={handleEditMessage}
+              onFork={handleFork}
+              onSelectBranch={handleSelectBranch}
+            />
+            </Box>
+            <CoachingPanel
+              hints={coachingHints}
+              streamingHint={streamingHint}
+              settings={coachingSettings}
+              open={coachingPanelOpen}
+              onToggleOpen={() => setCoachingPanelOpen(prev => !prev)}
+              onChangeEnabled={handleCoachingEnabledChange}
             />
           </Box>
           {/* Voice input controls - fixed at bottom */}
           <Box sx={{ flexShrink: 0, mt: 1 }}>
             <VoiceInputBar
               isListening={isListening}
+              interimTranscript={interimTranscript}
               toggleListening={toggleListening}
+              recordCalls={recordCalls}
+              onRecordCallsChange={setRecordCalls}
+              voiceMode={voiceMode}
+              onVoiceModeChange={setVoiceMode}
             />
           </Box>        </Paper>
         
@@ -513,6 +940,23 @@ const ChatInterface: React.FC = () => {
             flexShrink: 0, // Prevent buttons from shrinking
           }}
         >
+          <ConversationHistoryMenu
+            activeConversationId={conversationId}
+            listConversations={listConversations}
+            onResume={handleResumeConversation}
+            onDelete={handleDeleteConversation}
+          />
+          {selectedScenario?.account && (
+            <Button
+              variant="outlined"
+              color="inherit"
+              startIcon={<DesktopWindowsIcon />}
+              onClick={() => setDesktopOpen(true)}
+              sx={{ textTransform: 'none', fontWeight: 600, fontSize: '.9rem', borderRadius: 2, px: 3, py: 1.5, color: 'grey.700', borderColor: 'grey.300' }}
+            >
+              Agent Desktop
+            </Button>
+          )}
           <Button
             variant="outlined"
             color="inherit"
@@ -562,6 +1006,34 @@ const ChatInterface: React.FC = () => {
           </Button>
         </Box>
       </Paper>
+      <AgentDesktop
+        open={desktopOpen}
+        onClose={() => setDesktopOpen(false)}
+        conversationId={conversationId}
+        ensureConversation={() => ensureConversation(parameters)}
+        onLookup={lookup => setDesktopLookups(prev => [...prev, lookup])}
+      />
+      <Snackbar
+        open={showExitOffer}
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        disableWindowBlurListener={true}
+      >
+        <Alert
+          severity={exitCriteria?.state === 'resolution-reached' ? 'success' : 'warning'}
+          onClose={() => setExitOfferDismissedFor(exitOfferKey)}
+          action={
+            <Button color="inherit" size="small" onClick={handleAcceptExitOffer} sx={{ textTransform: 'none', fontWeight: 600 }}>
+              End &amp; Evaluate
+            </Button>
+          }
+          sx={{ width: '100%', alignItems: 'center' }}
+        >
+          {exitCriteria?.state === 'resolution-reached'
+            ? 'The customer seems satisfied and ready to end the call.'
+            : 'The customer appears to have abandoned the call.'}
+          {exitCriteria?.reason ? ` ${exitCriteria.reason}` : ''}
+        </Alert>
+      </Snackbar>
       <Snackbar
         open={Boolean(errorMessage)}
         autoHideDuration={6000}
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  Box,
+  Collapse,
+  IconButton,
+  Typography,
+  Switch,
+  FormControlLabel,
+  Tooltip,
+  Divider
+} from '@mui/material';
+import TipsAndUpdatesIcon from '@mui/icons-material/TipsAndUpdates';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import type { CoachingHint, CoachingSettings } from '../context/chat-types';
+
+interface CoachingPanelProps {
+  hints: CoachingHint[];
+  // Text of the hint currently streaming in, or null when none is in flight
+  streamingHint: string | null;
+  settings: CoachingSettings | null;
+  open: boolean;
+  onToggleOpen: () => void;
+  onChangeEnabled: (enabled: boolean) => void;
+}
+
+/**
+ * Collapsible side panel with live coaching hints for the trainee's turns.
+ * Supervisors see a switch to turn hints off for assessed runs.
+ */
+const CoachingPanel: React.FC<CoachingPanelProps> = ({
+  hints,
+  streamingHint,
+  settings,
+  open,
+  onToggleOpen,
+  onChangeEnabled
+}) => {
+  const endRef = useRef<HTMLDivElement>(null);
+  const enabled = Boolean(settings?.enabled);
+
+  // Keep the newest hint in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [hints.length, streamingHint]);
+
+  return (
+    <Box sx={{ display: 'flex', flexShrink: 0, minHeight: 0, borderLeft: '1px solid', borderColor: 'grey.200', ml: 2 }}>
+      <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', pt: 0.5 }}>
+        <Tooltip title={open ? 'Hide coaching hints' : 'Show coaching hints'} placement="left">
+          <IconButton aria-label="toggle coaching hints" size="small" onClick={onToggleOpen}>
+            {open ? <ChevronRightIcon fontSize="small" /> : <ChevronLeftIcon fontSize="small" />}
+          </IconButton>
+        </Tooltip>
+        <TipsAndUpdatesIcon fontSize="small" color={enabled ? 'primary' : 'disabled'} sx={{ mt: 1 }} />
+      </Box>
+      <Collapse in={open} orientation="horizontal" sx={{ minHeight: 0 }}>
+        <Box sx={{ width: 280, height: '100%', display: 'flex', flexDirection: 'column', minHeight: 0, pl: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexShrink: 0 }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+              Coaching
+            </Typography>
+            {settings?.canManage && (
+              <FormControlLabel
+                control={
+                  <Switch size="small" checked={enabled} onChange={e => onChangeEnabled(e.target.checked)} />
+                }
+                label={<Typography variant="caption">Allow hints</Typography>}
+                sx={{ mr: 0 }}
+              />
+            )}
+          </Box>
+          <Divider sx={{ my: 1 }} />
+          <Box sx={{ flex: 1, overflowY: 'auto', minHeight: 0, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            {!enabled && (
+              <Typography variant="body2" color="text.secondary">
+                {settings ? 'Coaching hints are turned off by a supervisor.' : 'Coaching hints are unavailable.'}
+              </Typography>
+            )}
+            {enabled && hints.length === 0 && streamingHint === null && (
+              <Typography variant="body2" color="text.secondary">
+                Hints on each of your turns will appear here.
+              </Typography>
+            )}
+            {hints.map(hint => (
+              <Box key={hint.id}>
+                <Typography variant="caption" color="text.secondary">
+                  Turn {hint.turn}
+                </Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+                  {hint.content}
+                </Typography>
+              </Box>
+            ))}
+            {streamingHint !== null && (
+              <Box>
+                <Typography variant="caption" color="text.secondary">
+                  Analyzing your turn…
+                </Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+                  {streamingHint}
+                </Typography>
+              </Box>
+            )}
+            <div ref={endRef} />
+          </Box>
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default CoachingPanel;
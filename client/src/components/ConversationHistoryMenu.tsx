@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemText,
+  IconButton,
+  Typography,
+  CircularProgress,
+  Box
+} from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import type { ConversationSummary } from '../context/chat-types';
+
+interface ConversationHistoryMenuProps {
+  activeConversationId: string | null;
+  listConversations: () => Promise<ConversationSummary[]>;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => Promise<void>;
+}
+
+/**
+ * Button that opens a list of saved conversations to resume or delete.
+ * The list is fetched every time the menu opens so it reflects other tabs.
+ */
+const ConversationHistoryMenu: React.FC<ConversationHistoryMenuProps> = ({
+  activeConversationId,
+  listConversations,
+  onResume,
+  onDelete
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const handleOpen = async (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+    setLoading(true);
+    try {
+      setConversations(await listConversations());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+      setConversations([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (event: React.MouseEvent, id: string) => {
+    // Keep the click from also resuming the conversation
+    event.stopPropagation();
+    await onDelete(id);
+    setConversations(prev => prev.filter(c => c.id !== id));
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color="inherit"
+        startIcon={<HistoryIcon />}
+        onClick={handleOpen}
+        sx={{
+          textTransform: 'none',
+          fontWeight: 600,
+          fontSize: '.9rem',
+          borderRadius: 2,
+          px: 3,
+          py: 1.5,
+          color: 'grey.700',
+          borderColor: 'grey.300',
+          background: 'rgba(255,255,255,0.7)',
+        }}
+      >
+        History
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        slotProps={{ paper: { sx: { maxHeight: 360, width: 360 } } }}
+      >
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {!loading && conversations.length === 0 && (
+          <MenuItem disabled>
+            <Typography variant="body2">No saved conversations</Typography>
+          </MenuItem>
+        )}
+        {!loading && conversations.map(conversation => (
+          <MenuItem
+            key={conversation.id}
+            selected={conversation.id === activeConversationId}
+            onClick={() => {
+              setAnchorEl(null);
+              onResume(conversation.id);
+            }}
+          >
+            <ListItemText
+              primary={conversation.title}
+              secondary={`${conversation.messageCount} messages · ${new Date(conversation.updatedAt).toLocaleString()}`}
+              slotProps={{ primary: { noWrap: true } }}
+            />
+            <IconButton
+              edge="end"
+              size="small"
+              aria-label="Delete conversation"
+              onClick={event => handleDelete(event, conversation.id)}
+            >
+              <DeleteOutlineIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ConversationHistoryMenu;
@@ -5,10 +5,13 @@ import { copyToClipboard, buildConversationData, formatDuration } from '../utils
 import { useCopySnackbar } from '../hooks/useCopySnackbar';
 import { parseExportData } from '../utils/exportDataParser';
 import type { ExportData } from '../utils/exportDataParser';
+import type { ReplyLatencyByMode } from '../context/chat-types';
 import { useAccordionState } from '../hooks/useAccordionState';
 import { usePersonaScenario } from '../context/PersonaScenarioContext';
+import { usePersistentState } from '../hooks/usePersistentState';
 import ExportDialogEvaluationContext from './ExportDialogEvaluationContext';
 import ExportDialogStatistics from './ExportDialogStatistics';
+import ExportDialogRecording from './ExportDialogRecording';
 import ExportDialogEvaluationCriteria from './ExportDialogEvaluationCriteria';
 import ExportDialogJsonTranscript from './ExportDialogJsonTranscript';
 import ExportDialogEvaluationResults from './ExportDialogEvaluationResults';
@@ -25,10 +28,17 @@ interface ExportDialogProps {
 }
 
 const ExportDialog: React.FC<ExportDialogProps> = ({ exportJson, onClose, onDownload }) => {
-  const [stats, setStats] = useState<{ speechDurationSeconds: number; audioCharacterCount: number } | null>(null);
+  const [stats, setStats] = useState<{
+    speechDurationSeconds: number;
+    audioCharacterCount: number;
+    interruptionCount: number;
+    replyLatency?: ReplyLatencyByMode;
+  } | null>(null);
   const [copySuccess, showCopySuccess, closeCopySuccess] = useCopySnackbar();
   // Use evaluation context
   const { evaluateConversation, isEvaluating, lastEvaluation, error: evaluationError } = useEvaluation();
+  // Reviewers pick the language they read reports in, independent of the call's language
+  const [reportLanguage, setReportLanguage] = usePersistentState<string>('evaluationReportLanguage', 'en-US');
   // Accordion state management with custom hook
   const { isExpanded, handleChange, setPanels } = useAccordionState(['context', 'stats']);
   // Reset panels when dialog opens: open context and stats
@@ -101,14 +111,19 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ exportJson, onClose, onDown
     setPanels(['evaluation']);
     const conversationData = buildConversationData(exportData);
     if (!conversationData) return;
-    await evaluateConversation(conversationData);
+    await evaluateConversation({ ...conversationData, reportLanguage });
   };  useEffect(() => {
     if (!exportJson) return;
     const fetchStats = async () => {
       try {
         const response = await apiClient.get('/api/stats');
         const data = response.data;
-        setStats({ speechDurationSeconds: data.speechDurationSeconds, audioCharacterCount: data.audioCharacterCount });
+        setStats({
+          speechDurationSeconds: data.speechDurationSeconds,
+          audioCharacterCount: data.audioCharacterCount,
+          interruptionCount: data.interruptionCount ?? 0,
+          replyLatency: data.replyLatency
+        });
       } catch (e: any) {
         console.error('Failed to fetch stats:', e);
         // If it's an authentication error, set stats to null to hide the statistics section
@@ -117,7 +132,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ exportJson, onClose, onDown
           setStats(null);
         } else {
           // For other errors, set default values to prevent crashes
-          setStats({ speechDurationSeconds: 0, audioCharacterCount: 0 });
+          setStats({ speechDurationSeconds: 0, audioCharacterCount: 0, interruptionCount: 0 });
         }
       }
     };
@@ -171,6 +186,14 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ exportJson, onClose, onDown
           messageCount={messageCount}
           displayDuration={displayDuration}
           stats={stats}
+          analytics={exportData?.stats?.speechAnalytics ?? null}
+        />
+
+        {/* Call Recording Section - only shown when the call was recorded */}
+        <ExportDialogRecording
+          expanded={isExpanded('recording')}
+          onChange={handleChange('recording')}
+          conversationId={exportData?.conversationId}
         />
 
         {/* Evaluation Criteria Section */}
@@ -205,6 +228,8 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ exportJson, onClose, onDown
         onAIEvaluation={handleAIEvaluation}
         isEvaluating={isEvaluating}
         exportDataHasMessages={!!exportData?.conversation?.messages?.some((msg: any) => msg.role !== 'system')}
+        reportLanguage={reportLanguage}
+        onReportLanguageChange={setReportLanguage}
         onDownload={() => onDownload(exportJson!)}
         onDownloadPdf={handleDownloadEvaluationPdf}
         onClose={onClose}
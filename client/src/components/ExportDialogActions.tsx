@@ -1,12 +1,15 @@
 import React from 'react';
-import { Box, Button, DialogActions } from '@mui/material';
+import { Box, Button, DialogActions, TextField, MenuItem } from '@mui/material';
 import DownloadIcon from '@mui/icons-material/Download';
 import AssessmentIcon from '@mui/icons-material/Assessment';
+import { REPORT_LANGUAGES } from '../utils/languages';
 
 interface ExportDialogActionsProps {
   onAIEvaluation: () => void;
   isEvaluating: boolean;
   exportDataHasMessages: boolean;
+  reportLanguage: string;
+  onReportLanguageChange: (language: string) => void;
   onDownload: () => void;
   onDownloadPdf: () => void;
   onClose: () => void;
@@ -16,13 +19,15 @@ const ExportDialogActions: React.FC<ExportDialogActionsProps> = ({
   onAIEvaluation,
   isEvaluating,
   exportDataHasMessages,
+  reportLanguage,
+  onReportLanguageChange,
   onDownload,
   onDownloadPdf,
   onClose,
 }) => (
   <DialogActions sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', pt: 2, pb: 1, gap: 2 }}>
-    {/* Left-aligned: AI Evaluation button */}
-    <Box>
+    {/* Left-aligned: AI Evaluation button and the language the report is written in */}
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
       <Button
         onClick={onAIEvaluation}
         disabled={isEvaluating || !exportDataHasMessages}
@@ -50,6 +55,19 @@ const ExportDialogActions: React.FC<ExportDialogActionsProps> = ({
       >
         <span style={{ fontWeight: 600 }}>AI Evaluation</span>
       </Button>
+      <TextField
+        select
+        size="small"
+        label="Report language"
+        value={reportLanguage}
+        onChange={e => onReportLanguageChange(e.target.value)}
+        disabled={isEvaluating}
+        sx={{ minWidth: 170 }}
+      >
+        {REPORT_LANGUAGES.map(option => (
+          <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+        ))}
+      </TextField>
     </Box>
     {/* Right-aligned: Download JSON, Download PDF, Close */}
     <Box sx={{ display: 'flex', gap: 2 }}>
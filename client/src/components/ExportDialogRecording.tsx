@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Accordion, AccordionSummary, AccordionDetails, Paper, Typography, Box, Button, Alert } from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import DownloadIcon from '@mui/icons-material/Download';
+import apiClient from '../utils/apiClient';
+import type { CallRecording, Conversation } from '../context/chat-types';
+
+interface RecordingProps {
+  expanded: boolean;
+  onChange: (event: React.SyntheticEvent, isExpanded: boolean) => void;
+  conversationId?: string;
+}
+
+function formatOffset(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Plays back and downloads the call audio when the conversation was recorded,
+ * with its turns listed by time; clicking a turn jumps to it.
+ */
+const ExportDialogRecording: React.FC<RecordingProps> = ({ expanded, onChange, conversationId }) => {
+  const [recording, setRecording] = useState<CallRecording | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    setRecording(null);
+    setAudioUrl(null);
+    setError(null);
+    if (!conversationId) return;
+    let cancelled = false;
+    let url: string | null = null;
+    apiClient.get<{ conversation: Conversation }>(`/api/conversations/${conversationId}`)
+      .then(async ({ data }) => {
+        const found = data.conversation.recording;
+        if (cancelled || !found) return;
+        setRecording(found);
+        try {
+          const audio = await apiClient.get<Blob>(`/api/conversations/${conversationId}/recording`, { responseType: 'blob' });
+          if (cancelled) return;
+          url = URL.createObjectURL(audio.data);
+          setAudioUrl(url);
+        } catch (err) {
+          console.error('Failed to load the call recording:', err);
+          if (!cancelled) setError('The call recording could not be loaded. It may have passed its retention period.');
+        }
+      })
+      // Exports of conversations the server does not know have no recording to show
+      .catch(err => console.warn('No call recording available:', err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [conversationId]);
+
+  const seek = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    void audio.play();
+  };
+
+  if (!recording) return null;
+
+  return (
+    <Accordion disableGutters square expanded={expanded} onChange={onChange} sx={{ boxShadow: 'none', mb: 1, '&:focus-within': { outline: 'none' } }}>
+      <AccordionSummary
+        expandIcon={<ExpandMoreIcon />}
+        disableRipple
+        sx={{
+          outline: 'none',
+          '&:focus': { outline: 'none' },
+          '&:focus-visible': { outline: 'none' },
+          '&.Mui-focusVisible': { outline: 'none', backgroundColor: 'transparent' },
+          '&.Mui-expanded': { backgroundColor: 'transparent' }
+        }}
+      >
+        <Typography variant="subtitle2">Call Recording ({formatOffset(recording.durationMs)})</Typography>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Paper elevation={0} sx={{ p: 1.5, mb: 1.5, bgcolor: '#f8f9fa' }}>
+          {error && <Alert severity="warning" sx={{ mb: 1 }}>{error}</Alert>}
+          {audioUrl && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <audio ref={audioRef} src={audioUrl} controls style={{ flex: 1 }} />
+              <Button
+                component="a"
+                href={audioUrl}
+                download={`call-${conversationId}.wav`}
+                startIcon={<DownloadIcon />}
+                size="small"
+                sx={{ textTransform: 'none' }}
+              >
+                WAV
+              </Button>
+            </Box>
+          )}
+          <Typography variant="caption" color="textSecondary" component="div" sx={{ mb: 1 }}>
+            Trainee on the left channel, customer on the right.
+            {recording.expiresAt && ` Kept until ${new Date(recording.expiresAt).toLocaleDateString()}.`}
+          </Typography>
+          <Box sx={{ maxHeight: 240, overflowY: 'auto' }}>
+            {recording.turns.map(turn => (
+              <Box
+                key={`${turn.speaker}-${turn.startMs}`}
+                onClick={() => seek(turn.startMs)}
+                sx={{ display: 'flex', gap: 1, py: 0.25, cursor: audioUrl ? 'pointer' : 'default', '&:hover': { bgcolor: audioUrl ? 'grey.100' : 'transparent' } }}
+              >
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', color: 'text.secondary', minWidth: 36 }}>
+                  {formatOffset(turn.startMs)}
+                </Typography>
+                <Typography variant="caption" sx={{ fontWeight: 600, minWidth: 64 }}>
+                  {turn.speaker === 'trainee' ? 'Trainee' : 'Customer'}
+                </Typography>
+                <Typography variant="caption" sx={{ flex: 1 }}>
+                  {turn.text}
+                  {turn.interrupted && <Box component="span" sx={{ color: 'text.secondary', fontStyle: 'italic' }}> (cut off)</Box>}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        </Paper>
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+export default ExportDialogRecording;
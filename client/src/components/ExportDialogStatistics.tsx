@@ -1,6 +1,7 @@
 import React from 'react';
 import { Accordion, AccordionSummary, AccordionDetails, Paper, Typography, Box } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import type { ReplyLatencyByMode, ReplyLatencyStats, SpeechAnalytics } from '../context/chat-types';
 
 interface StatisticsProps {
   expanded: boolean;
@@ -8,10 +9,34 @@ interface StatisticsProps {
   totalTokens: number;
   messageCount: number;
   displayDuration: string;
-  stats: { speechDurationSeconds: number; audioCharacterCount: number } | null;
+  stats: {
+    speechDurationSeconds: number;
+    audioCharacterCount: number;
+    interruptionCount: number;
+    // Server-wide averages per voice mode
+    replyLatency?: ReplyLatencyByMode;
+  } | null;
+  // Trainee delivery; absent for exports made before it was computed
+  analytics?: SpeechAnalytics | null;
 }
 
-const ExportDialogStatistics: React.FC<StatisticsProps> = ({ expanded, onChange, totalTokens, messageCount, displayDuration, stats }) => (
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const formatLatency = (latency: ReplyLatencyStats) => latency.averageMs !== null ? formatSeconds(latency.averageMs) : '–';
+
+// One figure of the delivery row
+const Metric: React.FC<{ value: string; label: string; color: string }> = ({ value, label, color }) => (
+  <Box textAlign="center" sx={{ flex: 1 }}>
+    <Typography variant="h6" color={color} fontWeight="bold" sx={{ fontSize: '1.1rem' }}>
+      {value}
+    </Typography>
+    <Typography variant="caption" color="textSecondary" sx={{ fontSize: '0.7rem' }}>
+      {label}
+    </Typography>
+  </Box>
+);
+
+const ExportDialogStatistics: React.FC<StatisticsProps> = ({ expanded, onChange, totalTokens, messageCount, displayDuration, stats, analytics }) => (
   <Accordion disableGutters square expanded={expanded} onChange={onChange} sx={{ boxShadow: 'none', mb: 1, '&:focus-within': { outline: 'none' } }}>
     <AccordionSummary
       expandIcon={<ExpandMoreIcon />}
@@ -59,7 +84,7 @@ const ExportDialogStatistics: React.FC<StatisticsProps> = ({ expanded, onChange,
           </Box>
         </Box>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
-          {/* Second row: Avg/Msg, Speech Secs (export duration), Audio Chars */}
+          {/* Second row: Avg/Msg, Speech Secs (export duration), Audio Chars, Interruptions */}
           <Box textAlign="center" sx={{ flex: 1 }}>
             <Typography variant="h6" color="warning.main" fontWeight="bold" sx={{ fontSize: '1.1rem' }}>
               {messageCount > 0 ? Math.round(totalTokens / messageCount) : 0}
@@ -85,9 +110,55 @@ const ExportDialogStatistics: React.FC<StatisticsProps> = ({ expanded, onChange,
                   Audio Chars
                 </Typography>
               </Box>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h6" color="secondary.main" fontWeight="bold" sx={{ fontSize: '1.1rem' }}>
+                  {stats.interruptionCount ?? 0}
+                </Typography>
+                <Typography variant="caption" color="textSecondary" sx={{ fontSize: '0.7rem' }}>
+                  Interruptions
+                </Typography>
+              </Box>
             </>
           )}
         </Box>
+        {stats?.replyLatency && (stats.replyLatency.pipeline.count > 0 || stats.replyLatency['speech-to-speech'].count > 0) && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 1.5, mb: 1, fontWeight: 600, fontSize: '0.875rem' }}>
+              Reply Latency
+            </Typography>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+              <Metric value={formatLatency(stats.replyLatency.pipeline)} label={`Pipeline (${stats.replyLatency.pipeline.count})`} color="primary" />
+              <Metric
+                value={formatLatency(stats.replyLatency['speech-to-speech'])}
+                label={`Speech-to-Speech (${stats.replyLatency['speech-to-speech'].count})`}
+                color="secondary"
+              />
+            </Box>
+            <Typography variant="caption" color="textSecondary" component="div" sx={{ mt: 1 }}>
+              Average time from the end of the trainee's speech to the first audio of the reply, over all voice calls on this server.
+            </Typography>
+          </>
+        )}
+        {analytics && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 1.5, mb: 1, fontWeight: 600, fontSize: '0.875rem' }}>
+              Delivery
+            </Typography>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+              {/* Third row: pace, fillers, talk ratio, dead air, response latency */}
+              <Metric value={analytics.wordsPerMinute !== null ? String(analytics.wordsPerMinute) : '–'} label="Words/Min" color="primary" />
+              <Metric value={String(analytics.fillerWordCount)} label={analytics.fillerRate !== null ? `Fillers (${analytics.fillerRate}/100)` : 'Fillers'} color="warning.main" />
+              <Metric value={analytics.talkRatio !== null ? `${Math.round(analytics.talkRatio * 100)}%` : '–'} label="Trainee Talk" color="secondary" />
+              <Metric value={formatSeconds(analytics.longestSilenceMs)} label="Longest Silence" color="error.main" />
+              <Metric value={analytics.averageResponseLatencyMs !== null ? formatSeconds(analytics.averageResponseLatencyMs) : '–'} label="Avg Response" color="success.main" />
+            </Box>
+            <Typography variant="caption" color="textSecondary" component="div" sx={{ mt: 1 }}>
+              {analytics.fillerWords.length > 0 && `Fillers: ${analytics.fillerWords.map(filler => `"${filler.word}" ×${filler.count}`).join(', ')}. `}
+              Talk time {formatSeconds(analytics.traineeTalkMs)} trainee, {formatSeconds(analytics.customerTalkMs)} customer;
+              {analytics.source === 'recording' ? ' timed from the call recording.' : ' estimated from message times.'}
+            </Typography>
+          </>
+        )}
       </Paper>
     </AccordionDetails>
   </Accordion>
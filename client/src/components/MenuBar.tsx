@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Box, IconButton, Collapse, Typography, useTheme, Button } from '@mui/material';
+import { Box, IconButton, Collapse, Typography, useTheme, Button, TextField, MenuItem } from '@mui/material';
 import MenuIcon from '@mui/icons-material/Menu';
 import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 import { useVoice } from '../context/VoiceContext';
@@ -9,6 +9,11 @@ import { PersonasCrud } from './PersonasCrud';
 import { ScenariosCrud } from './ScenariosCrud';
 import { MoodsCrud } from './MoodsCrud';
 import { TemplatesCrud } from './TemplatesCrud';
+import VoiceCatalogDialog from './VoiceCatalogDialog';
+import { LANGUAGE_OPTIONS, languageKey, languageLabel } from '../utils/languages';
+
+// Select value that follows the scenario's or persona's language
+const FROM_SCENARIO = 'scenario';
 
 const MenuBar: React.FC = () => {
   const [open, setOpen] = useState(false);
@@ -16,7 +21,16 @@ const MenuBar: React.FC = () => {
   const navigate = useNavigate();
   // No need to destructure scenarios since ScenariosCrud handles them
   const theme = useTheme();
-  const { voiceOptions, selectedVoice, setSelectedVoice } = useVoice();
+  const {
+    voiceOptions,
+    selectedVoice,
+    setSelectedVoice,
+    canManageVoices,
+    languageOverride,
+    setLanguageOverride,
+    sessionLanguage
+  } = useVoice();
+  const [voiceCatalogOpen, setVoiceCatalogOpen] = useState(false);
   const handleToggle = () => {
     setOpen(prev => !prev);
   };
@@ -62,11 +76,22 @@ const MenuBar: React.FC = () => {
             <MoodsCrud />
               {/* Voices Section - Under Moods */}
             <Box>
-              <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 0.5, color: '#E91E63' /* pink/magenta */ }}>Voices</Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 0.5 }}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, color: '#E91E63' /* pink/magenta */ }}>Voices</Typography>
+                {canManageVoices && (
+                  <Button size="small" sx={{ minWidth: 0, p: 0, fontSize: '0.7rem', color: '#E91E63' }} onClick={() => setVoiceCatalogOpen(true)}>
+                    Manage
+                  </Button>
+                )}
+              </Box>
+              {voiceOptions.length === 0 && (
+                <Typography variant="caption" color="text.secondary">No voices offered</Typography>
+              )}
               <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: 0.5, mb: 2 }}>
                 {voiceOptions.map(v => (
                   <Box
                     key={v.value}
+                    title={v.description}
                     onClick={() => setSelectedVoice(v.value)}                    sx={{
                       p: 0.75,
                       cursor: 'pointer',
@@ -101,6 +126,28 @@ const MenuBar: React.FC = () => {
                   </Box>
                 ))}
               </Box>
+              <VoiceCatalogDialog open={voiceCatalogOpen} onClose={() => setVoiceCatalogOpen(false)} />
+              {/* Session language - speech recognition, the customer's voice and the replies follow it */}
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, color: '#E91E63', mb: 0.5 }}>Language</Typography>
+              <TextField
+                select
+                size="small"
+                fullWidth
+                value={languageOverride ? languageKey(languageOverride) : FROM_SCENARIO}
+                onChange={e => setLanguageOverride(
+                  LANGUAGE_OPTIONS.find(option => languageKey(option.value) === e.target.value)?.value ?? null
+                )}
+                sx={{ '& .MuiInputBase-input': { fontSize: '0.75rem', py: 0.75 } }}
+              >
+                <MenuItem value={FROM_SCENARIO} sx={{ fontSize: '0.75rem' }}>
+                  From scenario{languageOverride ? '' : ` (${languageLabel(sessionLanguage)})`}
+                </MenuItem>
+                {LANGUAGE_OPTIONS.map(option => (
+                  <MenuItem key={languageKey(option.value)} value={languageKey(option.value)} sx={{ fontSize: '0.75rem' }}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
             </Box>
           </Box>          {/* Templates & Voices - Stacked vertically, more compact */}
           <Box sx={{ minWidth: 200, flex: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
@@ -1,10 +1,23 @@
-import React from 'react';
-import { Box, Avatar, Button, CircularProgress, IconButton, useTheme, styled } from '@mui/material';
+import React, { useState } from 'react';
+import { Box, Avatar, Button, CircularProgress, IconButton, TextField, Tooltip, Typography, useTheme, styled, keyframes } from '@mui/material';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { VolumeUp as VolumeUpIcon } from '@mui/icons-material';
+import {
+  VolumeUp as VolumeUpIcon,
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Stop as StopIcon,
+  Replay as ReplayIcon,
+  EditOutlined as EditIcon,
+  CallSplit as CallSplitIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon
+} from '@mui/icons-material';
 import { useVoice } from '../context/VoiceContext';
 import { markdownComponents } from './MarkdownComponents';
+import SpokenText from './SpokenText';
+import { playbackIdFor } from '../utils/playback';
+import type { SpeechRecognitionDetail } from '../context/chat-types';
 
 const MessageBubble = styled(Box, {
   shouldForwardProp: (prop) => prop !== 'isUser',
@@ -44,12 +57,45 @@ const SystemPromptBar = styled(Box)(({ theme }) => ({
   fontSize: '0.75em', // 25% smaller font size
 }));
 
+const caretBlink = keyframes`
+  0%, 50% { opacity: 1; }
+  50.01%, 100% { opacity: 0; }
+`;
+
+// Blinking caret appended to an assistant bubble while its reply is streaming
+const StreamingCaret = styled('span')({
+  display: 'inline-block',
+  width: '0.5em',
+  height: '1em',
+  marginLeft: 2,
+  verticalAlign: 'text-bottom',
+  backgroundColor: 'currentColor',
+  animation: `${caretBlink} 1s step-end infinite`,
+});
+
 export interface Message {
+  id?: string;
+  siblingIds?: string[];
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  isStreaming?: boolean;
+  interrupted?: boolean;
+  talkedOver?: boolean;
+  recognition?: SpeechRecognitionDetail;
 }
 
+const actionButtonSx = { p: 0.25, color: 'text.secondary', opacity: 0.7, '&:hover': { opacity: 1 } };
+
+const playbackButtonSx = {
+  color: 'inherit',
+  opacity: 0.7,
+  '&:hover': { opacity: 1 },
+};
+
+// Tooltip of the play button, with how long the last playback took to start
+const describeFirstAudio = (ms?: number) => ms !== undefined ? `Play (first audio after ${(ms / 1000).toFixed(2)} s last time)` : 'Play';
+
 interface MessageListProps {
   messages: Message[];
   expandedSystemIndexes: Set<number>;
@@ -58,8 +104,20 @@ interface MessageListProps {
   playAudio: (content: string, id: string, gender: string) => void;
   isPlaying: boolean;
   currentPlayingId: string | null;
+  isPaused?: boolean;
+  // Unset while the reply playing cannot be paused
+  onPauseAudio?: () => void;
+  onResumeAudio?: () => void;
+  onStopAudio?: () => void;
+  // Milliseconds to the first audio of each playback, by playback id
+  timeToFirstAudio?: Record<string, number>;
   isLoading: boolean;
   messagesEndRef: React.RefObject<HTMLDivElement>;
+  // Branch actions; only offered on messages the server has stored
+  onRegenerate?: (index: number) => void;
+  onEdit?: (index: number, content: string) => void;
+  onFork?: (index: number) => void;
+  onSelectBranch?: (messageId: string) => void;
 }
 
 const MessageList: React.FC<MessageListProps> = ({
@@ -70,11 +128,93 @@ const MessageList: React.FC<MessageListProps> = ({
   playAudio,
   isPlaying,
   currentPlayingId,
+  isPaused,
+  onPauseAudio,
+  onResumeAudio,
+  onStopAudio,
+  timeToFirstAudio,
   isLoading,
   messagesEndRef,
+  onRegenerate,
+  onEdit,
+  onFork,
+  onSelectBranch,
 }) => {
   const theme = useTheme();
   const { selectedVoice } = useVoice();
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  // The streaming bubble replaces the typing indicator once the first token arrives
+  const isStreaming = messages.some(m => m.isStreaming);
+
+  const saveEdit = () => {
+    if (editingIndex === null || !draft.trim()) return;
+    onEdit?.(editingIndex, draft.trim());
+    setEditingIndex(null);
+  };
+
+  // Version switcher, regenerate, edit and fork controls under a stored message
+  const renderActions = (message: Message, index: number) => {
+    if (!message.id || isLoading || editingIndex === index) return null;
+    const siblingIds = message.siblingIds ?? [];
+    const version = siblingIds.indexOf(message.id);
+    const isLast = index === messages.length - 1;
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 0.5,
+          mt: -0.5,
+          ...(message.role === 'user' ? { mr: 6 } : { ml: 6 }),
+        }}
+      >
+        {onSelectBranch && siblingIds.length > 1 && version !== -1 && (
+          <>
+            <IconButton size="small" aria-label="previous version" disabled={version === 0} onClick={() => onSelectBranch(siblingIds[version - 1])} sx={actionButtonSx}>
+              <ChevronLeftIcon fontSize="small" />
+            </IconButton>
+            <Typography variant="caption" color="text.secondary">
+              {version + 1}/{siblingIds.length}
+            </Typography>
+            <IconButton size="small" aria-label="next version" disabled={version === siblingIds.length - 1} onClick={() => onSelectBranch(siblingIds[version + 1])} sx={actionButtonSx}>
+              <ChevronRightIcon fontSize="small" />
+            </IconButton>
+          </>
+        )}
+        {onRegenerate && isLast && (
+          <Tooltip title={message.role === 'assistant' ? 'Regenerate reply' : 'Retry reply'}>
+            <IconButton size="small" aria-label="regenerate reply" onClick={() => onRegenerate(index)} sx={actionButtonSx}>
+              <ReplayIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        {onEdit && message.role === 'user' && (
+          <Tooltip title="Edit and resend">
+            <IconButton
+              size="small"
+              aria-label="edit message"
+              onClick={() => {
+                setEditingIndex(index);
+                setDraft(message.content);
+              }}
+              sx={actionButtonSx}
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        {onFork && !isLast && (
+          <Tooltip title="Continue from here on a new branch">
+            <IconButton size="small" aria-label="fork from this message" onClick={() => onFork(index)} sx={actionButtonSx}>
+              <CallSplitIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+    );
+  };
+
   return (
     <Box sx={{ 
       flex: 1, 
@@ -135,8 +275,8 @@ const MessageList: React.FC<MessageListProps> = ({
             key={index}
             sx={{
               display: 'flex',
-              flexDirection: 'row',
-              justifyContent: message.role === 'user' ? 'flex-end' : 'flex-start',
+              flexDirection: 'column',
+              alignItems: message.role === 'user' ? 'flex-end' : 'flex-start',
               mb: 1.2,
               width: '100%'
             }}
@@ -159,6 +299,29 @@ const MessageList: React.FC<MessageListProps> = ({
                   }}
                 />
               )}
+              {editingIndex === index ? (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, minWidth: 320, mb: 1 }}>
+                  <TextField
+                    multiline
+                    size="small"
+                    autoFocus
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        saveEdit();
+                      } else if (e.key === 'Escape') {
+                        setEditingIndex(null);
+                      }
+                    }}
+                  />
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                    <Button size="small" onClick={() => setEditingIndex(null)} sx={{ textTransform: 'none' }}>Cancel</Button>
+                    <Button size="small" variant="contained" disabled={!draft.trim()} onClick={saveEdit} sx={{ textTransform: 'none' }}>Send</Button>
+                  </Box>
+                </Box>
+              ) : (
               <MessageBubble
                 isUser={message.role === 'user'}
                 sx={{
@@ -172,37 +335,66 @@ const MessageList: React.FC<MessageListProps> = ({
                   }),
                 }}
               >
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={markdownComponents}
-                >
-                  {message.content}
-                </ReactMarkdown>
+                {message.role === 'user' && message.recognition ? (
+                  <SpokenText content={message.content} recognition={message.recognition} />
+                ) : (
+                  <ReactMarkdown
+                    remarkPlugins={[remarkGfm]}
+                    components={markdownComponents}
+                  >
+                    {message.content}
+                  </ReactMarkdown>
+                )}
+                {message.isStreaming && <StreamingCaret aria-hidden />}
+                {message.interrupted && (
+                  <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: 'text.secondary', fontStyle: 'italic' }}>
+                    Response interrupted
+                  </Typography>
+                )}
+                {message.talkedOver && (
+                  <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: 'text.secondary', fontStyle: 'italic' }}>
+                    Cut off by the trainee
+                  </Typography>
+                )}
               </MessageBubble>
-              {message.role === 'assistant' && (
-                <IconButton
-                  size="small"
-                  onClick={() => {
-                    let voiceNameOrGender: string | undefined = selectedVoice || undefined;
-                    if (!voiceNameOrGender) {
-                      voiceNameOrGender = avatarUrl.includes('/men/') ? 'male' : 'female';
-                    }
-                    playAudio(message.content, `msg-${index}`, voiceNameOrGender);
-                  }}
-                  sx={{
-                    ml: 0.5,
-                    alignSelf: 'center',
-                    color: 'inherit',
-                    opacity: 0.7,
-                    '&:hover': { opacity: 1 },
-                  }}
-                >
-                  {isPlaying && currentPlayingId === `msg-${index}` ? (
-                    <CircularProgress size={16} color="inherit" />
-                  ) : (
-                    <VolumeUpIcon fontSize="small" />
-                  )}
-                </IconButton>
+              )}
+              {message.role === 'assistant' && !message.isStreaming && (
+                isPlaying && currentPlayingId === playbackIdFor(message, index) ? (
+                  <Box sx={{ ml: 0.5, alignSelf: 'center', display: 'flex', alignItems: 'center' }}>
+                    {onPauseAudio ? (
+                      <Tooltip title={isPaused ? 'Resume' : 'Pause'}>
+                        <IconButton size="small" onClick={isPaused ? onResumeAudio : onPauseAudio} sx={playbackButtonSx}>
+                          {isPaused ? <PlayArrowIcon fontSize="small" /> : <PauseIcon fontSize="small" />}
+                        </IconButton>
+                      </Tooltip>
+                    ) : (
+                      <CircularProgress size={16} color="inherit" sx={{ mx: 0.75 }} />
+                    )}
+                    {onStopAudio && (
+                      <Tooltip title="Stop">
+                        <IconButton size="small" onClick={onStopAudio} sx={playbackButtonSx}>
+                          <StopIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </Box>
+                ) : (
+                  <Tooltip title={describeFirstAudio(timeToFirstAudio?.[playbackIdFor(message, index)])}>
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        let voiceNameOrGender: string | undefined = selectedVoice || undefined;
+                        if (!voiceNameOrGender) {
+                          voiceNameOrGender = avatarUrl.includes('/men/') ? 'male' : 'female';
+                        }
+                        playAudio(message.content, playbackIdFor(message, index), voiceNameOrGender);
+                      }}
+                      sx={{ ml: 0.5, alignSelf: 'center', ...playbackButtonSx }}
+                    >
+                      <VolumeUpIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )
               )}
               {message.role === 'user' && (
                 <Avatar
@@ -221,10 +413,11 @@ const MessageList: React.FC<MessageListProps> = ({
                 </Avatar>
               )}
             </Box>
+            {renderActions(message, index)}
           </Box>
         );
       })}
-      {isLoading && (
+      {isLoading && !isStreaming && (
         <Box
           sx={{
             display: 'flex',
@@ -40,11 +40,12 @@ export const MoodsCrud: React.FC = () => {  const {
       label: 'Mood Data (JSON)',
       multiline: true,
       required: true,
-      rows: 8,
+      rows: 12,
       validateJson: true,
       placeholder: JSON.stringify({
         mood: "Calm",
-        description: "Relaxed and composed, speaking slowly and thoughtfully"
+        description: "Relaxed and composed, speaking slowly and thoughtfully",
+        voiceStyle: { style: "friendly", rate: "-10%", pitch: "-2%", volume: "-5%" }
       }, null, 2)
     }
   ];
@@ -264,7 +265,8 @@ export const MoodsCrud: React.FC = () => {  const {
           initialData={editingMood ? {
             moodJson: JSON.stringify({
               mood: editingMood.mood,
-              ...(editingMood.description && { description: editingMood.description })
+              ...(editingMood.description && { description: editingMood.description }),
+              ...(editingMood.voiceStyle && { voiceStyle: editingMood.voiceStyle })
             }, null, 2)
           } : undefined}
           onSubmit={handleEditSubmit}
@@ -61,7 +61,8 @@ export const ScenariosCrud: React.FC = () => {
         },
         scenario_type: "customer_support",
         difficulty_level: "intermediate",
-        expected_duration_seconds: 300
+        expected_duration_seconds: 300,
+        model_parameters: { temperature: 0.4 }
       }, null, 2)
     }
   ];
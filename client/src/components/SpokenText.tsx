@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import type { SpeechRecognitionDetail } from '../context/chat-types';
+import { alignRecognizedWords, isUncertain, uncertainWords } from '../utils/recognition';
+
+interface SpokenTextProps {
+  content: string;
+  recognition: SpeechRecognitionDetail;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * A spoken trainee turn, with the words speech recognition was unsure of
+ * underlined so a misheard word is not mistaken for what the trainee said.
+ * Hovering a word shows its confidence and when it was said in the utterance.
+ */
+const SpokenText: React.FC<SpokenTextProps> = ({ content, recognition }) => {
+  const uncertainCount = uncertainWords(recognition).length;
+  return (
+    <>
+      <Box component="p" sx={{ m: 0, whiteSpace: 'pre-wrap' }}>
+        {alignRecognizedWords(content, recognition).map((segment, index) => {
+          if (!segment.word || !isUncertain(segment.word)) return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+          const { confidence, offsetMs, durationMs } = segment.word;
+          return (
+            <Tooltip
+              key={index}
+              arrow
+              title={`Heard with ${Math.round((confidence ?? 0) * 100)}% confidence at ${formatSeconds(offsetMs)} (${formatSeconds(durationMs)} long)`}
+            >
+              <Box
+                component="span"
+                sx={{ textDecoration: 'underline dotted', textUnderlineOffset: 3, bgcolor: 'rgba(255, 193, 7, 0.35)', borderRadius: 0.5, cursor: 'help' }}
+              >
+                {segment.text}
+              </Box>
+            </Tooltip>
+          );
+        })}
+      </Box>
+      {uncertainCount > 0 && (
+        <Typography variant="caption" sx={{ display: 'block', mt: 0.5, opacity: 0.8, fontStyle: 'italic' }}>
+          {uncertainCount === 1 ? '1 word' : `${uncertainCount} words`} may have been misheard
+        </Typography>
+      )}
+    </>
+  );
+};
+
+export default SpokenText;
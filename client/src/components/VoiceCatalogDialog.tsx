@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Checkbox,
+  IconButton,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+import { useVoice } from '../context/VoiceContext';
+import { useAudioPlayer } from '../hooks/useAudioPlayer';
+import type { VoiceCatalogEntry } from '../context/voice-types';
+
+interface VoiceCatalogDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lets supervisors choose which voices of the configured speech engines
+ * trainees see in the voice picker, with a spoken preview of each.
+ */
+const VoiceCatalogDialog: React.FC<VoiceCatalogDialogProps> = ({ open, onClose }) => {
+  const { loadVoiceCatalog, setOfferedVoices } = useVoice();
+  const { playAudio, stopAudio, currentPlayingId } = useAudioPlayer();
+  const [voices, setVoices] = useState<VoiceCatalogEntry[]>([]);
+  const [offered, setOffered] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const showCatalog = useCallback((catalog: VoiceCatalogEntry[]) => {
+    setVoices(catalog);
+    setOffered(new Set(catalog.filter(voice => voice.offered).map(voice => voice.key)));
+  }, []);
+
+  const load = useCallback((refresh = false) => {
+    setLoading(true);
+    setError(null);
+    loadVoiceCatalog(refresh)
+      .then(showCatalog)
+      .catch(() => setError('Failed to load voices'))
+      .finally(() => setLoading(false));
+  }, [loadVoiceCatalog, showCatalog]);
+
+  useEffect(() => {
+    if (open) load();
+    else stopAudio();
+  }, [open, load, stopAudio]);
+
+  const visibleVoices = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    if (!term) return voices;
+    return voices.filter(voice =>
+      [voice.displayName, voice.id, voice.locale, voice.provider, voice.gender].some(field => field.toLowerCase().includes(term))
+    );
+  }, [voices, filter]);
+
+  const toggle = (key: string) => {
+    setOffered(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const save = async (keys: string[] | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      showCatalog(await setOfferedVoices(keys));
+      if (keys) onClose();
+    } catch {
+      setError('Failed to save the offered voices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+      <DialogTitle sx={{ pb: 1 }}>Offered Voices</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {error && <Alert severity="error">{error}</Alert>}
+        <TextField
+          size="small"
+          placeholder="Filter by name, locale, engine or gender"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+        />
+        <Typography variant="caption" color="text.secondary">
+          {offered.size} of {voices.length} voices offered
+        </Typography>
+        {loading && voices.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <Box sx={{ maxHeight: 360, overflowY: 'auto' }}>
+            {visibleVoices.map(voice => (
+              <Box key={voice.key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Checkbox size="small" checked={offered.has(voice.key)} onChange={() => toggle(voice.key)} />
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" noWrap>{voice.displayName}</Typography>
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {voice.locale} · {voice.gender} · {voice.provider}
+                    {voice.styles.length > 0 && ` · ${voice.styles.join(', ')}`}
+                  </Typography>
+                </Box>
+                <IconButton
+                  size="small"
+                  aria-label={`preview ${voice.displayName}`}
+                  onClick={() => currentPlayingId === voice.key
+                    ? stopAudio()
+                    : playAudio(voice.samplePhrase, voice.key, voice.id, undefined, voice.locale)}
+                >
+                  {currentPlayingId === voice.key ? <StopIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+                </IconButton>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between' }}>
+        <Box>
+          <Button size="small" onClick={() => load(true)} disabled={loading}>Reload</Button>
+          <Button size="small" onClick={() => save(null)} disabled={loading}>Restore Defaults</Button>
+        </Box>
+        <Box>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button variant="contained" onClick={() => save(Array.from(offered))} disabled={loading}>Save</Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default VoiceCatalogDialog;
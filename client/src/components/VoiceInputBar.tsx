@@ -1,13 +1,30 @@
 import React from 'react';
-import { Box, IconButton, Typography } from '@mui/material';
+import { Box, IconButton, Typography, FormControlLabel, Switch } from '@mui/material';
 import { Mic as MicIcon, MicOff as MicOffIcon } from '@mui/icons-material';
+import type { VoiceMode } from '../context/scenario-parameters';
 
 interface VoiceInputBarProps {
   isListening: boolean;
+  // Words recognized so far in the current utterance
+  interimTranscript?: string;
   toggleListening: () => void;
+  // Whether both sides of voice calls are recorded
+  recordCalls: boolean;
+  onRecordCallsChange: (record: boolean) => void;
+  // Speech-to-speech hands the call to the Realtime model; it can only change between calls
+  voiceMode: VoiceMode;
+  onVoiceModeChange: (mode: VoiceMode) => void;
 }
 
-const VoiceInputBar: React.FC<VoiceInputBarProps> = ({ isListening, toggleListening }) => {
+const VoiceInputBar: React.FC<VoiceInputBarProps> = ({
+  isListening,
+  interimTranscript,
+  toggleListening,
+  recordCalls,
+  onRecordCallsChange,
+  voiceMode,
+  onVoiceModeChange
+}) => {
   return (    <Box sx={{ 
       display: 'flex', 
       flexDirection: 'column',
@@ -69,6 +86,20 @@ const VoiceInputBar: React.FC<VoiceInputBarProps> = ({ isListening, toggleListen
           🎤 Listening... Speak now
         </Typography>
       )}
+      {isListening && interimTranscript && (
+        <Typography
+          variant="body2"
+          sx={{
+            mb: 0.375,
+            maxWidth: '80%',
+            fontStyle: 'italic',
+            color: 'grey.700',
+            textAlign: 'center',
+          }}
+        >
+          {interimTranscript}
+        </Typography>
+      )}
       <Typography 
         variant="caption" 
         sx={{ 
@@ -81,6 +112,33 @@ const VoiceInputBar: React.FC<VoiceInputBarProps> = ({ isListening, toggleListen
       >
         {isListening ? 'Click to stop recording' : 'Click the microphone to start voice chat'}
       </Typography>
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <FormControlLabel
+          control={<Switch size="small" checked={recordCalls} onChange={e => onRecordCallsChange(e.target.checked)} />}
+          label={
+            <Typography variant="caption" sx={{ color: recordCalls ? 'error.main' : 'grey.600' }}>
+              {recordCalls ? 'Recording call audio' : 'Record call audio'}
+            </Typography>
+          }
+          sx={{ mt: 0.25, mr: 0 }}
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={voiceMode === 'speech-to-speech'}
+              disabled={isListening}
+              onChange={e => onVoiceModeChange(e.target.checked ? 'speech-to-speech' : 'pipeline')}
+            />
+          }
+          label={
+            <Typography variant="caption" sx={{ color: voiceMode === 'speech-to-speech' ? 'primary.main' : 'grey.600' }}>
+              Speech-to-speech
+            </Typography>
+          }
+          sx={{ mt: 0.25, mr: 0 }}
+        />
+      </Box>
     </Box>
   );
 };
@@ -1,32 +1,41 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { useTemplate } from './TemplateContext';
-import type { Message } from './chat-types';
+import type { Message, Conversation, ConversationMessage, ConversationSummary, ContextSummary, ExitCriteriaAssessment, CoachingHint, DesktopLookup } from './chat-types';
+import type { ScenarioParameters } from './scenario-parameters';
 import { ChatContext } from './chat-context';
 import { usePersistentState } from '../hooks/usePersistentState';
+import apiClient from '../utils/apiClient';
 
 interface ChatProviderProps { children: React.ReactNode }
 
+// Map a server conversation to the transcript shown in the chat
+const toMessages = (conversation: Conversation): Message[] => [
+  { role: 'system', content: conversation.systemPrompt, timestamp: Date.parse(conversation.createdAt) },
+  ...conversation.messages.map(m => ({
+    id: m.id,
+    parentId: m.parentId,
+    siblingIds: m.siblingIds,
+    role: m.role,
+    content: m.content,
+    timestamp: Date.parse(m.createdAt),
+    usage: m.metadata?.usage,
+    modelParameters: m.metadata?.modelParameters,
+    talkedOver: m.metadata?.interruption ? true : undefined,
+    recognition: m.metadata?.recognition
+  }))
+];
+
 const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   const { currentTemplate } = useTemplate();
   const initRef = useRef(false);
 
-  // Load persisted messages and token count or start fresh
-  const [messages, setMessages] = usePersistentState<Message[]>(
-    'chatMessages',
-    [],
-    {
-      version: 1,
-      migrate: (oldValue: any) => {
-        // If oldValue is an array, return as-is (legacy format)
-        if (Array.isArray(oldValue)) return oldValue;
-        // If oldValue is undefined/null, return empty array
-        if (!oldValue) return [];
-        // If oldValue is an object with data, return data
-        if (Array.isArray(oldValue.data)) return oldValue.data;
-        return [];
-      }
-    }
-  );
+  // The transcript lives on the server; only the active conversation id is kept locally
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [conversationId, setConversationId] = usePersistentState<string | null>('activeConversationId', null);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
+  const [exitCriteria, setExitCriteria] = useState<ExitCriteriaAssessment | null>(null);
+  const [coachingHints, setCoachingHints] = useState<CoachingHint[]>([]);
+  const [desktopLookups, setDesktopLookups] = useState<DesktopLookup[]>([]);
   const [totalTokens, setTotalTokens] = usePersistentState<number>(
     'totalTokens',
     0,
@@ -41,17 +50,110 @@ const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     }
   );
 
-  // Seed initial system prompt once when template is first available
+  const applyConversation = useCallback((conversation: Conversation) => {
+    setConversationId(conversation.id);
+    setMessages(toMessages(conversation));
+    setContextSummary(conversation.contextSummary ?? null);
+    setExitCriteria(conversation.exitCriteria ?? null);
+    setCoachingHints(conversation.coachingHints ?? []);
+    setDesktopLookups(conversation.desktopLookups ?? []);
+    setTotalTokens(conversation.messages.reduce((sum, m) => sum + (m.metadata?.usage?.total_tokens ?? 0), 0));
+  }, [setConversationId, setTotalTokens]);
+
+  const startConversation = useCallback(async (parameters: ScenarioParameters): Promise<Conversation> => {
+    const { data } = await apiClient.post<{ conversation: Conversation }>('/api/conversations', { parameters });
+    setConversationId(data.conversation.id);
+    return data.conversation;
+  }, [setConversationId]);
+
+  const resumeConversation = useCallback(async (id: string): Promise<void> => {
+    const { data } = await apiClient.get<{ conversation: Conversation }>(`/api/conversations/${id}`);
+    applyConversation(data.conversation);
+  }, [applyConversation]);
+
+  const forkConversation = useCallback(async (messageId: string | null): Promise<void> => {
+    if (!conversationId) return;
+    const { data } = await apiClient.post<{ conversation: Conversation }>(`/api/conversations/${conversationId}/fork`, { messageId });
+    applyConversation(data.conversation);
+  }, [conversationId, applyConversation]);
+
+  const selectBranch = useCallback(async (messageId: string): Promise<void> => {
+    if (!conversationId) return;
+    const { data } = await apiClient.put<{ conversation: Conversation }>(`/api/conversations/${conversationId}/branch`, { messageId });
+    applyConversation(data.conversation);
+  }, [conversationId, applyConversation]);
+
+  const interruptReply = useCallback(async (messageId: string, spokenChars: number): Promise<void> => {
+    if (!conversationId) return;
+    const { data } = await apiClient.post<{ message: ConversationMessage }>(
+      `/api/conversations/${conversationId}/messages/${messageId}/interruption`,
+      { spokenChars }
+    );
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, content: data.message.content, talkedOver: true } : m));
+  }, [conversationId]);
+
+  const listConversations = useCallback(async (): Promise<ConversationSummary[]> => {
+    const { data } = await apiClient.get<{ conversations: ConversationSummary[] }>('/api/conversations');
+    return data.conversations || [];
+  }, []);
+
+  const resetConversation = useCallback((systemPrompt?: string) => {
+    setConversationId(null);
+    const prompt = systemPrompt ?? currentTemplate?.prompt;
+    setMessages(prompt ? [{ role: 'system', content: prompt, timestamp: Date.now() }] : []);
+    setContextSummary(null);
+    setExitCriteria(null);
+    setCoachingHints([]);
+    setDesktopLookups([]);
+    setTotalTokens(0);
+  }, [currentTemplate, setConversationId, setTotalTokens]);
+
+  const deleteConversation = useCallback(async (id: string): Promise<void> => {
+    await apiClient.delete(`/api/conversations/${id}`);
+    if (id === conversationId) resetConversation();
+  }, [conversationId, resetConversation]);
+
+  // Resume the active conversation from the server on first load
   useEffect(() => {
-    if (!currentTemplate || initRef.current) return;
-    if (messages.length === 0) {
-      setMessages([{ role: 'system', content: currentTemplate.prompt, timestamp: Date.now() }]);
-    }
+    if (initRef.current) return;
     initRef.current = true;
-  }, [currentTemplate, messages.length, setMessages]);
+    if (!conversationId) return;
+    resumeConversation(conversationId).catch(error => {
+      console.warn('Failed to resume conversation, starting fresh:', error);
+      setConversationId(null);
+    });
+  }, [conversationId, resumeConversation, setConversationId]);
+
+  // Seed the system prompt when the template first becomes available
+  useEffect(() => {
+    if (!currentTemplate || conversationId) return;
+    setMessages(prev => prev.length === 0 ? [{ role: 'system', content: currentTemplate.prompt, timestamp: Date.now() }] : prev);
+  }, [currentTemplate, conversationId]);
 
   return (
-    <ChatContext.Provider value={{ messages, setMessages, totalTokens, setTotalTokens }}>
+    <ChatContext.Provider value={{
+      messages,
+      setMessages,
+      totalTokens,
+      setTotalTokens,
+      conversationId,
+      contextSummary,
+      setContextSummary,
+      exitCriteria,
+      setExitCriteria,
+      coachingHints,
+      setCoachingHints,
+      desktopLookups,
+      setDesktopLookups,
+      startConversation,
+      resumeConversation,
+      forkConversation,
+      selectBranch,
+      interruptReply,
+      listConversations,
+      deleteConversation,
+      resetConversation
+    }}>
       {children}
     </ChatContext.Provider>
   );
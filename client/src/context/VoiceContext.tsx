@@ -1,49 +1,93 @@
-import React, { createContext, useContext, useState } from 'react';
-import type { VoiceContextType, VoiceOption } from './voice-types';
-
-// Available voice options for Azure Speech Services
-const VOICE_OPTIONS: VoiceOption[] = [
-  { 
-    name: 'Jenny', 
-    value: 'JennyNeural', 
-    gender: 'female',
-    description: 'Clear, professional female voice'
-  },
-  { 
-    name: 'Andrew', 
-    value: 'AndrewNeural', 
-    gender: 'male',
-    description: 'Warm, friendly male voice'
-  },
-  { 
-    name: 'Fable', 
-    value: 'FableNeural', 
-    gender: 'female',
-    description: 'Expressive, storytelling female voice'
-  },  { 
-    name: 'Alloy HD', 
-    value: 'en-US-Alloy:DragonHDLatestNeural', 
-    gender: 'neutral',
-    description: 'High-definition neural voice'
-  },
-];
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import apiClient from '../utils/apiClient';
+import { useAuth } from './AuthContext';
+import { usePersonaScenario } from './PersonaScenarioContext';
+import { usePersistentState } from '../hooks/usePersistentState';
+import type { SessionLanguage } from '../utils/voiceChannel';
+import type { VoiceCatalogEntry, VoiceContextType, VoiceOption } from './voice-types';
+
+const DEFAULT_LANGUAGE = 'en-US';
+
+interface VoicesResponse {
+  voices: VoiceCatalogEntry[];
+  canManage: boolean;
+}
+
+function toVoiceOption(voice: VoiceCatalogEntry): VoiceOption {
+  return {
+    name: voice.displayName,
+    value: voice.id,
+    gender: voice.gender,
+    description: voice.styles.length > 0 ? `${voice.locale}, ${voice.styles.length} speaking styles` : voice.locale,
+    locale: voice.locale,
+    samplePhrase: voice.samplePhrase,
+  };
+}
 
 const VoiceContext = createContext<VoiceContextType | undefined>(undefined);
 
 export const VoiceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [selectedVoice, setSelectedVoice] = useState<string | null>(null);
+  // Voices the server offers, from every configured speech engine
+  const [voiceOptions, setVoiceOptions] = useState<VoiceOption[]>([]);
+  const [canManageVoices, setCanManageVoices] = useState(false);
+  const [languageOverride, setLanguageOverride] = usePersistentState<SessionLanguage | null>('sessionLanguage', null);
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { selectedPersona, selectedScenario } = usePersonaScenario();
+
+  // The same precedence the server applies when it builds the prompt
+  const sessionLanguage = useMemo((): SessionLanguage => {
+    if (languageOverride) return languageOverride;
+    const level = [selectedScenario, selectedPersona].find(item => item?.language);
+    return {
+      language: level?.language ?? DEFAULT_LANGUAGE,
+      alternateLanguages: level?.alternate_languages ?? [],
+    };
+  }, [languageOverride, selectedScenario, selectedPersona]);
+
+  const applyCatalog = useCallback((data: VoicesResponse) => {
+    setVoiceOptions(data.voices.filter(voice => voice.offered).map(toVoiceOption));
+    setCanManageVoices(data.canManage);
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || authLoading) return;
+    apiClient.get<VoicesResponse>('/api/speech/voices')
+      .then(({ data }) => applyCatalog(data))
+      .catch(error => console.warn('Failed to load voices:', error));
+  }, [isAuthenticated, authLoading, applyCatalog]);
+
+  const loadVoiceCatalog = useCallback(async (refresh = false): Promise<VoiceCatalogEntry[]> => {
+    const { data } = await apiClient.get<VoicesResponse>('/api/speech/voices', {
+      params: { all: 'true', ...(refresh ? { refresh: 'true' } : {}) },
+    });
+    applyCatalog(data);
+    return data.voices;
+  }, [applyCatalog]);
+
+  const setOfferedVoices = useCallback(async (keys: string[] | null): Promise<VoiceCatalogEntry[]> => {
+    const { data } = await apiClient.put<VoicesResponse>('/api/speech/voices/offered', { offered: keys });
+    applyCatalog(data);
+    return data.voices;
+  }, [applyCatalog]);
 
   const getVoiceByValue = (value: string): VoiceOption | undefined => {
-    return VOICE_OPTIONS.find(voice => voice.value === value);
+    return voiceOptions.find(voice => voice.value === value);
   };
 
   return (
-    <VoiceContext.Provider 
-      value={{ 
-        voiceOptions: VOICE_OPTIONS,
-        selectedVoice, 
+    <VoiceContext.Provider
+      value={{
+        voiceOptions,
+        selectedVoice,
         setSelectedVoice,
-        getVoiceByValue
+        getVoiceByValue,
+        canManageVoices,
+        loadVoiceCatalog,
+        setOfferedVoices,
+        languageOverride,
+        setLanguageOverride,
+        sessionLanguage
       }}
     >
       {children}
@@ -1,11 +1,6 @@
-import React, { createContext } from 'react';
-import type { Message } from './chat-types';
+import { createContext } from 'react';
+import type { ChatContextType } from './chat-types';
 
-export interface ChatContextType {
-  messages: Message[];
-  setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
-  totalTokens: number;
-  setTotalTokens: React.Dispatch<React.SetStateAction<number>>;
-}
+export type { ChatContextType };
 
 export const ChatContext = createContext<ChatContextType | undefined>(undefined);
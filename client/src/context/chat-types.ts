@@ -1,5 +1,31 @@
+import type { ModelParameters } from './persona-scenario-types';
+import type { ScenarioParameters, VoiceMode } from './scenario-parameters';
+
 // Shared types for ChatContext
+// One word of a recognized utterance, timed from the start of the utterance
+export interface RecognizedWord {
+  word: string;
+  offsetMs: number;
+  durationMs: number;
+  // 0–1, or null when the engine does not score single words
+  confidence: number | null;
+}
+
+// How a spoken trainee turn was recognized
+export interface SpeechRecognitionDetail {
+  words: RecognizedWord[];
+  confidence: number | null;
+  durationMs: number;
+  language?: string;
+}
+
 export interface Message {
+  // Server-side message id, set once the message is persisted in a conversation
+  id?: string;
+  // Server-side id of the message this one follows on its branch
+  parentId?: string | null;
+  // Ids of every version of this message (regenerated, edited or forked), when there is more than one
+  siblingIds?: string[];
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
@@ -8,6 +34,186 @@ export interface Message {
     completion_tokens: number;
     total_tokens: number;
   };
+  // Generation settings the server used for an assistant reply
+  modelParameters?: ModelParameters;
+  // True while an assistant reply is still being streamed in
+  isStreaming?: boolean;
+  // True when the stream dropped before the reply was complete
+  interrupted?: boolean;
+  // True when the trainee talked over this reply; content is only what was spoken
+  talkedOver?: boolean;
+  // Word timing and confidence of a spoken user turn
+  recognition?: SpeechRecognitionDetail;
+}
+
+// Server-owned conversation as returned by /api/conversations
+export interface ConversationMessage {
+  id: string;
+  parentId: string | null;
+  seq: number;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt: string;
+  metadata?: {
+    usage?: Message['usage'];
+    modelParameters?: ModelParameters;
+    // Set when the trainee talked over the reply; fullContent is what was generated
+    interruption?: { spokenChars: number; fullContent: string; interruptedAt: string };
+    recognition?: SpeechRecognitionDetail;
+    // Set on replies spoken by the Realtime model: from the end of the trainee's speech to the first reply audio
+    replyLatencyMs?: number;
+  };
+  siblingIds?: string[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  status: 'active' | 'ended';
+  parameters: ScenarioParameters;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Running summary of older turns the server folded out of the model's context window
+export interface ContextSummary {
+  content: string;
+  coveredThroughSeq: number;
+  coveredMessageCount: number;
+  updatedAt: string;
+}
+
+// Why the server could not generate a reply; sent with error responses and stream errors
+export type ChatErrorCode =
+  | 'content-filter'
+  | 'rate-limited'
+  | 'timeout'
+  | 'misconfigured'
+  | 'upstream-5xx'
+  | 'circuit-open'
+  | 'unknown';
+
+// Where the call stands against the scenario's exit criteria
+export type ConversationState = 'in-progress' | 'resolution-reached' | 'customer-abandoned';
+
+export interface ExitCriteriaAssessment {
+  state: ConversationState;
+  signalsMet: string[];
+  signalsPending: string[];
+  reason?: string;
+  assessedAt: string;
+  messageId?: string;
+}
+
+// Live feedback on a trainee turn, judged against the scenario's evaluation criteria
+export interface CoachingHint {
+  id: string;
+  turn: number;
+  content: string;
+  createdAt: string;
+}
+
+export interface CoachingSettings {
+  enabled: boolean;
+  // True for supervisors (or anyone when auth is disabled)
+  canManage: boolean;
+}
+
+export type AccountSection = 'overview' | 'services' | 'devices' | 'memos' | 'outages';
+
+// One trainee search or record view on the mock agent desktop
+export interface DesktopLookup {
+  id: string;
+  action: 'search' | 'view';
+  query?: string;
+  matched?: boolean;
+  section?: AccountSection;
+  // Trainee turns taken when the lookup happened
+  turn: number;
+  createdAt: string;
+}
+
+export interface AccountSearchResult {
+  accountNumber: string;
+  holderName: string;
+  serviceAddress?: string;
+}
+
+// One stretch of speech in a call recording, in milliseconds from the start of the file
+export interface RecordingTurn {
+  speaker: 'trainee' | 'customer';
+  startMs: number;
+  endMs: number;
+  text: string;
+  // The trainee talked over this reply
+  interrupted?: boolean;
+}
+
+// Two-channel WAV of a voice call: trainee on the left, customer on the right
+export interface CallRecording {
+  sampleRate: number;
+  durationMs: number;
+  sizeBytes: number;
+  turns: RecordingTurn[];
+  createdAt: string;
+  updatedAt: string;
+  // When the server deletes the audio; unset when recordings are kept
+  expiresAt?: string;
+}
+
+export interface FillerWordCount {
+  word: string;
+  count: number;
+}
+
+// How the trainee delivered the call; durations are in milliseconds
+export interface SpeechAnalytics {
+  // Null when no turn was spoken
+  wordsPerMinute: number | null;
+  traineeWordCount: number;
+  fillerWords: FillerWordCount[];
+  fillerWordCount: number;
+  // Filler words per 100 spoken words
+  fillerRate: number | null;
+  traineeTalkMs: number;
+  customerTalkMs: number;
+  // Trainee's share of the talk time, 0–1
+  talkRatio: number | null;
+  longestSilenceMs: number;
+  responseLatenciesMs: number[];
+  averageResponseLatencyMs: number | null;
+  // Timed from the call recording, or estimated from message timestamps
+  source: 'recording' | 'transcript';
+  computedAt: string;
+}
+
+// Time from the end of the trainee's speech to the first reply audio, across the server's calls
+export interface ReplyLatencyStats {
+  count: number;
+  averageMs: number | null;
+}
+
+export type ReplyLatencyByMode = Record<VoiceMode, ReplyLatencyStats>;
+
+// Which version of each regenerated, edited or forked message the exported branch used
+export interface ConversationBranchInfo {
+  leafMessageId: string | null;
+  messageIds: string[];
+  alternatives: Array<{ messageId: string; version: number; versionCount: number }>;
+}
+
+export interface Conversation extends ConversationSummary {
+  systemPrompt: string;
+  modelParameters: ModelParameters;
+  contextSummary: ContextSummary | null;
+  exitCriteria: ExitCriteriaAssessment | null;
+  coachingHints: CoachingHint[];
+  desktopLookups: DesktopLookup[];
+  recording: CallRecording | null;
+  speechAnalytics: SpeechAnalytics | null;
+  // The active branch only
+  messages: ConversationMessage[];
 }
 
 export interface ChatContextType {
@@ -15,6 +221,30 @@ export interface ChatContextType {
   setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
   totalTokens: number;
   setTotalTokens: React.Dispatch<React.SetStateAction<number>>;
+  // Id of the server conversation the transcript belongs to; null until the first turn
+  conversationId: string | null;
+  contextSummary: ContextSummary | null;
+  setContextSummary: React.Dispatch<React.SetStateAction<ContextSummary | null>>;
+  // Latest exit-criteria assessment for the active conversation's scenario
+  exitCriteria: ExitCriteriaAssessment | null;
+  setExitCriteria: React.Dispatch<React.SetStateAction<ExitCriteriaAssessment | null>>;
+  coachingHints: CoachingHint[];
+  setCoachingHints: React.Dispatch<React.SetStateAction<CoachingHint[]>>;
+  // Account lookups on the agent desktop, shown to the evaluator
+  desktopLookups: DesktopLookup[];
+  setDesktopLookups: React.Dispatch<React.SetStateAction<DesktopLookup[]>>;
+  startConversation: (parameters: ScenarioParameters) => Promise<Conversation>;
+  resumeConversation: (id: string) => Promise<void>;
+  // Continue from an earlier message (null for the start); later turns stay on their own branch
+  forkConversation: (messageId: string | null) => Promise<void>;
+  // Show another version of a message and the turns that followed it
+  selectBranch: (messageId: string) => Promise<void>;
+  // Cut a reply the trainee talked over down to the spokenChars characters that were heard
+  interruptReply: (messageId: string, spokenChars: number) => Promise<void>;
+  listConversations: () => Promise<ConversationSummary[]>;
+  deleteConversation: (id: string) => Promise<void>;
+  // Detaches from the server conversation and shows only the given system prompt
+  resetConversation: (systemPrompt?: string) => void;
 }
 
 // Enhanced evaluation export types
@@ -51,6 +281,13 @@ export interface EvaluationExportData {
   
   conversation: {
     messages: Message[];
+    // Summary that stood in for the oldest turns in the model's context, if any
+    contextSummary?: ContextSummary | null;
+    exitCriteria?: ExitCriteriaAssessment | null;
+    coachingHints?: CoachingHint[];
+    desktopLookups?: DesktopLookup[];
+    // The branch that was evaluated
+    branch?: ConversationBranchInfo;
     messageCount: number;
     userMessageCount: number;
     assistantMessageCount: number;
@@ -68,7 +305,10 @@ export interface EvaluationExportData {
       llmTokenCount: number;
       speechDurationSeconds: number;
       audioCharacterCount: number;
+      interruptionCount: number;
+      replyLatency?: ReplyLatencyByMode;
     } | null;
+    speechAnalytics?: SpeechAnalytics | null;
   };
     evaluationCriteria: {
     scenarioId?: string | null;
@@ -1,8 +1,12 @@
 // Types for agent evaluation functionality
+import type { SpeechRecognitionDetail } from './chat-types';
+
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  // Word timing and confidence of a spoken trainee turn
+  recognition?: SpeechRecognitionDetail;
 }
 
 export interface ConversationData {
@@ -14,6 +18,8 @@ export interface ConversationData {
     context?: string;
     [key: string]: any;
   };
+  // Language to write the report in, e.g. 'es-MX'; English when omitted
+  reportLanguage?: string;
 }
 
 export interface EvaluationResult {
@@ -3,4 +3,17 @@ export interface Mood {
   id: string;
   mood: string;
   description?: string;
+  // Speaking style and prosody the customer's voice takes on in this mood
+  voiceStyle?: MoodVoiceStyle | null;
+}
+
+export interface MoodVoiceStyle {
+  // Azure speaking style, e.g. 'angry', 'cheerful', 'terrified'
+  style?: string;
+  // Style intensity from 0.01 to 2
+  styleDegree?: number;
+  // Relative (+10%) or named (slow, fast) prosody values
+  rate?: string;
+  pitch?: string;
+  volume?: string;
 }
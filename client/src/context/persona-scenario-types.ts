@@ -9,6 +9,19 @@ export interface Persona {
   behavior?: string;
   needs?: string;
   painpoints?: string;
+  // Language the customer speaks unless the scenario or session sets one, e.g. 'es-MX'
+  language?: string;
+  // Other languages the customer may switch to
+  alternate_languages?: string[];
+}
+
+// Generation settings the server applied to a reply (see ChatResponse.modelParameters)
+export interface ModelParameters {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
 }
 
 export interface Scenario {
@@ -37,6 +50,31 @@ export interface Scenario {
   scenario_type: string;
   difficulty_level?: string;
   expected_duration_seconds?: number;
+  // Overrides the template's generation settings for this scenario
+  model_parameters?: ModelParameters;
+  // Mock CRM record shown on the agent desktop
+  account?: ScenarioAccount;
+  // Language of the call, over the persona's; the session can still override it
+  language?: string;
+  alternate_languages?: string[];
   version?: string;
   [key: string]: unknown;
 }
+
+export interface ScenarioAccount {
+  account_number: string;
+  holder: {
+    name?: string;
+    phone?: string;
+    email?: string;
+    service_address?: string;
+    security_pin?: string;
+    last4_ssn?: string;
+    customer_since?: string;
+  };
+  authorized_users?: Array<{ name: string; relationship: string }>;
+  services: Array<{ name: string; status: string; monthly_rate?: number; notes?: string }>;
+  devices: Array<{ type: string; model: string; serial?: string; status: string; last_seen?: string }>;
+  memos: Array<{ date: string; author: string; note: string }>;
+  outages?: Array<{ area: string; status: 'active' | 'resolved'; description: string; started_at?: string; estimated_resolution?: string }>;
+}
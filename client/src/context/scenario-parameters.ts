@@ -1,5 +1,9 @@
 import type { Message } from './chat-types';
 
+// How a voice call is carried: speech recognition, chat model and speech synthesis in turn ('pipeline'),
+// or the Realtime model hearing the trainee and answering aloud itself ('speech-to-speech')
+export type VoiceMode = 'pipeline' | 'speech-to-speech';
+
 // Scenario parameters for chat API
 export interface ScenarioParameters {
   persona: string;
@@ -9,6 +13,11 @@ export interface ScenarioParameters {
   voice: string;
   templateName?: string;
   scenarioId?: string;
+  // Session language over the scenario's and persona's; omitted to use theirs
+  language?: string;
+  alternateLanguages?: string[];
+  // Voice mode the conversation was started in; 'pipeline' when unset
+  voiceMode?: VoiceMode;
 }
 
 export interface ChatRequest {
@@ -1,9 +1,28 @@
 // Voice-related types for VoiceContext
+import type { SessionLanguage } from '../utils/voiceChannel';
+
 export interface VoiceOption {
   name: string;
   value: string;
   gender: 'male' | 'female' | 'neutral';
   description?: string;
+  locale?: string;
+  // Line to speak when previewing the voice
+  samplePhrase?: string;
+}
+
+// One voice of a server speech engine, as listed by /api/speech/voices
+export interface VoiceCatalogEntry {
+  // provider/id, what supervisors offer or withdraw
+  key: string;
+  provider: string;
+  id: string;
+  displayName: string;
+  gender: 'male' | 'female' | 'neutral';
+  locale: string;
+  styles: string[];
+  samplePhrase: string;
+  offered: boolean;
 }
 
 export interface VoiceContextType {
@@ -11,4 +30,15 @@ export interface VoiceContextType {
   selectedVoice: string | null;
   setSelectedVoice: (voice: string | null) => void;
   getVoiceByValue: (value: string) => VoiceOption | undefined;
+  // Whether the user may choose which voices are offered
+  canManageVoices: boolean;
+  // Every voice, offered or not, for curation; `refresh` asks the engines again
+  loadVoiceCatalog: (refresh?: boolean) => Promise<VoiceCatalogEntry[]>;
+  // Offers exactly these voice keys; null restores the server defaults
+  setOfferedVoices: (keys: string[] | null) => Promise<VoiceCatalogEntry[]>;
+  // Language the trainee picked for the session; null follows the scenario, then the persona
+  languageOverride: SessionLanguage | null;
+  setLanguageOverride: (language: SessionLanguage | null) => void;
+  // What the session is held in: the override, else the scenario's, the persona's or en-US
+  sessionLanguage: SessionLanguage;
 }
@@ -1,77 +1,256 @@
 import { useState, useCallback, useRef } from 'react';
+import axios from 'axios';
 import apiClient from '../utils/apiClient';
+import { streamSynthesizedSpeech } from '../utils/speechApi';
+import { toVoiceRequest, type SpeechInterruption } from '../utils/voiceChannel';
+
+// Longer texts would make the query string too long for some proxies
+const MAX_CACHEABLE_TEXT_LENGTH = 1500;
+
+// A slow speaking rate, so a clip cut off while still streaming is not credited with more than was heard
+const SLOW_CHARS_PER_SECOND = 12;
 
 interface AudioPlayerState {
   isPlaying: boolean;
+  // True while the current clip is paused part-way
+  isPaused: boolean;
   currentPlayingId: string | null;
-  playAudio: (text: string, id: string, voiceGender?: string) => Promise<void>;
+  // Milliseconds from asking for a clip to hearing its first audio, by playback id
+  timeToFirstAudio: Record<string, number>;
+  // Streams the clip and starts playing as soon as the first audio arrives; resolves when it has played
+  playAudio: (text: string, id: string, voiceGender?: string, mood?: string, language?: string) => Promise<void>;
+  // Fetches the whole clip, which the browser's HTTP cache and the server's audio cache can answer
+  replayAudio: (text: string, id: string, voiceGender?: string, mood?: string, language?: string) => Promise<void>;
+  pauseAudio: () => void;
+  resumeAudio: () => void;
   stopAudio: () => void;
+  interruptAudio: () => SpeechInterruption | null;
+}
+
+// The clip being fetched or played, so it can be paused or cancelled part-way
+interface Clip {
+  id: string;
+  text: string;
+  controller: AbortController;
+  // Streamed clips play through a worklet in a context of their own; replays through an audio element
+  context?: AudioContext;
+  audio?: HTMLAudioElement;
+  // Settles playAudio() when the clip is stopped before it finished playing
+  settle?: () => void;
+  // Share of the clip heard so far, 0–1
+  heard: () => number;
+}
+
+// Turns 16-bit little-endian PCM into samples for the worklet; a sample split across chunks waits for the next one
+function createPcmDecoder() {
+  let carry: number | null = null;
+  return (chunk: Uint8Array): Float32Array => {
+    let bytes = chunk;
+    if (carry !== null) {
+      bytes = new Uint8Array(chunk.length + 1);
+      bytes[0] = carry;
+      bytes.set(chunk, 1);
+      carry = null;
+    }
+    if (bytes.length % 2 === 1) {
+      carry = bytes[bytes.length - 1];
+      bytes = bytes.subarray(0, bytes.length - 1);
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = new Float32Array(bytes.length / 2);
+    for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 0x8000;
+    return samples;
+  };
 }
 
+function release(clip: Clip) {
+  clip.controller.abort();
+  clip.settle?.();
+  if (clip.audio) {
+    clip.audio.pause();
+    clip.audio.src = '';
+  }
+  if (clip.context && clip.context.state !== 'closed') void clip.context.close().catch(() => undefined);
+}
+
+/**
+ * Plays synthesized replies over HTTP, for when the voice channel is not
+ * available and for replays. New replies stream as raw PCM into an
+ * AudioWorklet, so the first words play while the rest is still being
+ * synthesized; replays fetch the whole clip so caches can answer them. Either
+ * can be paused or stopped part-way, and the time to first audio of each clip
+ * is reported.
+ */
 export const useAudioPlayer = (): AudioPlayerState => {
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [currentPlayingId, setCurrentPlayingId] = useState<string | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [timeToFirstAudio, setTimeToFirstAudio] = useState<Record<string, number>>({});
+  const currentRef = useRef<Clip | null>(null);
+
+  // Stops whatever is playing and makes `clip` the current one
+  const begin = useCallback((clip: Clip) => {
+    if (currentRef.current) release(currentRef.current);
+    currentRef.current = clip;
+    setIsPlaying(true);
+    setIsPaused(false);
+    setCurrentPlayingId(clip.id);
+  }, []);
+
+  const finish = useCallback((clip: Clip) => {
+    if (currentRef.current !== clip) return;
+    currentRef.current = null;
+    release(clip);
+    setIsPlaying(false);
+    setIsPaused(false);
+    setCurrentPlayingId(null);
+  }, []);
 
-  const playAudio = useCallback(async (text: string, id: string, voice?: string) => {
+  const recordFirstAudio = useCallback((id: string, requestedAt: number) => {
+    const ms = Math.round(performance.now() - requestedAt);
+    setTimeToFirstAudio(prev => ({ ...prev, [id]: ms }));
+  }, []);
+
+  const playAudio = useCallback(async (text: string, id: string, voice?: string, mood?: string, language?: string) => {
+    const clip: Clip = { id, text, controller: new AbortController(), heard: () => 0 };
+    begin(clip);
+    const requestedAt = performance.now();
+    const decode = createPcmDecoder();
+    let sampleRate = 0;
+    let receivedSamples = 0;
+    let playedSamples = 0;
+    let complete = false;
+    // The clip's length is only known once it has all arrived; until then the share is estimated low
+    clip.heard = () => {
+      if (receivedSamples === 0) return 0;
+      const share = playedSamples / receivedSamples;
+      if (complete) return share;
+      const spokenChars = playedSamples / sampleRate * SLOW_CHARS_PER_SECOND;
+      return Math.min(share, text.length > 0 ? spokenChars / text.length : 0);
+    };
     try {
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = '';
-        audioRef.current = null;
-      }
-      setIsPlaying(true);
-      setCurrentPlayingId(id);      // Determine if voice is a known name or gender
-      let voiceGender: string | undefined;
-      let voiceName: string | undefined;
-      if (voice === 'JennyNeural' || voice === 'AndrewNeural' || voice === 'FableNeural' || voice === 'en-US-Alloy:DragonHDLatestNeural') {
-        voiceName = voice;
-      } else if (voice === 'male' || voice === 'female') {
-        voiceGender = voice;
-      }      // Fetch the full MP3 audio as a blob
-      const response = await apiClient.post('/api/speech/synthesize', 
-        { text, voiceGender, voiceName },
-        { responseType: 'blob' }
-      );
+      await new Promise<void>((resolve, reject) => {
+        clip.settle = resolve;
+        let player: Promise<AudioWorkletNode> | null = null;
+        streamSynthesizedSpeech({ text, ...toVoiceRequest(voice, mood, language) }, {
+          onStart: rate => {
+            sampleRate = rate;
+            // The context runs at the stream's rate, so the samples play as they are
+            const context = new AudioContext({ sampleRate });
+            clip.context = context;
+            if (context.state === 'suspended') void context.resume();
+            player = context.audioWorklet.addModule(new URL('../worklets/pcm-player.js', import.meta.url)).then(() => {
+              const node = new AudioWorkletNode(context, 'pcm-player');
+              node.port.onmessage = (event: MessageEvent<{ type: 'started' | 'position' | 'ended'; played?: number }>) => {
+                const message = event.data;
+                if (message.played !== undefined) playedSamples = message.played;
+                if (message.type === 'started') recordFirstAudio(id, requestedAt);
+                if (message.type === 'ended') resolve();
+              };
+              node.connect(context.destination);
+              return node;
+            });
+            player.catch(reject);
+          },
+          onAudio: chunk => {
+            const samples = decode(chunk);
+            if (samples.length === 0) return;
+            receivedSamples += samples.length;
+            // Chunks wait for the worklet to load, and are handed over in order
+            void player?.then(node => node.port.postMessage(samples, [samples.buffer]), () => undefined);
+          },
+        }, clip.controller.signal)
+          .then(() => {
+            complete = true;
+            if (!player) resolve();
+            else void player.then(node => node.port.postMessage('end'), () => undefined);
+          })
+          .catch(reject);
+      });
+    } catch (error) {
+      // Stopped or replaced while the clip was still being synthesized
+      if (clip.controller.signal.aborted) return;
+      console.error('playAudio error', error);
+    } finally {
+      finish(clip);
+    }
+  }, [begin, finish, recordFirstAudio]);
+
+  const replayAudio = useCallback(async (text: string, id: string, voice?: string, mood?: string, language?: string) => {
+    const clip: Clip = { id, text, controller: new AbortController(), heard: () => 0 };
+    begin(clip);
+    const requestedAt = performance.now();
+    try {
+      // Short texts go by GET so the browser's HTTP cache can answer replays
+      const request = { text, ...toVoiceRequest(voice, mood, language) };
+      const options = { responseType: 'blob' as const, signal: clip.controller.signal };
+      const response = text.length <= MAX_CACHEABLE_TEXT_LENGTH
+        ? await apiClient.get('/api/speech/synthesize', { ...options, params: request })
+        : await apiClient.post('/api/speech/synthesize', request, options);
+      if (currentRef.current !== clip) return;
       const audioBlob = response.data;
       console.debug('Fetched audio blob:', audioBlob, 'size:', audioBlob.size, 'type:', audioBlob.type);
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audio = new Audio(audioUrl);
-      audioRef.current = audio;
-      audio.onended = () => {
-        setIsPlaying(false);
-        setCurrentPlayingId(null);
-      };
+      const audio = new Audio(URL.createObjectURL(audioBlob));
+      clip.audio = audio;
+      clip.heard = () => audio.duration > 0 ? audio.currentTime / audio.duration : 0;
+      audio.addEventListener('playing', () => recordFirstAudio(id, requestedAt), { once: true });
+      audio.onended = () => finish(clip);
       audio.onerror = (e) => {
         // Only log error if audio is actually playing
         if (!audio.paused) {
-          setIsPlaying(false);
-          setCurrentPlayingId(null);
+          finish(clip);
           console.error('Audio element error', e);
         }
       };
       await audio.play();
     } catch (error) {
-      setIsPlaying(false);
-      setCurrentPlayingId(null);
-      console.error('playAudio error', error);
+      // Interrupted while the clip was still being synthesized
+      if (axios.isCancel(error) || clip.controller.signal.aborted) return;
+      finish(clip);
+      console.error('replayAudio error', error);
     }
+  }, [begin, finish, recordFirstAudio]);
+
+  const pauseAudio = useCallback(() => {
+    const clip = currentRef.current;
+    if (!clip) return;
+    clip.audio?.pause();
+    if (clip.context?.state === 'running') void clip.context.suspend();
+    setIsPaused(true);
   }, []);
 
-  const stopAudio = useCallback(() => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
-      audioRef.current = null;
-    }
-    setIsPlaying(false);
-    setCurrentPlayingId(null);
+  const resumeAudio = useCallback(() => {
+    const clip = currentRef.current;
+    if (!clip) return;
+    void clip.audio?.play();
+    if (clip.context?.state === 'suspended') void clip.context.resume();
+    setIsPaused(false);
   }, []);
 
+  const stopAudio = useCallback(() => {
+    const clip = currentRef.current;
+    if (clip) finish(clip);
+  }, [finish]);
+
+  // Stops the current clip, estimating how much of its text was heard from the playback position
+  const interruptAudio = useCallback((): SpeechInterruption | null => {
+    const clip = currentRef.current;
+    if (!clip) return null;
+    const heard = clip.heard();
+    stopAudio();
+    return { id: clip.id, spokenChars: Math.floor(clip.text.length * heard) };
+  }, [stopAudio]);
+
   return {
     isPlaying,
+    isPaused,
     currentPlayingId,
+    timeToFirstAudio,
     playAudio,
+    replayAudio,
+    pauseAudio,
+    resumeAudio,
     stopAudio,
+    interruptAudio,
   };
 };
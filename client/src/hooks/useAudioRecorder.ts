@@ -5,7 +5,8 @@ import { useRef, useState, useCallback } from 'react';
 import apiClient from '../utils/apiClient';
 
 export interface UseAudioRecorderResult {
-  startRecording: () => void;
+  // Recognizes the given language, en-US by default
+  startRecording: (language?: string) => void;
   stopRecording: () => void;
   transcript: string;
   speechDuration: number; // milliseconds
@@ -50,7 +51,7 @@ export const useAudioRecorder = (): UseAudioRecorderResult => {
   const firstResultTime = useRef<number | null>(null);
   const lastResultTime = useRef<number | null>(null);
 
-  const startRecording = useCallback(() => {
+  const startRecording = useCallback((language = 'en-US') => {
     const SpeechRecognitionImpl = (window as unknown as { SpeechRecognition?: new () => ISpeechRecognition; webkitSpeechRecognition?: new () => ISpeechRecognition; }).SpeechRecognition ||
       (window as unknown as { SpeechRecognition?: new () => ISpeechRecognition; webkitSpeechRecognition?: new () => ISpeechRecognition; }).webkitSpeechRecognition;
     if (!SpeechRecognitionImpl) {
@@ -60,7 +61,7 @@ export const useAudioRecorder = (): UseAudioRecorderResult => {
     const recognition: ISpeechRecognition = new SpeechRecognitionImpl();
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = language;
 
     recognition.onresult = (event: SpeechRecognitionEvent) => {
       if (event.results.length > 0) {
@@ -2,15 +2,18 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import * as SpeechSDK from 'microsoft-cognitiveservices-speech-sdk';
 import { fetchSpeechToken } from '../utils/speechApi';
 import apiClient from '../utils/apiClient';
+import type { SessionLanguage } from '../utils/voiceChannel';
+import type { SpeechRecognitionDetail } from '../context/chat-types';
+import { readAzureRecognition } from '../utils/recognition';
 
 interface SpeechRecognitionState {
   isListening: boolean;
   error: string | null;
-  startListening: () => Promise<void>;
+  startListening: (language?: SessionLanguage) => Promise<void>;
   stopListening: () => void;
 }
 
-export const useAzureSpeechRecognition = (onTranscript: (text: string) => void): SpeechRecognitionState => {
+export const useAzureSpeechRecognition = (onTranscript: (text: string, recognition?: SpeechRecognitionDetail) => void): SpeechRecognitionState => {
   const [isListening, setIsListening] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [speechToken, setSpeechToken] = useState<string | null>(null);
@@ -48,7 +51,7 @@ export const useAzureSpeechRecognition = (onTranscript: (text: string) => void):
     return () => { isMounted = false; };
   }, []);
 
-  const startListening = useCallback(async () => {
+  const startListening = useCallback(async (language?: SessionLanguage) => {
     setError(null);
     cleanup();
     try {
@@ -61,7 +64,7 @@ export const useAzureSpeechRecognition = (onTranscript: (text: string) => void):
         speechToken,
         speechRegion
       );
-      speechConfig.speechRecognitionLanguage = 'en-US';        // Optimized audio configuration for natural speech with good responsiveness
+      speechConfig.speechRecognitionLanguage = language?.language ?? 'en-US';        // Optimized audio configuration for natural speech with good responsiveness
       speechConfig.setProperty(SpeechSDK.PropertyId.SpeechServiceConnection_InitialSilenceTimeoutMs, "5000");
       speechConfig.setProperty(SpeechSDK.PropertyId.SpeechServiceConnection_EndSilenceTimeoutMs, "600");
       speechConfig.setProperty(SpeechSDK.PropertyId.Speech_SegmentationSilenceTimeoutMs, "600");
@@ -69,11 +72,24 @@ export const useAzureSpeechRecognition = (onTranscript: (text: string) => void):
       // Enable detailed logging and profanity filtering
       speechConfig.enableDictation();
       speechConfig.setProperty(SpeechSDK.PropertyId.SpeechServiceResponse_RequestDetailedResultTrueFalse, "true");
+      // Time and score each word, so uncertain words can be flagged on the message
+      speechConfig.outputFormat = SpeechSDK.OutputFormat.Detailed;
+      speechConfig.requestWordLevelTimestamps();
+      speechConfig.setServiceProperty('wordLevelConfidence', 'true', SpeechSDK.ServicePropertyChannel.UriQueryParameter);
       
       // Use the default microphone
       const audioConfig = SpeechSDK.AudioConfig.fromDefaultMicrophoneInput();
       
-      const recognizer = new SpeechSDK.SpeechRecognizer(speechConfig, audioConfig);
+      // With alternates, each utterance is recognized in whichever candidate language it is spoken in
+      const candidates = language && language.alternateLanguages.length > 0
+        ? [language.language, ...language.alternateLanguages]
+        : null;
+      if (candidates) {
+        speechConfig.setProperty(SpeechSDK.PropertyId.SpeechServiceConnection_LanguageIdMode, 'Continuous');
+      }
+      const recognizer = candidates
+        ? SpeechSDK.SpeechRecognizer.FromConfig(speechConfig, SpeechSDK.AutoDetectSourceLanguageConfig.fromLanguages(candidates), audioConfig)
+        : new SpeechSDK.SpeechRecognizer(speechConfig, audioConfig);
       recognizerRef.current = recognizer;
         setIsListening(true);
       // Reset speech duration tracking for this session
@@ -85,7 +101,11 @@ export const useAzureSpeechRecognition = (onTranscript: (text: string) => void):
       };
       recognizer.recognized = (_s, e) => {
         if (e.result.reason === SpeechSDK.ResultReason.RecognizedSpeech && e.result.text) {
-          onTranscript(e.result.text);
+          const detected = candidates ? SpeechSDK.AutoDetectSourceLanguageResult.fromResult(e.result).language : undefined;
+          onTranscript(e.result.text, readAzureRecognition(
+            e.result.properties.getProperty(SpeechSDK.PropertyId.SpeechServiceResponse_JsonResult),
+            { offset: e.result.offset, duration: e.result.duration, language: detected || language?.language || 'en-US' }
+          ));
         }
       };
       recognizer.sessionStarted = () => {
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import apiClient from '../utils/apiClient';
+import type { CoachingSettings } from '../context/chat-types';
+
+/**
+ * useCoachingSettings - loads whether live coaching hints are allowed and lets
+ * supervisors turn them on or off for everyone.
+ * @param enabled fetch only once the user is authenticated
+ */
+export function useCoachingSettings(enabled: boolean) {
+  const [settings, setSettings] = useState<CoachingSettings | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    apiClient.get<{ settings: CoachingSettings }>('/api/coaching/settings')
+      .then(({ data }) => setSettings(data.settings))
+      .catch(error => {
+        console.warn('Failed to load coaching settings, hints disabled:', error);
+        setSettings(null);
+      });
+  }, [enabled]);
+
+  const setCoachingEnabled = useCallback(async (value: boolean) => {
+    const { data } = await apiClient.put<{ settings: CoachingSettings }>('/api/coaching/settings', { enabled: value });
+    setSettings(data.settings);
+  }, []);
+
+  return { settings, setCoachingEnabled };
+}
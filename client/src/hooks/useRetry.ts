@@ -2,40 +2,48 @@ import { useState, useCallback } from 'react';
 
 interface RetryConfig {
   maxAttempts?: number;
+  // Base delay; doubles with each attempt and is randomised (full jitter)
   delayMs?: number;
+  // Return false to fail immediately, e.g. for errors a retry cannot fix
+  shouldRetry?: (error: unknown) => boolean;
+  // Server-requested wait (Retry-After) that overrides the backoff
+  getRetryAfterMs?: (error: unknown) => number | undefined;
 }
 
-export const useRetry = ({ maxAttempts = 3, delayMs = 1000 }: RetryConfig = {}) => {
+const alwaysRetry = () => true;
+const noRetryAfter = () => undefined;
+
+export const useRetry = ({
+  maxAttempts = 3,
+  delayMs = 1000,
+  shouldRetry = alwaysRetry,
+  getRetryAfterMs = noRetryAfter
+}: RetryConfig = {}) => {
   const [attemptCount, setAttemptCount] = useState(0);
 
+  /**
+   * Runs the operation, retrying with exponential backoff until it succeeds,
+   * a non-retryable error occurs or attempts run out. onError is called for
+   * each failed attempt that will be retried; the last error is thrown.
+   */
   const executeWithRetry = useCallback(async <T>(
     operation: () => Promise<T>,
     onError?: (error: Error, attempt: number) => void
   ): Promise<T> => {
-    try {
-      const result = await operation();
-      setAttemptCount(0); // Reset on success
-      return result;
-    } catch (error) {
-      setAttemptCount(count => {
-        const nextCount = count + 1;
-        if (nextCount < maxAttempts) {
-          // If we haven't reached max attempts, wait and try again
-          setTimeout(async () => {
-            try {
-              await operation();
-              setAttemptCount(0); // Reset on success
-            } catch (retryError) {
-              onError?.(retryError as Error, nextCount);
-            }
-          }, delayMs);
-        }
-        return nextCount;
-      });
-      
-      throw error;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await operation();
+        setAttemptCount(0); // Reset on success
+        return result;
+      } catch (error) {
+        setAttemptCount(attempt);
+        if (attempt >= maxAttempts || !shouldRetry(error)) throw error;
+        onError?.(error as Error, attempt);
+        const wait = getRetryAfterMs(error) ?? Math.random() * delayMs * 2 ** (attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
     }
-  }, [maxAttempts, delayMs]);
+  }, [maxAttempts, delayMs, shouldRetry, getRetryAfterMs]);
 
   return {
     executeWithRetry,
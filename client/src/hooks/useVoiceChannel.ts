@@ -0,0 +1,388 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  openVoiceSocket,
+  sendVoiceMessage,
+  toVoiceRequest,
+  VOICE_INPUT_SAMPLE_RATE,
+  type SpeechInterruption,
+  type SessionLanguage,
+  type VoiceCallOptions,
+  type VoiceServerMessage,
+} from '../utils/voiceChannel';
+import type { ConversationMessage, ExitCriteriaAssessment, SpeechRecognitionDetail } from '../context/chat-types';
+
+interface VoiceChannelState {
+  isListening: boolean;
+  error: string | null;
+  interimTranscript: string;
+  // Speech-to-speech calls need the conversation the Realtime model continues
+  startListening: (language?: SessionLanguage, call?: VoiceCallOptions) => Promise<void>;
+  stopListening: () => void;
+  isSpeaking: boolean;
+  currentSpeakingId: string | null;
+  // Milliseconds from speak() to the reply's first audio, by playback id
+  timeToFirstAudio: Record<string, number>;
+  speak: (text: string, id: string, voice?: string, mood?: string, language?: string) => Promise<void>;
+  interruptSpeech: () => SpeechInterruption | null;
+  // Records the call for this conversation (null until the first turn creates it)
+  setCallRecording: (enabled: boolean, conversationId: string | null) => void;
+  // Finishes the recording so far so it can be played back; recording carries on afterwards
+  saveCallRecording: () => Promise<void>;
+}
+
+interface VoiceChannelOptions {
+  // Called when the trainee starts a new utterance, before any transcript is final
+  onSpeechStart?: () => void;
+  // Speech-to-speech only: a turn of either side the server stored, with the assessment after a reply
+  onTurn?: (message: ConversationMessage, exitCriteria?: ExitCriteriaAssessment) => void;
+}
+
+// Microphone audio is sent in 100 ms frames
+const FRAME_SAMPLES = VOICE_INPUT_SAMPLE_RATE / 10;
+// Longest wait for the server to write a recording before giving up on it
+const RECORDING_SAVE_TIMEOUT_MS = 10000;
+
+interface Capture {
+  stream: MediaStream;
+  context: AudioContext;
+  node: AudioWorkletNode;
+}
+
+interface Playback {
+  id: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  sampleRate?: number;
+  // performance.now() when speak() asked for the reply; unset for replies the server started
+  requestedAt?: number;
+  // Audio context time the first chunk started playing
+  startedAt?: number;
+  nextTime: number;
+  words: { textOffset: number; audioOffsetMs: number }[];
+  sources: Set<AudioBufferSourceNode>;
+  ended: boolean;
+}
+
+// Averages the worklet's native-rate samples down to 16 kHz, carrying the
+// remainder across the 128-sample blocks the worklet posts.
+function createDownsampler(inputRate: number) {
+  const ratio = inputRate / VOICE_INPUT_SAMPLE_RATE;
+  let position = 0;
+  let sum = 0;
+  let count = 0;
+  return (input: Float32Array, output: number[]) => {
+    for (let i = 0; i < input.length; i++) {
+      sum += input[i];
+      count++;
+      position++;
+      if (position >= ratio) {
+        position -= ratio;
+        output.push(sum / count);
+        sum = 0;
+        count = 0;
+      }
+    }
+  };
+}
+
+/**
+ * Full-duplex voice over one WebSocket: microphone PCM streams up for server-side
+ * recognition (interim text while speaking, `onTranscript` once per utterance
+ * with its word timing and confidence)
+ * and replies stream back down as PCM that plays as it arrives. The socket is
+ * opened on first use and reused for the rest of the session. In a
+ * speech-to-speech call the server decides when to reply, so its replies
+ * play without a speak() call and both sides' turns arrive through `onTurn`.
+ */
+export const useVoiceChannel = (onTranscript: (text: string, recognition?: SpeechRecognitionDetail) => void, options: VoiceChannelOptions = {}): VoiceChannelState => {
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [currentSpeakingId, setCurrentSpeakingId] = useState<string | null>(null);
+  const [timeToFirstAudio, setTimeToFirstAudio] = useState<Record<string, number>>({});
+  const socketRef = useRef<Promise<WebSocket> | null>(null);
+  const captureRef = useRef<Capture | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const playbackContextRef = useRef<AudioContext | null>(null);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+  const onSpeechStartRef = useRef(options.onSpeechStart);
+  onSpeechStartRef.current = options.onSpeechStart;
+  const onTurnRef = useRef(options.onTurn);
+  onTurnRef.current = options.onTurn;
+  const callModeRef = useRef<VoiceCallOptions['mode']>('pipeline');
+  // Whether the current utterance has produced interim text yet
+  const inUtteranceRef = useRef(false);
+  const recordingRef = useRef<{ enabled: boolean; conversationId: string | null }>({ enabled: false, conversationId: null });
+  // Resolves the pending saveCallRecording() once the server reports the recording stopped
+  const recordingSavedRef = useRef<(() => void) | null>(null);
+
+  const stopCapture = useCallback(() => {
+    const capture = captureRef.current;
+    captureRef.current = null;
+    if (capture) {
+      capture.node.port.onmessage = null;
+      capture.node.disconnect();
+      capture.stream.getTracks().forEach(track => track.stop());
+      void capture.context.close();
+    }
+    setIsListening(false);
+    setInterimTranscript('');
+  }, []);
+
+  const finishPlayback = useCallback((playback: Playback, error?: Error) => {
+    if (playbackRef.current !== playback) return;
+    playbackRef.current = null;
+    playback.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    setCurrentSpeakingId(null);
+    if (error) playback.reject(error);
+    else playback.resolve();
+  }, []);
+
+  const playChunk = useCallback((chunk: ArrayBuffer) => {
+    const playback = playbackRef.current;
+    // Audio before `audio-start` belongs to a reply that was already replaced
+    if (!playback?.sampleRate) return;
+    const context = playbackContextRef.current ?? (playbackContextRef.current = new AudioContext());
+    if (context.state === 'suspended') void context.resume();
+
+    const samples = new Int16Array(chunk, 0, Math.floor(chunk.byteLength / 2));
+    if (samples.length === 0) return;
+    const buffer = context.createBuffer(1, samples.length, playback.sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 0x8000;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    const startAt = Math.max(context.currentTime, playback.nextTime);
+    source.start(startAt);
+    if (playback.startedAt === undefined && playback.requestedAt !== undefined) {
+      const ms = Math.round(performance.now() - playback.requestedAt + (startAt - context.currentTime) * 1000);
+      setTimeToFirstAudio(prev => ({ ...prev, [playback.id]: ms }));
+    }
+    playback.startedAt ??= startAt;
+    playback.nextTime = startAt + buffer.duration;
+    playback.sources.add(source);
+    source.onended = () => {
+      playback.sources.delete(source);
+      if (playback.ended && playback.sources.size === 0) finishPlayback(playback);
+    };
+  }, [finishPlayback]);
+
+  const handleMessage = useCallback((message: VoiceServerMessage) => {
+    const playback = playbackRef.current;
+    switch (message.type) {
+      case 'interim':
+        if (!inUtteranceRef.current) {
+          inUtteranceRef.current = true;
+          onSpeechStartRef.current?.();
+        }
+        setInterimTranscript(message.text);
+        break;
+      case 'speech-started':
+        onSpeechStartRef.current?.();
+        break;
+      case 'turn':
+        onTurnRef.current?.(message.message, message.exitCriteria);
+        break;
+      case 'final':
+        inUtteranceRef.current = false;
+        setInterimTranscript('');
+        onTranscriptRef.current(message.text, message.recognition);
+        break;
+      case 'stopped':
+        inUtteranceRef.current = false;
+        setInterimTranscript('');
+        break;
+      case 'audio-start':
+        if (playback?.id === message.id) {
+          playback.sampleRate = message.sampleRate;
+          playback.nextTime = 0;
+        } else if (callModeRef.current === 'speech-to-speech') {
+          // The Realtime model started a reply of its own accord
+          if (playback) finishPlayback(playback);
+          playbackRef.current = {
+            id: message.id,
+            resolve: () => undefined,
+            reject: () => undefined,
+            sampleRate: message.sampleRate,
+            nextTime: 0,
+            words: [],
+            sources: new Set(),
+            ended: false,
+          };
+          setCurrentSpeakingId(message.id);
+        }
+        break;
+      case 'word':
+        if (playback?.id === message.id) playback.words.push({ textOffset: message.textOffset, audioOffsetMs: message.audioOffsetMs });
+        break;
+      case 'audio-end':
+        if (playback?.id === message.id) {
+          playback.ended = true;
+          if (playback.sources.size === 0) finishPlayback(playback);
+        }
+        break;
+      case 'recording-stopped':
+        if (message.error) console.warn('Call recording:', message.error);
+        recordingSavedRef.current?.();
+        break;
+      case 'error':
+        if (message.id) {
+          if (playback?.id === message.id) finishPlayback(playback, new Error(message.error));
+        } else {
+          setError(message.error);
+          stopCapture();
+        }
+        break;
+    }
+  }, [finishPlayback, stopCapture]);
+
+  const connect = useCallback((): Promise<WebSocket> => {
+    if (!socketRef.current) {
+      const opening = openVoiceSocket(handleMessage, playChunk).then(socket => {
+        socket.addEventListener('close', () => {
+          if (socketRef.current === opening) socketRef.current = null;
+          if (captureRef.current) setError('Voice connection lost');
+          stopCapture();
+          if (playbackRef.current) finishPlayback(playbackRef.current, new Error('Voice connection lost'));
+          recordingSavedRef.current?.();
+        });
+        // A new connection picks the recording back up; the server saved the last one when the old socket closed
+        if (recordingRef.current.enabled) sendVoiceMessage(socket, { type: 'record', ...recordingRef.current });
+        return socket;
+      });
+      opening.catch(() => {
+        if (socketRef.current === opening) socketRef.current = null;
+      });
+      socketRef.current = opening;
+    }
+    return socketRef.current;
+  }, [finishPlayback, handleMessage, playChunk, stopCapture]);
+
+  const startListening = useCallback(async (language?: SessionLanguage, call?: VoiceCallOptions) => {
+    setError(null);
+    stopCapture();
+    callModeRef.current = call?.mode ?? 'pipeline';
+    try {
+      const socket = await connect();
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+      const context = new AudioContext();
+      await context.audioWorklet.addModule(new URL('../worklets/pcm-processor.js', import.meta.url));
+      const node = new AudioWorkletNode(context, 'pcm-processor');
+      captureRef.current = { stream, context, node };
+
+      const downsample = createDownsampler(context.sampleRate);
+      let pending: number[] = [];
+      node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        downsample(event.data, pending);
+        if (pending.length < FRAME_SAMPLES) return;
+        const frame = new Int16Array(pending.length);
+        pending.forEach((sample, i) => {
+          frame[i] = Math.max(-1, Math.min(1, sample)) * 0x7fff;
+        });
+        pending = [];
+        if (socket.readyState === WebSocket.OPEN) socket.send(frame.buffer);
+      };
+      context.createMediaStreamSource(stream).connect(node);
+      // The worklet writes no output; connecting it keeps the graph pulling audio through it
+      node.connect(context.destination);
+
+      sendVoiceMessage(socket, { type: 'start', ...language, ...call });
+      setIsListening(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start recognition');
+      stopCapture();
+    }
+  }, [connect, stopCapture]);
+
+  const stopListening = useCallback(() => {
+    if (captureRef.current) {
+      void socketRef.current?.then(socket => sendVoiceMessage(socket, { type: 'stop' }), () => undefined);
+    }
+    stopCapture();
+  }, [stopCapture]);
+
+  const speak = useCallback(async (text: string, id: string, voice?: string, mood?: string, language?: string) => {
+    if (playbackRef.current) finishPlayback(playbackRef.current);
+    const socket = await connect();
+    await new Promise<void>((resolve, reject) => {
+      const playback: Playback = { id, resolve, reject, requestedAt: performance.now(), nextTime: 0, words: [], sources: new Set(), ended: false };
+      playbackRef.current = playback;
+      setCurrentSpeakingId(id);
+      sendVoiceMessage(socket, { type: 'speak', id, text, ...toVoiceRequest(voice, mood, language) });
+    });
+  }, [connect, finishPlayback]);
+
+  // Stops the reply being spoken and works out, from the word timings, how much of it was heard
+  const interruptSpeech = useCallback((): SpeechInterruption | null => {
+    const playback = playbackRef.current;
+    if (!playback) return null;
+    const context = playbackContextRef.current;
+    const playedMs = context && playback.startedAt !== undefined ? (context.currentTime - playback.startedAt) * 1000 : 0;
+    const spokenChars = playback.words.reduce((chars, word) => word.audioOffsetMs <= playedMs ? word.textOffset : chars, 0);
+    void socketRef.current?.then(socket => sendVoiceMessage(socket, { type: 'cancel' }), () => undefined);
+    finishPlayback(playback);
+    return { id: playback.id, spokenChars };
+  }, [finishPlayback]);
+
+  const setCallRecording = useCallback((enabled: boolean, conversationId: string | null) => {
+    const previous = recordingRef.current;
+    if (previous.enabled === enabled && previous.conversationId === conversationId) return;
+    recordingRef.current = { enabled, conversationId };
+    // Without a connection nothing is being recorded yet; connect() sends the setting when it opens
+    if (!previous.enabled && !enabled) return;
+    void socketRef.current?.then(socket => sendVoiceMessage(socket, { type: 'record', enabled, conversationId }), () => undefined);
+  }, []);
+
+  const saveCallRecording = useCallback(async () => {
+    const opening = socketRef.current;
+    if (!opening || !recordingRef.current.enabled) return;
+    const socket = await opening.catch(() => null);
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    await new Promise<void>(resolve => {
+      const timer = window.setTimeout(() => finish(), RECORDING_SAVE_TIMEOUT_MS);
+      const finish = () => {
+        window.clearTimeout(timer);
+        if (recordingSavedRef.current === finish) recordingSavedRef.current = null;
+        resolve();
+      };
+      recordingSavedRef.current = finish;
+      sendVoiceMessage(socket, { type: 'record', enabled: false });
+    });
+    // Later turns of the same conversation are appended to the saved recording
+    if (recordingRef.current.enabled && socket.readyState === WebSocket.OPEN) {
+      sendVoiceMessage(socket, { type: 'record', ...recordingRef.current });
+    }
+  }, []);
+
+  useEffect(() => () => {
+    stopCapture();
+    if (playbackRef.current) finishPlayback(playbackRef.current);
+    void socketRef.current?.then(socket => socket.close(), () => undefined);
+    socketRef.current = null;
+    void playbackContextRef.current?.close();
+    playbackContextRef.current = null;
+  }, [finishPlayback, stopCapture]);
+
+  return {
+    isListening,
+    error,
+    interimTranscript,
+    startListening,
+    stopListening,
+    isSpeaking: currentSpeakingId !== null,
+    currentSpeakingId,
+    timeToFirstAudio,
+    speak,
+    interruptSpeech,
+    setCallRecording,
+    saveCallRecording,
+  };
+};
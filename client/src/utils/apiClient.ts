@@ -19,8 +19,8 @@ const apiClient = axios.create({
   withCredentials: true,
 });
 
-apiClient.interceptors.request.use(config => {
-  // Derive server origin from runtime API base URL, stripping any path like '/api'
+// Derive server origin from runtime API base URL, stripping any path like '/api'
+const getApiOrigin = (): string => {
   const baseRaw = getApiBaseUrl() || '';
   let origin = '';
   try {
@@ -29,8 +29,25 @@ apiClient.interceptors.request.use(config => {
     origin = baseRaw.replace(/\/?api\/?$/i, '').replace(/\/$/, '');
     try { origin = origin ? new URL(origin).origin : origin; } catch { /* keep best-effort */ }
   }
+  return origin;
+};
+
+/**
+ * Resolves a relative API path (e.g. '/api/chat/stream') to the URL axios would use.
+ * Needed for requests made with fetch, such as streaming responses.
+ */
+export const resolveApiUrl = (path: string): string => {
+  let url = path;
+  // Ensure request path starts with exactly one '/api'
+  if (!url.startsWith('/')) url = '/' + url;
+  if (!url.startsWith('/api')) url = '/api' + url;
+  const origin = getApiOrigin();
+  // Fallback to relative (will hit client origin) – acceptable only during local dev
+  return origin ? origin + url : url;
+};
 
-  let url = config.url ?? '';
+apiClient.interceptors.request.use(config => {
+  const url = config.url ?? '';
   // If absolute URL already, leave it (assumes caller intended it)
   if (/^https?:\/\//i.test(url)) {
     try {
@@ -49,18 +66,11 @@ apiClient.interceptors.request.use(config => {
     return config;
   }
 
-  // Ensure request path starts with exactly one '/api'
-  if (!url.startsWith('/')) url = '/' + url;
-  if (!url.startsWith('/api')) url = '/api' + url;
-
   // Build absolute URL using the computed origin
-  if (origin) {
-    config.url = origin + url;
+  config.url = resolveApiUrl(url);
+  if (/^https?:\/\//i.test(config.url)) {
     // Remove baseURL to avoid axios re-merging
     delete (config as any).baseURL;
-  } else {
-    // Fallback to relative (will hit client origin) – acceptable only during local dev
-    config.url = url;
   }
 
   return config;
@@ -0,0 +1,65 @@
+import axios from 'axios';
+import { ChatStreamError } from './chatStream';
+import type { ChatErrorCode } from '../context/chat-types';
+
+interface ChatErrorInfo {
+  code?: ChatErrorCode;
+  retryAfterSeconds?: number;
+  // True when the request never got an answer from the server
+  network: boolean;
+}
+
+// Failures that the same request can recover from
+const RETRYABLE_CODES: ChatErrorCode[] = ['rate-limited', 'timeout', 'upstream-5xx'];
+
+/** Extracts the server's error code from a stream or axios error. */
+export function getChatErrorInfo(error: unknown): ChatErrorInfo {
+  if (error instanceof ChatStreamError) {
+    return {
+      code: error.code,
+      retryAfterSeconds: error.retryAfterSeconds,
+      network: !error.opened && error.status === undefined
+    };
+  }
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { code?: ChatErrorCode; retryAfterSeconds?: number } | undefined;
+    return { code: data?.code, retryAfterSeconds: data?.retryAfterSeconds, network: !error.response };
+  }
+  return { network: false };
+}
+
+/** Whether retrying the same request could succeed. Unclassified failures are retried. */
+export function isRetryableChatError(error: unknown): boolean {
+  const { code, network } = getChatErrorInfo(error);
+  return network || !code || RETRYABLE_CODES.includes(code);
+}
+
+/** Delay the server asked for before trying again, in milliseconds. */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const { retryAfterSeconds } = getChatErrorInfo(error);
+  return retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : undefined;
+}
+
+/** A message telling the trainee what went wrong and what they can do about it. */
+export function describeChatError(error: unknown): string {
+  const { code, retryAfterSeconds, network } = getChatErrorInfo(error);
+  const wait = retryAfterSeconds ? ` in about ${retryAfterSeconds} seconds` : ' in a moment';
+  switch (code) {
+    case 'content-filter':
+      return 'Your last message was blocked by the content filter. Rephrase it and try again.';
+    case 'rate-limited':
+      return `The AI service is handling too many requests. Try again${wait}.`;
+    case 'timeout':
+      return 'The AI service took too long to respond. Try your message again.';
+    case 'misconfigured':
+      return 'The AI service is not configured correctly. Ask an administrator to check the server\'s LLM settings.';
+    case 'upstream-5xx':
+      return `The AI service is having problems. Try again${wait}.`;
+    case 'circuit-open':
+      return `The AI service is temporarily unavailable after repeated failures. Try again${wait}.`;
+    default:
+      return network
+        ? 'Could not reach the server. Check your connection and try again.'
+        : 'Something went wrong while generating the reply. Please try again.';
+  }
+}
@@ -0,0 +1,232 @@
+import { resolveApiUrl } from './apiClient';
+import { getItem } from './localStorage';
+import type { Message, ConversationMessage, ContextSummary, ConversationState, ExitCriteriaAssessment, CoachingHint, ChatErrorCode, SpeechRecognitionDetail } from '../context/chat-types';
+
+// Where a reply leaves the call: the JSON endpoints return it with the reply, streams send it after `done`
+export interface ReplyAssessment {
+  conversationState?: ConversationState;
+  exitCriteria?: ExitCriteriaAssessment;
+}
+
+export interface ChatStreamResult extends ReplyAssessment {
+  content: string;
+  usage?: Message['usage'];
+  modelParameters?: Message['modelParameters'];
+}
+
+export interface ConversationTurnResult extends ChatStreamResult {
+  conversationId: string;
+  userMessage: ConversationMessage;
+  assistantMessage: ConversationMessage;
+  contextSummary: ContextSummary | null;
+}
+
+export interface ChatStreamHandlers {
+  onDelta: (content: string) => void;
+  // The check of the reply against the scenario's exit criteria, which arrives after `done`
+  onAssessment?: (assessment: Required<ReplyAssessment>) => void;
+}
+
+/**
+ * Raised when the stream ends without a `done` event. `receivedContent` tells
+ * the caller whether a partial reply was already rendered; `opened` whether the
+ * server accepted the request (and so may already have stored the user turn).
+ * `status` is set when the request was answered with an HTTP error and `code`
+ * when the server reported why it failed.
+ */
+export class ChatStreamError extends Error {
+  readonly receivedContent: boolean;
+  readonly opened: boolean;
+  readonly status?: number;
+  readonly code?: ChatErrorCode;
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    receivedContent: boolean,
+    opened = true,
+    details: { status?: number; code?: ChatErrorCode; retryAfterSeconds?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ChatStreamError';
+    this.receivedContent = receivedContent;
+    this.opened = opened;
+    this.status = details.status;
+    this.code = details.code;
+    this.retryAfterSeconds = details.retryAfterSeconds;
+  }
+}
+
+// A user turn; parentId branches it off an earlier message (null for the first turn)
+export interface ConversationTurnInput {
+  content: string;
+  parentId?: string | null;
+  // Word timing and confidence when the turn was spoken
+  recognition?: SpeechRecognitionDetail;
+}
+
+/**
+ * Posts a user turn to a server-owned conversation and streams the reply.
+ * The `done` payload carries both persisted messages; the exit-criteria
+ * assessment follows it and goes to `onAssessment`.
+ */
+export function streamConversationTurn(
+  conversationId: string,
+  turn: ConversationTurnInput,
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<ConversationTurnResult> {
+  return postEventStream<ConversationTurnResult>(
+    `/api/conversations/${encodeURIComponent(conversationId)}/turns/stream`,
+    turn,
+    handlers,
+    signal
+  );
+}
+
+/**
+ * Streams a new reply to an existing user message. The previous reply is kept
+ * on the server as another branch; `done` carries the persisted turn.
+ */
+export function streamRegeneratedReply(
+  conversationId: string,
+  messageId: string,
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<ConversationTurnResult> {
+  return postEventStream<ConversationTurnResult>(
+    `/api/conversations/${encodeURIComponent(conversationId)}/regenerate/stream`,
+    { messageId },
+    handlers,
+    signal
+  );
+}
+
+/**
+ * Streams live coaching hints for a trainee turn. Sent alongside
+ * streamConversationTurn with the same turn; `done` carries the stored hint.
+ */
+export function streamCoachingHints(
+  conversationId: string,
+  turn: ConversationTurnInput,
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<CoachingHint> {
+  return postEventStream<CoachingHint>(
+    `/api/conversations/${encodeURIComponent(conversationId)}/coaching/stream`,
+    turn,
+    handlers,
+    signal
+  );
+}
+
+/**
+ * POSTs a JSON body and consumes the Server-Sent Events response, resolving with
+ * the `done` payload. With `onAssessment` the stream is read on after that for
+ * the assessment. axios cannot read a response incrementally in the browser, so this uses fetch.
+ */
+async function postEventStream<T extends { content: string }>(
+  path: string,
+  body: unknown,
+  { onDelta, onAssessment }: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<T> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'text/event-stream',
+  };
+  const sessionId = getItem<string>('sessionId');
+  if (sessionId) headers['x-session-id'] = sessionId;
+
+  let receivedContent = false;
+  let response: Response;
+  try {
+    response = await fetch(resolveApiUrl(path), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      credentials: 'include',
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ChatStreamError('Unable to reach the chat stream', false, false);
+  }
+  if (!response.ok || !response.body) {
+    // Error bodies carry a code when the failure came from the language model
+    const errorBody = await response.json().catch(() => null);
+    throw new ChatStreamError(
+      errorBody?.error || `Chat stream request failed (HTTP ${response.status})`,
+      false,
+      false,
+      { status: response.status, code: errorBody?.code, retryAfterSeconds: errorBody?.retryAfterSeconds }
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Parses one SSE frame; returns the final result on `done`
+  const handleFrame = (frame: string): T | null => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) return null;
+    const data = JSON.parse(dataLines.join('\n'));
+    if (event === 'delta') {
+      receivedContent = true;
+      onDelta(data.content);
+    } else if (event === 'done') {
+      return { ...data, content: data.content ?? '' };
+    } else if (event === 'assessment') {
+      onAssessment?.(data);
+    } else if (event === 'error') {
+      throw new ChatStreamError(data.error || 'Chat stream failed', receivedContent, true, {
+        code: data.code,
+        retryAfterSeconds: data.retryAfterSeconds
+      });
+    }
+    return null;
+  };
+
+  // Reads frames until `done`, returning its payload, or until the stream ends, returning null
+  const readFrames = async (): Promise<T | null> => {
+    for (;;) {
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const result = handleFrame(frame);
+        if (result) return result;
+        boundary = buffer.indexOf('\n\n');
+      }
+      const { done, value } = await reader.read();
+      if (done) return null;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    }
+  };
+
+  let readingOn = false;
+  try {
+    const result = await readFrames();
+    // The connection closed before the server sent `done`
+    if (!result) throw new ChatStreamError('Chat stream ended unexpectedly', receivedContent);
+    if (onAssessment) {
+      // The assessment follows `done`; the reply is not held back for it
+      readingOn = true;
+      void readFrames()
+        .catch(() => null)
+        .finally(() => reader.cancel().catch(() => { /* stream already closed */ }));
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ChatStreamError || signal?.aborted) throw error;
+    throw new ChatStreamError('Chat stream was interrupted', receivedContent);
+  } finally {
+    if (!readingOn) reader.cancel().catch(() => { /* stream already closed */ });
+  }
+}
@@ -1,12 +1,15 @@
 // Type guard and parser for export data
+import type { SpeechAnalytics } from '../context/chat-types';
 
 export interface ExportData {
-  stats?: { totalTokensUsed?: number; totalDurationMs?: number };
+  stats?: { totalTokensUsed?: number; totalDurationMs?: number; speechAnalytics?: SpeechAnalytics | null };
   totalTokensUsed?: number;
   totalDurationMs?: number;
   conversation?: {
     messageCount?: number;
     messages?: Array<any>;
+    contextSummary?: { content: string; coveredMessageCount: number } | null;
+    coachingHints?: Array<{ turn: number; content: string }>;
   };
   messageCount?: number;
   context?: any;
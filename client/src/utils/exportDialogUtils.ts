@@ -19,6 +19,8 @@ export function buildConversationData(exportData: any): ConversationData | null
       role: msg.role as 'user' | 'assistant',
       content: msg.content,
       timestamp: new Date(msg.timestamp || Date.now()).toISOString(),
+      // Tells the evaluator which words speech recognition was unsure of
+      ...(msg.role === 'user' && msg.recognition ? { recognition: msg.recognition } : {}),
     }));
   return {
     conversationId: exportData.conversationId || `conversation-${Date.now()}`,
@@ -29,6 +31,12 @@ export function buildConversationData(exportData: any): ConversationData | null
         : undefined,
       context: 'Exported conversation evaluation',
       ...exportData.context,
+      // Lets the evaluator check procedure criteria such as reviewing account memos
+      desktopLookups: exportData.conversation.desktopLookups,
+      // Which regenerated, edited or forked versions make up the evaluated transcript
+      branch: exportData.conversation.branch,
+      // Measured pace, filler words, talk ratio and dead air, as evidence for delivery criteria
+      speechAnalytics: exportData.stats?.speechAnalytics ?? undefined,
     },
   };
 }
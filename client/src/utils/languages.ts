@@ -0,0 +1,37 @@
+import type { SessionLanguage } from './voiceChannel';
+
+export interface LanguageOption {
+  label: string;
+  value: SessionLanguage;
+}
+
+// Session languages trainees can pick; bilingual ones let the trainee switch mid-call
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  { label: 'English (US)', value: { language: 'en-US', alternateLanguages: [] } },
+  { label: 'English (UK)', value: { language: 'en-GB', alternateLanguages: [] } },
+  { label: 'Spanish (US)', value: { language: 'es-US', alternateLanguages: [] } },
+  { label: 'Spanish (Mexico)', value: { language: 'es-MX', alternateLanguages: [] } },
+  { label: 'Spanish (Spain)', value: { language: 'es-ES', alternateLanguages: [] } },
+  { label: 'Spanish, switching to English', value: { language: 'es-US', alternateLanguages: ['en-US'] } },
+  { label: 'English, switching to Spanish', value: { language: 'en-US', alternateLanguages: ['es-US'] } },
+  { label: 'French', value: { language: 'fr-FR', alternateLanguages: [] } },
+  { label: 'German', value: { language: 'de-DE', alternateLanguages: [] } },
+  { label: 'Italian', value: { language: 'it-IT', alternateLanguages: [] } },
+  { label: 'Portuguese (Brazil)', value: { language: 'pt-BR', alternateLanguages: [] } },
+];
+
+// Languages evaluation reports can be written in
+export const REPORT_LANGUAGES = LANGUAGE_OPTIONS
+  .filter(option => option.value.alternateLanguages.length === 0)
+  .map(option => ({ label: option.label, value: option.value.language }));
+
+/** Stable key of a session language, for select values. */
+export function languageKey({ language, alternateLanguages }: SessionLanguage): string {
+  return [language, ...alternateLanguages].join('+');
+}
+
+/** Human label of a session language, falling back to its tags. */
+export function languageLabel(session: SessionLanguage): string {
+  const key = languageKey(session);
+  return LANGUAGE_OPTIONS.find(option => languageKey(option.value) === key)?.label ?? key.replace(/\+/g, ' + ');
+}
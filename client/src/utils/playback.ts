@@ -0,0 +1,6 @@
+import type { Message } from '../context/chat-types';
+
+// Id a message's audio plays under, so a spoken reply and its replay button agree; unsaved messages go by position
+export function playbackIdFor(message: Pick<Message, 'id'>, index: number): string {
+  return message.id ? `msg-${message.id}` : `msg-${index}`;
+}
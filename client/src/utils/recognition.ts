@@ -0,0 +1,74 @@
+import type { RecognizedWord, SpeechRecognitionDetail } from '../context/chat-types';
+
+// Words recognized with less confidence than this are flagged; matches the server's threshold
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// How far ahead to look for the next recognized word when the text was edited or reformatted
+const RESYNC_WINDOW = 3;
+
+export interface SpokenSegment {
+  text: string;
+  // The recognized word this stretch of text was matched to, if any
+  word?: RecognizedWord;
+}
+
+export function isUncertain(word: RecognizedWord | undefined): boolean {
+  return word?.confidence != null && word.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// Recognizers report words in lexical form, e.g. "i'd" for "I'd,"
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Splits a spoken turn's text into segments and matches each word to the
+ * recognized word it came from. The displayed text is punctuated and may have
+ * been edited, so unmatched words are left unmarked and matching resumes at
+ * the next word that lines up.
+ */
+export function alignRecognizedWords(content: string, detail: SpeechRecognitionDetail | undefined): SpokenSegment[] {
+  const words = detail?.words ?? [];
+  let next = 0;
+  return content.split(/(\s+)/).filter(Boolean).map(text => {
+    const key = normalize(text);
+    if (!key) return { text };
+    const found = words.slice(next, next + RESYNC_WINDOW).findIndex(word => normalize(word.word) === key);
+    if (found === -1) return { text };
+    next += found + 1;
+    return { text, word: words[next - 1] };
+  });
+}
+
+/** Words the recognizer was unsure of; empty when it does not score single words. */
+export function uncertainWords(detail: SpeechRecognitionDetail | undefined): RecognizedWord[] {
+  return (detail?.words ?? []).filter(isUncertain);
+}
+
+/**
+ * Reads the timing and confidence of each word from an Azure detailed
+ * recognition result. Offsets are in 100-nanosecond ticks from the start of
+ * the session, so they are rebased on the utterance's own offset.
+ */
+export function readAzureRecognition(
+  json: string | undefined,
+  utterance: { offset: number; duration: number; language?: string }
+): SpeechRecognitionDetail | undefined {
+  if (!json) return undefined;
+  try {
+    const best = JSON.parse(json)?.NBest?.[0];
+    if (!best) return undefined;
+    const words: RecognizedWord[] = (best.Words ?? []).map((word: { Word: string; Offset: number; Duration: number; Confidence?: number }) => ({
+      word: word.Word,
+      offsetMs: Math.max(0, Math.round((word.Offset - utterance.offset) / 10000)),
+      durationMs: Math.round(word.Duration / 10000),
+      confidence: typeof word.Confidence === 'number' ? word.Confidence : null
+    }));
+    return {
+      words,
+      confidence: typeof best.Confidence === 'number' ? best.Confidence : null,
+      durationMs: Math.round(utterance.duration / 10000),
+      language: utterance.language
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -1,4 +1,5 @@
-import apiClient from './apiClient';
+import apiClient, { resolveApiUrl } from './apiClient';
+import { getItem } from './localStorage';
 import type { ScenarioParameters } from '../context/scenario-parameters';
 
 /**
@@ -18,4 +19,53 @@ export async function fetchSpeechToken(): Promise<SpeechTokenResponse> {
 export async function fetchSubstitutedSystemPrompt(parameters: ScenarioParameters): Promise<string> {
   const response = await apiClient.post<{ systemPrompt: string }>('/api/chat/system-prompt', { parameters });
   return response.data.systemPrompt;
-}
\ No newline at end of file
+}
+
+export interface SpeechStreamHandlers {
+  // Called once, before any audio, with the sample rate of the PCM that follows
+  onStart: (sampleRate: number) => void;
+  // 16-bit little-endian mono PCM; chunks may split a sample
+  onAudio: (chunk: Uint8Array) => void;
+}
+
+/**
+ * Synthesizes `request` with the streaming endpoint as raw PCM and hands the
+ * audio on as it arrives, so playback can start before synthesis finishes.
+ * Resolves once the whole clip has been received.
+ */
+export async function streamSynthesizedSpeech(
+  request: Record<string, unknown>,
+  { onStart, onAudio }: SpeechStreamHandlers,
+  signal?: AbortSignal
+): Promise<void> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'audio/pcm',
+  };
+  const sessionId = getItem<string>('sessionId');
+  if (sessionId) headers['x-session-id'] = sessionId;
+
+  const response = await fetch(resolveApiUrl('/api/speech/synthesize/stream'), {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...request, format: 'pcm' }),
+    credentials: 'include',
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => null);
+    throw new Error(errorBody?.details || errorBody?.error || `Speech stream request failed (HTTP ${response.status})`);
+  }
+  // Content-Type is readable cross-origin, unlike X-Audio-Sample-Rate
+  const rate = /rate=(\d+)/.exec(response.headers.get('Content-Type') ?? '')?.[1]
+    ?? response.headers.get('X-Audio-Sample-Rate');
+  if (!rate) throw new Error('Speech stream did not say its sample rate');
+  onStart(Number(rate));
+
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value.byteLength > 0) onAudio(value);
+  }
+}
@@ -0,0 +1,139 @@
+import { resolveApiUrl } from './apiClient';
+import { getItem } from './localStorage';
+import type { ConversationMessage, ExitCriteriaAssessment, SpeechRecognitionDetail } from '../context/chat-types';
+import type { VoiceMode } from '../context/scenario-parameters';
+
+// Messages the server sends over the voice channel; binary frames carry reply audio
+export type VoiceServerMessage =
+  | { type: 'ready' }
+  | { type: 'listening' }
+  | { type: 'interim'; text: string }
+  // language is the one recognized, which differs from the session's when the trainee switched
+  | { type: 'final'; text: string; durationMs: number; language: string; recognition: SpeechRecognitionDetail }
+  // Speech-to-speech only: the trainee started talking (the reply being spoken stops), and a
+  // turn of either side was stored in the conversation, with the assessment after a reply
+  | { type: 'speech-started' }
+  | { type: 'turn'; message: ConversationMessage; exitCriteria?: ExitCriteriaAssessment }
+  | { type: 'stopped' }
+  | { type: 'audio-start'; id: string; sampleRate: number }
+  // textOffset is where the word ends in the spoken text; audioOffsetMs where it starts in the audio
+  | { type: 'word'; id: string; textOffset: number; audioOffsetMs: number }
+  | { type: 'audio-end'; id: string; cancelled?: boolean }
+  // A recording ended; a null conversationId means nothing was kept
+  | { type: 'recording-stopped'; conversationId: string | null; durationMs: number; error?: string }
+  | { type: 'error'; error: string; id?: string };
+
+// Messages the client sends; binary frames carry 16 kHz 16-bit mono microphone PCM
+export type VoiceClientMessage =
+  // Session language to recognize (en-US by default), and alternates to detect among
+  // With mode 'speech-to-speech', the Realtime model holds the call for the conversation instead
+  | { type: 'start'; language?: string; alternateLanguages?: string[]; mode?: VoiceMode; conversationId?: string }
+  | { type: 'stop' }
+  | {
+      type: 'speak';
+      id: string;
+      text: string;
+      voiceName?: string;
+      voiceGender?: 'male' | 'female';
+      // Synthesis engine for this reply; the server's TTS_PROVIDER when omitted
+      provider?: 'azure-speech' | 'azure-realtime' | 'local' | 'mock';
+      // Customer mood name; its voice style colours the reply
+      mood?: string;
+      // Session language; picks the default voice when voiceName is unset
+      language?: string;
+    }
+  | { type: 'cancel' }
+  // Records both sides of the call; the conversation id can follow once the first turn created it
+  | { type: 'record'; enabled: boolean; conversationId?: string | null };
+
+// A reply stopped part-way because the trainee started talking
+export interface SpeechInterruption {
+  // Playback id passed to speak()/playAudio()
+  id: string;
+  // Characters of the reply text spoken before playback stopped
+  spokenChars: number;
+}
+
+// Language the trainee and customer speak, and others the trainee may switch to
+export interface SessionLanguage {
+  language: string;
+  alternateLanguages: string[];
+}
+
+// Who holds a voice call, and for speech-to-speech the conversation it continues
+export interface VoiceCallOptions {
+  mode: VoiceMode;
+  conversationId?: string;
+}
+
+// Sample rate the server expects for microphone audio
+export const VOICE_INPUT_SAMPLE_RATE = 16000;
+
+/**
+ * Splits the UI voice setting into the voiceName/voiceGender pair the speech
+ * endpoints accept: genders pick a default voice, anything else is a catalog
+ * voice id, which the server routes to the engine that lists it.
+ * The mood name, when given, lets the server apply that mood's voice style,
+ * and the language picks the gender's default voice for that language.
+ */
+export function toVoiceRequest(
+  voice?: string,
+  mood?: string,
+  language?: string
+): { voiceName?: string; voiceGender?: 'male' | 'female'; mood?: string; language?: string } {
+  const delivery = { ...(mood ? { mood } : {}), ...(language ? { language } : {}) };
+  if (voice === 'male' || voice === 'female') {
+    return { voiceGender: voice, ...delivery };
+  }
+  if (voice) {
+    return { voiceName: voice, ...delivery };
+  }
+  return delivery;
+}
+
+/**
+ * WebSocket URL of the voice channel. Browsers cannot add the x-session-id
+ * header to a WebSocket, so the stored session travels as a query parameter.
+ */
+export function getVoiceSocketUrl(): string {
+  const url = new URL(resolveApiUrl('/api/voice'), window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  const sessionId = getItem<string>('sessionId');
+  if (sessionId) url.searchParams.set('sessionId', sessionId);
+  return url.toString();
+}
+
+/** Opens the voice channel and resolves once the server reports it is ready. */
+export function openVoiceSocket(onMessage: (message: VoiceServerMessage) => void, onAudio: (chunk: ArrayBuffer) => void): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(getVoiceSocketUrl());
+    socket.binaryType = 'arraybuffer';
+    let ready = false;
+    socket.onmessage = event => {
+      if (typeof event.data !== 'string') {
+        onAudio(event.data as ArrayBuffer);
+        return;
+      }
+      let message: VoiceServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'ready' && !ready) {
+        ready = true;
+        resolve(socket);
+      }
+      onMessage(message);
+    };
+    socket.onclose = () => {
+      if (!ready) reject(new Error('Voice channel connection failed'));
+    };
+  });
+}
+
+export function sendVoiceMessage(socket: WebSocket, message: VoiceClientMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
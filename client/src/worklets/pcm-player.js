@@ -0,0 +1,51 @@
+// Plays mono PCM posted from the main thread as it arrives. Chunks are
+// Float32Arrays at the context's sample rate; 'end' says no more will come.
+// Reports when the first sample played, how far playback has got (every
+// 100 ms) and when the last queued sample has played.
+class PCMPlayer extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.queue = [];
+    // Read position in the first queued chunk
+    this.offset = 0;
+    this.played = 0;
+    this.reported = 0;
+    this.ending = false;
+    this.port.onmessage = event => {
+      if (event.data === 'end') this.ending = true;
+      else this.queue.push(event.data);
+    };
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0][0];
+    let written = 0;
+    while (written < output.length && this.queue.length > 0) {
+      const chunk = this.queue[0];
+      const count = Math.min(output.length - written, chunk.length - this.offset);
+      output.set(chunk.subarray(this.offset, this.offset + count), written);
+      written += count;
+      this.offset += count;
+      if (this.offset === chunk.length) {
+        this.queue.shift();
+        this.offset = 0;
+      }
+    }
+    if (written > 0) {
+      if (this.played === 0) this.port.postMessage({ type: 'started' });
+      this.played += written;
+      if (this.played - this.reported >= sampleRate / 10) {
+        this.reported = this.played;
+        this.port.postMessage({ type: 'position', played: this.played });
+      }
+    }
+    if (this.ending && this.queue.length === 0) {
+      this.port.postMessage({ type: 'ended', played: this.played });
+      return false;
+    }
+    // Keep running through gaps in the stream
+    return true;
+  }
+}
+
+registerProcessor('pcm-player', PCMPlayer);
@@ -8,6 +8,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:5000',
         changeOrigin: true,
+        // Voice channel WebSocket at /api/voice
+        ws: true,
       },
     },
   },
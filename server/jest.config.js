@@ -0,0 +1,9 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    // Tests live outside src, so they are compiled without its rootDir
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { rootDir: '.' } }],
+  },
+};
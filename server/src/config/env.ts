@@ -3,17 +3,76 @@ if (process.env.NODE_ENV !== 'production') {
   require('dotenv').config();
 }
 
+import * as path from 'path';
+import type { LlmProviderName } from '../services/llm/types';
+import type { TtsProviderName } from '../services/tts/types';
+import type { SttProviderName } from '../services/stt/types';
+
 export const config = {
   port: process.env.PORT || 5000,
+  // LLM provider selection: azure-openai (default), openai, local or mock
+  llmProvider: (process.env.LLM_PROVIDER || 'azure-openai') as LlmProviderName,
   azureOpenAiEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
   azureOpenAiKey: process.env.AZURE_OPENAI_KEY,
   azureOpenAiDeployment: process.env.AZURE_OPENAI_DEPLOYMENT,
   azureOpenAiModel: process.env.AZURE_OPENAI_MODEL || 'gpt-4',
+  azureOpenAiApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+  // Plain OpenAI (or any hosted OpenAI-compatible service)
+  openAiApiKey: process.env.OPENAI_API_KEY,
+  openAiBaseUrl: process.env.OPENAI_BASE_URL,
+  openAiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  // Local OpenAI-compatible server (llama.cpp, Ollama, LM Studio)
+  localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+  localLlmModel: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  localLlmApiKey: process.env.LOCAL_LLM_API_KEY,
+  localLlmStreamUsage: process.env.LOCAL_LLM_STREAM_USAGE !== 'false',
+  // Optional JSON script for the offline mock provider
+  mockLlmScriptPath: process.env.MOCK_LLM_SCRIPT,
+  // LLM call resilience: per-request timeout, retries with backoff, and a circuit breaker
+  llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10),
+  llmMaxAttempts: Math.max(parseInt(process.env.LLM_MAX_ATTEMPTS || '3', 10) || 1, 1),
+  llmRetryBaseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10),
+  llmRetryMaxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '10000', 10),
+  llmCircuitFailureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  llmCircuitCooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '30000', 10),
   azureOpenAiRealtimeEndpoint: process.env.AZURE_OPENAI_REALTIME_ENDPOINT || process.env.AZURE_OPENAI_ENDPOINT,
   azureOpenAiRealtimeKey: process.env.AZURE_OPENAI_REALTIME_KEY || process.env.AZURE_OPENAI_KEY,
   azureOpenAiRealtimeDeployment: process.env.AZURE_OPENAI_REALTIME_DEPLOYMENT || 'gpt-realtime',
   azureSpeechKey: process.env.AZURE_SPEECH_KEY || 'your-azure-speech-key',
   azureSpeechRegion: process.env.AZURE_SPEECH_REGION || 'eastus',
+  // Default speech synthesis engine: azure-speech (default), azure-realtime, local or mock; requests may pick another
+  ttsProvider: (process.env.TTS_PROVIDER || 'azure-speech') as TtsProviderName,
+  // Command-line engine for the local provider; {voice} is replaced and the text is written to stdin
+  localTtsCommand: process.env.LOCAL_TTS_COMMAND || 'espeak-ng --stdout --stdin -v {voice}',
+  localTtsOutput: (process.env.LOCAL_TTS_OUTPUT === 'raw' ? 'raw' : 'wav') as 'wav' | 'raw',
+  localTtsSampleRate: parseInt(process.env.LOCAL_TTS_SAMPLE_RATE || '22050', 10),
+  localTtsMaleVoice: process.env.LOCAL_TTS_MALE_VOICE || 'en-us+m3',
+  localTtsFemaleVoice: process.env.LOCAL_TTS_FEMALE_VOICE || 'en-us+f3',
+  // On-disk cache of synthesized clips (next to the database by default); 0 MB turns it off
+  audioCacheDir: process.env.AUDIO_CACHE_DIR || (process.env.WEBSITE_SITE_NAME
+    ? '/home/site/data/audio-cache'
+    : path.join(process.cwd(), 'data', 'audio-cache')),
+  audioCacheMaxMb: Math.max(parseInt(process.env.AUDIO_CACHE_MAX_MB || '200', 10) || 0, 0),
+  // Which catalog voices admins offer in the voice picker, kept next to the database
+  voiceCatalogFile: process.env.VOICE_CATALOG_FILE || (process.env.WEBSITE_SITE_NAME
+    ? '/home/site/data/voice-catalog.json'
+    : path.join(process.cwd(), 'data', 'voice-catalog.json')),
+  // Two-channel call recordings, one WAV per conversation; deleted this many days after the call (0 keeps them)
+  recordingsDir: process.env.RECORDINGS_DIR || (process.env.WEBSITE_SITE_NAME
+    ? '/home/site/data/recordings'
+    : path.join(process.cwd(), 'data', 'recordings')),
+  recordingRetentionDays: Math.max(parseInt(process.env.RECORDING_RETENTION_DAYS || '30', 10) || 0, 0),
+  // Speech recognition engine for uploaded clips: azure-speech (default) or local
+  sttProvider: (process.env.STT_PROVIDER || 'azure-speech') as SttProviderName,
+  // Command-line recognizer for the local provider; {model}, {input} and {language} are replaced,
+  // and with {output} the whisper.cpp JSON written to {output}.json is read instead of stdout
+  localSttCommand: process.env.LOCAL_STT_COMMAND || 'whisper-cli -m {model} -f {input} -l {language} -np -ojf -of {output}',
+  localSttModel: process.env.LOCAL_STT_MODEL || 'models/ggml-base.en.bin',
+  // Uploaded clips for recognition: largest accepted upload and longest accepted speech
+  speechUploadMaxBytes: Math.max(parseFloat(process.env.SPEECH_UPLOAD_MAX_MB || '10') || 10, 1) * 1024 * 1024,
+  speechUploadMaxSeconds: Math.max(parseInt(process.env.SPEECH_UPLOAD_MAX_SECONDS || '120', 10) || 120, 1),
+  // ffmpeg used to decode compressed uploads (webm/opus, ogg, mp3, m4a); the bundled or PATH one by default
+  ffmpegPath: process.env.FFMPEG_PATH,
   // Feature flags
   useRealtimeApi: process.env.USE_REALTIME_API === 'true',
   // Azure AI Agent Service configuration
@@ -22,6 +81,12 @@ export const config = {
   // Message window configuration
   // Ensure messageWindowSize is at least 20, parsing in base 10
   messageWindowSize: Math.max(parseInt(process.env.MESSAGE_WINDOW_SIZE || '20', 10), 20),
+  // Prompt token budget for chat history; 0 derives it from the model's context window
+  contextTokenBudget: Math.max(parseInt(process.env.CONTEXT_TOKEN_BUDGET || '0', 10) || 0, 0),
+  // Check scenario exit signals after every turn (one extra LLM call per turn)
+  exitCriteriaDetection: process.env.EXIT_CRITERIA_DETECTION !== 'false',
+  // Initial state of live coaching hints; supervisors can switch it at runtime
+  coachingHintsEnabled: process.env.COACHING_HINTS_ENABLED !== 'false',
 };
 
 import { AuthConfig, AuthUser } from '../types/auth';
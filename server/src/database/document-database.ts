@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { BlobServiceClient, ContainerClient, BlockBlobClient } from '@azure/storage-blob';
 import { DefaultAzureCredential } from '@azure/identity';
+import type { MoodVoiceStyle } from '../types/api';
 
 export interface DocumentRecord {
   id: string;
@@ -15,6 +16,31 @@ export interface DocumentRecord {
   updated_at: string;
 }
 
+export interface ConversationRecord {
+  id: string;
+  owner: string | null;
+  title: string;
+  parameters: string; // JSON ScenarioParameters
+  system_prompt: string;
+  model_parameters: string; // JSON ModelParameters
+  status: string;
+  metadata: string; // JSON
+  created_at: string;
+  updated_at: string;
+  message_count?: number;
+}
+
+export interface MessageRecord {
+  id: string;
+  conversation_id: string;
+  parent_id: string | null;
+  seq: number;
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  metadata: string; // JSON
+  created_at: string;
+}
+
 export interface DocumentStats {
   personas: number;
   templates: number;
@@ -27,6 +53,7 @@ export class DocumentDatabase {
   protected db: Database | null = null;
   protected isInitialized = false;
   protected isFreshDatabase = false;
+  protected moodVoiceStylesAdded = false;
   private dbPath: string;
   
   // Blob storage properties
@@ -185,11 +212,45 @@ export class DocumentDatabase {
           id INTEGER PRIMARY KEY AUTOINCREMENT,
           mood TEXT NOT NULL UNIQUE,
           description TEXT NOT NULL,
+          voice_style TEXT,
           created_at TEXT DEFAULT (datetime('now')),
           updated_at TEXT DEFAULT (datetime('now'))
         )
       `);
       this.db.run(`CREATE INDEX IF NOT EXISTS idx_moods_mood ON moods(mood)`);
+      this.ensureMoodVoiceStyleColumn();
+
+      // Server-owned conversation transcripts
+      console.log('[DB] Ensuring conversations and messages tables exist...');
+      this.db.run(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id TEXT PRIMARY KEY,
+          owner TEXT,
+          title TEXT NOT NULL,
+          parameters TEXT NOT NULL,
+          system_prompt TEXT NOT NULL,
+          model_parameters TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'active',
+          metadata TEXT NOT NULL DEFAULT '{}',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      this.db.run(`CREATE INDEX IF NOT EXISTS idx_conversations_owner ON conversations(owner, updated_at)`);
+      this.db.run(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL,
+          parent_id TEXT,
+          seq INTEGER NOT NULL,
+          role TEXT NOT NULL CHECK (role IN ('system', 'user', 'assistant')),
+          content TEXT NOT NULL,
+          metadata TEXT NOT NULL DEFAULT '{}',
+          created_at TEXT NOT NULL
+        )
+      `);
+      this.db.run(`CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, seq)`);
+      this.ensureMessageParentColumn();
       
       console.log('[DB] Database schema initialized successfully');
     } catch (error) {
@@ -198,6 +259,30 @@ export class DocumentDatabase {
     }
   }
 
+  // Moods created before voice styles existed have none; FileSyncDatabase fills them in from moods.json
+  private ensureMoodVoiceStyleColumn(): void {
+    const columns = this.db!.exec(`PRAGMA table_info(moods)`)[0]?.values.map(row => row[1]) ?? [];
+    if (columns.includes('voice_style')) return;
+    console.log('[DB] Adding voice_style to moods...');
+    this.db!.run(`ALTER TABLE moods ADD COLUMN voice_style TEXT`);
+    this.moodVoiceStylesAdded = true;
+  }
+
+  // Databases created before branching have linear transcripts: each message follows the one before it
+  private ensureMessageParentColumn(): void {
+    const columns = this.db!.exec(`PRAGMA table_info(messages)`)[0]?.values.map(row => row[1]) ?? [];
+    if (columns.includes('parent_id')) return;
+    console.log('[DB] Adding parent_id to messages...');
+    this.db!.run(`ALTER TABLE messages ADD COLUMN parent_id TEXT`);
+    this.db!.run(`
+      UPDATE messages SET parent_id = (
+        SELECT p.id FROM messages p
+        WHERE p.conversation_id = messages.conversation_id AND p.seq < messages.seq
+        ORDER BY p.seq DESC LIMIT 1
+      )
+    `);
+  }
+
   private ensureInitialized(): void {
     if (!this.isInitialized || !this.db) {
       throw new Error('Database not initialized. Please wait for initialization to complete.');
@@ -570,10 +655,10 @@ export class DocumentDatabase {
   }
   // === MOOD OPERATIONS ===
 
-  getAllMoods(): { mood: string; description: string }[] {
+  getAllMoods(): { mood: string; description: string; voiceStyle?: MoodVoiceStyle }[] {
     this.ensureInitialized();
     const stmt = this.db!.prepare('SELECT document FROM documents WHERE type = ?');
-    const moods: { mood: string; description: string }[] = [];
+    const moods: { mood: string; description: string; voiceStyle?: MoodVoiceStyle }[] = [];
     
     stmt.bind(['mood']);
     while (stmt.step()) {
@@ -582,7 +667,8 @@ export class DocumentDatabase {
         const moodData = JSON.parse(row.document as string);
         moods.push({
           mood: moodData.mood,
-          description: moodData.description
+          description: moodData.description,
+          voiceStyle: moodData.voiceStyle ?? undefined
         });
       } catch (error) {
         console.error('Error parsing mood document:', error);
@@ -593,7 +679,7 @@ export class DocumentDatabase {
     return moods;
   }
 
-  getMoodById(id: string): { id: string; mood: string; description: string } | null {
+  getMoodById(id: string): { id: string; mood: string; description: string; voiceStyle?: MoodVoiceStyle } | null {
     this.ensureInitialized();
     const stmt = this.db!.prepare('SELECT document FROM documents WHERE type = ? AND id = ?');
     stmt.bind(['mood', id]);
@@ -606,7 +692,9 @@ export class DocumentDatabase {
         return {
           id: id,
           mood: moodData.mood,
-          description: moodData.description        };
+          description: moodData.description,
+          voiceStyle: moodData.voiceStyle ?? undefined
+        };
       } catch (error) {
         console.error('Error parsing mood document:', error);
       }
@@ -614,12 +702,13 @@ export class DocumentDatabase {
     stmt.free();
     return null;
   }
-  createMood(moodData: { id: string; mood: string; description?: string }): void {
+  createMood(moodData: { id: string; mood: string; description?: string; voiceStyle?: MoodVoiceStyle }): void {
     this.ensureInitialized();
     try {
       const document = {
         mood: moodData.mood,
-        description: moodData.description || ''
+        description: moodData.description || '',
+        voiceStyle: moodData.voiceStyle
       };
       
       this.upsertDocument(
@@ -635,7 +724,7 @@ export class DocumentDatabase {
       throw error;
     }
   }
-  updateMood(id: string, moodData: { mood: string; description?: string }): void {
+  updateMood(id: string, moodData: { mood: string; description?: string; voiceStyle?: MoodVoiceStyle }): void {
     this.ensureInitialized();
     try {
       // First check if the mood exists
@@ -648,7 +737,8 @@ export class DocumentDatabase {
       // Update the mood using upsertDocument
       const document = {
         mood: moodData.mood,
-        description: moodData.description || ''
+        description: moodData.description || '',
+        voiceStyle: moodData.voiceStyle
       };
       
       this.upsertDocument(
@@ -686,6 +776,143 @@ export class DocumentDatabase {
     }
   }
 
+  // === CONVERSATION OPERATIONS ===
+
+  insertConversation(record: Omit<ConversationRecord, 'message_count'>): void {
+    this.ensureInitialized();
+    const stmt = this.db!.prepare(`
+      INSERT INTO conversations
+      (id, owner, title, parameters, system_prompt, model_parameters, status, metadata, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run([
+      record.id,
+      record.owner,
+      record.title,
+      record.parameters,
+      record.system_prompt,
+      record.model_parameters,
+      record.status,
+      record.metadata,
+      record.created_at,
+      record.updated_at
+    ]);
+    stmt.free();
+    this.saveDatabase();
+  }
+
+  getConversationById(id: string): ConversationRecord | null {
+    this.ensureInitialized();
+    const stmt = this.db!.prepare(`
+      SELECT c.*, (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      WHERE c.id = ?
+    `);
+    stmt.bind([id]);
+    const result = stmt.step() ? (stmt.getAsObject() as unknown as ConversationRecord) : null;
+    stmt.free();
+    return result;
+  }
+
+  /** Lists conversations, newest activity first; `owner` limits to one user's conversations. */
+  listConversations(owner?: string | null): ConversationRecord[] {
+    this.ensureInitialized();
+    const where = owner ? 'WHERE c.owner = ?' : '';
+    const stmt = this.db!.prepare(`
+      SELECT c.*, (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      ${where}
+      ORDER BY c.updated_at DESC
+    `);
+    if (owner) stmt.bind([owner]);
+    const results: ConversationRecord[] = [];
+    while (stmt.step()) {
+      results.push(stmt.getAsObject() as unknown as ConversationRecord);
+    }
+    stmt.free();
+    return results;
+  }
+
+  updateConversation(id: string, updates: Partial<Pick<ConversationRecord, 'title' | 'status' | 'metadata'>>): boolean {
+    this.ensureInitialized();
+    const columns = Object.keys(updates) as Array<keyof typeof updates>;
+    const stmt = this.db!.prepare(`
+      UPDATE conversations
+      SET ${columns.map(c => `${c} = ?`).join(', ')}${columns.length ? ', ' : ''}updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run([...columns.map(c => updates[c] as string), new Date().toISOString(), id]);
+    const changes = this.db!.getRowsModified();
+    stmt.free();
+    if (changes > 0) this.saveDatabase();
+    return changes > 0;
+  }
+
+  deleteConversation(id: string): boolean {
+    this.ensureInitialized();
+    const messagesStmt = this.db!.prepare('DELETE FROM messages WHERE conversation_id = ?');
+    messagesStmt.run([id]);
+    messagesStmt.free();
+    const stmt = this.db!.prepare('DELETE FROM conversations WHERE id = ?');
+    stmt.run([id]);
+    const changes = this.db!.getRowsModified();
+    stmt.free();
+    this.saveDatabase();
+    return changes > 0;
+  }
+
+  /** Appends a message to a conversation (after `parent_id` on its branch) and bumps its updated_at. */
+  insertMessage(record: Omit<MessageRecord, 'seq'>): MessageRecord {
+    this.ensureInitialized();
+    const seqStmt = this.db!.prepare('SELECT COALESCE(MAX(seq), 0) + 1 AS next FROM messages WHERE conversation_id = ?');
+    seqStmt.bind([record.conversation_id]);
+    seqStmt.step();
+    const seq = Number(seqStmt.getAsObject().next);
+    seqStmt.free();
+
+    const stmt = this.db!.prepare(`
+      INSERT INTO messages (id, conversation_id, parent_id, seq, role, content, metadata, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run([record.id, record.conversation_id, record.parent_id, seq, record.role, record.content, record.metadata, record.created_at]);
+    stmt.free();
+
+    const touch = this.db!.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?');
+    touch.run([record.created_at, record.conversation_id]);
+    touch.free();
+
+    this.saveDatabase();
+    return { ...record, seq };
+  }
+
+  updateMessage(id: string, updates: Partial<Pick<MessageRecord, 'content' | 'metadata'>>): boolean {
+    this.ensureInitialized();
+    const columns = Object.keys(updates) as Array<keyof typeof updates>;
+    if (columns.length === 0) return false;
+    const stmt = this.db!.prepare(`UPDATE messages SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`);
+    stmt.run([...columns.map(c => updates[c] as string), id]);
+    const changes = this.db!.getRowsModified();
+    stmt.free();
+    if (changes > 0) this.saveDatabase();
+    return changes > 0;
+  }
+
+  getMessagesForConversation(conversationId: string): MessageRecord[] {
+    this.ensureInitialized();
+    const stmt = this.db!.prepare(`
+      SELECT * FROM messages
+      WHERE conversation_id = ?
+      ORDER BY seq
+    `);
+    stmt.bind([conversationId]);
+    const results: MessageRecord[] = [];
+    while (stmt.step()) {
+      results.push(stmt.getAsObject() as unknown as MessageRecord);
+    }
+    stmt.free();
+    return results;
+  }
+
   // Check if this is a fresh database (newly created)
   isFreshInit(): boolean {
     return this.isFreshDatabase;
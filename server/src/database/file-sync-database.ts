@@ -3,6 +3,7 @@ import { SyncUtils } from './sync-utils';
 import chokidar, { FSWatcher } from 'chokidar';
 import fs from 'fs/promises';
 import path from 'path';
+import type { MoodVoiceStyle } from '../types/api';
 
 export interface FileSyncOptions {
   personasDir?: string;
@@ -81,6 +82,7 @@ export class FileSyncDatabase extends DocumentDatabase {
         await this.syncMoods();
       } else {
         console.log('📊 Existing database - skipping mood file sync (using database moods)');
+        if (this.moodVoiceStylesAdded) await this.syncMoodVoiceStyles();
       }
 
       // Fallback: if moods table exists but is empty (e.g., after schema upgrade), seed from file once
@@ -175,9 +177,9 @@ export class FileSyncDatabase extends DocumentDatabase {
       if (this.db) this.db.run('DELETE FROM moods');
       // Insert all moods from file
       if (this.db) {
-        const stmt = this.db.prepare('INSERT INTO moods (mood, description) VALUES (?, ?)');
+        const stmt = this.db.prepare('INSERT INTO moods (mood, description, voice_style) VALUES (?, ?, ?)');
         for (const entry of moods) {
-          stmt.run([entry.mood, entry.description]);
+          stmt.run([entry.mood, entry.description, entry.voiceStyle ? JSON.stringify(entry.voiceStyle) : null]);
         }
         stmt.free();
         // Log row count after insert
@@ -192,6 +194,21 @@ export class FileSyncDatabase extends DocumentDatabase {
     }
   }
 
+  // Gives moods that predate voice styles the style moods.json has for the same name
+  private async syncMoodVoiceStyles(): Promise<void> {
+    if (!this.db) return;
+    try {
+      const moods = JSON.parse(await fs.readFile(this.moodsFile, 'utf-8'));
+      for (const entry of moods) {
+        if (!entry.voiceStyle) continue;
+        this.db.run('UPDATE moods SET voice_style = ? WHERE mood = ? AND voice_style IS NULL', [JSON.stringify(entry.voiceStyle), entry.mood]);
+      }
+      console.log('🔄 Added voice styles to existing moods from moods.json');
+    } catch (error) {
+      console.error('❌ Error adding mood voice styles:', error);
+    }
+  }
+
   private async syncPersonaFile(filePath: string): Promise<void> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
@@ -407,20 +424,21 @@ export class FileSyncDatabase extends DocumentDatabase {
   }
 
   // Public method to get all moods from the database
-  public getAllMoods(): { mood: string; description: string }[] {
+  public getAllMoods(): { mood: string; description: string; voiceStyle?: MoodVoiceStyle }[] {
     if (!this.db) {
       console.log('[getAllMoods] No db instance');
       return [];
     }
-    const result = this.db.exec('SELECT mood, description FROM moods');
+    const result = this.db.exec('SELECT mood, description, voice_style FROM moods');
     console.log('[getAllMoods] Query result:', JSON.stringify(result, null, 2));
     if (!result[0]) {
       console.log('[getAllMoods] No result[0]');
       return [];
     }
-    const moods = result[0].values.map(([mood, description]) => ({
+    const moods = result[0].values.map(([mood, description, voiceStyle]) => ({
       mood: mood ? String(mood) : '',
-      description: description ? String(description) : ''
+      description: description ? String(description) : '',
+      voiceStyle: parseVoiceStyle(voiceStyle)
     }));
     console.log('[getAllMoods] Returning moods:', moods);
     return moods;
@@ -428,13 +446,13 @@ export class FileSyncDatabase extends DocumentDatabase {
 
   // === MOOD-SPECIFIC CRUD METHODS ===
 
-  public getMoodById(id: string): { id: string; mood: string; description: string } | null {
+  public getMoodById(id: string): { id: string; mood: string; description: string; voiceStyle?: MoodVoiceStyle } | null {
     if (!this.db) {
       console.log('[getMoodById] No db instance');
       return null;
     }
     
-    const result = this.db.exec('SELECT mood, description FROM moods WHERE mood = ?', [id]);
+    const result = this.db.exec('SELECT mood, description, voice_style FROM moods WHERE mood = ?', [id]);
     console.log('[getMoodById] Query result:', JSON.stringify(result, null, 2));
     
     if (!result[0] || !result[0].values[0]) {
@@ -442,27 +460,28 @@ export class FileSyncDatabase extends DocumentDatabase {
       return null;
     }
     
-    const [mood, description] = result[0].values[0];
+    const [mood, description, voiceStyle] = result[0].values[0];
     return {
       id: String(mood),
       mood: String(mood),
-      description: String(description)
+      description: String(description),
+      voiceStyle: parseVoiceStyle(voiceStyle)
     };
   }
-  public createMood(moodData: { id: string; mood: string; description: string }): void {
+  public createMood(moodData: { id: string; mood: string; description: string; voiceStyle?: MoodVoiceStyle }): void {
     if (!this.db) {
       console.log('[createMood] No db instance');
       throw new Error('Database not initialized');
     }
     
     try {
-      this.db.run('INSERT INTO moods (mood, description) VALUES (?, ?)', [moodData.mood, moodData.description]);
+      this.db.run('INSERT INTO moods (mood, description, voice_style) VALUES (?, ?, ?)', [moodData.mood, moodData.description, serializeVoiceStyle(moodData.voiceStyle)]);
       console.log('[createMood] Created mood:', moodData.mood);
     } catch (error) {
       console.error('[createMood] Error:', error);
       throw error;
     }
-  }public updateMood(id: string, moodData: { mood: string; description: string }): void {
+  }public updateMood(id: string, moodData: { mood: string; description: string; voiceStyle?: MoodVoiceStyle }): void {
     if (!this.db) {
       console.log('[updateMood] No db instance');
       throw new Error('Database not initialized');
@@ -479,7 +498,7 @@ export class FileSyncDatabase extends DocumentDatabase {
       }
       
       // Update the mood
-      this.db.run('UPDATE moods SET mood = ?, description = ? WHERE mood = ?', [moodData.mood, moodData.description, id]);
+      this.db.run('UPDATE moods SET mood = ?, description = ?, voice_style = ? WHERE mood = ?', [moodData.mood, moodData.description, serializeVoiceStyle(moodData.voiceStyle), id]);
       console.log('[updateMood] Updated mood:', id);
     } catch (error) {
       console.error('[updateMood] Error:', error);
@@ -534,3 +553,17 @@ export class FileSyncDatabase extends DocumentDatabase {
     await this.syncAllFiles();
   }
 }
+
+// Mood voice styles are stored as JSON text in the moods table
+function parseVoiceStyle(value: unknown): MoodVoiceStyle | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function serializeVoiceStyle(voiceStyle?: MoodVoiceStyle): string | null {
+  return voiceStyle ? JSON.stringify(voiceStyle) : null;
+}
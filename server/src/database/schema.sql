@@ -49,3 +49,32 @@ CREATE TABLE IF NOT EXISTS moods (
   updated_at TEXT DEFAULT (datetime('now'))
 );
 CREATE INDEX IF NOT EXISTS idx_moods_mood ON moods(mood);
+
+-- Conversations owned by the server (rendered system prompt + scenario parameters)
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  owner TEXT,                                       -- Username of the authenticated owner (NULL when auth is disabled)
+  title TEXT NOT NULL,
+  parameters TEXT NOT NULL,                         -- JSON ScenarioParameters used to render the prompt
+  system_prompt TEXT NOT NULL,                      -- Rendered system prompt, fixed for the conversation
+  model_parameters TEXT NOT NULL DEFAULT '{}',      -- JSON effective generation parameters
+  status TEXT NOT NULL DEFAULT 'active',            -- active | ended
+  metadata TEXT NOT NULL DEFAULT '{}',              -- JSON for feature-specific state
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_conversations_owner ON conversations(owner, updated_at);
+
+-- Transcript messages, ordered by seq within a conversation. Regenerated, edited
+-- and forked turns share a parent, so the messages form a tree of branches.
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  parent_id TEXT,                                   -- previous message on the branch; NULL for the first turn
+  seq INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('system', 'user', 'assistant')),
+  content TEXT NOT NULL,
+  metadata TEXT NOT NULL DEFAULT '{}',              -- JSON: usage, modelParameters, ...
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, seq);
@@ -1,7 +1,6 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { config } from './config/env';
-import OpenAI from 'openai';
 // Use require for speech SDK to bypass missing type declarations
 const sdk: any = require('microsoft-cognitiveservices-speech-sdk');
 import { errorHandler } from './middleware/errorHandler';
@@ -15,11 +14,16 @@ import statsRouter from './routes/stats';
 import tokenRouter from './routes/token';
 import scenariosRouter from './routes/scenarios';
 import moodsRouter from './routes/moods';
+import conversationsRouter from './routes/conversations';
+import coachingRouter from './routes/coaching';
 import { ConversationData, EvaluationResult } from './services/OpenAIEvaluationService';
 import cookieParser from 'cookie-parser';
 import { authMiddleware } from './middleware/authMiddleware';
+import { describeLlmProvider } from './services/llm';
 import { rateLimitMiddleware } from './middleware/rateLimitMiddleware';
 import authRouter from './routes/auth';
+import { attachVoiceSocket } from './routes/voiceSocket';
+import { scheduleRecordingRetention } from './services/callRecordingService';
 
 const app: Express = express();
 const PORT = config.port;
@@ -40,18 +44,6 @@ app.use((req, res, next) => {
 // Register personas router first
 app.use('/api/personas', personasRouter);
 
-// Initialize OpenAI client
-let openai: OpenAI | null = null;
-
-if (config.azureOpenAiEndpoint && config.azureOpenAiKey) {
-  openai = new OpenAI({
-    apiKey: config.azureOpenAiKey,
-    baseURL: `${config.azureOpenAiEndpoint}/openai/deployments/${config.azureOpenAiDeployment}`,
-    defaultQuery: { 'api-version': '2023-05-15' },
-    defaultHeaders: { 'api-key': config.azureOpenAiKey },
-  });
-}
-
 // Azure Speech Service Configuration
 const AZURE_SPEECH_KEY = 'your-azure-speech-key';
 const AZURE_SPEECH_REGION = 'your-azure-speech-region'; // e.g., 'eastus'
@@ -72,7 +64,7 @@ speechConfig.speechSynthesisOutputFormat = sdk.SpeechSynthesisOutputFormat.Audio
 
 // Health check endpoints (/api/health existing + lightweight /healthz for platform checks)
 app.get('/api/health', (req: Request, res: Response) => {
-  res.json({ status: 'ok', message: 'Server is running' });
+  res.json({ status: 'ok', message: 'Server is running', llm: describeLlmProvider() });
 });
 app.get('/healthz', (req: Request, res: Response) => {
   res.status(200).json({ status: 'ok' });
@@ -103,6 +95,8 @@ app.use(rateLimitMiddleware);
 // Register routes
 app.use('/api/templates', templatesRouter);
 app.use('/api/chat', chatRouter);
+app.use('/api/conversations', conversationsRouter);
+app.use('/api/coaching', coachingRouter);
 app.use('/api/speech', speechRouter);
 app.use('/api/speech-realtime', speechRealtimeRouter);
 app.use('/api/stats', statsRouter);
@@ -111,6 +105,8 @@ app.use('/api/moods', moodsRouter);
 
 // Evaluation endpoints - inline implementation
 import { OpenAIEvaluationService } from './services/OpenAIEvaluationService';
+import { isLanguageTag } from './services/languageService';
+import { parseRecognitionDetail } from './services/stt';
 const evaluationService = new OpenAIEvaluationService();
 
 // POST /api/evaluation/analyze-simple - Simple JSON response version
@@ -144,6 +140,27 @@ app.post('/api/evaluation/analyze-simple', async (req: any, res: any) => {
       });
     }
 
+    const invalidRecognition = conversationData.messages.find((msg: any) => {
+      try {
+        parseRecognitionDetail(msg.recognition);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+
+    if (invalidRecognition) {
+      return res.status(400).json({
+        error: 'Invalid recognition detail. Spoken messages need words with offsetMs, durationMs and confidence.'
+      });
+    }
+
+    if (conversationData.reportLanguage !== undefined && !isLanguageTag(conversationData.reportLanguage)) {
+      return res.status(400).json({
+        error: "reportLanguage must be a language tag such as 'en-US' or 'es-MX'."
+      });
+    }
+
     // Run evaluation without progress updates
     const result: EvaluationResult = await evaluationService.evaluateConversation(conversationData);
     console.log('Evaluation result:', { runId: result.runId, threadId: result.threadId, timestamp: result.timestamp });
@@ -165,11 +182,13 @@ app.post('/api/evaluation/analyze-simple', async (req: any, res: any) => {
 // GET /api/evaluation/test - Test the Azure AI Agent connection
 app.get('/api/evaluation/test', async (req: any, res: any) => {
   try {
-    // Removed: const isConnected = await evaluationService.testConnection();
-    
+    // Evaluation runs on the configured LLM provider
+    const llm = describeLlmProvider();
     res.json({
-      connected: true,
-      service: 'Azure AI Agent Service',
+      connected: llm.ready,
+      service: `LLM provider: ${llm.provider}`,
+      model: llm.model,
+      error: llm.error,
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
@@ -230,13 +249,18 @@ async function startServer() {
     }
     
     // Start the Express server
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`\n🎉 Server is running on port ${PORT}`);
-      console.log(`OpenAI client initialized: ${!!openai}`);
+      const llm = describeLlmProvider();
+      console.log(`LLM provider: ${llm.provider}${llm.model ? ` (${llm.model})` : ''} - ${llm.ready ? 'ready' : `not configured: ${llm.error}`}`);
       console.log(`Azure Speech config initialized: ${!!speechConfig}`);
       console.log(`Database service status: ${databaseServiceFactory.isDatabaseReady() ? 'Ready' : 'Fallback mode'}`);
       console.log(`\n📊 Server ready for requests!`);
     });
+    // Full-duplex voice channel shares the HTTP port
+    attachVoiceSocket(server);
+    // Delete call recordings past RECORDING_RETENTION_DAYS
+    scheduleRecordingRetention();
     
   } catch (error) {
     console.error('💥 Failed to start server:', error);
@@ -0,0 +1,26 @@
+import express, { RequestHandler } from 'express';
+import { config } from '../config/env';
+import { isAudioUploadRequest } from '../services/audioUpload';
+
+// Multipart forms carry a little framing around the audio
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+const rawAudio = express.raw({ type: isAudioUploadRequest, limit: config.speechUploadMaxBytes + MULTIPART_OVERHEAD_BYTES });
+
+/**
+ * Buffers binary and multipart audio uploads into `req.body` for the recognize
+ * endpoints; JSON bodies are left to the global JSON parser. Uploads over
+ * SPEECH_UPLOAD_MAX_MB are answered with a 413 before they are read in full.
+ */
+export const audioUploadMiddleware: RequestHandler = (req, res, next) => {
+  rawAudio(req, res, (error?: any) => {
+    if (error?.type === 'entity.too.large') {
+      res.status(413).json({
+        error: 'Speech recognition failed',
+        details: `Audio is larger than the ${Math.round(config.speechUploadMaxBytes / 1024 / 1024)} MB limit`
+      });
+      return;
+    }
+    next(error);
+  });
+};
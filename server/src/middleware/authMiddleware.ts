@@ -1,6 +1,43 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { authConfig } from '../config/env';
 import { sessionStore } from '../storage/sessionStore';
+import type { UserSession } from '../types/auth';
+
+/**
+ * Looks up a session and extends its rolling expiration. Resolves with the
+ * session, or with the reason it cannot be used.
+ */
+export async function validateSession(sessionId: string): Promise<{ session: UserSession } | { error: string }> {
+  const session = await sessionStore.get(sessionId);
+  if (!session) {
+    return { error: 'Invalid or expired session' };
+  }
+
+  // Rolling expiration
+  const now = new Date();
+  const lastActivity = new Date(session.lastActivity);
+  const expiresAt = new Date(lastActivity);
+  expiresAt.setHours(expiresAt.getHours() + authConfig.sessionDurationHours);
+  if (now > expiresAt) {
+    await sessionStore.delete(session.sessionId);
+    return { error: 'Session expired' };
+  }
+
+  session.lastActivity = now;
+  session.expiresAt = expiresAt;
+  await sessionStore.set(session.sessionId, session);
+  return { session };
+}
+
+/** The session authMiddleware attached to the request; unset when auth is disabled or the endpoint is public. */
+export function getSession(req: Request): UserSession | undefined {
+  return (req as Request & { session?: UserSession }).session;
+}
+
+/** Whether the caller may manage supervisor settings. With auth disabled there are no roles, so anyone may. */
+export function isSupervisor(req: Request): boolean {
+  return !authConfig.enabled || getSession(req)?.role === 'supervisor';
+}
 
 export const authMiddleware: RequestHandler = (req, res, next) => {
   // Always allow these endpoints without authentication
@@ -24,30 +61,16 @@ export const authMiddleware: RequestHandler = (req, res, next) => {
 
   (async () => {
     try {
-      const session = await sessionStore.get(sessionId as string);
-      if (!session) {
-        res.status(401).json({ error: 'Invalid or expired session' });
+      const result = await validateSession(sessionId as string);
+      if ('error' in result) {
+        res.status(401).json({ error: result.error });
         return;
       }
-
-      // Rolling expiration
-      const now = new Date();
-      const lastActivity = new Date(session.lastActivity);
-      const expiresAt = new Date(lastActivity);
-      expiresAt.setHours(expiresAt.getHours() + authConfig.sessionDurationHours);
-      if (now > expiresAt) {
-        await sessionStore.delete(session.sessionId);
-        res.status(401).json({ error: 'Session expired' });
-        return;
-      }
-
-      session.lastActivity = now;
-      session.expiresAt = expiresAt;
-      await sessionStore.set(session.sessionId, session);
+      const { session } = result;
 
       // Attach session to request
       (req as any).session = session;
-      console.log(`[Auth] User '${session.username}' session '${session.sessionId}' validated at ${now.toISOString()}`);
+      console.log(`[Auth] User '${session.username}' session '${session.sessionId}' validated at ${session.lastActivity.toISOString()}`);
       next();
     } catch (error) {
       next(error);
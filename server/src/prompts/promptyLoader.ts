@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import type { ModelParameters, Template } from '../types/api';
 
 interface PrompyConfiguration {
   type: string;
@@ -17,6 +18,35 @@ interface PrompyConfiguration {
 interface PrompyModel {
   api: string;
   configuration: PrompyConfiguration;
+  // Prompty spec location for generation settings (temperature, max_tokens, ...)
+  parameters?: ModelParameters;
+}
+
+// Valid range per generation parameter; anything outside is dropped
+const MODEL_PARAMETER_RANGES: Record<keyof ModelParameters, [number, number]> = {
+  temperature: [0, 2],
+  max_tokens: [1, 128000],
+  top_p: [0, 1],
+  frequency_penalty: [-2, 2],
+  presence_penalty: [-2, 2],
+};
+
+/**
+ * Picks the known generation parameters out of an arbitrary object
+ * (Prompty frontmatter, scenario JSON), ignoring missing or invalid values.
+ */
+export function extractModelParameters(source: unknown): ModelParameters {
+  const result: ModelParameters = {};
+  if (!source || typeof source !== 'object') return result;
+  (Object.keys(MODEL_PARAMETER_RANGES) as Array<keyof ModelParameters>).forEach(key => {
+    const raw = (source as Record<string, unknown>)[key];
+    const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    const [min, max] = MODEL_PARAMETER_RANGES[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) {
+      result[key] = key === 'max_tokens' ? Math.floor(value) : value;
+    }
+  });
+  return result;
 }
 
 interface PrompyMetadata {
@@ -38,15 +68,20 @@ export class PrompyLoader {
     content: string,
     name: string,
     description: string,
-    parameters: Record<string, any>
+    parameters: Record<string, any>,
+    model?: Template['model']
   ): { systemMessage: string; configuration: PrompyConfiguration } {
-    // Use a minimal metadata object for compatibility
+    // Use a minimal metadata object for compatibility; keep stored frontmatter model settings if any
     const template: PrompyTemplate = {
       metadata: {
         name,
         description,
         authors: [],
-        model: { api: '', configuration: { type: 'custom' } },
+        model: {
+          api: model?.api || '',
+          configuration: { type: 'custom', ...(model?.configuration || {}) } as PrompyConfiguration,
+          parameters: model?.parameters
+        },
         parameters: {}
       },
       content
@@ -139,19 +174,9 @@ export class PrompyLoader {
     const finalContent = renderedContent.replace(/{{[\w_]+}}/g, '');
     console.log('Final content after cleanup:', finalContent);
     
-    // Resolve environment variables in configuration
-    const resolvedConfig = { ...template.metadata.model.configuration };
-    Object.keys(resolvedConfig).forEach(key => {
-      const value = resolvedConfig[key as keyof PrompyConfiguration];
-      if (typeof value === 'string' && value.startsWith('${env:')) {
-        const envVar = value.slice(6, -1); // Remove ${env: and }
-        (resolvedConfig as any)[key] = process.env[envVar] || value;
-      }
-    });
-    
     return {
       systemMessage: renderedContent.trim(),
-      configuration: resolvedConfig
+      configuration: this.resolveConfiguration(template.metadata.model)
     };
   }
   
@@ -196,7 +221,7 @@ export class PrompyLoader {
     
     return {
       systemMessage: template.content,
-      configuration: template.metadata.model.configuration
+      configuration: this.resolveConfiguration(template.metadata.model)
     };
   }
 
@@ -230,8 +255,18 @@ export class PrompyLoader {
     renderedContent = renderedContent.replace(/{% if \w+ %}|{% endif %}/g, '');
     const finalContent = renderedContent.replace(/{{[\w_]+}}/g, '');
     
-    // Resolve environment variables in configuration
-    const resolvedConfig = { ...template.metadata.model.configuration };
+    return {
+      systemMessage: finalContent.trim(),
+      configuration: this.resolveConfiguration(template.metadata.model)
+    };
+  }
+
+  /**
+   * Resolves ${env:VAR} references in the model configuration and folds in
+   * `model.parameters`, which take precedence over same-named configuration keys.
+   */
+  private static resolveConfiguration(model?: PrompyModel): PrompyConfiguration {
+    const resolvedConfig: PrompyConfiguration = { type: 'custom', ...(model?.configuration || {}) };
     Object.keys(resolvedConfig).forEach(key => {
       const value = resolvedConfig[key as keyof PrompyConfiguration];
       if (typeof value === 'string' && value.startsWith('${env:')) {
@@ -239,12 +274,8 @@ export class PrompyLoader {
         (resolvedConfig as any)[key] = process.env[envVar] || value;
       }
     });
-    
-    return {
-      systemMessage: finalContent.trim(),
-      configuration: resolvedConfig
-    };
+    return { ...resolvedConfig, ...extractModelParameters(model?.parameters) };
   }
 }
 
-export { PrompyTemplate, PrompyMetadata, PrompyConfiguration };
+export { PrompyTemplate, PrompyMetadata, PrompyConfiguration, PrompyModel };
@@ -1,7 +1,10 @@
-import { PrompyLoader } from './promptyLoader';
+import { PrompyLoader, extractModelParameters } from './promptyLoader';
+import type { PrompyConfiguration } from './promptyLoader';
+import type { ModelParameters } from '../types/api';
 import { config } from '../config/env';
 import { getScenarioById, formatScenarioForTemplate } from '../services/scenarioService';
 import { getPersonaById, formatPersonaForTemplate } from '../services/personaService';
+import { DEFAULT_LANGUAGE, languageInstruction, resolveSessionLanguage, type LanguageSetting } from '../services/languageService';
 
 /**
  * Utility class for managing different Prompty templates based on conversation context
@@ -61,9 +64,17 @@ export class TemplateManager {
     
     return baseParams;
   }  /**
-   * Gets the appropriate system message and configuration for the current context
+   * Gets the appropriate system message and configuration for the current context.
+   * `modelParameters` are the effective generation settings: the template's
+   * frontmatter parameters overridden by the scenario's `model_parameters`.
+   * When the session, scenario or persona sets a language, the prompt ends
+   * with an instruction to hold the call in it.
    */
-  public static async getContextualPrompt(messages: any[], parameters?: Record<string, any>, userContext?: any) {
+  public static async getContextualPrompt(
+    messages: any[],
+    parameters?: Record<string, any>,
+    userContext?: any
+  ): Promise<{ systemMessage: string; configuration: PrompyConfiguration; modelParameters: ModelParameters }> {
     // Use template name from parameters if provided, otherwise use default selection logic
     let templateName: string;
     
@@ -80,6 +91,12 @@ export class TemplateManager {
     }
       // Start with provided parameters or extract from messages
     let templateParameters = parameters ?? this.extractParameters(messages, templateName);
+    const sessionLanguage: LanguageSetting = {
+      language: templateParameters.language,
+      alternateLanguages: templateParameters.alternateLanguages,
+    };
+    let personaLanguage: LanguageSetting | undefined;
+    let scenarioLanguage: LanguageSetting | undefined;
       // If persona is provided, fetch persona details from files/database
     if (templateParameters.persona) {
       try {
@@ -88,6 +105,7 @@ export class TemplateManager {
         if (persona) {          console.log('TemplateManager: Found persona details for:', templateParameters.persona, persona);
           // Replace the persona ID with detailed persona information
           const personaFormatted = formatPersonaForTemplate(persona);
+          personaLanguage = { language: persona.language, alternateLanguages: persona.alternate_languages };
           templateParameters = {
             ...templateParameters,
             ...personaFormatted,
@@ -103,6 +121,8 @@ export class TemplateManager {
         // Keep the original persona value as fallback
       }
     }
+    // Scenario-level generation overrides, applied on top of the template's parameters
+    let scenarioModelParameters: ModelParameters = {};
       // If scenarioId is provided, fetch scenario details from database
     if (templateParameters.scenarioId) {
       try {
@@ -116,6 +136,8 @@ export class TemplateManager {
             ...templateParameters,
             ...scenarioFormatted,
           };
+          scenarioModelParameters = extractModelParameters(scenario.model_parameters);
+          scenarioLanguage = { language: scenario.language, alternateLanguages: scenario.alternate_languages };
           // Don't delete scenarioId since formatScenarioForTemplate doesn't set it
           console.log('TemplateManager: Updated parameters with scenario details:', templateParameters);
         } else {
@@ -140,6 +162,22 @@ export class TemplateManager {
       delete templateParameters.scenarioId;
     }
     
+    const rendered = await this.renderTemplateByName(templateName, templateParameters);
+    const language = resolveSessionLanguage(sessionLanguage, scenarioLanguage, personaLanguage);
+    // English-only calls keep the template's prompt as written
+    if (language.language !== DEFAULT_LANGUAGE || language.alternateLanguages.length > 0) {
+      rendered.systemMessage = `${rendered.systemMessage.trimEnd()}\n\n${languageInstruction(language)}`;
+    }
+    return {
+      ...rendered,
+      modelParameters: { ...extractModelParameters(rendered.configuration), ...scenarioModelParameters },
+    };
+  }
+
+  /**
+   * Renders a template by name, preferring the database copy and falling back to the .prompty file
+   */
+  private static async renderTemplateByName(templateName: string, templateParameters: Record<string, any>) {
     // Try to load template from the database first, then fallback to file
     try {
       // Use the singleton databaseServiceFactory to get the DocumentService
@@ -159,8 +197,7 @@ export class TemplateManager {
         });
         if (dbTemplate && dbTemplate.prompt) {
           // Use the prompt from the database
-          const rendered = PrompyLoader.renderTemplateFromContent(dbTemplate.prompt, dbTemplate.name, dbTemplate.description || '', templateParameters);
-          return rendered;
+          return PrompyLoader.renderTemplateFromContent(dbTemplate.prompt, dbTemplate.name, dbTemplate.description || '', templateParameters, dbTemplate.model);
         }
         // Log for debugging if fallback is about to be used
         console.warn(`[TemplateManager] No DB template matched for requested name/id: '${templateName}' (normalized: '${normalizedTemplateName}'). Falling back to file.`);
@@ -1,28 +1,82 @@
 import { Router, Request, Response } from 'express';
-import { getChatCompletion } from '../services/chatService';
-import type { ChatMessage, ChatRequest, ChatResponse } from '../types/api';
+import { getChatCompletion, streamChatCompletion, toReplyAssessment } from '../services/chatService';
+import { toLlmError } from '../services/llm';
+import type { ChatMessage, ChatRequest, ChatResponse, ChatErrorResponse, ChatStreamEvent } from '../types/api';
 import type { ScenarioParameters } from '../types/api';
 import { TemplateManager } from '../prompts/templateManager';
+import { openEventStream, sendEvent } from '../util/sse';
 
 const router = Router();
 
 // POST /api/chat - Chat completion endpoint
-router.post('/', async (req: Request<any, any, ChatRequest>, res: Response<ChatResponse>) => {
+router.post('/', async (req: Request<any, any, ChatRequest>, res: Response<ChatResponse | ChatErrorResponse>) => {
+  const { messages, parameters }: ChatRequest = req.body;
+  if (!Array.isArray(messages)) {
+    res.status(400).json({ error: 'Invalid request body. Expected messages array.' });
+    return;
+  }
   try {
-    const { messages, parameters }: ChatRequest = req.body;
-    const result = await getChatCompletion(messages, undefined, parameters);
+    const { reply, assessment } = await getChatCompletion(messages, undefined, parameters);
     // Ensure content is always a string and include usage data
     res.json({ 
       role: 'assistant',
-      content: result.content ?? '',
-      usage: result.usage
+      content: reply.content ?? '',
+      usage: reply.usage,
+      modelParameters: reply.modelParameters,
+      ...toReplyAssessment(await assessment)
     });
   } catch (error) {
-    res.json({ 
-      role: 'assistant', 
-      content: 'Sorry, I encountered an error processing your request. Please try again.' 
+    const llmError = toLlmError(error);
+    console.error(`[Chat] Completion failed (${llmError.code}):`, error);
+    res.status(llmError.status).json(llmError.toResponse());
+  }
+});
+
+// Narrows sendEvent to the chat stream's event shapes
+const sendChatEvent = (res: Response, event: ChatStreamEvent) => sendEvent(res, event);
+
+// POST /api/chat/stream - Streaming chat completion over Server-Sent Events
+// Emits `delta` events with content fragments, then a single `done` event carrying usage,
+// then an `assessment` event when the scenario has exit criteria to check the reply against.
+router.post('/stream', async (req: Request<any, any, ChatRequest>, res: Response) => {
+  const { messages, parameters }: ChatRequest = req.body;
+  if (!Array.isArray(messages)) {
+    res.status(400).json({ error: 'Invalid request body. Expected messages array.' });
+    return;
+  }
+
+  // Aborts the upstream completion if the client goes away mid-stream
+  const signal = openEventStream(res);
+
+  try {
+    const { reply, assessment } = await streamChatCompletion(
+      messages,
+      content => sendChatEvent(res, { event: 'delta', data: { content } }),
+      { parameters, signal }
+    );
+    sendChatEvent(res, {
+      event: 'done',
+      data: {
+        role: 'assistant',
+        content: reply.content,
+        usage: reply.usage,
+        modelParameters: reply.modelParameters
+      }
     });
+    const exitCriteria = await assessment;
+    if (exitCriteria && !signal.aborted) {
+      sendChatEvent(res, { event: 'assessment', data: { conversationState: exitCriteria.state, exitCriteria } });
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('[Chat] Stream aborted by client');
+      return;
+    }
+    const llmError = toLlmError(error);
+    console.error(`[Chat] Streaming completion failed (${llmError.code}):`, error);
+    sendChatEvent(res, { event: 'error', data: llmError.toResponse() });
   }
+  res.end();
 });
 
 // POST /api/chat/system-prompt - Get substituted system prompt
@@ -0,0 +1,32 @@
+import { Router, Request, Response } from 'express';
+import { getSession, isSupervisor } from '../middleware/authMiddleware';
+import { coachingPolicy } from '../services/coachingService';
+import type { CoachingSettings } from '../types/api';
+
+const router = Router();
+
+function getSettings(req: Request): CoachingSettings {
+  return { enabled: coachingPolicy.isEnabled(), canManage: isSupervisor(req) };
+}
+
+// GET /api/coaching/settings - Whether live coaching hints are available
+router.get('/settings', (req: Request, res: Response) => {
+  res.json({ success: true, settings: getSettings(req) });
+});
+
+// PUT /api/coaching/settings - Turn coaching hints on or off (supervisors only)
+router.put('/settings', (req: Request<any, any, { enabled?: boolean }>, res: Response) => {
+  if (!isSupervisor(req)) {
+    res.status(403).json({ success: false, error: 'Only supervisors can change coaching settings' });
+    return;
+  }
+  const { enabled } = req.body ?? {};
+  if (typeof enabled !== 'boolean') {
+    res.status(400).json({ success: false, error: 'enabled must be a boolean' });
+    return;
+  }
+  coachingPolicy.setEnabled(enabled, getSession(req)?.username);
+  res.json({ success: true, settings: getSettings(req) });
+});
+
+export default router;
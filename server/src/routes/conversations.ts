@@ -0,0 +1,384 @@
+import { Router, Request, Response } from 'express';
+import { DatabaseServiceFactory } from '../services/database-service-factory';
+import {
+  createConversation,
+  getConversation,
+  listConversations,
+  deleteConversation,
+  postTurn,
+  regenerateReply,
+  getRegenerateTarget,
+  getMessage,
+  forkConversation,
+  selectBranch,
+  interruptReply,
+  coachTurn,
+  getCoachingCriteria,
+  analyzeSpeech
+} from '../services/conversationService';
+import { searchAccounts, viewAccountSection } from '../services/agentDesktopService';
+import { getSession } from '../middleware/authMiddleware';
+import { LlmError, toLlmError } from '../services/llm';
+import { toReplyAssessment, type AssessedReply } from '../services/chatService';
+import { validateLanguageSetting } from '../services/languageService';
+import { deleteRecording, findRecording } from '../services/callRecordingService';
+import { parseRecognitionDetail } from '../services/stt';
+import { openEventStream, sendEvent } from '../util/sse';
+import type {
+  ConversationBranchRequest,
+  ConversationInterruptionRequest,
+  ConversationRegenerateRequest,
+  ConversationTurnRequest,
+  ConversationTurnResponse,
+  ScenarioParameters
+} from '../types/api';
+
+const router = Router();
+
+const databaseServiceFactory = DatabaseServiceFactory.getInstance();
+
+// Username of the authenticated caller; undefined when auth is disabled
+function getOwner(req: Request): string | undefined {
+  return getSession(req)?.username;
+}
+
+// Responds 503 and returns false when conversation storage is unavailable
+function ensureStorage(res: Response): boolean {
+  if (!databaseServiceFactory.getDocumentService()) {
+    res.status(503).json({
+      success: false,
+      error: 'DocumentService not available. Check server initialization.'
+    });
+    return false;
+  }
+  return true;
+}
+
+// Spoken turns carry word timing from the recognizer; malformed detail is the caller's mistake
+function rejectInvalidRecognition(recognition: unknown, res: Response): boolean {
+  try {
+    parseRecognitionDetail(recognition);
+    return false;
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+    return true;
+  }
+}
+
+function sendError(res: Response, error: unknown, action: string) {
+  console.error(`Error ${action}:`, error);
+  if (error instanceof LlmError) {
+    res.status(error.status).json({ success: false, ...error.toResponse(`Failed to ${action}`), details: error.message });
+    return;
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const status = message.includes('not found')
+    ? 404
+    : message.includes('turned off')
+      ? 403
+      : message.includes('required') ? 400 : 500;
+  res.status(status).json({
+    success: false,
+    error: `Failed to ${action}`,
+    details: message
+  });
+}
+
+// Streams a generated reply as `delta` events, then `done` with the persisted turn,
+// then `assessment` once the reply has been checked against the scenario's exit criteria
+async function streamTurn(
+  res: Response,
+  generate: (options: { signal: AbortSignal; onDelta: (content: string) => void }) => Promise<AssessedReply<ConversationTurnResponse>>
+) {
+  const signal = openEventStream(res);
+  try {
+    const { reply, assessment } = await generate({
+      signal,
+      onDelta: delta => sendEvent(res, { event: 'delta', data: { content: delta } })
+    });
+    sendEvent(res, { event: 'done', data: reply });
+    const exitCriteria = await assessment;
+    if (exitCriteria && !signal.aborted) {
+      sendEvent(res, { event: 'assessment', data: { conversationState: exitCriteria.state, exitCriteria } });
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('[Conversations] Stream aborted by client');
+      return;
+    }
+    const llmError = toLlmError(error);
+    console.error(`[Conversations] Streaming turn failed (${llmError.code}):`, error);
+    sendEvent(res, { event: 'error', data: llmError.toResponse() });
+  }
+  res.end();
+}
+
+// POST /api/conversations - Start a conversation from persona/scenario/mood/template parameters
+router.post('/', async (req: Request<any, any, { parameters: ScenarioParameters }>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const { parameters } = req.body ?? {};
+  if (!parameters || typeof parameters !== 'object') {
+    res.status(400).json({ success: false, error: 'Conversation parameters are required' });
+    return;
+  }
+  try {
+    validateLanguageSetting(parameters, 'Session');
+  } catch (error) {
+    res.status(400).json({ success: false, error: (error as Error).message });
+    return;
+  }
+  try {
+    const conversation = await createConversation(parameters, getOwner(req));
+    res.status(201).json({ success: true, conversation });
+  } catch (error) {
+    sendError(res, error, 'create conversation');
+  }
+});
+
+// GET /api/conversations - List the caller's conversations, most recent first
+router.get('/', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    const conversations = await listConversations(getOwner(req));
+    res.json({ success: true, conversations, count: conversations.length });
+  } catch (error) {
+    sendError(res, error, 'list conversations');
+  }
+});
+
+// GET /api/conversations/:id - Get a conversation with its full transcript
+router.get('/:id', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    const conversation = await getConversation(req.params.id, getOwner(req));
+    res.json({ success: true, conversation });
+  } catch (error) {
+    sendError(res, error, 'fetch conversation');
+  }
+});
+
+// DELETE /api/conversations/:id - Delete a conversation and its messages
+router.delete('/:id', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    await deleteConversation(req.params.id, getOwner(req));
+    res.json({ success: true, message: 'Conversation deleted successfully' });
+  } catch (error) {
+    sendError(res, error, 'delete conversation');
+  }
+});
+
+// GET /api/conversations/:id/recording - The call audio as a two-channel WAV (trainee left, customer right)
+// Turn timestamps are on the conversation's `recording`. ?download=true saves it as a file.
+router.get('/:id/recording', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    await getConversation(req.params.id, getOwner(req));
+    const file = await findRecording(req.params.id);
+    if (!file) throw new Error(`Recording for conversation '${req.params.id}' not found`);
+    if (req.query.download === 'true') res.attachment(`call-${req.params.id}.wav`);
+    res.sendFile(file, { headers: { 'Content-Type': 'audio/wav', 'Cache-Control': 'private, no-cache' } });
+  } catch (error) {
+    sendError(res, error, 'fetch recording');
+  }
+});
+
+// DELETE /api/conversations/:id/recording - Delete the call audio, keeping the transcript
+router.delete('/:id/recording', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    await getConversation(req.params.id, getOwner(req));
+    await deleteRecording(req.params.id);
+    res.json({ success: true, message: 'Recording deleted successfully' });
+  } catch (error) {
+    sendError(res, error, 'delete recording');
+  }
+});
+
+// POST /api/conversations/:id/analytics - Compute the trainee's delivery analytics and store them
+// Pace, filler words, talk ratio, dead air and response latency on the active branch.
+router.post('/:id/analytics', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    const speechAnalytics = await analyzeSpeech(req.params.id, getOwner(req));
+    res.json({ success: true, speechAnalytics });
+  } catch (error) {
+    sendError(res, error, 'analyze speech');
+  }
+});
+
+// POST /api/conversations/:id/turns - Add a user message and return the assistant reply
+// With parentId the turn branches off that message instead, e.g. to edit an earlier turn.
+router.post('/:id/turns', async (req: Request<{ id: string }, any, ConversationTurnRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  if (rejectInvalidRecognition(req.body?.recognition, res)) return;
+  try {
+    const turn = await postTurn(req.params.id, req.body?.content, {
+      owner: getOwner(req),
+      parentId: req.body?.parentId,
+      recognition: req.body?.recognition
+    });
+    res.json({ success: true, ...turn.reply, ...toReplyAssessment(await turn.assessment) });
+  } catch (error) {
+    sendError(res, error, 'generate reply');
+  }
+});
+
+// POST /api/conversations/:id/turns/stream - Same as /turns, streamed over Server-Sent Events
+// Emits `delta` events with content fragments, `done` with the persisted turn, then `assessment` if there is one.
+router.post('/:id/turns/stream', async (req: Request<{ id: string }, any, ConversationTurnRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const owner = getOwner(req);
+  const { content, parentId, recognition } = req.body ?? {};
+  if (rejectInvalidRecognition(recognition, res)) return;
+  // Validate before switching to SSE so callers get a regular HTTP error
+  try {
+    await getConversation(req.params.id, owner);
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw new Error('Turn content is required');
+    }
+    if (parentId) await getMessage(req.params.id, parentId, owner);
+  } catch (error) {
+    sendError(res, error, 'generate reply');
+    return;
+  }
+
+  await streamTurn(res, options => postTurn(req.params.id, content, { owner, parentId, recognition, ...options }));
+});
+
+// POST /api/conversations/:id/regenerate - Replace the reply to a user message with a new version
+// The previous reply is kept as another branch. Defaults to the last user message on the active branch.
+router.post('/:id/regenerate', async (req: Request<{ id: string }, any, ConversationRegenerateRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    const turn = await regenerateReply(req.params.id, { owner: getOwner(req), messageId: req.body?.messageId });
+    res.json({ success: true, ...turn.reply, ...toReplyAssessment(await turn.assessment) });
+  } catch (error) {
+    sendError(res, error, 'regenerate reply');
+  }
+});
+
+// POST /api/conversations/:id/regenerate/stream - Same as /regenerate, streamed over Server-Sent Events
+router.post('/:id/regenerate/stream', async (req: Request<{ id: string }, any, ConversationRegenerateRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const owner = getOwner(req);
+  const messageId = req.body?.messageId;
+  try {
+    await getRegenerateTarget(req.params.id, messageId, owner);
+  } catch (error) {
+    sendError(res, error, 'regenerate reply');
+    return;
+  }
+
+  await streamTurn(res, options => regenerateReply(req.params.id, { owner, messageId, ...options }));
+});
+
+// POST /api/conversations/:id/fork - Continue the conversation from an earlier message
+// The active branch ends at messageId (null for the very start); later messages stay on their own branch.
+router.post('/:id/fork', async (req: Request<{ id: string }, any, ConversationBranchRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const messageId = req.body?.messageId;
+  if (messageId !== null && typeof messageId !== 'string') {
+    res.status(400).json({ success: false, error: 'A message id (or null) is required' });
+    return;
+  }
+  try {
+    const conversation = await forkConversation(req.params.id, messageId, getOwner(req));
+    res.json({ success: true, conversation });
+  } catch (error) {
+    sendError(res, error, 'fork conversation');
+  }
+});
+
+// PUT /api/conversations/:id/branch - Show another version of a message and the turns that followed it
+router.put('/:id/branch', async (req: Request<{ id: string }, any, ConversationBranchRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const messageId = req.body?.messageId;
+  if (typeof messageId !== 'string') {
+    res.status(400).json({ success: false, error: 'A message id is required' });
+    return;
+  }
+  try {
+    const conversation = await selectBranch(req.params.id, messageId, getOwner(req));
+    res.json({ success: true, conversation });
+  } catch (error) {
+    sendError(res, error, 'switch branch');
+  }
+});
+
+// POST /api/conversations/:id/messages/:messageId/interruption - The trainee talked over a reply
+// Cuts the stored reply down to the spokenChars characters that were heard and counts the interruption.
+router.post('/:id/messages/:messageId/interruption', async (req: Request<{ id: string; messageId: string }, any, ConversationInterruptionRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const spokenChars = req.body?.spokenChars;
+  if (typeof spokenChars !== 'number' || !Number.isInteger(spokenChars) || spokenChars < 0) {
+    res.status(400).json({ success: false, error: 'A non-negative spokenChars count is required' });
+    return;
+  }
+  try {
+    const message = await interruptReply(req.params.id, req.params.messageId, spokenChars, getOwner(req));
+    res.json({ success: true, message });
+  } catch (error) {
+    sendError(res, error, 'record interruption');
+  }
+});
+
+// POST /api/conversations/:id/coaching/stream - Live coaching hints for a trainee turn
+// Called alongside /turns/stream. Emits `delta` events with hint text, then `done` with the stored hint.
+router.post('/:id/coaching/stream', async (req: Request<{ id: string }, any, ConversationTurnRequest>, res: Response) => {
+  if (!ensureStorage(res)) return;
+  const owner = getOwner(req);
+  const { content, parentId } = req.body ?? {};
+  // Validate before switching to SSE so callers get a regular HTTP error
+  try {
+    await getCoachingCriteria(await getConversation(req.params.id, owner));
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw new Error('Turn content is required');
+    }
+  } catch (error) {
+    sendError(res, error, 'generate coaching hints');
+    return;
+  }
+
+  const signal = openEventStream(res);
+  try {
+    const hint = await coachTurn(req.params.id, content, {
+      owner,
+      parentId,
+      signal,
+      onDelta: delta => sendEvent(res, { event: 'delta', data: { content: delta } })
+    });
+    sendEvent(res, { event: 'done', data: hint });
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error('[Conversations] Coaching hints failed:', error);
+    sendEvent(res, { event: 'error', data: toLlmError(error).toResponse('Coaching hints are unavailable for this turn.') });
+  }
+  res.end();
+});
+
+// GET /api/conversations/:id/desktop/search?q= - Search the mock CRM for the scenario's account
+// Every search and view is logged on the conversation for the evaluation.
+router.get('/:id/desktop/search', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const { results, lookup } = await searchAccounts(req.params.id, query, getOwner(req));
+    res.json({ success: true, results, count: results.length, lookup });
+  } catch (error) {
+    sendError(res, error, 'search accounts');
+  }
+});
+
+// GET /api/conversations/:id/desktop/account/:section - Open one section of the found account
+router.get('/:id/desktop/account/:section', async (req: Request, res: Response) => {
+  if (!ensureStorage(res)) return;
+  try {
+    const { data, lookup } = await viewAccountSection(req.params.id, req.params.section, getOwner(req));
+    res.json({ success: true, section: req.params.section, data, lookup });
+  } catch (error) {
+    sendError(res, error, 'load account details');
+  }
+});
+
+export default router;
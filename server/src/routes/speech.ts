@@ -1,20 +1,65 @@
 import { Router, Request, Response } from 'express';
-import { recognizeSpeech, synthesizeSpeech, synthesizeSpeechStream } from '../services/speechServiceApi';
+import {
+  planSynthesizedAudio,
+  prepareSpeech,
+  recognizeSpeech,
+  synthesisErrorStatus,
+  synthesizeSpeechStream
+} from '../services/speechServiceApi';
+import { convertClip, isTtsProviderName, readAudioOutputOptions, TTS_PROVIDER_NAMES } from '../services/tts';
+import { voiceCatalog } from '../services/voiceCatalogService';
+import { validateLanguageSetting, type LanguageSetting } from '../services/languageService';
+import { getSession, isSupervisor } from '../middleware/authMiddleware';
+import { audioUploadMiddleware } from '../middleware/audioUploadMiddleware';
+import { AudioUploadError, readAudioUpload, toRecognitionWav } from '../services/audioUpload';
+import { STREAM_SAMPLE_RATE } from '../services/speechUtil';
+import type { VoiceCatalogFilter } from '../types/api';
 
 const router = Router();
 
+// An optional `provider` picks a TTS engine other than the TTS_PROVIDER default
+function rejectUnknownProvider(provider: unknown, res: Response): boolean {
+  if (provider === undefined || isTtsProviderName(provider)) return false;
+  res.status(400).json({ error: `Unknown provider. Expected one of: ${TTS_PROVIDER_NAMES.join(', ')}` });
+  return true;
+}
+
+// An optional session `language` (BCP-47), and for recognition `alternateLanguages` to detect among
+function rejectInvalidLanguage(setting: LanguageSetting, res: Response): boolean {
+  try {
+    validateLanguageSetting(setting, 'Speech');
+    return false;
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return true;
+  }
+}
+
+// Form fields and query strings carry alternates as a comma-separated list
+function toLanguageList(value: unknown): string[] | undefined {
+  if (value === undefined || Array.isArray(value)) return value as string[] | undefined;
+  return typeof value === 'string' ? value.split(',').map(tag => tag.trim()).filter(Boolean) : undefined;
+}
+
 // POST /api/speech/recognize - Speech recognition endpoint
-router.post('/recognize', async (req: Request, res: Response) => {
+// Takes JSON with base64 WAV `audioData`, a multipart form with an `audio` file, or a raw audio body
+// (WAV, webm/opus, ogg, mp3 or m4a); with the latter two, `language` and `alternateLanguages` are
+// form fields or query parameters. Compressed audio is decoded to 16 kHz mono PCM first.
+router.post('/recognize', audioUploadMiddleware, async (req: Request, res: Response) => {
   try {
-    const { audioData } = req.body;
-    console.log('Speech recognition request received, audioData length:', audioData?.length || 'undefined');
-    const result = await recognizeSpeech(audioData);
-    console.log('Speech recognition successful:', result);
-    res.json({ text: result });
+    const upload = readAudioUpload(req);
+    const language = upload.fields.language as string | undefined;
+    const alternateLanguages = toLanguageList(upload.fields.alternateLanguages);
+    if (rejectInvalidLanguage({ language, alternateLanguages }, res)) return;
+    console.log('Speech recognition request received, audio bytes:', upload.audio.length, upload.mimeType ?? '');
+    const wav = await toRecognitionWav(upload, STREAM_SAMPLE_RATE);
+    const result = await recognizeSpeech(wav, { language, alternateLanguages });
+    console.log('Speech recognition successful:', result.text);
+    res.json({ text: result.text, confidence: result.confidence, durationSec: result.durationSec, language: result.language, words: result.words ?? [] });
   } catch (error) {
     console.error('Speech recognition failed:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    res.status(500).json({ 
+    res.status(error instanceof AudioUploadError ? error.status : 500).json({
       error: 'Speech recognition failed',
       details: errorMessage,
       type: error instanceof Error ? error.constructor.name : 'Unknown'
@@ -22,26 +67,104 @@ router.post('/recognize', async (req: Request, res: Response) => {
   }
 });
 
+// Reply to a failed synthesis; format problems and a missing ffmpeg say what went wrong
+function sendSynthesisError(error: unknown, res: Response, message: string) {
+  const status = synthesisErrorStatus(error);
+  if (status === 500) res.status(500).json({ error: message });
+  else res.status(status).json({ error: message, details: (error as Error).message });
+}
+
+// Clips are addressed by their inputs, so the ETag lets the browser keep them and revalidate replays.
+// `format` (mp3, ogg-opus, wav or pcm) and `sampleRate`, or the Accept header, pick the audio format.
+async function sendSynthesizedAudio(params: Record<string, unknown>, req: Request, res: Response) {
+  try {
+    const { text, voiceGender, voiceName, provider, mood, language } = params as Record<string, any>;
+    if (typeof text !== 'string' || !text) {
+      res.status(400).json({ error: 'Text is required' });
+      return;
+    }
+    if (rejectUnknownProvider(provider, res) || rejectInvalidLanguage({ language }, res)) return;
+    const options = readAudioOutputOptions(params);
+    const speech = await prepareSpeech(text, voiceGender, voiceName, provider, mood, language);
+    const { output, etag } = planSynthesizedAudio(speech.clip, options, req.headers.accept);
+    res.setHeader('Vary', 'Accept');
+    const setCacheHeaders = () => {
+      if (!etag) return;
+      res.setHeader('ETag', `"${etag}"`);
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+    };
+    // Revalidated replays are answered before the clip is synthesized or converted
+    if (etag && req.headers['if-none-match'] === `"${etag}"`) {
+      setCacheHeaders();
+      res.status(304).end();
+      return;
+    }
+    const { audio, contentType, sampleRate } = await convertClip(await speech.synthesize(), output);
+    res.setHeader('Content-Type', contentType);
+    if (sampleRate) res.setHeader('X-Audio-Sample-Rate', String(sampleRate));
+    setCacheHeaders();
+    res.send(audio);
+  } catch (error) {
+    sendSynthesisError(error, res, 'Speech synthesis failed');
+  }
+}
+
 // POST /api/speech/synthesize - Text-to-speech endpoint
-router.post('/synthesize', async (req: Request, res: Response) => {
+router.post('/synthesize', (req: Request, res: Response) => sendSynthesizedAudio(req.body, req, res));
+
+// GET /api/speech/synthesize - Same, with query parameters; unlike POST responses, browsers cache these
+router.get('/synthesize', (req: Request, res: Response) => sendSynthesizedAudio(req.query, req, res));
+
+// POST /api/speech/synthesize/stream - Streaming TTS endpoint; WAV by default, or `format`/Accept as above
+router.post('/synthesize/stream', async (req: Request, res: Response) => {
   try {
-    const { text, voiceGender, voiceName } = req.body;
-    const audioBuffer = await synthesizeSpeech(text, voiceGender, voiceName);
-    res.setHeader('Content-Type', 'audio/mp3');
-    res.send(audioBuffer);
+    const { text, voiceGender, voiceName, provider, mood, language } = req.body;
+    if (rejectUnknownProvider(provider, res) || rejectInvalidLanguage({ language }, res)) return;
+    const output = readAudioOutputOptions(req.body);
+    await synthesizeSpeechStream(text, voiceGender, res, voiceName, provider, mood, language, output, req.headers.accept);
   } catch (error) {
-    res.status(500).json({ error: 'Speech synthesis failed' });
+    sendSynthesisError(error, res, 'Speech synthesis streaming failed');
   }
 });
 
-// POST /api/speech/synthesize/stream - Streaming TTS endpoint
-router.post('/synthesize/stream', async (req: Request, res: Response) => {
+// GET /api/speech/voices - Offered voices of the configured engines, filterable by provider, locale and gender;
+// supervisors can add all=true to see withdrawn voices too and refresh=true to ask the engines again
+router.get('/voices', async (req: Request, res: Response) => {
+  try {
+    const { provider, locale, gender, all, refresh } = req.query;
+    const canManage = isSupervisor(req);
+    if (canManage && refresh === 'true') voiceCatalog.refresh();
+    const filter: VoiceCatalogFilter = {
+      provider: typeof provider === 'string' ? provider : undefined,
+      locale: typeof locale === 'string' ? locale : undefined,
+      gender: typeof gender === 'string' ? gender : undefined,
+      includeWithdrawn: canManage && all === 'true',
+    };
+    res.json({ success: true, voices: await voiceCatalog.list(filter), canManage });
+  } catch (error) {
+    console.error('Listing voices failed:', error);
+    res.status(500).json({ success: false, error: 'Failed to list voices' });
+  }
+});
+
+// PUT /api/speech/voices/offered - Choose which voice keys trainees are offered; null restores the defaults (supervisors only)
+router.put('/voices/offered', async (req: Request<any, any, { offered?: string[] | null }>, res: Response) => {
+  if (!isSupervisor(req)) {
+    res.status(403).json({ success: false, error: 'Only supervisors can change the offered voices' });
+    return;
+  }
+  const { offered } = req.body ?? {};
+  if (offered !== null && !(Array.isArray(offered) && offered.every(key => typeof key === 'string'))) {
+    res.status(400).json({ success: false, error: 'offered must be an array of voice keys or null' });
+    return;
+  }
   try {
-    const { text, voiceGender, voiceName } = req.body;
-    await synthesizeSpeechStream(text, voiceGender, res, voiceName);
+    await voiceCatalog.setOffered(offered, getSession(req)?.username);
   } catch (error) {
-    res.status(500).json({ error: 'Speech synthesis streaming failed' });
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Invalid voices' });
+    return;
   }
+  res.json({ success: true, voices: await voiceCatalog.list({ includeWithdrawn: true }), canManage: true });
 });
 
 export default router;
@@ -1,9 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { 
-  recognizeSpeechRealtime, 
-  synthesizeSpeechRealtime, 
-  synthesizeSpeechStreamRealtime 
-} from '../services/realtimeService';
+import { recognizeSpeechRealtime, REALTIME_SAMPLE_RATE } from '../services/realtimeService';
+import { audioUploadMiddleware } from '../middleware/audioUploadMiddleware';
+import { AudioUploadError, checkDuration, decodeAudioUpload, readAudioUpload, sniffContainer } from '../services/audioUpload';
+import {
+  formatSynthesizedAudio,
+  synthesisErrorStatus,
+  synthesizeSpeech,
+  synthesizeSpeechStream
+} from '../services/speechServiceApi';
+import { AUDIO_OUTPUT_FORMATS, readAudioOutputOptions } from '../services/tts';
 
 const router = Router();
 
@@ -13,20 +18,30 @@ const router = Router();
  * 
  * Alternative to the Azure Speech SDK implementation.
  * Uses WebSocket-based Realtime API with Whisper transcription.
+ * Takes JSON with base64 `audioData` (PCM 24kHz 16-bit, or any supported container),
+ * a multipart form with an `audio` file, or a raw audio body in WAV, webm/opus, ogg, mp3 or m4a.
  */
-router.post('/recognize', async (req: Request, res: Response) => {
+router.post('/recognize', audioUploadMiddleware, async (req: Request, res: Response) => {
   try {
-    const { audioData } = req.body;
-    console.log('[Realtime] Speech recognition request received, audioData length:', audioData?.length || 'undefined');
-    
-    const result = await recognizeSpeechRealtime(audioData);
+    const upload = readAudioUpload(req);
+    console.log('[Realtime] Speech recognition request received, audio bytes:', upload.audio.length, upload.mimeType ?? '');
+
+    // JSON bodies have always carried bare PCM; anything in a container is decoded to it
+    let pcm: Buffer;
+    if (Buffer.isBuffer(req.body) || sniffContainer(upload.audio)) {
+      pcm = await decodeAudioUpload(upload, REALTIME_SAMPLE_RATE);
+    } else {
+      checkDuration(upload.audio.length / 2 / REALTIME_SAMPLE_RATE);
+      pcm = upload.audio;
+    }
+    const result = await recognizeSpeechRealtime(pcm.toString('base64'));
     console.log('[Realtime] Speech recognition successful:', result);
     
     res.json({ text: result });
   } catch (error) {
     console.error('[Realtime] Speech recognition failed:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    res.status(500).json({ 
+    res.status(error instanceof AudioUploadError ? error.status : 500).json({ 
       error: 'Speech recognition failed (Realtime API)',
       details: errorMessage,
       type: error instanceof Error ? error.constructor.name : 'Unknown'
@@ -39,7 +54,8 @@ router.post('/recognize', async (req: Request, res: Response) => {
  * Text-to-speech using Azure OpenAI Realtime API
  * 
  * Alternative to Azure Speech SDK TTS.
- * Returns PCM audio format (24kHz, 16-bit).
+ * Returns WAV (24kHz, 16-bit) unless `format` (mp3, ogg-opus, wav or pcm),
+ * `sampleRate` or the Accept header ask for another format.
  * 
  * Voice mapping:
  * - JennyNeural → alloy
@@ -53,14 +69,17 @@ router.post('/synthesize', async (req: Request, res: Response) => {
     const { text, voiceGender, voiceName } = req.body;
     console.log('[Realtime] TTS request:', { text: text?.substring(0, 50), voiceGender, voiceName });
     
-    const audioBuffer = await synthesizeSpeechRealtime(text, voiceGender, voiceName);
+    const output = readAudioOutputOptions(req.body);
+    const clip = await synthesizeSpeech(text, voiceGender, voiceName, 'azure-realtime');
+    const { audio, contentType, sampleRate } = await formatSynthesizedAudio(clip, output, req.headers.accept);
     
-    // Return as PCM audio
-    res.setHeader('Content-Type', 'audio/wav');
-    res.send(audioBuffer);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Vary', 'Accept');
+    if (sampleRate) res.setHeader('X-Audio-Sample-Rate', String(sampleRate));
+    res.send(audio);
   } catch (error) {
     console.error('[Realtime] Speech synthesis failed:', error);
-    res.status(500).json({ 
+    res.status(synthesisErrorStatus(error)).json({ 
       error: 'Speech synthesis failed (Realtime API)',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
@@ -71,18 +90,20 @@ router.post('/synthesize', async (req: Request, res: Response) => {
  * POST /api/speech-realtime/synthesize/stream
  * Streaming text-to-speech using Azure OpenAI Realtime API
  * 
- * Streams audio chunks as they're generated for lower latency.
+ * Streams audio chunks as they're generated for lower latency, as WAV
+ * unless `format`, `sampleRate` or the Accept header ask otherwise.
  */
 router.post('/synthesize/stream', async (req: Request, res: Response) => {
   try {
     const { text, voiceGender, voiceName } = req.body;
     console.log('[Realtime] TTS stream request:', { text: text?.substring(0, 50), voiceGender, voiceName });
     
-    await synthesizeSpeechStreamRealtime(text, res, voiceName, voiceGender);
+    const output = readAudioOutputOptions(req.body);
+    await synthesizeSpeechStream(text, voiceGender, res, voiceName, 'azure-realtime', undefined, undefined, output, req.headers.accept);
   } catch (error) {
     console.error('[Realtime] Speech synthesis streaming failed:', error);
     if (!res.headersSent) {
-      res.status(500).json({ 
+      res.status(synthesisErrorStatus(error)).json({ 
         error: 'Speech synthesis streaming failed (Realtime API)',
         details: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -120,7 +141,9 @@ router.get('/info', (req: Request, res: Response) => {
     },
     audioFormat: {
       input: 'PCM 24kHz 16-bit',
-      output: 'PCM 24kHz 16-bit'
+      output: 'PCM 24kHz 16-bit',
+      // Formats the synthesize endpoints can convert to
+      formats: AUDIO_OUTPUT_FORMATS
     },
     features: [
       'Low latency',
@@ -131,7 +154,7 @@ router.get('/info', (req: Request, res: Response) => {
     limitations: [
       'Limited voice options (6 voices)',
       'No SSML support',
-      'PCM format only'
+      'Formats other than WAV and PCM need ffmpeg'
     ]
   });
 });
@@ -0,0 +1,80 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { authConfig } from '../config/env';
+import { validateSession } from '../middleware/authMiddleware';
+import { VoiceChannel } from '../services/voiceChannelService';
+
+export const VOICE_SOCKET_PATH = '/api/voice';
+
+// Generous for 100 ms PCM frames; anything larger is not microphone audio
+const MAX_FRAME_BYTES = 256 * 1024;
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Browsers cannot set headers on a WebSocket, so the session comes from the
+// cookie or, for cross-origin clients, a sessionId query parameter.
+function getSessionId(req: IncomingMessage, url: URL): string | undefined {
+  const cookie = req.headers.cookie?.match(/(?:^|;\s*)sessionId=([^;]+)/);
+  return (cookie && decodeURIComponent(cookie[1])) || url.searchParams.get('sessionId') || undefined;
+}
+
+function reject(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Accepts voice channel connections on `/api/voice`, authenticating the
+ * upgrade request the same way the REST API authenticates requests.
+ */
+export function attachVoiceSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_BYTES });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== VOICE_SOCKET_PATH) {
+      reject(socket, 404, 'Not Found');
+      return;
+    }
+
+    (async () => {
+      let owner: string | undefined;
+      if (authConfig.enabled) {
+        const sessionId = getSessionId(req, url);
+        const result = sessionId ? await validateSession(sessionId) : { error: 'Not authenticated' };
+        if ('error' in result) {
+          console.warn(`[Voice] Rejected connection: ${result.error}`);
+          reject(socket, 401, 'Unauthorized');
+          return;
+        }
+        owner = result.session.username;
+      }
+      wss.handleUpgrade(req, socket, head, ws => {
+        alive.add(ws);
+        ws.on('pong', () => alive.add(ws));
+        new VoiceChannel(ws, owner).start();
+      });
+    })().catch(error => {
+      console.error('[Voice] Upgrade failed:', error);
+      reject(socket, 500, 'Internal Server Error');
+    });
+  });
+
+  // Drop connections that stopped answering pings (closed laptop lids, lost networks)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  server.on('close', () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
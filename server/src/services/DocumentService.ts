@@ -1,5 +1,28 @@
-import { DocumentDatabase } from '../database/document-database';
-import type { Persona, Template, Scenario, Mood } from '../types/api';
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentDatabase, ConversationRecord, MessageRecord } from '../database/document-database';
+import { getBranch, resolveActiveLeaf, withSiblingIds } from './messageTree';
+import { validateVoiceStyle } from './tts/ssml';
+import { validateLanguageSetting } from './languageService';
+import type {
+  Persona,
+  Template,
+  Scenario,
+  Mood,
+  MoodVoiceStyle,
+  Conversation,
+  ConversationSummary,
+  ConversationMessage,
+  ConversationMessageMetadata,
+  ConversationMetadata,
+  ContextSummary,
+  ModelParameters,
+  ScenarioParameters
+} from '../types/api';
+
+// Every branch's running summary, including one stored before branches had their own
+function storedContextSummaries(metadata: ConversationMetadata): ContextSummary[] {
+  return [...(metadata.contextSummaries ?? []), ...(metadata.contextSummary ? [metadata.contextSummary] : [])];
+}
 
 /**
  * Unified business logic service that wraps DocumentDatabase operations.
@@ -85,7 +108,8 @@ export class DocumentService {
     this.db.createMood({
       id: mood.id,
       mood: mood.mood,
-      description: mood.description || ''
+      description: mood.description || '',
+      voiceStyle: mood.voiceStyle || undefined
     });
     
     return mood;
@@ -106,7 +130,8 @@ export class DocumentService {
       // Use the mood-specific method
     this.db.updateMood(id, { 
       mood: updated.mood, 
-      description: updated.description || '' 
+      description: updated.description || '',
+      voiceStyle: updated.voiceStyle || undefined
     });
     
     return updated;
@@ -123,10 +148,11 @@ export class DocumentService {
   async listMoods(): Promise<Mood[]> {
     // Convert the existing getAllMoods format to the new Mood interface
     const existingMoods = this.db.getAllMoods();
-    return existingMoods.map((m: { mood: string; description: string }) => ({
+    return existingMoods.map((m: { mood: string; description: string; voiceStyle?: MoodVoiceStyle }) => ({
       id: m.mood, // Use mood name directly as ID for simplicity and consistency
       mood: m.mood,
-      description: m.description
+      description: m.description,
+      voiceStyle: m.voiceStyle
     }));
   }
 
@@ -174,7 +200,8 @@ export class DocumentService {
       id: template.id,
       name: template.name,
       prompt: template.content || template.prompt, // Map content -> prompt
-      description: template.description
+      description: template.description,
+      model: template.model
     };
   }
   async updateTemplate(id: string, updates: Partial<Template>): Promise<Template> {
@@ -231,7 +258,8 @@ export class DocumentService {
       id: template.id,
       name: template.name,
       prompt: template.content || template.prompt, // Map content -> prompt
-      description: template.description
+      description: template.description,
+      model: template.model
     }));
   }
   async searchTemplates(query: string): Promise<Template[]> {
@@ -299,6 +327,151 @@ export class DocumentService {
   async listScenarios(): Promise<Scenario[]> {
     return this.db.getAllScenarios();
   }
+
+  // === CONVERSATION OPERATIONS ===
+
+  async createConversation(data: {
+    owner?: string | null;
+    title: string;
+    parameters: ScenarioParameters;
+    systemPrompt: string;
+    modelParameters: ModelParameters;
+  }): Promise<Conversation> {
+    if (!data.systemPrompt || data.systemPrompt.trim().length === 0) {
+      throw new Error('Conversation system prompt is required');
+    }
+    const now = new Date().toISOString();
+    const id = uuidv4();
+    this.db.insertConversation({
+      id,
+      owner: data.owner ?? null,
+      title: data.title,
+      parameters: JSON.stringify(data.parameters),
+      system_prompt: data.systemPrompt,
+      model_parameters: JSON.stringify(data.modelParameters ?? {}),
+      status: 'active',
+      metadata: '{}',
+      created_at: now,
+      updated_at: now
+    });
+    return (await this.getConversation(id))!;
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    const record = this.db.getConversationById(id);
+    if (!record) return null;
+    const allMessages = this.db.getMessagesForConversation(id).map(m => this.toConversationMessage(m));
+    const metadata: ConversationMetadata = JSON.parse(record.metadata || '{}');
+    const branch = getBranch(allMessages, resolveActiveLeaf(allMessages, metadata.activeLeafId));
+    const messages = withSiblingIds(branch, allMessages);
+    // Summaries and exit assessments were made on one branch; drop them on branches that diverge earlier
+    const { exitCriteria } = metadata;
+    const contextSummary = storedContextSummaries(metadata)
+      .filter(summary => branch.some(m => m.seq === summary.coveredThroughSeq))
+      .sort((a, b) => b.coveredThroughSeq - a.coveredThroughSeq)[0];
+    return {
+      ...this.toConversationSummary(record),
+      owner: record.owner,
+      systemPrompt: record.system_prompt,
+      modelParameters: JSON.parse(record.model_parameters || '{}'),
+      contextSummary: contextSummary ?? null,
+      exitCriteria: exitCriteria && (!exitCriteria.messageId || branch.some(m => m.id === exitCriteria.messageId)) ? exitCriteria : null,
+      coachingHints: metadata.coachingHints ?? [],
+      desktopLookups: metadata.desktopLookups ?? [],
+      recording: metadata.recording ?? null,
+      speechAnalytics: metadata.speechAnalytics ?? null,
+      messages
+    };
+  }
+
+  async listConversations(owner?: string | null): Promise<ConversationSummary[]> {
+    return this.db.listConversations(owner).map(r => this.toConversationSummary(r));
+  }
+
+  async updateConversation(id: string, updates: Partial<Pick<Conversation, 'title' | 'status'>>): Promise<Conversation> {
+    const existing = this.db.getConversationById(id);
+    if (!existing) {
+      throw new Error(`Conversation with id '${id}' not found`);
+    }
+    this.db.updateConversation(id, updates);
+    return (await this.getConversation(id))!;
+  }
+
+  /** Shallow-merges the given keys into the conversation's metadata. */
+  async updateConversationMetadata(id: string, patch: Partial<ConversationMetadata>): Promise<ConversationMetadata> {
+    const existing = this.db.getConversationById(id);
+    if (!existing) {
+      throw new Error(`Conversation with id '${id}' not found`);
+    }
+    const metadata: ConversationMetadata = { ...JSON.parse(existing.metadata || '{}'), ...patch };
+    this.db.updateConversation(id, { metadata: JSON.stringify(metadata) });
+    return metadata;
+  }
+
+  /**
+   * Stores the running summary of the active branch in place of the one it
+   * extends. Other branches keep theirs for when they are shown again.
+   */
+  async saveContextSummary(id: string, summary: ContextSummary, previous: ContextSummary | null): Promise<void> {
+    const existing = this.db.getConversationById(id);
+    if (!existing) {
+      throw new Error(`Conversation with id '${id}' not found`);
+    }
+    const others = storedContextSummaries(JSON.parse(existing.metadata || '{}'))
+      .filter(s => s.coveredThroughSeq !== previous?.coveredThroughSeq && s.coveredThroughSeq !== summary.coveredThroughSeq);
+    await this.updateConversationMetadata(id, { contextSummaries: [...others, summary], contextSummary: undefined });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const existing = this.db.getConversationById(id);
+    if (!existing) {
+      throw new Error(`Conversation with id '${id}' not found`);
+    }
+    this.db.deleteConversation(id);
+  }
+
+  /** Appends a message after `parentId` and makes it the end of the active branch. */
+  async appendMessage(
+    conversationId: string,
+    message: { role: ConversationMessage['role']; content: string; parentId: string | null; metadata?: ConversationMessageMetadata }
+  ): Promise<ConversationMessage> {
+    if (!this.db.getConversationById(conversationId)) {
+      throw new Error(`Conversation with id '${conversationId}' not found`);
+    }
+    const record = this.db.insertMessage({
+      id: uuidv4(),
+      conversation_id: conversationId,
+      parent_id: message.parentId,
+      role: message.role,
+      content: message.content,
+      metadata: JSON.stringify(message.metadata ?? {}),
+      created_at: new Date().toISOString()
+    });
+    await this.updateConversationMetadata(conversationId, { activeLeafId: record.id });
+    return this.toConversationMessage(record);
+  }
+
+  /** Replaces a message's content and shallow-merges keys into its metadata. */
+  async updateMessage(
+    conversationId: string,
+    messageId: string,
+    updates: { content?: string; metadata?: Partial<ConversationMessageMetadata> }
+  ): Promise<ConversationMessage> {
+    const existing = this.db.getMessagesForConversation(conversationId).find(m => m.id === messageId);
+    if (!existing) {
+      throw new Error(`Message with id '${messageId}' not found`);
+    }
+    const metadata: ConversationMessageMetadata = { ...JSON.parse(existing.metadata || '{}'), ...updates.metadata };
+    const content = updates.content ?? existing.content;
+    this.db.updateMessage(messageId, { content, metadata: JSON.stringify(metadata) });
+    return this.toConversationMessage({ ...existing, content, metadata: JSON.stringify(metadata) });
+  }
+
+  /** Every message of the conversation across all branches, in the order they were added. */
+  async listMessages(conversationId: string): Promise<ConversationMessage[]> {
+    return this.db.getMessagesForConversation(conversationId).map(m => this.toConversationMessage(m));
+  }
+
   // === VALIDATION METHODS ===
   private validatePersona(persona: Persona): void {
     if (!persona.name || persona.name.trim().length === 0) {
@@ -307,6 +480,7 @@ export class DocumentService {
     if (!persona.id || persona.id.trim().length === 0) {
       throw new Error('Persona ID is required');
     }
+    validateLanguageSetting({ language: persona.language, alternateLanguages: persona.alternate_languages }, 'Persona');
     // Add more validation as needed
   }
 
@@ -317,7 +491,7 @@ export class DocumentService {
     if (!mood.id || mood.id.trim().length === 0) {
       throw new Error('Mood ID is required');
     }
-    // Add more validation as needed
+    validateVoiceStyle(mood.voiceStyle);
   }
 
   private validateTemplate(template: Template): void {
@@ -340,11 +514,36 @@ export class DocumentService {
     if (!scenario.title || scenario.title.trim().length === 0) {
       throw new Error('Scenario title is required');
     }
+    validateLanguageSetting({ language: scenario.language, alternateLanguages: scenario.alternate_languages }, 'Scenario');
     // Add more validation as needed
   }
 
   // === UTILITY METHODS ===
 
+  private toConversationSummary(record: ConversationRecord): ConversationSummary {
+    return {
+      id: record.id,
+      title: record.title,
+      status: record.status === 'ended' ? 'ended' : 'active',
+      parameters: JSON.parse(record.parameters || '{}'),
+      messageCount: Number(record.message_count ?? 0),
+      createdAt: record.created_at,
+      updatedAt: record.updated_at
+    };
+  }
+
+  private toConversationMessage(record: MessageRecord): ConversationMessage {
+    return {
+      id: record.id,
+      parentId: record.parent_id ?? null,
+      seq: Number(record.seq),
+      role: record.role,
+      content: record.content,
+      createdAt: record.created_at,
+      metadata: JSON.parse(record.metadata || '{}')
+    };
+  }
+
   private generateStableId(name: string): string {
     // Generate a stable, URL-friendly ID from the name (no timestamp)
     return name
@@ -1,7 +1,10 @@
-import OpenAI from 'openai';
-import { config } from '../config/env';
 import { PrompyLoader } from '../prompts/promptyLoader';
 import * as path from 'path';
+import { getLlmProvider } from './llm';
+import type { LlmProvider } from './llm';
+import type { DesktopLookup, SpeechAnalytics, SpeechRecognitionDetail } from '../types/api';
+import { languageName } from './languageService';
+import { uncertainWords } from './stt';
 
 // Reuse existing types from agentEvaluationService.ts
 export interface ConversationData {
@@ -9,6 +12,8 @@ export interface ConversationData {
     role: 'user' | 'assistant';
     content: string;
     timestamp: string;
+    // Word timing and confidence of spoken trainee turns
+    recognition?: SpeechRecognitionDetail;
   }>;
   metadata?: {
     persona?: string;
@@ -17,6 +22,8 @@ export interface ConversationData {
     messageCount?: number;
     [key: string]: any;
   };
+  // Language the reviewer wants the report in (BCP-47); English when unset
+  reportLanguage?: string;
 }
 
 export interface EvaluationResult {
@@ -27,20 +34,11 @@ export interface EvaluationResult {
 }
 
 export class OpenAIEvaluationService {
-  private openai: OpenAI;
+  // Injected provider, if any; otherwise the configured one is resolved per call
+  private provider?: LlmProvider;
 
-  constructor() {
-    // Use the same Azure OpenAI configuration as the chat service
-    if (!config.azureOpenAiEndpoint || !config.azureOpenAiKey) {
-      throw new Error('Azure OpenAI configuration is required for evaluation service');
-    }
-    
-    this.openai = new OpenAI({
-      apiKey: config.azureOpenAiKey,
-      baseURL: `${config.azureOpenAiEndpoint}/openai/deployments/${config.azureOpenAiDeployment}`,
-      defaultQuery: { 'api-version': '2023-05-15' },
-      defaultHeaders: { 'api-key': config.azureOpenAiKey },
-    });
+  constructor(provider?: LlmProvider) {
+    this.provider = provider;
   }
 
   async evaluateConversation(conversationData: ConversationData): Promise<EvaluationResult> {
@@ -51,18 +49,27 @@ export class OpenAIEvaluationService {
     const { systemMessage, configuration } = PrompyLoader.loadTemplateFromPath(templatePath, {
       conversationText
     });
+    // The transcript may be in another language than the one the reviewer reads
+    const languageNote = conversationData.reportLanguage
+      ? `\n\nWrite the whole evaluation, including section headings, in ${languageName(conversationData.reportLanguage)}. Quote the transcript in its original language.`
+      : '';
+    // Flagged words may be recognition errors rather than what the trainee said
+    const recognitionNote = conversationData.messages.some(msg => uncertainWords(msg.recognition).length > 0)
+      ? '\n\nSome agent turns were spoken and transcribed by speech recognition; words it was unsure of are listed under those turns. Do not fault the agent for wording that may be a recognition error.'
+      : '';
 
-    const response = await this.openai.chat.completions.create({
-      model: config.azureOpenAiModel,
+    // Use the same LLM provider as the chat service unless one was injected
+    const provider = this.provider ?? getLlmProvider();
+    const response = await provider.complete({
       messages: [
-        { role: 'system', content: systemMessage },
+        { role: 'system', content: systemMessage + languageNote + recognitionNote },
         { role: 'user', content: conversationText }
       ],
       temperature: configuration.temperature || 0.3,
       max_tokens: configuration.max_tokens || 2000,
     });
 
-    const markdown = response.choices[0]?.message?.content || 'Evaluation failed - no response from OpenAI';
+    const markdown = response.content || `Evaluation failed - no response from ${provider.name}`;
     
     // Return data matching existing interface expectations
     return {
@@ -84,6 +91,12 @@ export class OpenAIEvaluationService {
       if (data.metadata.duration) formatted += `- **Duration**: ${Math.round(data.metadata.duration / 60)} minutes\n`;
       if (data.metadata.messageCount) formatted += `- **Messages**: ${data.metadata.messageCount}\n`;
       formatted += '\n';
+      if (Array.isArray(data.metadata.desktopLookups)) {
+        formatted += this.formatDesktopLookups(data.metadata.desktopLookups);
+      }
+      if (data.metadata.speechAnalytics && typeof data.metadata.speechAnalytics === 'object') {
+        formatted += this.formatSpeechAnalytics(data.metadata.speechAnalytics);
+      }
     }
     
     // Add conversation messages
@@ -91,9 +104,53 @@ export class OpenAIEvaluationService {
     data.messages.forEach(msg => {
       const timestamp = new Date(msg.timestamp).toLocaleTimeString();
       const roleLabel = msg.role === 'user' ? 'USER' : 'ASSISTANT';
-      formatted += `**${roleLabel}** (${timestamp}):\n${msg.content}\n\n`;
+      formatted += `**${roleLabel}** (${timestamp}):\n${msg.content}\n`;
+      const uncertain = uncertainWords(msg.recognition);
+      if (uncertain.length > 0) {
+        const listed = uncertain.map(word => `"${word.word}" (${Math.round((word.confidence ?? 0) * 100)}%)`).join(', ');
+        formatted += `_Speech recognition was unsure of: ${listed}_\n`;
+      }
+      formatted += '\n';
     });
     
     return formatted;
   }
+
+  // Measured delivery, so criteria like pace, filler words and dead air are judged on evidence
+  private formatSpeechAnalytics(analytics: SpeechAnalytics): string {
+    const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+    const measured = analytics.source === 'recording' ? 'measured from the call recording' : 'estimated from message timestamps';
+    let formatted = `AGENT DELIVERY (timing ${measured}):\n`;
+    if (analytics.wordsPerMinute !== null) {
+      formatted += `- Pace: ${analytics.wordsPerMinute} words per minute over ${analytics.traineeWordCount} spoken words\n`;
+    }
+    if (analytics.fillerRate !== null) {
+      const fillers = (analytics.fillerWords ?? []).map(filler => `"${filler.word}" x${filler.count}`).join(', ');
+      formatted += `- Filler words: ${analytics.fillerWordCount} (${analytics.fillerRate} per 100 words)${fillers ? `: ${fillers}` : ''}\n`;
+    }
+    if (analytics.talkRatio !== null) {
+      formatted += `- Talk time: agent ${seconds(analytics.traineeTalkMs)}, customer ${seconds(analytics.customerTalkMs)} (agent ${Math.round(analytics.talkRatio * 100)}% of talk time)\n`;
+    }
+    formatted += `- Longest silence: ${seconds(analytics.longestSilenceMs)}\n`;
+    if (analytics.averageResponseLatencyMs !== null) {
+      const latencies = (analytics.responseLatenciesMs ?? []).map(seconds).join(', ');
+      formatted += `- Response latency after customer turns: average ${seconds(analytics.averageResponseLatencyMs)} (${latencies})\n`;
+    }
+    return formatted + '\n';
+  }
+
+  // Lists what the agent looked up on the mock desktop, so criteria like "reviewed account memos" can be judged
+  private formatDesktopLookups(lookups: DesktopLookup[]): string {
+    let formatted = 'AGENT DESKTOP ACTIVITY:\n';
+    if (lookups.length === 0) {
+      return formatted + '- The agent did not look up the account.\n\n';
+    }
+    for (const lookup of lookups) {
+      const when = lookup.turn === 0 ? 'before the agent spoke' : `after agent turn ${lookup.turn}`;
+      formatted += lookup.action === 'search'
+        ? `- Searched for "${lookup.query}" (${lookup.matched ? 'account found' : 'no match'}) ${when}\n`
+        : `- Opened the account ${lookup.section} ${when}\n`;
+    }
+    return formatted + '\n';
+  }
 }
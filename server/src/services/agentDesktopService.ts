@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseServiceFactory } from './database-service-factory';
+import { getConversation } from './conversationService';
+import { getScenarioById } from './scenarioService';
+import type {
+  AccountSearchResult,
+  AccountSection,
+  Conversation,
+  DesktopLookup,
+  ScenarioAccount
+} from '../types/api';
+
+/**
+ * Mock agent desktop: trainees search for and read the scenario's CRM record
+ * during a call. Every action is logged on the conversation so the evaluation
+ * can tell whether the trainee actually checked the account.
+ */
+
+export const ACCOUNT_SECTIONS: AccountSection[] = ['overview', 'services', 'devices', 'memos', 'outages'];
+
+// Names shorter than this would match almost any account
+const MIN_NAME_QUERY_LENGTH = 3;
+
+/** The scenario's account, with the holder named after the simulated customer unless the scenario names them. */
+async function getConversationAccount(conversation: Conversation): Promise<ScenarioAccount> {
+  const scenario = conversation.parameters.scenarioId
+    ? await getScenarioById(conversation.parameters.scenarioId)
+    : null;
+  if (!scenario?.account) {
+    throw new Error('Account data for this scenario not found');
+  }
+  const { account } = scenario;
+  return {
+    ...account,
+    holder: { ...account.holder, name: account.holder.name || conversation.parameters.name || 'Unknown' }
+  };
+}
+
+function digitsOf(value?: string): string {
+  return (value ?? '').replace(/\D/g, '');
+}
+
+// Matches the way agents look accounts up: account number, phone, email or holder name
+function matchesAccount(account: ScenarioAccount, query: string): boolean {
+  const text = query.trim().toLowerCase();
+  const digits = digitsOf(query);
+  if (digits.length >= 4 && (digitsOf(account.account_number) === digits || digitsOf(account.holder.phone).endsWith(digits))) {
+    return true;
+  }
+  if (account.holder.email && account.holder.email.toLowerCase() === text) return true;
+  return text.length >= MIN_NAME_QUERY_LENGTH && (account.holder.name ?? '').toLowerCase().includes(text);
+}
+
+async function recordLookup(
+  conversation: Conversation,
+  lookup: Omit<DesktopLookup, 'id' | 'turn' | 'createdAt'>
+): Promise<DesktopLookup> {
+  const entry: DesktopLookup = {
+    id: uuidv4(),
+    ...lookup,
+    turn: conversation.messages.filter(m => m.role === 'user').length,
+    createdAt: new Date().toISOString()
+  };
+  const documentService = databaseServiceFactory.getDocumentService();
+  if (!documentService) {
+    throw new Error('Conversation storage is not available');
+  }
+  // Re-read so lookups logged by overlapping requests are kept
+  const latest = await documentService.getConversation(conversation.id);
+  await documentService.updateConversationMetadata(conversation.id, {
+    desktopLookups: [...(latest?.desktopLookups ?? []), entry]
+  });
+  return entry;
+}
+
+/** Searches for the scenario's account. Resolves with the hits and the logged lookup. */
+export async function searchAccounts(
+  id: string,
+  query: string,
+  owner?: string | null
+): Promise<{ results: AccountSearchResult[]; lookup: DesktopLookup }> {
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    throw new Error('Search query is required');
+  }
+  const conversation = await getConversation(id, owner);
+  const account = await getConversationAccount(conversation);
+  const matched = matchesAccount(account, query);
+  const lookup = await recordLookup(conversation, { action: 'search', query: query.trim(), matched });
+  const results = matched
+    ? [{ accountNumber: account.account_number, holderName: account.holder.name ?? '', serviceAddress: account.holder.service_address }]
+    : [];
+  return { results, lookup };
+}
+
+/**
+ * Returns one section of the account and logs that the trainee opened it.
+ * The account must have been found by a search first, as on a real desktop.
+ */
+export async function viewAccountSection(
+  id: string,
+  section: string,
+  owner?: string | null
+): Promise<{ data: unknown; lookup: DesktopLookup }> {
+  if (!ACCOUNT_SECTIONS.includes(section as AccountSection)) {
+    throw new Error(`A valid account section is required (${ACCOUNT_SECTIONS.join(', ')})`);
+  }
+  const conversation = await getConversation(id, owner);
+  const account = await getConversationAccount(conversation);
+  if (!conversation.desktopLookups.some(lookup => lookup.action === 'search' && lookup.matched)) {
+    throw new Error('A matching account search is required before viewing account details');
+  }
+  const lookup = await recordLookup(conversation, { action: 'view', section: section as AccountSection });
+  return { data: getSectionData(account, section as AccountSection), lookup };
+}
+
+function getSectionData(account: ScenarioAccount, section: AccountSection): unknown {
+  switch (section) {
+    case 'overview':
+      return { account_number: account.account_number, holder: account.holder, authorized_users: account.authorized_users ?? [] };
+    case 'services':
+      return account.services;
+    case 'devices':
+      return account.devices;
+    case 'memos':
+      return account.memos;
+    case 'outages':
+      return account.outages ?? [];
+  }
+}
@@ -0,0 +1,198 @@
+import * as fsExtra from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import type { IncomingMessage } from 'http';
+import type { Request } from 'express';
+import { config } from '../config/env';
+import { FfmpegUnavailableError, runFfmpeg } from './ffmpeg';
+import { readWavHeader, toWav } from './tts/wav';
+
+const DECODE_TIMEOUT_MS = 30000;
+
+export type AudioUploadFormat = 'wav' | 'webm' | 'ogg' | 'mp3' | 'm4a';
+
+// Declared content types, without parameters such as `;codecs=opus`
+const MIME_FORMATS: Record<string, AudioUploadFormat> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'video/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'm4a',
+};
+
+/** A rejected upload, with the HTTP status that explains it (413 too large or long, 415 unsupported). */
+export class AudioUploadError extends Error {
+  constructor(message: string, readonly status: 400 | 413 | 415 | 503) {
+    super(message);
+    this.name = 'AudioUploadError';
+  }
+}
+
+export interface AudioUpload {
+  // Raw bytes of the clip; for JSON bodies this is the decoded `audioData`
+  audio: Buffer;
+  // Declared type of the clip, if any
+  mimeType?: string;
+  // Form fields of multipart uploads, or the query string of raw ones; the body itself for JSON
+  fields: Record<string, unknown>;
+}
+
+/** Whether a request carries audio for the raw body parser: binary audio or a multipart form. */
+export function isAudioUploadRequest(req: IncomingMessage): boolean {
+  const mime = mimeOf(req.headers['content-type']);
+  return Boolean(mime && (mime.startsWith('audio/') || ['video/webm', 'application/octet-stream', 'multipart/form-data'].includes(mime)));
+}
+
+function mimeOf(contentType: string | undefined): string | undefined {
+  return contentType?.split(';')[0].trim().toLowerCase() || undefined;
+}
+
+/** Just enough multipart/form-data to take one file and a few text fields. */
+export function parseMultipart(body: Buffer, contentType: string): AudioUpload {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) throw new AudioUploadError('Multipart upload is missing its boundary', 400);
+  const delimiter = Buffer.from(`--${boundary}`);
+  const fields: Record<string, unknown> = {};
+  let file: { data: Buffer; mimeType?: string } | null = null;
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length;
+    // The closing delimiter is followed by `--`
+    if (body.toString('ascii', partStart, partStart + 2) === '--') break;
+    const end = body.indexOf(delimiter, partStart);
+    if (end === -1) break;
+    const part = body.subarray(partStart + 2, end - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.toString('utf8', 0, headerEnd);
+      const data = part.subarray(headerEnd + 4);
+      const name = /name="([^"]*)"/i.exec(headers)?.[1];
+      const partType = /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1];
+      if (/filename="/i.test(headers)) {
+        // The `audio` field wins when a form carries several files
+        if (!file || name === 'audio') file = { data, mimeType: mimeOf(partType) };
+      } else if (name) {
+        fields[name] = data.toString('utf8');
+      }
+    }
+    start = end;
+  }
+  if (!file) throw new AudioUploadError('Multipart upload has no audio file', 400);
+  return { audio: file.data, mimeType: file.mimeType, fields };
+}
+
+/**
+ * Reads the audio of a recognition request: a JSON body with base64 `audioData`,
+ * a multipart form with an audio file, or a raw audio body. Options such as
+ * `language` come from the JSON body, the form fields or the query string.
+ */
+export function readAudioUpload(req: Request): AudioUpload {
+  let upload: AudioUpload;
+  if (Buffer.isBuffer(req.body)) {
+    const contentType = req.headers['content-type'] ?? '';
+    upload = req.is('multipart/form-data')
+      ? parseMultipart(req.body, contentType)
+      : { audio: req.body, mimeType: mimeOf(contentType), fields: { ...req.query } };
+  } else if (req.is('application/json')) {
+    const { audioData } = req.body ?? {};
+    if (!audioData || typeof audioData !== 'string') throw new AudioUploadError('No audio data provided', 400);
+    upload = { audio: Buffer.from(audioData, 'base64'), fields: req.body };
+  } else {
+    throw new AudioUploadError(
+      `Unsupported Content-Type '${mimeOf(req.headers['content-type']) ?? 'none'}'. Send JSON with base64 audioData, multipart/form-data, or a raw audio body.`,
+      415
+    );
+  }
+  if (upload.audio.length === 0) throw new AudioUploadError('No audio data provided', 400);
+  if (upload.audio.length > config.speechUploadMaxBytes) {
+    throw new AudioUploadError(`Audio is larger than the ${Math.round(config.speechUploadMaxBytes / 1024 / 1024)} MB limit`, 413);
+  }
+  return upload;
+}
+
+/** Tells a container by its magic number. Headerless mp3 is not recognized, as raw PCM can look like it. */
+export function sniffContainer(audio: Buffer): AudioUploadFormat | null {
+  if (audio.toString('ascii', 0, 4) === 'RIFF' && audio.toString('ascii', 8, 12) === 'WAVE') return 'wav';
+  if (audio.length >= 4 && audio.readUInt32BE(0) === 0x1a45dfa3) return 'webm';
+  if (audio.toString('ascii', 0, 4) === 'OggS') return 'ogg';
+  if (audio.toString('ascii', 4, 8) === 'ftyp') return 'm4a';
+  if (audio.toString('ascii', 0, 3) === 'ID3') return 'mp3';
+  return null;
+}
+
+/** Tells the format from the first bytes, falling back to the declared type. */
+export function detectAudioFormat(audio: Buffer, mimeType?: string): AudioUploadFormat | null {
+  const container = sniffContainer(audio);
+  if (container) return container;
+  // An mp3 without ID3 tags starts straight with a frame sync
+  if (audio.length >= 2 && audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0) return 'mp3';
+  return (mimeType && MIME_FORMATS[mimeType]) || null;
+}
+
+// Decodes any container ffmpeg reads into 16-bit mono PCM, stopping just past the length limit
+async function decodeWithFfmpeg(audio: Buffer, format: AudioUploadFormat, sampleRate: number): Promise<Buffer> {
+  const workDir = await fsExtra.mkdtemp(path.join(os.tmpdir(), 'voice-upload-'));
+  // m4a keeps its index at the end, so ffmpeg needs a seekable file rather than stdin
+  const input = path.join(workDir, `input.${format}`);
+  try {
+    await fsExtra.writeFile(input, audio);
+    return await runFfmpeg([
+      '-i', input, '-t', String(config.speechUploadMaxSeconds + 1),
+      '-vn', '-ac', '1', '-ar', String(sampleRate), '-f', 's16le', '-acodec', 'pcm_s16le', 'pipe:1'
+    ], undefined, DECODE_TIMEOUT_MS);
+  } catch (error) {
+    if (error instanceof FfmpegUnavailableError) {
+      throw new AudioUploadError(`This audio needs ffmpeg: ${error.message} Or upload 16-bit mono WAV at ${sampleRate} Hz.`, 503);
+    }
+    throw new AudioUploadError(`Audio could not be decoded as ${format}: ${(error as Error).message}`, 415);
+  } finally {
+    await fsExtra.remove(workDir).catch(() => {});
+  }
+}
+
+/** Rejects clips longer than SPEECH_UPLOAD_MAX_SECONDS with a 413. */
+export function checkDuration(seconds: number): void {
+  if (seconds > config.speechUploadMaxSeconds) {
+    throw new AudioUploadError(`Audio is longer than the ${config.speechUploadMaxSeconds}-second limit`, 413);
+  }
+}
+
+/**
+ * Turns an uploaded clip into 16-bit mono PCM at `sampleRate`, decoding
+ * compressed formats with ffmpeg. Throws AudioUploadError when the clip is in
+ * an unsupported format, cannot be decoded, or is longer than allowed.
+ */
+export async function decodeAudioUpload(upload: AudioUpload, sampleRate: number): Promise<Buffer> {
+  const format = detectAudioFormat(upload.audio, upload.mimeType);
+  if (!format) {
+    throw new AudioUploadError(`Unsupported audio format${upload.mimeType ? ` '${upload.mimeType}'` : ''}. Expected WAV, webm/opus, ogg, mp3 or m4a.`, 415);
+  }
+  if (format === 'wav') {
+    const header = readWavHeader(upload.audio);
+    if (header?.byteRate) checkDuration((upload.audio.length - header.dataOffset) / header.byteRate);
+    // Clips already in the wanted format skip ffmpeg
+    if (header && header.sampleRate === sampleRate && header.byteRate === sampleRate * 2) {
+      return upload.audio.subarray(header.dataOffset);
+    }
+  }
+  const pcm = await decodeWithFfmpeg(upload.audio, format, sampleRate);
+  checkDuration(pcm.length / 2 / sampleRate);
+  return pcm;
+}
+
+/**
+ * The clip as a WAV the recognizers take: 16-bit mono PCM at `sampleRate`.
+ * WAV uploads already in that format go through without ffmpeg.
+ */
+export async function toRecognitionWav(upload: AudioUpload, sampleRate: number): Promise<Buffer> {
+  return toWav(await decodeAudioUpload(upload, sampleRate), sampleRate);
+}
@@ -0,0 +1,348 @@
+import * as fs from 'fs/promises';
+import { mkdtempSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config/env';
+import { databaseServiceFactory } from './database-service-factory';
+import { STREAM_SAMPLE_RATE } from './speechUtil';
+import { createResampler, createWavHeader, readWavHeader } from './tts/wav';
+import type { CallRecording, RecordingTurn } from '../types/api';
+
+// Both sides are kept at the rate microphone audio arrives in; replies are resampled to it
+export const RECORDING_SAMPLE_RATE = STREAM_SAMPLE_RATE;
+
+// 16-bit samples; the saved file interleaves the two tracks into stereo frames
+const BYTES_PER_SAMPLE = 2;
+const FRAME_BYTES = BYTES_PER_SAMPLE * 2;
+// Audio past this point of a call is dropped, so a forgotten session cannot fill the disk
+const MAX_RECORDING_SAMPLES = 4 * 60 * 60 * RECORDING_SAMPLE_RATE;
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONVERSATION_ID_PATTERN = /^[\w-]+$/;
+
+function samplesToMs(samples: number): number {
+  return Math.round(samples * 1000 / RECORDING_SAMPLE_RATE);
+}
+
+function msToSamples(ms: number): number {
+  return Math.round(ms * RECORDING_SAMPLE_RATE / 1000);
+}
+
+/** Where a conversation's recording is kept. Throws for ids that are not conversation ids. */
+export function getRecordingPath(conversationId: string): string {
+  if (!CONVERSATION_ID_PATTERN.test(conversationId)) {
+    throw new Error(`Invalid conversation id '${conversationId}'`);
+  }
+  return path.resolve(config.recordingsDir, `${conversationId}.wav`);
+}
+
+function toSamples(pcm: Buffer): Int16Array {
+  const length = pcm.length - (pcm.length % BYTES_PER_SAMPLE);
+  return new Int16Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + length));
+}
+
+/**
+ * One side of the call in a scratch file. Audio is written at its sample
+ * position on the call timeline, so the gaps between turns read back as silence.
+ */
+class Track {
+  // Samples up to the end of the last audio written
+  length = 0;
+  private readonly handle: Promise<fs.FileHandle>;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string) {
+    this.handle = fs.open(file, 'w+');
+  }
+
+  write(samples: Int16Array, at: number): void {
+    if (samples.length === 0 || at >= MAX_RECORDING_SAMPLES) return;
+    const bytes = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+    this.length = Math.max(this.length, at + samples.length);
+    this.queue(handle => handle.write(bytes, 0, bytes.length, at * BYTES_PER_SAMPLE));
+  }
+
+  /** Silences everything from `at` on. */
+  truncate(at: number): void {
+    if (at >= this.length) return;
+    const bytes = Buffer.alloc((this.length - at) * BYTES_PER_SAMPLE);
+    this.length = at;
+    this.queue(handle => handle.write(bytes, 0, bytes.length, at * BYTES_PER_SAMPLE));
+  }
+
+  /** Reads `count` samples from `at`, padding past the end with silence. */
+  async read(at: number, count: number): Promise<Buffer> {
+    await this.writes;
+    const bytes = Buffer.alloc(count * BYTES_PER_SAMPLE);
+    await (await this.handle).read(bytes, 0, bytes.length, at * BYTES_PER_SAMPLE);
+    return bytes;
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+    await (await this.handle).close();
+  }
+
+  private queue(write: (handle: fs.FileHandle) => Promise<unknown>): void {
+    this.writes = this.writes
+      .then(() => this.handle)
+      .then(write)
+      .catch(error => console.error('[Recording] Failed to write call audio:', error));
+  }
+}
+
+interface ReplyCapture {
+  id: string;
+  start: number;
+  cursor: number;
+  resample: (input: Int16Array) => Int16Array;
+  // Logged when the reply starts and stretched as its audio arrives
+  turn: RecordingTurn;
+  streaming: boolean;
+}
+
+/**
+ * Records both sides of one voice call: the trainee's microphone audio on the
+ * left channel and the synthesized customer replies, as the trainee heard them,
+ * on the right. Turns are timestamped on the same timeline. Nothing is kept
+ * until `save`, which needs the conversation the call belongs to.
+ */
+export class CallRecorder {
+  private readonly startedAt = Date.now();
+  private readonly scratchDir = mkdtempSync(path.join(os.tmpdir(), 'call-recording-'));
+  private readonly trainee = new Track(path.join(this.scratchDir, 'trainee.pcm'));
+  private readonly customer = new Track(path.join(this.scratchDir, 'customer.pcm'));
+  private readonly turns: RecordingTurn[] = [];
+  private traineeCursor = 0;
+  // Timeline position of the first sample of the current recognition stream
+  private traineeOrigin: number | null = null;
+  private reply: ReplyCapture | null = null;
+  private readonly replyTurns = new Map<string, RecordingTurn>();
+
+  constructor(public conversationId: string | null = null) {}
+
+  /**
+   * Adds microphone audio. `streamPosition` counts the samples already sent to
+   * the recognizer, so its utterance offsets can be placed on the timeline.
+   */
+  addTraineeAudio(pcm: Buffer, streamPosition: number): void {
+    const samples = toSamples(pcm);
+    // A new stream (or a recording started mid-stream) begins where the audio is now
+    if (this.traineeOrigin === null || streamPosition === 0) {
+      this.traineeCursor = Math.max(this.traineeCursor, this.now() - samples.length);
+      this.traineeOrigin = this.traineeCursor - streamPosition;
+    }
+    this.trainee.write(samples, this.traineeCursor);
+    this.traineeCursor += samples.length;
+  }
+
+  /** Logs a recognized utterance; offsets are relative to the start of the recognition stream. */
+  addTraineeTurn(text: string, offsetMs: number, durationMs: number): void {
+    if (this.traineeOrigin === null) return;
+    const startMs = Math.max(samplesToMs(this.traineeOrigin) + offsetMs, 0);
+    this.turns.push({ speaker: 'trainee', startMs, endMs: startMs + durationMs, text });
+  }
+
+  /** Starts a customer reply; the one before stops playing at this point. */
+  startReply(id: string, text: string, sampleRate: number): void {
+    this.cutReply();
+    const start = Math.max(this.customer.length, this.now());
+    const turn: RecordingTurn = { speaker: 'customer', startMs: samplesToMs(start), endMs: samplesToMs(start), text };
+    this.turns.push(turn);
+    this.replyTurns.set(id, turn);
+    this.reply = { id, start, cursor: start, resample: createResampler(sampleRate, RECORDING_SAMPLE_RATE), turn, streaming: true };
+  }
+
+  addReplyAudio(id: string, pcm: Buffer): void {
+    const reply = this.reply;
+    if (!reply || reply.id !== id || !reply.streaming) return;
+    const samples = reply.resample(toSamples(pcm));
+    this.customer.write(samples, reply.cursor);
+    reply.cursor += samples.length;
+    reply.turn.endMs = samplesToMs(reply.cursor);
+  }
+
+  /** Names a reply whose text is only known once it was spoken, as with the Realtime model. */
+  setReplyText(id: string, text: string): void {
+    const turn = this.replyTurns.get(id);
+    if (turn) turn.text = text;
+  }
+
+  /** All of the reply's audio has been sent; the trainee may still be listening to it. */
+  endReply(id: string): void {
+    if (this.reply?.id === id) this.reply.streaming = false;
+  }
+
+  /**
+   * The trainee talked over the reply, or the call ended: synthesis runs ahead
+   * of playback, so the audio after this moment was never heard and is dropped.
+   */
+  cutReply(): void {
+    const reply = this.reply;
+    if (!reply) return;
+    this.reply = null;
+    const cut = Math.max(reply.start, Math.min(this.now(), reply.cursor));
+    if (cut >= reply.cursor) return;
+    this.customer.truncate(cut);
+    reply.turn.endMs = samplesToMs(cut);
+    reply.turn.interrupted = true;
+  }
+
+  /**
+   * Writes the call to the conversation's recording, after any earlier part of
+   * the same conversation, and stores its turns on the conversation. Resolves
+   * with null, keeping nothing, when there is no conversation or no audio.
+   */
+  async save(): Promise<CallRecording | null> {
+    this.cutReply();
+    try {
+      const length = Math.min(Math.max(this.trainee.length, this.customer.length), MAX_RECORDING_SAMPLES);
+      const documentService = databaseServiceFactory.getDocumentService();
+      if (!this.conversationId || length === 0 || !documentService) return null;
+      const conversation = await documentService.getConversation(this.conversationId);
+      if (!conversation) return null;
+
+      const file = getRecordingPath(this.conversationId);
+      const partial = `${file}.partial`;
+      await fs.mkdir(config.recordingsDir, { recursive: true });
+      const output = await fs.open(partial, 'w');
+      let dataBytes = 0;
+      try {
+        await output.write(createWavHeader(0, RECORDING_SAMPLE_RATE, 2));
+        dataBytes += await this.copyEarlierRecording(file, output);
+        const offset = dataBytes / FRAME_BYTES;
+        for (let at = 0; at < length; at += RECORDING_SAMPLE_RATE) {
+          const count = Math.min(RECORDING_SAMPLE_RATE, length - at);
+          const [left, right] = await Promise.all([this.trainee.read(at, count), this.customer.read(at, count)]);
+          const frames = Buffer.alloc(count * FRAME_BYTES);
+          for (let i = 0; i < count; i++) {
+            left.copy(frames, i * FRAME_BYTES, i * BYTES_PER_SAMPLE, (i + 1) * BYTES_PER_SAMPLE);
+            right.copy(frames, i * FRAME_BYTES + BYTES_PER_SAMPLE, i * BYTES_PER_SAMPLE, (i + 1) * BYTES_PER_SAMPLE);
+          }
+          await output.write(frames);
+          dataBytes += frames.length;
+        }
+        await output.write(createWavHeader(dataBytes, RECORDING_SAMPLE_RATE, 2), 0, 44, 0);
+
+        const shiftMs = samplesToMs(offset);
+        const turns = (conversation.recording?.turns ?? []).concat(this.turns
+          .filter(turn => turn.endMs > turn.startMs && turn.startMs < samplesToMs(length))
+          .map(turn => ({ ...turn, startMs: turn.startMs + shiftMs, endMs: Math.min(turn.endMs, samplesToMs(length)) + shiftMs })));
+        const now = new Date();
+        const recording: CallRecording = {
+          sampleRate: RECORDING_SAMPLE_RATE,
+          durationMs: samplesToMs(dataBytes / FRAME_BYTES),
+          sizeBytes: dataBytes + 44,
+          turns,
+          createdAt: conversation.recording?.createdAt ?? now.toISOString(),
+          updatedAt: now.toISOString(),
+          ...(config.recordingRetentionDays > 0
+            ? { expiresAt: new Date(now.getTime() + config.recordingRetentionDays * DAY_MS).toISOString() }
+            : {})
+        };
+        await output.close();
+        await fs.rename(partial, file);
+        await documentService.updateConversationMetadata(this.conversationId, { recording });
+        console.log(`[Recording] Saved ${Math.round(recording.durationMs / 1000)}s of call audio for conversation ${this.conversationId}`);
+        return recording;
+      } catch (error) {
+        await output.close().catch(() => {});
+        await fs.rm(partial, { force: true });
+        throw error;
+      }
+    } finally {
+      await this.discard();
+    }
+  }
+
+  /** Drops the recorded audio. */
+  async discard(): Promise<void> {
+    await Promise.all([this.trainee.close(), this.customer.close()]).catch(() => {});
+    await fs.rm(this.scratchDir, { recursive: true, force: true });
+  }
+
+  // Samples since the recording started
+  private now(): number {
+    return msToSamples(Date.now() - this.startedAt);
+  }
+
+  // Copies the audio of earlier calls in the same conversation; resolves with its size in bytes
+  private async copyEarlierRecording(file: string, output: fs.FileHandle): Promise<number> {
+    let input: fs.FileHandle;
+    try {
+      input = await fs.open(file, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+    try {
+      const header = Buffer.alloc(1024);
+      const { bytesRead } = await input.read(header, 0, header.length, 0);
+      const wav = readWavHeader(header.subarray(0, bytesRead));
+      if (!wav) return 0;
+      const { size } = await input.stat();
+      const buffer = Buffer.alloc(64 * 1024);
+      let copied = 0;
+      for (let position = wav.dataOffset; position < size;) {
+        const { bytesRead: read } = await input.read(buffer, 0, buffer.length, position);
+        if (read === 0) break;
+        await output.write(buffer, 0, read);
+        position += read;
+        copied += read;
+      }
+      return copied - (copied % FRAME_BYTES);
+    } finally {
+      await input.close();
+    }
+  }
+}
+
+/** Resolves with the recording's path, or null when the conversation has none. */
+export async function findRecording(conversationId: string): Promise<string | null> {
+  const file = getRecordingPath(conversationId);
+  try {
+    await fs.access(file);
+    return file;
+  } catch {
+    return null;
+  }
+}
+
+/** Deletes a conversation's recording and forgets its turns. */
+export async function deleteRecording(conversationId: string): Promise<void> {
+  await fs.rm(getRecordingPath(conversationId), { force: true });
+  const documentService = databaseServiceFactory.getDocumentService();
+  await documentService?.updateConversationMetadata(conversationId, { recording: undefined }).catch(() => {});
+}
+
+/** Deletes recordings whose last call ended more than RECORDING_RETENTION_DAYS ago. */
+export async function purgeExpiredRecordings(): Promise<number> {
+  if (config.recordingRetentionDays === 0) return 0;
+  const cutoff = Date.now() - config.recordingRetentionDays * DAY_MS;
+  let files: string[];
+  try {
+    files = await fs.readdir(config.recordingsDir);
+  } catch {
+    return 0;
+  }
+  let purged = 0;
+  for (const file of files) {
+    const id = path.basename(file, '.wav');
+    if (path.extname(file) !== '.wav' || !CONVERSATION_ID_PATTERN.test(id)) continue;
+    const stat = await fs.stat(path.join(config.recordingsDir, file)).catch(() => null);
+    if (!stat || stat.mtimeMs >= cutoff) continue;
+    await deleteRecording(id);
+    purged++;
+  }
+  if (purged > 0) console.log(`[Recording] Deleted ${purged} recordings older than ${config.recordingRetentionDays} days`);
+  return purged;
+}
+
+/** Runs the retention sweep now and then hourly. */
+export function scheduleRecordingRetention(): void {
+  const sweep = () => {
+    purgeExpiredRecordings().catch(error => console.error('[Recording] Retention sweep failed:', error));
+  };
+  sweep();
+  setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS).unref();
+}
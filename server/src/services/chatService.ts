@@ -1,65 +1,167 @@
 import { TemplateManager } from '../prompts/templateManager';
-import OpenAI from 'openai';
-// Removed invalid SDK type import; using local types instead
 import { config } from '../config/env';
 import statsService from './statsService';
-import type { ScenarioParameters } from '../types/api';
-
-let openai: OpenAI | null = null;
-if (config.azureOpenAiEndpoint && config.azureOpenAiKey) {
-  openai = new OpenAI({
-    apiKey: config.azureOpenAiKey,
-    baseURL: `${config.azureOpenAiEndpoint}/openai/deployments/${config.azureOpenAiDeployment}`,
-    defaultQuery: { 'api-version': '2023-05-15' },
-    defaultHeaders: { 'api-key': config.azureOpenAiKey },
-  });
+import { getLlmProvider, getPromptTokenBudget, estimateMessageTokens, estimateTokens } from './llm';
+import type { LlmMessage } from './llm';
+import { assessTurn } from './exitCriteriaService';
+import type { ScenarioParameters, ChatUsage, ExitCriteriaAssessment, ModelParameters, ReplyAssessment } from '../types/api';
+
+export interface ReplyContext {
+  systemPrompt: string;
+  // Prior user/assistant turns, oldest first
+  history: Array<{ role: string; content: string }>;
+  modelParameters: ModelParameters;
+  // Running summary of turns that no longer fit in the context window
+  summary?: string;
 }
 
-export async function getChatCompletion(messages: any[], statsSvc = statsService, parameters?: ScenarioParameters): Promise<any> {
-  if (!openai) throw new Error('OpenAI client not initialized');
-  // Local type for message payload
-  type ChatMessagePayload = { role: 'system' | 'user' | 'assistant'; content: string };
-
-  // Separate client-supplied system prompts and non-system messages
-  const systemMessagesRaw = messages.filter(m => m.role === 'system');
-  const nonSystemMessagesRaw = messages.filter(m => m.role !== 'system');
-  const windowedNonSystemRaw = nonSystemMessagesRaw.slice(-config.messageWindowSize);
-  
-  // Map to SDK message param type
-  // Map to local typed payloads
-  const systemMessages: ChatMessagePayload[] = systemMessagesRaw.map(m => ({ role: m.role, content: m.content }));
-  const windowedNonSystem: ChatMessagePayload[] = windowedNonSystemRaw.map(m => ({ role: m.role, content: m.content }));
-  // Build the final messages array for OpenAI, preferring client system prompts
-  // Build final array of messages, using our local type
-  let messagesForOpenAi: ChatMessagePayload[];
-  if (systemMessages.length > 0) {
-    messagesForOpenAi = [...systemMessages, ...windowedNonSystem];
-  } else {
-    // Fallback to server-side template selection if none provided
-    const { systemMessage, configuration } = await TemplateManager.getContextualPrompt(messages, parameters);
-    const fallbackSystemMsg: ChatMessagePayload = { role: 'system', content: systemMessage };
-    messagesForOpenAi = [fallbackSystemMsg, ...windowedNonSystem];
-  }
+// Prompt space held back for the running summary once older turns are dropped
+export const SUMMARY_TOKEN_RESERVE = 400;
 
-  try {
-    // Cast at API boundary to satisfy SDK types
-    const completion = await openai.chat.completions.create({
-      model: config.azureOpenAiModel,
-      messages: messagesForOpenAi as any,
-    });
-    // Record token usage
-    if (completion.usage?.total_tokens) {
-      statsSvc.recordTokens(completion.usage.total_tokens);
+export interface ReplyOptions {
+  statsSvc?: typeof statsService;
+  signal?: AbortSignal;
+  // When set the reply is streamed and each content fragment is passed here
+  onDelta?: (content: string) => void;
+}
+
+export interface ReplyResult {
+  content: string;
+  usage?: ChatUsage;
+  modelParameters: ModelParameters;
+}
+
+/**
+ * A reply that is ready to send, with the check of the scenario's exit criteria
+ * still running, so callers need not hold the reply back for that extra call.
+ */
+export interface AssessedReply<T> {
+  reply: T;
+  // Null when there is nothing to report; never rejects
+  assessment: Promise<ExitCriteriaAssessment | null>;
+}
+
+// The response fields for a finished assessment; none when there was nothing to report
+export function toReplyAssessment(exitCriteria: ExitCriteriaAssessment | null): ReplyAssessment {
+  return exitCriteria ? { conversationState: exitCriteria.state, exitCriteria } : {};
+}
+
+/**
+ * Splits the history into the turns that fit the model's prompt budget (newest
+ * first, capped at MESSAGE_WINDOW_SIZE) and the older turns that must be dropped.
+ * The newest turn is always kept.
+ */
+export function planContextWindow<T extends { role: string; content: string }>(
+  context: { systemPrompt: string; history: T[]; modelParameters: ModelParameters },
+  model = getLlmProvider().model
+): { kept: T[]; dropped: T[] } {
+  const turns = context.history.filter(m => m.role === 'user' || m.role === 'assistant');
+  const budget = getPromptTokenBudget(model, context.modelParameters) - estimateTokens(context.systemPrompt);
+
+  const fit = (available: number) => {
+    let used = 0;
+    let start = turns.length;
+    while (start > 0 && turns.length - start < config.messageWindowSize) {
+      const cost = estimateMessageTokens(turns[start - 1]);
+      if (used + cost > available && start < turns.length) break;
+      used += cost;
+      start--;
     }
-    return { ...completion.choices[0].message, usage: completion.usage };
-  } catch (error) {
-    const retryCompletion = await openai.chat.completions.create({
-      model: config.azureOpenAiModel,
-      messages: messagesForOpenAi as any,
+    return start;
+  };
+
+  let start = fit(budget);
+  // Anything dropped will be replaced by a summary, so leave room for it
+  if (start > 0) start = fit(budget - SUMMARY_TOKEN_RESERVE);
+  return { kept: turns.slice(start), dropped: turns.slice(0, start) };
+}
+
+/**
+ * Builds the message array sent to the model: the server-owned system prompt,
+ * the running summary (if any) and the history that fits the context window.
+ */
+function buildLlmMessages(context: ReplyContext, model: string): LlmMessage[] {
+  const { kept, dropped } = planContextWindow(context, model);
+  if (dropped.length > 0 && !context.summary) {
+    console.warn(`[Chat] ${dropped.length} older messages exceed the context budget and were dropped without a summary`);
+  }
+  const messages: LlmMessage[] = [{ role: 'system', content: context.systemPrompt }];
+  if (context.summary) {
+    messages.push({
+      role: 'system',
+      content: `Summary of the earlier part of this call (those turns are no longer shown). Stay consistent with it:\n${context.summary}`
     });
-    if (retryCompletion.usage?.total_tokens) {
-      statsSvc.recordTokens(retryCompletion.usage.total_tokens);
-    }
-    return { ...retryCompletion.choices[0].message, usage: retryCompletion.usage };
   }
- }
+  return [...messages, ...kept.map(m => ({ role: m.role as LlmMessage['role'], content: m.content }))];
+}
+
+/**
+ * Generates the next assistant reply for a conversation context.
+ * Failures surface as LlmError once the provider has exhausted its retries.
+ */
+export async function generateReply(context: ReplyContext, options: ReplyOptions = {}): Promise<ReplyResult> {
+  const provider = getLlmProvider();
+  const { statsSvc = statsService, signal, onDelta } = options;
+  const request = { messages: buildLlmMessages(context, provider.model), ...context.modelParameters, signal };
+
+  const result = onDelta
+    ? await provider.stream(request, onDelta)
+    : await provider.complete(request);
+  // Record token usage
+  if (result.usage?.total_tokens) {
+    statsSvc.recordTokens(result.usage.total_tokens);
+  }
+  return { content: result.content, usage: result.usage, modelParameters: context.modelParameters };
+}
+
+/**
+ * Resolves a stateless /api/chat request into a reply context. The system prompt
+ * is always rendered on the server; client-supplied system messages are ignored.
+ */
+async function resolveStatelessContext(messages: any[], parameters?: ScenarioParameters): Promise<ReplyContext> {
+  const { systemMessage, modelParameters } = await TemplateManager.getContextualPrompt(
+    messages,
+    parameters ? { ...parameters } : undefined
+  );
+  return { systemPrompt: systemMessage, history: messages, modelParameters };
+}
+
+export async function getChatCompletion(
+  messages: any[],
+  statsSvc = statsService,
+  parameters?: ScenarioParameters
+): Promise<AssessedReply<ReplyResult>> {
+  const context = await resolveStatelessContext(messages, parameters);
+  const reply = await generateReply(context, { statsSvc });
+  return { reply, assessment: assessStatelessReply(messages, reply, parameters, statsSvc) };
+}
+
+/**
+ * Streams a chat completion, invoking onDelta for every content fragment.
+ * Resolves with the full content and usage once the model finishes; the
+ * exit-criteria check of the reply is then still running.
+ * Passing an aborted signal (e.g. client disconnect) stops the upstream request.
+ */
+export async function streamChatCompletion(
+  messages: any[],
+  onDelta: (content: string) => void,
+  options: { statsSvc?: typeof statsService; parameters?: ScenarioParameters; signal?: AbortSignal } = {}
+): Promise<AssessedReply<ReplyResult>> {
+  const { statsSvc, parameters, signal } = options;
+  const context = await resolveStatelessContext(messages, parameters);
+  const reply = await generateReply(context, { statsSvc, signal, onDelta });
+  return { reply, assessment: assessStatelessReply(messages, reply, parameters, statsSvc) };
+}
+
+function assessStatelessReply(
+  messages: any[],
+  reply: ReplyResult,
+  parameters: ScenarioParameters | undefined,
+  statsSvc?: typeof statsService
+): Promise<ExitCriteriaAssessment | null> {
+  return assessTurn(parameters?.scenarioId, [...messages, { role: 'assistant', content: reply.content }], null, statsSvc)
+    .catch(error => {
+      console.warn('[Chat] Failed to check exit criteria:', error);
+      return null;
+    });
+}
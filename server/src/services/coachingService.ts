@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { PrompyLoader } from '../prompts/promptyLoader';
+import { config } from '../config/env';
+import { getLlmProvider } from './llm';
+import statsService from './statsService';
+import type { Scenario } from '../types/api';
+
+// Messages shown to the coach; hints are about the latest turn so older context matters less
+const COACHING_WINDOW = 10;
+
+/**
+ * Runtime switch for live coaching hints. Starts from COACHING_HINTS_ENABLED;
+ * supervisors turn it off for assessed runs. Kept in memory like the stats.
+ */
+class CoachingPolicy {
+  private enabled = config.coachingHintsEnabled;
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setEnabled(enabled: boolean, changedBy?: string): void {
+    this.enabled = enabled;
+    console.log(`[Coaching] Hints ${enabled ? 'enabled' : 'disabled'}${changedBy ? ` by ${changedBy}` : ''}`);
+  }
+}
+
+export const coachingPolicy = new CoachingPolicy();
+
+/** Formats a scenario's evaluation criteria as a categorised checklist, or '' when it has none. */
+export function formatEvaluationCriteria(criteria?: Scenario['evaluation_criteria']): string {
+  if (!criteria) return '';
+  return Object.entries(criteria)
+    .filter(([, questions]) => Array.isArray(questions) && questions.length > 0)
+    .map(([category, questions]) => {
+      const title = category.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+      return `${title}:\n${(questions as string[]).map(q => `- ${q}`).join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Streams short coaching feedback on the trainee's latest turn. `messages` must
+ * end with that turn. Resolves with the full hint text.
+ */
+export async function streamCoachingHint(
+  evaluationCriteria: string,
+  messages: Array<{ role: string; content: string }>,
+  onDelta: (content: string) => void,
+  options: { signal?: AbortSignal; statsSvc?: typeof statsService } = {}
+): Promise<string> {
+  const { signal, statsSvc = statsService } = options;
+  const templatePath = path.join(__dirname, 'coaching-hints.prompty');
+  const { systemMessage, configuration } = PrompyLoader.loadTemplateFromPath(templatePath, { evaluationCriteria });
+
+  const transcript = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .slice(-COACHING_WINDOW)
+    .map(m => `${m.role === 'user' ? 'Agent' : 'Customer'}: ${m.content}`)
+    .join('\n');
+
+  const result = await getLlmProvider().stream(
+    {
+      messages: [
+        { role: 'system', content: systemMessage },
+        { role: 'user', content: `TURN TO COACH (the last Agent line):\n\n${transcript}` }
+      ],
+      temperature: configuration.temperature ?? 0.3,
+      max_tokens: configuration.max_tokens ?? 150,
+      signal
+    },
+    onDelta
+  );
+  if (result.usage?.total_tokens) {
+    statsSvc.recordTokens(result.usage.total_tokens);
+  }
+  return result.content.trim();
+}
@@ -0,0 +1,43 @@
+import * as path from 'path';
+import { PrompyLoader } from '../prompts/promptyLoader';
+import { getLlmProvider } from './llm';
+import statsService from './statsService';
+
+/**
+ * Folds turns that fell out of the context window into the running summary.
+ * The previous summary is rewritten rather than appended to, so it stays short
+ * no matter how long the call runs.
+ */
+export async function summarizeTurns(
+  previousSummary: string | undefined,
+  turns: Array<{ role: string; content: string }>,
+  statsSvc = statsService
+): Promise<string> {
+  const templatePath = path.join(__dirname, 'conversation-summary.prompty');
+  const { systemMessage, configuration } = PrompyLoader.loadTemplateFromPath(templatePath, {
+    previousSummary: previousSummary ?? ''
+  });
+
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'Agent' : 'Customer'}: ${turn.content}`)
+    .join('\n');
+
+  const provider = getLlmProvider();
+  const response = await provider.complete({
+    messages: [
+      { role: 'system', content: systemMessage },
+      { role: 'user', content: `CONVERSATION TO SUMMARIZE:\n\n${transcript}` }
+    ],
+    temperature: configuration.temperature ?? 0.2,
+    max_tokens: configuration.max_tokens ?? 400,
+  });
+  if (response.usage?.total_tokens) {
+    statsSvc.recordTokens(response.usage.total_tokens);
+  }
+
+  const summary = response.content.trim();
+  if (!summary) {
+    throw new Error(`Summary generation returned no content from ${provider.name}`);
+  }
+  return summary;
+}
@@ -0,0 +1,408 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseServiceFactory } from './database-service-factory';
+import { TemplateManager } from '../prompts/templateManager';
+import { generateReply, planContextWindow, type AssessedReply } from './chatService';
+import { summarizeTurns } from './contextSummaryService';
+import { assessTurn } from './exitCriteriaService';
+import { coachingPolicy, formatEvaluationCriteria, streamCoachingHint } from './coachingService';
+import { getScenarioById } from './scenarioService';
+import { getBranch, getLatestLeaf } from './messageTree';
+import statsService from './statsService';
+import { deleteRecording } from './callRecordingService';
+import { parseRecognitionDetail } from './stt';
+import { computeSpeechAnalytics } from './speechAnalyticsService';
+import type { DocumentService } from './DocumentService';
+import type {
+  CoachingHint,
+  ContextSummary,
+  Conversation,
+  ConversationMessage,
+  ConversationMessageMetadata,
+  ConversationSummary,
+  ConversationTurnResponse,
+  ScenarioParameters,
+  SpeechAnalytics,
+  SpeechRecognitionDetail,
+  ExitCriteriaAssessment
+} from '../types/api';
+
+/**
+ * Server-owned conversations. The system prompt is rendered once when the
+ * conversation is created and every turn is generated from the stored
+ * transcript, so clients only ever send the new user message.
+ */
+
+function requireDocumentService(): DocumentService {
+  const documentService = databaseServiceFactory.getDocumentService();
+  if (!documentService) {
+    throw new Error('Conversation storage is not available');
+  }
+  return documentService;
+}
+
+// Owner is null when auth is disabled; in that case every conversation is visible
+function isVisibleTo(conversation: { owner?: string | null }, owner?: string | null): boolean {
+  return !owner || !conversation.owner || conversation.owner === owner;
+}
+
+export async function createConversation(parameters: ScenarioParameters, owner?: string | null): Promise<Conversation> {
+  const documentService = requireDocumentService();
+  // getContextualPrompt strips keys from the object it is given, so pass a copy
+  const { systemMessage, modelParameters } = await TemplateManager.getContextualPrompt([], { ...parameters });
+  const title = `${parameters.templateName || 'Conversation'} with ${parameters.name || 'customer'}`;
+  return documentService.createConversation({
+    owner: owner ?? null,
+    title,
+    parameters,
+    systemPrompt: systemMessage,
+    modelParameters
+  });
+}
+
+export async function getConversation(id: string, owner?: string | null): Promise<Conversation> {
+  const conversation = await requireDocumentService().getConversation(id);
+  if (!conversation || !isVisibleTo(conversation, owner)) {
+    throw new Error(`Conversation with id '${id}' not found`);
+  }
+  return conversation;
+}
+
+export async function listConversations(owner?: string | null): Promise<ConversationSummary[]> {
+  return requireDocumentService().listConversations(owner);
+}
+
+export async function deleteConversation(id: string, owner?: string | null): Promise<void> {
+  await getConversation(id, owner);
+  await requireDocumentService().deleteConversation(id);
+  await deleteRecording(id);
+}
+
+/**
+ * Folds any turns that no longer fit the context window into the running summary
+ * of the active branch and persists it. If summarizing fails the previous summary
+ * is kept and the same turns are retried on the next turn.
+ */
+async function refreshContextSummary(
+  conversation: Conversation,
+  history: ConversationMessage[],
+  statsSvc?: typeof statsService
+): Promise<ContextSummary | null> {
+  const previous = conversation.contextSummary;
+  const { dropped } = planContextWindow({
+    systemPrompt: conversation.systemPrompt,
+    history,
+    modelParameters: conversation.modelParameters
+  });
+  const unsummarized = dropped.filter(m => m.seq > (previous?.coveredThroughSeq ?? 0));
+  if (unsummarized.length === 0) return previous;
+
+  try {
+    const content = await summarizeTurns(previous?.content, unsummarized, statsSvc);
+    const contextSummary: ContextSummary = {
+      content,
+      coveredThroughSeq: unsummarized[unsummarized.length - 1].seq,
+      coveredMessageCount: (previous?.coveredMessageCount ?? 0) + unsummarized.length,
+      updatedAt: new Date().toISOString()
+    };
+    await requireDocumentService().saveContextSummary(conversation.id, contextSummary, previous);
+    console.log(`[Conversations] Folded ${unsummarized.length} messages into the summary of ${conversation.id}`);
+    return contextSummary;
+  } catch (error) {
+    console.warn('[Conversations] Failed to update context summary, keeping the previous one:', error);
+    return previous;
+  }
+}
+
+// Checks a reply against the scenario's exit criteria and stores the assessment with the conversation
+async function assessReply(
+  conversation: Conversation,
+  reply: ConversationMessage,
+  statsSvc?: typeof statsService
+): Promise<ExitCriteriaAssessment | null> {
+  try {
+    const assessment = await assessTurn(
+      conversation.parameters.scenarioId,
+      [...conversation.messages, reply],
+      conversation.exitCriteria,
+      statsSvc
+    );
+    const exitCriteria = assessment ? { ...assessment, messageId: reply.id } : null;
+    if (exitCriteria) {
+      await requireDocumentService().updateConversationMetadata(conversation.id, { exitCriteria });
+    }
+    return exitCriteria;
+  } catch (error) {
+    console.warn('[Conversations] Failed to check exit criteria:', error);
+    return null;
+  }
+}
+
+/**
+ * Generates the assistant reply to the user message that ends the conversation's
+ * active branch and persists it after that message. The scenario's exit criteria
+ * are checked once the reply is stored, without holding it back.
+ */
+async function replyOnActiveBranch(
+  conversation: Conversation,
+  options: { signal?: AbortSignal; onDelta?: (content: string) => void; statsSvc?: typeof statsService }
+): Promise<AssessedReply<ConversationTurnResponse>> {
+  const { signal, onDelta, statsSvc } = options;
+  const documentService = requireDocumentService();
+  const history = conversation.messages;
+  const userMessage = history[history.length - 1];
+  const contextSummary = await refreshContextSummary(conversation, history, statsSvc);
+  const result = await generateReply(
+    {
+      systemPrompt: conversation.systemPrompt,
+      history,
+      modelParameters: conversation.modelParameters,
+      summary: contextSummary?.content
+    },
+    { statsSvc, signal, onDelta }
+  );
+  const assistantMessage = await documentService.appendMessage(conversation.id, {
+    role: 'assistant',
+    content: result.content,
+    parentId: userMessage.id,
+    metadata: { usage: result.usage, modelParameters: result.modelParameters }
+  });
+
+  return {
+    reply: {
+      role: 'assistant',
+      content: result.content,
+      usage: result.usage,
+      modelParameters: result.modelParameters,
+      conversationId: conversation.id,
+      userMessage,
+      assistantMessage,
+      contextSummary
+    },
+    assessment: assessReply(conversation, assistantMessage, statsSvc)
+  };
+}
+
+/** Looks up any message of the conversation, on any branch. */
+export async function getMessage(id: string, messageId: string, owner?: string | null): Promise<ConversationMessage> {
+  await getConversation(id, owner);
+  const message = (await requireDocumentService().listMessages(id)).find(m => m.id === messageId);
+  if (!message) {
+    throw new Error(`Message with id '${messageId}' not found`);
+  }
+  return message;
+}
+
+/**
+ * Appends a user message, generates the assistant reply from the stored
+ * transcript and persists it; the scenario's exit criteria are checked after.
+ * Pass onDelta to stream the reply, and parentId to branch off an earlier
+ * message instead of continuing the active branch (used to edit a turn).
+ * If generation fails the user message stays in the transcript, so the
+ * conversation can be resumed with another turn. Spoken turns can carry their
+ * word timing and confidence, which is stored with the user message.
+ */
+export async function postTurn(
+  id: string,
+  content: string,
+  options: {
+    owner?: string | null;
+    parentId?: string | null;
+    recognition?: SpeechRecognitionDetail;
+    signal?: AbortSignal;
+    onDelta?: (content: string) => void;
+    statsSvc?: typeof statsService;
+  } = {}
+): Promise<AssessedReply<ConversationTurnResponse>> {
+  const { owner, parentId, recognition: spoken, ...replyOptions } = options;
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw new Error('Turn content is required');
+  }
+  const recognition = parseRecognitionDetail(spoken);
+  const conversation = parentId === undefined
+    ? await getConversation(id, owner)
+    : await forkConversation(id, parentId, owner);
+
+  const previous = conversation.messages[conversation.messages.length - 1];
+  const userMessage = await requireDocumentService().appendMessage(id, {
+    role: 'user',
+    content,
+    parentId: previous?.id ?? null,
+    ...(recognition ? { metadata: { recognition } } : {})
+  });
+  return replyOnActiveBranch({ ...conversation, messages: [...conversation.messages, userMessage] }, replyOptions);
+}
+
+/**
+ * Stores a turn of a speech-to-speech call, where the Realtime model hears the
+ * trainee and answers by itself, at the end of the active branch. Replies are
+ * checked against the scenario's exit criteria like generated ones.
+ */
+export async function appendSpokenTurn(
+  id: string,
+  turn: { role: 'user' | 'assistant'; content: string; metadata?: ConversationMessageMetadata },
+  owner?: string | null
+): Promise<{ message: ConversationMessage; exitCriteria: ExitCriteriaAssessment | null }> {
+  const documentService = requireDocumentService();
+  const conversation = await getConversation(id, owner);
+  const previous = conversation.messages[conversation.messages.length - 1];
+  const message = await documentService.appendMessage(id, {
+    role: turn.role,
+    content: turn.content,
+    parentId: previous?.id ?? null,
+    ...(turn.metadata ? { metadata: turn.metadata } : {})
+  });
+  if (turn.role !== 'assistant') return { message, exitCriteria: null };
+  return { message, exitCriteria: await assessReply(conversation, message) };
+}
+
+/**
+ * The user message whose reply is regenerated: the given one, or the last user
+ * message on the active branch. Throws when there is nothing to regenerate.
+ */
+export async function getRegenerateTarget(id: string, messageId?: string, owner?: string | null): Promise<ConversationMessage> {
+  const conversation = await getConversation(id, owner);
+  const target = messageId
+    ? await getMessage(id, messageId, owner)
+    : [...conversation.messages].reverse().find(m => m.role === 'user');
+  if (!target || target.role !== 'user') {
+    throw new Error('A user message is required to regenerate a reply');
+  }
+  return target;
+}
+
+/**
+ * Generates a new reply to a user message as a sibling of any earlier replies
+ * and makes it the active branch. The earlier replies stay in the tree.
+ */
+export async function regenerateReply(
+  id: string,
+  options: {
+    messageId?: string;
+    owner?: string | null;
+    signal?: AbortSignal;
+    onDelta?: (content: string) => void;
+    statsSvc?: typeof statsService;
+  } = {}
+): Promise<AssessedReply<ConversationTurnResponse>> {
+  const { messageId, owner, ...replyOptions } = options;
+  const target = await getRegenerateTarget(id, messageId, owner);
+  const conversation = await forkConversation(id, target.id, owner);
+  return replyOnActiveBranch(conversation, replyOptions);
+}
+
+/**
+ * Makes the branch ending at `messageId` active, so the next turn continues from
+ * that message. Pass null to start over from the first turn. Nothing is deleted.
+ */
+export async function forkConversation(id: string, messageId: string | null, owner?: string | null): Promise<Conversation> {
+  if (messageId !== null) await getMessage(id, messageId, owner);
+  else await getConversation(id, owner);
+  await requireDocumentService().updateConversationMetadata(id, { activeLeafId: messageId });
+  return getConversation(id, owner);
+}
+
+/** Switches to the branch through `messageId`, following its newest replies to the end. */
+export async function selectBranch(id: string, messageId: string, owner?: string | null): Promise<Conversation> {
+  await getMessage(id, messageId, owner);
+  const messages = await requireDocumentService().listMessages(id);
+  return forkConversation(id, getLatestLeaf(messages, messageId), owner);
+}
+
+/**
+ * Cuts a reply down to what was spoken before the trainee talked over it. The
+ * cut is moved forward to the end of the word being spoken, and the full reply
+ * is kept in the message metadata. Interrupting the same reply twice is a no-op.
+ */
+export async function interruptReply(id: string, messageId: string, spokenChars: number, owner?: string | null): Promise<ConversationMessage> {
+  const message = await getMessage(id, messageId, owner);
+  if (message.role !== 'assistant') {
+    throw new Error('An assistant message is required');
+  }
+  if (message.metadata?.interruption) return message;
+
+  const rest = message.content.slice(spokenChars).search(/\s/);
+  const spoken = (rest === -1 ? message.content : message.content.slice(0, spokenChars + rest)).trimEnd();
+  const updated = await requireDocumentService().updateMessage(id, messageId, {
+    content: spoken || message.content,
+    metadata: {
+      interruption: {
+        spokenChars: Math.min(spokenChars, message.content.length),
+        fullContent: message.content,
+        interruptedAt: new Date().toISOString()
+      }
+    }
+  });
+  statsService.recordInterruption();
+  return updated;
+}
+
+/**
+ * Computes the trainee's delivery analytics on the active branch and stores
+ * them on the conversation, replacing any computed earlier.
+ */
+export async function analyzeSpeech(id: string, owner?: string | null): Promise<SpeechAnalytics> {
+  const speechAnalytics = computeSpeechAnalytics(await getConversation(id, owner));
+  await requireDocumentService().updateConversationMetadata(id, { speechAnalytics });
+  return speechAnalytics;
+}
+
+/** Loads the evaluation criteria used for coaching, throwing when coaching cannot run. */
+export async function getCoachingCriteria(conversation: Conversation): Promise<string> {
+  if (!coachingPolicy.isEnabled()) {
+    throw new Error('Coaching hints are turned off by a supervisor');
+  }
+  const scenario = conversation.parameters.scenarioId
+    ? await getScenarioById(conversation.parameters.scenarioId)
+    : null;
+  const criteria = formatEvaluationCriteria(scenario?.evaluation_criteria);
+  if (!criteria) {
+    throw new Error('Scenario evaluation criteria are required for coaching');
+  }
+  return criteria;
+}
+
+/**
+ * Streams coaching hints for a trainee turn and stores them on the conversation.
+ * Runs alongside postTurn, so the turn may or may not be persisted yet; `content`
+ * is the trainee's text and is appended if the transcript does not end with it.
+ * Pass the same parentId as the turn when it branches off an earlier message.
+ */
+export async function coachTurn(
+  id: string,
+  content: string,
+  options: {
+    owner?: string | null;
+    parentId?: string | null;
+    signal?: AbortSignal;
+    onDelta: (content: string) => void;
+    statsSvc?: typeof statsService;
+  }
+): Promise<CoachingHint> {
+  const { owner, parentId, signal, onDelta, statsSvc } = options;
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw new Error('Turn content is required');
+  }
+  const conversation = await getConversation(id, owner);
+  const criteria = await getCoachingCriteria(conversation);
+
+  const messages = parentId === undefined
+    ? [...conversation.messages]
+    : getBranch(await requireDocumentService().listMessages(id), parentId);
+  const last = messages[messages.length - 1];
+  if (parentId !== undefined || !(last?.role === 'user' && last.content === content)) {
+    messages.push({ id: '', parentId: last?.id ?? null, seq: 0, role: 'user', content, createdAt: new Date().toISOString() });
+  }
+
+  const hintText = await streamCoachingHint(criteria, messages, onDelta, { signal, statsSvc });
+  const hint: CoachingHint = {
+    id: uuidv4(),
+    turn: messages.filter(m => m.role === 'user').length,
+    content: hintText,
+    createdAt: new Date().toISOString()
+  };
+  // Re-read so hints stored by overlapping requests are kept
+  const documentService = requireDocumentService();
+  const latest = await documentService.getConversation(id);
+  await documentService.updateConversationMetadata(id, { coachingHints: [...(latest?.coachingHints ?? []), hint] });
+  return hint;
+}
@@ -0,0 +1,120 @@
+import * as path from 'path';
+import { PrompyLoader } from '../prompts/promptyLoader';
+import { config } from '../config/env';
+import { getLlmProvider } from './llm';
+import statsService from './statsService';
+import { getScenarioById } from './scenarioService';
+import type { ConversationState, ExitCriteriaAssessment, Scenario } from '../types/api';
+
+const CONVERSATION_STATES: ConversationState[] = ['in-progress', 'resolution-reached', 'customer-abandoned'];
+// Recent messages shown to the classifier; earlier progress is carried in `previous`
+const ASSESSMENT_WINDOW = 8;
+
+/** Loads the exit criteria of a scenario, or null when it has no exit signals to check. */
+export async function getScenarioExitCriteria(scenarioId?: string): Promise<Scenario['exit_criteria'] | null> {
+  if (!scenarioId) return null;
+  const scenario = await getScenarioById(scenarioId);
+  const exitCriteria = scenario?.exit_criteria;
+  return exitCriteria?.customer_exit_signals?.length ? exitCriteria : null;
+}
+
+/**
+ * Judges which exit signals the call has met after the latest exchange.
+ * Signals stay met once observed. Classifier failures are logged and reported
+ * as the previous assessment (or in-progress), never thrown, so a turn never
+ * fails because of the check.
+ */
+export async function assessExitCriteria(
+  exitCriteria: Scenario['exit_criteria'],
+  messages: Array<{ role: string; content: string }>,
+  previous?: ExitCriteriaAssessment | null,
+  statsSvc = statsService
+): Promise<ExitCriteriaAssessment> {
+  const signals = exitCriteria.customer_exit_signals;
+  const previouslyMet = new Set(previous?.signalsMet ?? []);
+
+  let state: ConversationState = 'in-progress';
+  let reason: string | undefined;
+  try {
+    const templatePath = path.join(__dirname, 'exit-criteria.prompty');
+    const { systemMessage, configuration } = PrompyLoader.loadTemplateFromPath(templatePath, {
+      exitDescription: exitCriteria.description,
+      exitSignals: signals.map((signal, i) => `${i + 1}. ${signal}`).join('\n')
+    });
+    const transcript = messages
+      .filter(m => m.role === 'user' || m.role === 'assistant')
+      .slice(-ASSESSMENT_WINDOW)
+      .map(m => `${m.role === 'user' ? 'Agent' : 'Customer'}: ${m.content}`)
+      .join('\n');
+
+    const response = await getLlmProvider().complete({
+      messages: [
+        { role: 'system', content: systemMessage },
+        { role: 'user', content: `EXIT CRITERIA TO ASSESS:\n\n${transcript}` }
+      ],
+      temperature: configuration.temperature ?? 0,
+      max_tokens: configuration.max_tokens ?? 300,
+    });
+    if (response.usage?.total_tokens) {
+      statsSvc.recordTokens(response.usage.total_tokens);
+    }
+
+    const verdict = parseVerdict(response.content);
+    state = verdict.state;
+    reason = verdict.reason;
+    for (const index of verdict.signalsMet) {
+      if (signals[index - 1]) previouslyMet.add(signals[index - 1]);
+    }
+  } catch (error) {
+    console.warn('[ExitCriteria] Classification failed, keeping the previous assessment:', error);
+    if (previous) return previous;
+  }
+
+  const signalsMet = signals.filter(signal => previouslyMet.has(signal));
+  // Every signal observed means the scenario's resolution is reached even if the model hedged
+  if (state === 'in-progress' && signalsMet.length === signals.length) {
+    state = 'resolution-reached';
+  }
+  return {
+    state,
+    signalsMet,
+    signalsPending: signals.filter(signal => !previouslyMet.has(signal)),
+    reason,
+    assessedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Assesses the latest exchange against the scenario's exit criteria. Returns null
+ * when detection is disabled or the scenario has no exit signals.
+ */
+export async function assessTurn(
+  scenarioId: string | undefined,
+  messages: Array<{ role: string; content: string }>,
+  previous?: ExitCriteriaAssessment | null,
+  statsSvc = statsService
+): Promise<ExitCriteriaAssessment | null> {
+  if (!config.exitCriteriaDetection) return null;
+  let exitCriteria: Scenario['exit_criteria'] | null;
+  try {
+    exitCriteria = await getScenarioExitCriteria(scenarioId);
+  } catch (error) {
+    console.warn('[ExitCriteria] Failed to load scenario exit criteria:', error);
+    return previous ?? null;
+  }
+  return exitCriteria ? assessExitCriteria(exitCriteria, messages, previous, statsSvc) : null;
+}
+
+// Parses the classifier's JSON reply, tolerating code fences and surrounding prose
+function parseVerdict(content: string): { state: ConversationState; signalsMet: number[]; reason?: string } {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error(`Classifier reply is not JSON: ${content.slice(0, 100)}`);
+  }
+  const parsed = JSON.parse(json);
+  const state = CONVERSATION_STATES.includes(parsed.state) ? parsed.state : 'in-progress';
+  const signalsMet = Array.isArray(parsed.signals_met)
+    ? parsed.signals_met.map(Number).filter(Number.isInteger)
+    : [];
+  return { state, signalsMet, reason: typeof parsed.reason === 'string' ? parsed.reason : undefined };
+}
@@ -0,0 +1,67 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { config } from '../config/env';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** ffmpeg is not installed, or FFMPEG_PATH does not point at it. */
+export class FfmpegUnavailableError extends Error {
+  constructor(cause: Error) {
+    super(`ffmpeg could not be started (${cause.message}). Install ffmpeg or set FFMPEG_PATH.`);
+    this.name = 'FfmpegUnavailableError';
+  }
+}
+
+function ffmpegBinary(): string {
+  if (config.ffmpegPath) return config.ffmpegPath;
+  try {
+    // Optional bundled binary; not installed by default
+    const bundled = require('ffmpeg-static-electron');
+    const binary = typeof bundled === 'string' ? bundled : bundled?.path ?? bundled?.default;
+    if (typeof binary === 'string') return binary;
+  } catch {
+    // Fall back to ffmpeg on the PATH
+  }
+  return 'ffmpeg';
+}
+
+/**
+ * Starts ffmpeg with the given arguments (after `-hide_banner -loglevel error`),
+ * for callers that feed and read it as a stream. Its `error` event means it
+ * could not be started; wrap it in a FfmpegUnavailableError.
+ */
+export function spawnFfmpeg(args: string[]): ChildProcessWithoutNullStreams {
+  return spawn(ffmpegBinary(), ['-hide_banner', '-loglevel', 'error', ...args]);
+}
+
+/**
+ * Runs ffmpeg to completion, writing `input` to its stdin, and returns what it
+ * wrote to stdout. Rejects with FfmpegUnavailableError when it cannot be
+ * started, and with ffmpeg's own error output when it fails.
+ */
+export function runFfmpeg(args: string[], input?: Buffer, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const child = spawnFfmpeg(args);
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error('ffmpeg timed out'));
+    }, timeoutMs);
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-500);
+    });
+    // ffmpeg may stop reading early, e.g. past a -t limit
+    child.stdin.on('error', () => {});
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new FfmpegUnavailableError(error));
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(stderr.trim() || `ffmpeg exited with code ${code}`));
+    });
+    child.stdin.end(input);
+  });
+}
@@ -1,6 +1,8 @@
 export * from './personaService';
 export * from './templateService';
 export * from './chatService';
+export * from './conversationService';
+export * from './llm';
 export * from './speechServiceApi';
 export * from './speechUtil';
 export * from './statsService';
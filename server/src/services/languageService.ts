@@ -0,0 +1,76 @@
+// Language of a training call when neither the session, the scenario nor the persona sets one
+export const DEFAULT_LANGUAGE = 'en-US';
+
+// Azure detects among at most four candidates at the start of an utterance
+export const MAX_CANDIDATE_LANGUAGES = 4;
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  ko: 'Korean',
+  hi: 'Hindi',
+};
+
+// Where a language setting can come from; the session's wins over the scenario's over the persona's
+export interface LanguageSetting {
+  language?: string;
+  // Other languages the caller may switch to; speech recognition detects among all of them
+  alternateLanguages?: string[];
+}
+
+export interface SessionLanguage {
+  language: string;
+  alternateLanguages: string[];
+}
+
+/** BCP-47 tags as the speech services take them, e.g. 'es', 'es-MX' or 'zh-Hans-CN'. */
+export function isLanguageTag(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z]{2,3}(-[A-Za-z]{4})?(-([A-Z]{2}|\d{3}))?$/.test(value);
+}
+
+/** English name of a tag's language, for prompts; unknown languages keep the tag. */
+export function languageName(tag: string): string {
+  const name = LANGUAGE_NAMES[tag.split('-')[0].toLowerCase()];
+  return name ? `${name} (${tag})` : tag;
+}
+
+/** Throws when a language setting is malformed, so bad scenarios and personas are rejected on save. */
+export function validateLanguageSetting(setting: LanguageSetting, label: string): void {
+  if (setting.language !== undefined && !isLanguageTag(setting.language)) {
+    throw new Error(`${label} language must be a language tag such as 'en-US' or 'es-MX'`);
+  }
+  const alternates = setting.alternateLanguages;
+  if (alternates === undefined) return;
+  if (!Array.isArray(alternates) || !alternates.every(isLanguageTag)) {
+    throw new Error(`${label} alternate languages must be language tags`);
+  }
+  if (alternates.length >= MAX_CANDIDATE_LANGUAGES) {
+    throw new Error(`${label} can have at most ${MAX_CANDIDATE_LANGUAGES - 1} alternate languages`);
+  }
+}
+
+/** Picks the first level that sets a language; its alternates come with it. */
+export function resolveSessionLanguage(...levels: Array<LanguageSetting | undefined>): SessionLanguage {
+  const level = levels.find(l => l && isLanguageTag(l.language));
+  if (!level?.language) return { language: DEFAULT_LANGUAGE, alternateLanguages: [] };
+  const alternateLanguages = (level.alternateLanguages ?? [])
+    .filter(tag => isLanguageTag(tag) && tag !== level.language)
+    .slice(0, MAX_CANDIDATE_LANGUAGES - 1);
+  return { language: level.language, alternateLanguages };
+}
+
+/** System prompt paragraph that keeps the simulated customer in the session's language. */
+export function languageInstruction({ language, alternateLanguages }: SessionLanguage): string {
+  const lines = [`Language: hold the whole call in ${languageName(language)}. Stay in character and answer in this language even if the agent's messages contain a few words of another one.`];
+  if (alternateLanguages.length > 0) {
+    lines.push(`You are bilingual: if the agent switches to ${alternateLanguages.map(languageName).join(' or ')}, you may answer in that language instead.`);
+  }
+  return lines.join(' ');
+}
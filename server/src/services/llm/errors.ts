@@ -0,0 +1,118 @@
+import OpenAI from 'openai';
+import type { LlmErrorCode } from '../../types/api';
+
+// HTTP status the API answers with for each failure
+const STATUS_BY_CODE: Record<LlmErrorCode, number> = {
+  'content-filter': 422,
+  'rate-limited': 429,
+  'timeout': 504,
+  'misconfigured': 503,
+  'upstream-5xx': 502,
+  'circuit-open': 503,
+  'unknown': 500,
+};
+
+// Failures that may succeed if the same request is sent again
+const RETRYABLE_CODES: LlmErrorCode[] = ['rate-limited', 'timeout', 'upstream-5xx'];
+
+/**
+ * A classified LLM failure. Providers and the retry layer throw these so routes
+ * can answer with a meaningful status and clients can tell the user what to do.
+ */
+export class LlmError extends Error {
+  readonly code: LlmErrorCode;
+  readonly status: number;
+  // How long the upstream asked us to wait before retrying, when it said
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(code: LlmErrorCode, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'LlmError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+
+  /**
+   * Error body shared by the JSON routes and SSE `error` events. Unclassified
+   * errors get a generic message so internal details stay in the server log.
+   */
+  toResponse(message = this.code === 'unknown' ? 'Unexpected error while generating the reply' : this.message): { error: string; code: LlmErrorCode; retryAfterSeconds?: number } {
+    return {
+      error: message,
+      code: this.code,
+      ...(this.retryAfterMs !== undefined ? { retryAfterSeconds: Math.ceil(this.retryAfterMs / 1000) } : {}),
+    };
+  }
+}
+
+/** Classifies any error thrown while calling a provider. */
+export function toLlmError(error: unknown): LlmError {
+  if (error instanceof LlmError) return error;
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new LlmError('timeout', 'The language model did not respond in time', { cause: error });
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new LlmError('upstream-5xx', 'Could not connect to the language model service', { cause: error });
+  }
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status ?? 0;
+    if (isContentFilterError(error)) {
+      return new LlmError('content-filter', 'The request was blocked by the content filter', { cause: error });
+    }
+    if (status === 429) {
+      return new LlmError('rate-limited', 'The language model service is rate limiting requests', {
+        retryAfterMs: parseRetryAfter(error.headers),
+        cause: error,
+      });
+    }
+    if (status === 408) {
+      return new LlmError('timeout', 'The language model did not respond in time', { cause: error });
+    }
+    if (status === 401 || status === 403 || status === 404) {
+      return new LlmError('misconfigured', `The language model service rejected the configured credentials or deployment (HTTP ${status})`, { cause: error });
+    }
+    if (status >= 500) {
+      return new LlmError('upstream-5xx', `The language model service failed (HTTP ${status})`, {
+        retryAfterMs: parseRetryAfter(error.headers),
+        cause: error,
+      });
+    }
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new LlmError('unknown', message, { cause: error });
+}
+
+// Azure reports filtered prompts as a 400 with code `content_filter`
+function isContentFilterError(error: InstanceType<typeof OpenAI.APIError>): boolean {
+  const body = error.error as { code?: string; innererror?: { code?: string } } | undefined;
+  return error.code === 'content_filter'
+    || body?.code === 'content_filter'
+    || body?.innererror?.code === 'ResponsibleAIPolicyViolation';
+}
+
+/**
+ * Reads `retry-after-ms` or `retry-after` (seconds or an HTTP date) from
+ * response headers. Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(headers?: Headers | Record<string, string | null | undefined>): number | undefined {
+  if (!headers) return undefined;
+  const get = (name: string) => headers instanceof Headers ? headers.get(name) : headers[name];
+
+  const ms = Number(get('retry-after-ms') || NaN);
+  if (ms >= 0) return ms;
+
+  const value = get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
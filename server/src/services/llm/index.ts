@@ -0,0 +1,98 @@
+import { config } from '../../config/env';
+import { MockLlmProvider } from './mockLlmProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { CircuitBreaker, ResilientLlmProvider } from './resilientLlmProvider';
+import { LlmError } from './errors';
+import type { LlmProvider, LlmProviderName } from './types';
+
+export * from './types';
+export { MockLlmProvider } from './mockLlmProvider';
+export { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+export { CircuitBreaker, ResilientLlmProvider } from './resilientLlmProvider';
+export { LlmError, toLlmError } from './errors';
+export * from './tokenBudget';
+
+/**
+ * Builds the provider named by LLM_PROVIDER from the current configuration.
+ * Throws a descriptive error when the selected provider is missing settings.
+ */
+export function createLlmProvider(name: LlmProviderName = config.llmProvider): LlmProvider {
+  switch (name) {
+    case 'azure-openai': {
+      if (!config.azureOpenAiEndpoint || !config.azureOpenAiKey || !config.azureOpenAiDeployment) {
+        throw new LlmError('misconfigured', 'Azure OpenAI provider requires AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_KEY and AZURE_OPENAI_DEPLOYMENT');
+      }
+      const endpoint = config.azureOpenAiEndpoint.replace(/\/+$/, '');
+      return new OpenAiCompatibleProvider({
+        name,
+        model: config.azureOpenAiModel,
+        apiKey: config.azureOpenAiKey,
+        baseURL: `${endpoint}/openai/deployments/${config.azureOpenAiDeployment}`,
+        defaultQuery: { 'api-version': config.azureOpenAiApiVersion },
+        defaultHeaders: { 'api-key': config.azureOpenAiKey },
+      });
+    }
+    case 'openai':
+      if (!config.openAiApiKey) {
+        throw new LlmError('misconfigured', 'OpenAI provider requires OPENAI_API_KEY');
+      }
+      return new OpenAiCompatibleProvider({
+        name,
+        model: config.openAiModel,
+        apiKey: config.openAiApiKey,
+        baseURL: config.openAiBaseUrl,
+      });
+    case 'local':
+      return new OpenAiCompatibleProvider({
+        name,
+        model: config.localLlmModel,
+        // Local servers ignore the key, but the SDK refuses to start without one
+        apiKey: config.localLlmApiKey || 'not-needed',
+        baseURL: config.localLlmBaseUrl,
+        supportsStreamUsage: config.localLlmStreamUsage,
+      });
+    case 'mock':
+      return MockLlmProvider.fromFile(config.mockLlmScriptPath);
+    default:
+      throw new LlmError('misconfigured', `Unknown LLM_PROVIDER '${name}'. Expected azure-openai, openai, local or mock.`);
+  }
+}
+
+let activeProvider: LlmProvider | null = null;
+
+// Shared by every call so repeated failures from any feature trip the same circuit
+const circuitBreaker = new CircuitBreaker({
+  failureThreshold: config.llmCircuitFailureThreshold,
+  cooldownMs: config.llmCircuitCooldownMs,
+});
+
+/** Returns the shared provider, creating it on first use. Calls through it retry and fail with LlmError. */
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = new ResilientLlmProvider(
+      createLlmProvider(),
+      {
+        maxAttempts: config.llmMaxAttempts,
+        baseDelayMs: config.llmRetryBaseDelayMs,
+        maxDelayMs: config.llmRetryMaxDelayMs,
+      },
+      circuitBreaker
+    );
+  }
+  return activeProvider;
+}
+
+/** Replaces the shared provider (tests, or switching backends at runtime). */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
+
+/** Describes the configured provider without throwing, for startup logs and health checks. */
+export function describeLlmProvider(): { provider: LlmProviderName; model?: string; ready: boolean; error?: string } {
+  try {
+    const provider = getLlmProvider();
+    return { provider: provider.name, model: provider.model, ready: true };
+  } catch (error) {
+    return { provider: config.llmProvider, ready: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
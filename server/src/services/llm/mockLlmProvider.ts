@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import { estimateTokens } from './tokenBudget';
+import { LlmError } from './errors';
+import type { LlmCompletionRequest, LlmCompletionResult, LlmMessage, LlmProvider } from './types';
+import type { LlmErrorCode } from '../../types/api';
+
+/**
+ * A scripted reply. Rules with `match` fire when the regular expression matches
+ * the last user message (or the system prompt); plain strings are played in turn order.
+ * A rule with `error` fails the call with that code instead, to exercise error handling.
+ */
+export type MockScriptEntry =
+  | string
+  | { match: string; reply: string }
+  | { match: string; error: LlmErrorCode; retryAfterSeconds?: number };
+
+const DEFAULT_SCRIPT: MockScriptEntry[] = [
+  {
+    match: 'CONVERSATION TO EVALUATE',
+    reply: [
+      '# Conversation Evaluation (mock)',
+      '',
+      '**Overall Score: 7/10**',
+      '',
+      '## Strengths',
+      '- The agent greeted the customer and stayed on topic.',
+      '',
+      '## Areas for Improvement',
+      '- Verify the customer identity before discussing the account.',
+      '- Confirm the resolution before closing the call.',
+    ].join('\n'),
+  },
+  {
+    match: 'EXIT CRITERIA TO ASSESS[\\s\\S]*Customer: [^\\n]*goodbye',
+    reply: '{"signals_met": [1, 2, 3], "state": "resolution-reached", "reason": "The customer thanked the agent and said goodbye."}',
+  },
+  {
+    match: 'EXIT CRITERIA TO ASSESS',
+    reply: '{"signals_met": [], "state": "in-progress", "reason": "The customer has not confirmed a resolution yet."}',
+  },
+  {
+    match: 'TURN TO COACH',
+    reply: "- Confirm the customer's account details before troubleshooting.\n- Ask how the problem affects them so you can prioritise the fix.",
+  },
+  {
+    match: 'CONVERSATION TO SUMMARIZE',
+    reply: 'Summary (mock): the customer called about a service problem, has already restarted their equipment and is waiting for the agent to resolve it.',
+  },
+  "Hi, thanks for picking up. I've been having trouble with my service and I'd like some help.",
+  "It started a couple of days ago. I already tried restarting everything, but nothing changed.",
+  'Okay, I can try that. Give me a second.',
+  "That seems to have done something. Can you confirm it's fixed on your end?",
+  "Great, that's all I needed. Thanks for your help, goodbye.",
+];
+
+/**
+ * Deterministic offline provider: no network, same input gives the same reply.
+ * Used for local development and automated tests without LLM credentials.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock' as const;
+  readonly model = 'mock-scripted';
+  private script: MockScriptEntry[];
+
+  constructor(script: MockScriptEntry[] = DEFAULT_SCRIPT) {
+    this.script = script.length > 0 ? script : DEFAULT_SCRIPT;
+  }
+
+  /** Loads a JSON array of script entries, falling back to the built-in script. */
+  static fromFile(scriptPath?: string): MockLlmProvider {
+    if (!scriptPath) return new MockLlmProvider();
+    try {
+      const parsed = JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+      if (!Array.isArray(parsed)) throw new Error('Mock script must be a JSON array');
+      return new MockLlmProvider(parsed);
+    } catch (error) {
+      console.warn(`[MockLlmProvider] Failed to load script '${scriptPath}', using built-in script:`, error);
+      return new MockLlmProvider();
+    }
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+    throwIfAborted(request.signal);
+    const content = this.pickReply(request.messages);
+    return { content, usage: estimateUsage(request.messages, content) };
+  }
+
+  async stream(request: LlmCompletionRequest, onDelta: (content: string) => void): Promise<LlmCompletionResult> {
+    const { content, usage } = await this.complete(request);
+    // Emit word-sized deltas (keeping whitespace) to mimic a real token stream
+    for (const piece of content.match(/\S+\s*|\s+/g) ?? []) {
+      throwIfAborted(request.signal);
+      onDelta(piece);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return { content, usage };
+  }
+
+  private pickReply(messages: LlmMessage[]): string {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    for (const entry of this.script) {
+      if (typeof entry !== 'string' && new RegExp(entry.match, 'i').test(`${lastUser}\n${system}`)) {
+        if ('error' in entry) {
+          const retryAfterMs = entry.retryAfterSeconds !== undefined ? entry.retryAfterSeconds * 1000 : undefined;
+          throw new LlmError(entry.error, `Mock ${entry.error} failure`, { retryAfterMs });
+        }
+        return entry.reply;
+      }
+    }
+    const sequential = this.script.filter((entry): entry is string => typeof entry === 'string');
+    if (sequential.length === 0) return `Mock reply to: ${lastUser}`;
+    const turn = Math.max(messages.filter(m => m.role === 'user').length - 1, 0);
+    return sequential[turn % sequential.length];
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    const error = new Error('Request was aborted');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+// Estimated usage so stats and UI have plausible numbers
+function estimateUsage(messages: LlmMessage[], content: string) {
+  const prompt_tokens = estimateTokens(messages.map(m => m.content).join(''));
+  const completion_tokens = estimateTokens(content);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
@@ -0,0 +1,118 @@
+import OpenAI from 'openai';
+import { config } from '../../config/env';
+import { LlmError } from './errors';
+import type {
+  LlmCompletionRequest,
+  LlmCompletionResult,
+  LlmGenerationOptions,
+  LlmProvider,
+  LlmProviderName,
+} from './types';
+
+export interface OpenAiCompatibleOptions {
+  name: LlmProviderName;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  defaultQuery?: Record<string, string>;
+  defaultHeaders?: Record<string, string>;
+  // Some local servers (older llama.cpp builds) reject stream_options
+  supportsStreamUsage?: boolean;
+}
+
+/**
+ * Provider for any endpoint that speaks the OpenAI chat-completions protocol:
+ * Azure OpenAI, api.openai.com and local servers such as llama.cpp or Ollama.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  private client: OpenAI;
+  private supportsStreamUsage: boolean;
+
+  constructor(options: OpenAiCompatibleOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.supportsStreamUsage = options.supportsStreamUsage ?? true;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      defaultQuery: options.defaultQuery,
+      defaultHeaders: options.defaultHeaders,
+      timeout: config.llmTimeoutMs,
+      // Retries are handled by ResilientLlmProvider so they share one backoff and circuit breaker
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: request.messages,
+        ...pickGenerationOptions(request),
+      },
+      { signal: request.signal }
+    );
+    const choice = completion.choices[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new LlmError('content-filter', 'The reply was blocked by the content filter');
+    }
+    return {
+      content: choice?.message?.content ?? '',
+      usage: completion.usage
+        ? {
+            prompt_tokens: completion.usage.prompt_tokens,
+            completion_tokens: completion.usage.completion_tokens,
+            total_tokens: completion.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async stream(request: LlmCompletionRequest, onDelta: (content: string) => void): Promise<LlmCompletionResult> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: request.messages,
+        ...pickGenerationOptions(request),
+        stream: true,
+        ...(this.supportsStreamUsage ? { stream_options: { include_usage: true } } : {}),
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let usage: LlmCompletionResult['usage'];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.choices[0]?.finish_reason === 'content_filter') {
+        throw new LlmError('content-filter', 'The reply was blocked by the content filter');
+      }
+      // Usage arrives on the final chunk (with an empty choices array)
+      if (chunk.usage) {
+        usage = {
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+          total_tokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+    return { content, usage };
+  }
+}
+
+// Only forward parameters that were actually set so server defaults still apply
+function pickGenerationOptions(request: LlmCompletionRequest): LlmGenerationOptions {
+  const options: LlmGenerationOptions = {};
+  if (request.temperature !== undefined) options.temperature = request.temperature;
+  if (request.max_tokens !== undefined) options.max_tokens = request.max_tokens;
+  if (request.top_p !== undefined) options.top_p = request.top_p;
+  if (request.frequency_penalty !== undefined) options.frequency_penalty = request.frequency_penalty;
+  if (request.presence_penalty !== undefined) options.presence_penalty = request.presence_penalty;
+  return options;
+}
@@ -0,0 +1,168 @@
+import { LlmError, toLlmError } from './errors';
+import type { LlmCompletionRequest, LlmCompletionResult, LlmProvider, LlmProviderName } from './types';
+
+export interface RetryPolicy {
+  // Total attempts per call, including the first
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive upstream failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  cooldownMs: number;
+}
+
+/**
+ * Stops calling an upstream that keeps failing. After `failureThreshold`
+ * consecutive retryable failures the circuit opens and calls fail fast until
+ * the cooldown passes; then one trial call decides whether it closes again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Throws a `circuit-open` LlmError when calls should not be attempted.
+   * Returns true when the call is the half-open trial.
+   */
+  assertCanRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return false;
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    const retryAfterMs = Math.max(this.options.cooldownMs - (Date.now() - (this.openedAt ?? 0)), 0);
+    throw new LlmError('circuit-open', 'The language model service is temporarily unavailable after repeated failures', { retryAfterMs });
+  }
+
+  recordSuccess(): void {
+    if (this.openedAt !== null) console.log('[LLM] Circuit closed');
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /** Gives up the trial without a verdict, e.g. when the caller aborted it; the next call becomes the trial. */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: LlmError): void {
+    // Only upstream trouble counts; bad prompts or config are not the service's fault
+    if (!error.retryable) {
+      this.trialInFlight = false;
+      return;
+    }
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      if (this.openedAt === null || this.trialInFlight) {
+        console.warn(`[LLM] Circuit opened after ${this.failures} consecutive failures (${error.code})`);
+      }
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+/**
+ * Wraps a provider with classified errors, retries with exponential backoff and
+ * full jitter (honoring Retry-After) and a shared circuit breaker. A stream is
+ * only retried if it failed before emitting any content.
+ */
+export class ResilientLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly retry: RetryPolicy,
+    private readonly breaker: CircuitBreaker
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+    return this.run(request.signal, () => this.inner.complete(request));
+  }
+
+  stream(request: LlmCompletionRequest, onDelta: (content: string) => void): Promise<LlmCompletionResult> {
+    let emitted = false;
+    return this.run(
+      request.signal,
+      () => this.inner.stream(request, delta => {
+        emitted = true;
+        onDelta(delta);
+      }),
+      () => !emitted
+    );
+  }
+
+  private async run<T>(
+    signal: AbortSignal | undefined,
+    call: () => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const isTrial = this.breaker.assertCanRequest();
+      try {
+        const result = await call();
+        this.breaker.recordSuccess();
+        return result;
+      } catch (rawError) {
+        // A caller abort is not an upstream failure; pass it through untouched
+        if (signal?.aborted) {
+          if (isTrial) this.breaker.releaseTrial();
+          throw rawError;
+        }
+        const error = toLlmError(rawError);
+        this.breaker.recordFailure(error);
+
+        const delayMs = this.backoff(attempt, error);
+        if (!error.retryable || attempt >= this.retry.maxAttempts || !canRetry() || delayMs === null) {
+          throw error;
+        }
+        console.warn(`[LLM] ${error.code} on attempt ${attempt}/${this.retry.maxAttempts}, retrying in ${delayMs}ms: ${error.message}`);
+        await sleep(delayMs, signal);
+      }
+    }
+  }
+
+  // Retry-After wins when present; null means the server asked us to wait longer than we are willing to
+  private backoff(attempt: number, error: LlmError): number | null {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= this.retry.maxDelayMs ? error.retryAfterMs : null;
+    }
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      const error = new Error('Request was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,42 @@
+import { config } from '../../config/env';
+import type { ModelParameters } from '../../types/api';
+import type { LlmMessage } from './types';
+
+// Known context windows, matched against the model/deployment name in order
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|^o\d/i, 128000],
+  [/gpt-4-32k/i, 32768],
+  [/gpt-4/i, 8192],
+  [/gpt-35-turbo|gpt-3\.5-turbo/i, 16385],
+];
+// Conservative default for unknown and local models (Ollama's default context is small)
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// Tokens held back for the reply when the request does not set max_tokens
+const DEFAULT_COMPLETION_RESERVE = 1024;
+// Per-message framing overhead in the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough token count (about 4 characters per token for English text). Good
+ * enough for budgeting without shipping a tokenizer for every provider.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: Pick<LlmMessage, 'content'>): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for the prompt (system prompt, summary and history).
+ * CONTEXT_TOKEN_BUDGET caps it; the model window minus the reply reserve is the ceiling.
+ */
+export function getPromptTokenBudget(model: string, parameters: ModelParameters = {}): number {
+  const ceiling = getContextWindow(model) - (parameters.max_tokens ?? DEFAULT_COMPLETION_RESERVE);
+  return config.contextTokenBudget > 0 ? Math.min(config.contextTokenBudget, ceiling) : ceiling;
+}
@@ -0,0 +1,32 @@
+import type { ChatUsage, ModelParameters } from '../../types/api';
+
+export type LlmProviderName = 'azure-openai' | 'openai' | 'local' | 'mock';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Generation parameters accepted by every provider
+export type LlmGenerationOptions = ModelParameters;
+
+export interface LlmCompletionRequest extends LlmGenerationOptions {
+  messages: LlmMessage[];
+  signal?: AbortSignal;
+}
+
+export interface LlmCompletionResult {
+  content: string;
+  usage?: ChatUsage;
+}
+
+/**
+ * A chat-completion backend. Adapters hide SDK and endpoint differences so
+ * callers only deal in plain messages, text and token usage.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletionResult>;
+  stream(request: LlmCompletionRequest, onDelta: (content: string) => void): Promise<LlmCompletionResult>;
+}
@@ -0,0 +1,46 @@
+import type { ConversationMessage } from '../types/api';
+
+/**
+ * Helpers for conversation branches. Every message points at the message it
+ * follows, so regenerated, edited and forked turns form a tree; a branch is the
+ * path from the first turn down to one message (its leaf).
+ */
+
+/** Messages from the first turn down to `leafId`, oldest first. An unknown or null leaf gives an empty branch. */
+export function getBranch(messages: ConversationMessage[], leafId: string | null): ConversationMessage[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const branch: ConversationMessage[] = [];
+  for (let message = leafId ? byId.get(leafId) : undefined; message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+    branch.unshift(message);
+  }
+  return branch;
+}
+
+/**
+ * Leaf of the active branch. Transcripts that were never branched have no
+ * stored leaf and simply end at their newest message.
+ */
+export function resolveActiveLeaf(messages: ConversationMessage[], activeLeafId: string | null | undefined): string | null {
+  if (activeLeafId !== undefined) return activeLeafId;
+  return messages.length > 0 ? messages[messages.length - 1].id : null;
+}
+
+/** Follows the newest reply below `messageId` down to a leaf; used when switching to another version of a message. */
+export function getLatestLeaf(messages: ConversationMessage[], messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const children = messages.filter(m => m.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children.reduce((newest, m) => (m.seq > newest.seq ? m : newest)).id;
+  }
+}
+
+/** Annotates each message of a branch with the ids of its alternative versions. */
+export function withSiblingIds(branch: ConversationMessage[], messages: ConversationMessage[]): ConversationMessage[] {
+  return branch.map(message => {
+    const siblings = messages.filter(m => m.parentId === message.parentId);
+    return siblings.length > 1
+      ? { ...message, siblingIds: siblings.sort((a, b) => a.seq - b.seq).map(m => m.id) }
+      : message;
+  });
+}
@@ -0,0 +1,326 @@
+import { openRealtimeConversation, REALTIME_SAMPLE_RATE, resolveRealtimeVoice } from './realtimeService';
+import { appendSpokenTurn } from './conversationService';
+import { DEFAULT_LANGUAGE } from './languageService';
+import { STREAM_SAMPLE_RATE } from './speechUtil';
+import statsService from './statsService';
+import { createResampler } from './tts/wav';
+import type { CallRecorder } from './callRecordingService';
+import type {
+  ChatUsage,
+  Conversation,
+  ConversationMessage,
+  ExitCriteriaAssessment,
+  RecognizedWord,
+  ReplyInterruption,
+  VoiceServerMessage
+} from '../types/api';
+
+// Longest wait for Whisper's transcript of a trainee turn; without one the turn is not stored
+const TRANSCRIPT_TIMEOUT_MS = 10000;
+
+// Added to the rendered prompt, which was written for a text chat
+const SPOKEN_CALL_NOTE = 'This call is spoken aloud. Answer the way a caller talks on the phone: in short turns, without lists or formatting.';
+
+export interface RealtimeCallHandlers {
+  send: (message: VoiceServerMessage) => void;
+  // 24 kHz PCM of the reply, as it is generated
+  sendAudio: (chunk: Buffer) => void;
+  // The call recorder, while the trainee is recording
+  recorder: () => CallRecorder | null;
+}
+
+interface TraineeSpeech {
+  itemId: string;
+  // Offsets into the audio sent this call, as reported by the service's VAD
+  startMs: number;
+  endMs?: number;
+}
+
+interface Reply {
+  id: string;
+  // Conversation item holding the reply, which a cut-off reply is truncated in
+  itemId: string | null;
+  transcript: string;
+  // When the first audio went to the trainee, and how much audio has gone since
+  startedAt: number | null;
+  sentMs: number;
+  latencyMs: number | null;
+  // How much the trainee heard, once they talked over the reply or cancelled it
+  heardMs: number | null;
+}
+
+// Whisper gives no word timing, so the transcript's words are spread evenly over the utterance
+function estimateWords(text: string, durationMs: number): RecognizedWord[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const each = words.length > 0 ? durationMs / words.length : 0;
+  return words.map((word, index) => ({ word, offsetMs: Math.round(index * each), durationMs: Math.round(each), confidence: null }));
+}
+
+// Realtime usage counts the text and audio tokens of a response's input and output
+function toChatUsage(usage: any): ChatUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.input_tokens ?? 0,
+    completion_tokens: usage.output_tokens ?? 0,
+    total_tokens: usage.total_tokens ?? 0
+  };
+}
+
+// The start of a transcript, up to the end of the word being spoken after `share` of it
+function spokenPrefix(transcript: string, share: number): string {
+  const cut = Math.floor(transcript.length * Math.min(Math.max(share, 0), 1));
+  const rest = transcript.slice(cut).search(/\s/);
+  return (rest === -1 ? transcript : transcript.slice(0, cut + rest)).trimEnd();
+}
+
+// The reply's transcript as reported with the finished response
+function responseTranscript(response: any): string {
+  const content: any[] = response?.output?.[0]?.content ?? [];
+  return content.find(part => typeof part.transcript === 'string')?.transcript ?? '';
+}
+
+/**
+ * A speech-to-speech call: the Realtime model plays the customer, with the
+ * conversation's rendered system prompt as its instructions. Microphone audio
+ * streams in, the service's voice activity detection decides when the trainee
+ * has finished, and the spoken reply streams back. Both sides' transcripts are
+ * stored in the conversation in the order they were spoken, and replies keep
+ * their token usage and latency.
+ */
+export class RealtimeCall {
+  private connection: any = null;
+  private readonly resample = createResampler(STREAM_SAMPLE_RATE, REALTIME_SAMPLE_RATE);
+  private speech: TraineeSpeech | null = null;
+  // When the trainee last stopped talking, until a reply starts answering it
+  private speechEndedAt: number | null = null;
+  // Resolves a trainee turn's transcript, by conversation item id
+  private readonly transcripts = new Map<string, (text: string | null) => void>();
+  private reply: Reply | null = null;
+  // Turns are stored one after another, so a reply always follows the turn it answers
+  private writes: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private readonly conversation: Conversation,
+    private readonly owner: string | undefined,
+    private readonly handlers: RealtimeCallHandlers
+  ) {}
+
+  async start(): Promise<void> {
+    const { parameters, systemPrompt, contextSummary, messages } = this.conversation;
+    const instructions = [
+      systemPrompt.trimEnd(),
+      contextSummary ? `Earlier in this call:\n${contextSummary.content}` : '',
+      SPOKEN_CALL_NOTE
+    ].filter(Boolean).join('\n\n');
+    const connection = await openRealtimeConversation({
+      instructions,
+      voice: resolveRealtimeVoice(parameters.voice, parameters.gender),
+      // Bilingual sessions leave Whisper to detect the language of each turn
+      transcriptionLanguage: parameters.alternateLanguages?.length ? undefined : parameters.language?.split('-')[0]
+    });
+    if (this.closed) {
+      connection.close();
+      return;
+    }
+    // A resumed call carries on from the turns not folded into the summary
+    messages
+      .filter(message => message.role !== 'system' && message.seq > (contextSummary?.coveredThroughSeq ?? 0))
+      .forEach(message => connection.send({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: message.role,
+          content: [{ type: message.role === 'user' ? 'input_text' : 'text', text: message.content }]
+        }
+      }));
+    this.connection = connection;
+    this.listen(connection);
+  }
+
+  /** Whether the session is configured and taking audio. */
+  get ready(): boolean {
+    return this.connection !== null;
+  }
+
+  /** Sends 16 kHz microphone PCM on to the model; audio before the session is ready is dropped. */
+  appendAudio(pcm: Buffer): void {
+    if (!this.connection) return;
+    const samples = this.resample(new Int16Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.length - (pcm.length % 2))));
+    this.connection.send({
+      type: 'input_audio_buffer.append',
+      audio: Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength).toString('base64')
+    });
+  }
+
+  /** Stops the reply being generated; the service already does so when the trainee talks over it. */
+  cancelReply(): void {
+    if (!this.connection || !this.reply) return;
+    this.markHeard(this.reply);
+    this.connection.send({ type: 'response.cancel' });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.connection?.close();
+    this.connection = null;
+  }
+
+  private listen(connection: any): void {
+    connection.on('input_audio_buffer.speech_started', (event: any) => {
+      this.speech = { itemId: event.item_id, startMs: event.audio_start_ms ?? 0 };
+      // The service drops the reply it was speaking; the trainee stops hearing it now
+      if (this.reply) this.markHeard(this.reply);
+      this.handlers.recorder()?.cutReply();
+      this.handlers.send({ type: 'speech-started' });
+    });
+    connection.on('input_audio_buffer.speech_stopped', (event: any) => {
+      const speech = this.speech;
+      if (speech && speech.itemId === event.item_id) speech.endMs = event.audio_end_ms;
+      this.speechEndedAt = Date.now();
+    });
+    connection.on('input_audio_buffer.committed', (event: any) => this.storeTraineeTurn(event.item_id));
+    connection.on('conversation.item.input_audio_transcription.completed', (event: any) => {
+      this.transcripts.get(event.item_id)?.(event.transcript ?? '');
+    });
+    connection.on('conversation.item.input_audio_transcription.failed', (event: any) => {
+      console.warn('[Realtime Call] Transcription failed:', event.error?.message);
+      this.transcripts.get(event.item_id)?.(null);
+    });
+
+    connection.on('response.created', (event: any) => {
+      this.reply = { id: event.response.id, itemId: null, transcript: '', startedAt: null, sentMs: 0, latencyMs: null, heardMs: null };
+    });
+    connection.on('response.output_item.added', (event: any) => {
+      const reply = this.reply;
+      if (reply && reply.id === event.response_id && reply.itemId === null && event.item?.type === 'message') {
+        reply.itemId = event.item.id;
+      }
+    });
+    // Preview deployments name the audio events differently from GA ones
+    const onAudio = (event: any) => this.addReplyAudio(event.response_id, Buffer.from(event.delta, 'base64'));
+    connection.on('response.audio.delta', onAudio);
+    connection.on('response.output_audio.delta', onAudio);
+    const onTranscript = (event: any) => {
+      const reply = this.reply;
+      if (reply && reply.id === event.response_id) reply.transcript += event.delta;
+    };
+    connection.on('response.audio_transcript.delta', onTranscript);
+    connection.on('response.output_audio_transcript.delta', onTranscript);
+    connection.on('response.done', (event: any) => this.finishReply(event.response));
+
+    // Errors such as cancelling a reply that just finished leave the session usable
+    connection.on('error', (event: any) => {
+      console.warn('[Realtime Call] Error event:', event?.error?.message ?? event?.message);
+    });
+    connection.on('close', () => {
+      if (this.closed) return;
+      this.connection = null;
+      this.handlers.send({ type: 'error', error: 'The Realtime conversation ended unexpectedly' });
+    });
+  }
+
+  private storeTraineeTurn(itemId: string): void {
+    const speech = this.speech?.itemId === itemId ? this.speech : null;
+    const transcript = new Promise<string | null>(resolve => {
+      const timer = setTimeout(() => resolve(null), TRANSCRIPT_TIMEOUT_MS);
+      this.transcripts.set(itemId, text => {
+        clearTimeout(timer);
+        this.transcripts.delete(itemId);
+        resolve(text);
+      });
+    });
+    this.store(async () => {
+      const text = (await transcript)?.trim();
+      if (!text) return null;
+      const durationMs = speech?.endMs !== undefined ? Math.max(0, speech.endMs - speech.startMs) : 0;
+      statsService.recordSpeechDuration(durationMs / 1000);
+      if (speech) this.handlers.recorder()?.addTraineeTurn(text, speech.startMs, durationMs);
+      const language = this.conversation.parameters.language || DEFAULT_LANGUAGE;
+      return appendSpokenTurn(this.conversation.id, {
+        role: 'user',
+        content: text,
+        metadata: { recognition: { words: estimateWords(text, durationMs), confidence: null, durationMs, language } }
+      }, this.owner);
+    });
+  }
+
+  private addReplyAudio(responseId: string, chunk: Buffer): void {
+    const reply = this.reply;
+    if (!reply || reply.id !== responseId) return;
+    if (reply.startedAt === null) {
+      reply.startedAt = Date.now();
+      if (this.speechEndedAt !== null) {
+        reply.latencyMs = Date.now() - this.speechEndedAt;
+        statsService.recordReplyLatency('speech-to-speech', reply.latencyMs);
+        this.speechEndedAt = null;
+      }
+      this.handlers.send({ type: 'audio-start', id: reply.id, sampleRate: REALTIME_SAMPLE_RATE });
+      this.handlers.recorder()?.startReply(reply.id, '', REALTIME_SAMPLE_RATE);
+    }
+    reply.sentMs += chunk.length / 2 / REALTIME_SAMPLE_RATE * 1000;
+    this.handlers.sendAudio(chunk);
+    this.handlers.recorder()?.addReplyAudio(reply.id, chunk);
+  }
+
+  // Audio is sent faster than it plays, so the trainee has heard up to now, or all that was sent
+  private markHeard(reply: Reply): void {
+    if (reply.startedAt === null || reply.heardMs !== null) return;
+    reply.heardMs = Math.round(Math.min(reply.sentMs, Date.now() - reply.startedAt));
+  }
+
+  private finishReply(response: any): void {
+    const usage = toChatUsage(response?.usage);
+    if (usage) statsService.recordTokens(usage.total_tokens);
+    const reply = this.reply?.id === response?.id ? this.reply : null;
+    if (!reply) return;
+    this.reply = null;
+    const cancelled = response.status === 'cancelled';
+    const fullContent = (reply.transcript || responseTranscript(response)).trim();
+    let content = fullContent;
+    let interruption: ReplyInterruption | undefined;
+    if (cancelled) {
+      this.markHeard(reply);
+      const heardMs = reply.heardMs ?? 0;
+      // The model would otherwise remember saying the part the trainee never heard
+      if (reply.itemId && this.connection) {
+        this.connection.send(reply.startedAt !== null
+          ? { type: 'conversation.item.truncate', item_id: reply.itemId, content_index: 0, audio_end_ms: heardMs }
+          : { type: 'conversation.item.delete', item_id: reply.itemId });
+      }
+      content = reply.sentMs > 0 ? spokenPrefix(fullContent, heardMs / reply.sentMs) : '';
+      if (content !== fullContent) {
+        interruption = { spokenChars: content.length, fullContent, interruptedAt: new Date().toISOString() };
+        statsService.recordInterruption();
+      }
+    }
+    const recorder = this.handlers.recorder();
+    if (reply.startedAt !== null) {
+      recorder?.setReplyText(reply.id, content);
+      recorder?.endReply(reply.id);
+      this.handlers.send({ type: 'audio-end', id: reply.id, ...(cancelled ? { cancelled: true } : {}) });
+    }
+    if (!content) return;
+    this.store(() => appendSpokenTurn(this.conversation.id, {
+      role: 'assistant',
+      content,
+      metadata: {
+        ...(usage ? { usage } : {}),
+        ...(reply.latencyMs !== null ? { replyLatencyMs: reply.latencyMs } : {}),
+        ...(interruption ? { interruption } : {})
+      }
+    }, this.owner));
+  }
+
+  private store(write: () => Promise<{ message: ConversationMessage; exitCriteria: ExitCriteriaAssessment | null } | null>): void {
+    this.writes = this.writes
+      .then(write)
+      .then(result => {
+        if (!result) return;
+        this.handlers.send({ type: 'turn', message: result.message, ...(result.exitCriteria ? { exitCriteria: result.exitCriteria } : {}) });
+      })
+      .catch(error => {
+        console.error('[Realtime Call] Failed to store a turn:', error);
+      });
+  }
+}
@@ -1,48 +1,10 @@
 import OpenAI from 'openai';
 import { config } from '../config/env';
-import statsService from './statsService';
-import { Response } from 'express';
+import { createWavHeader } from './tts/wav';
 
 // Note: Realtime API is currently in beta and may require specific OpenAI SDK version
 // We'll use the documented approach from Microsoft Learn code samples
 
-/**
- * Create a WAV file header for PCM audio data
- * @param dataLength - Length of the PCM audio data in bytes
- * @param sampleRate - Sample rate (default: 24000 Hz for Realtime API)
- * @param numChannels - Number of channels (default: 1 for mono)
- * @param bitsPerSample - Bits per sample (default: 16 for PCM16)
- */
-function createWavHeader(
-  dataLength: number,
-  sampleRate: number = 24000,
-  numChannels: number = 1,
-  bitsPerSample: number = 16
-): Buffer {
-  const header = Buffer.alloc(44);
-  
-  // RIFF chunk descriptor
-  header.write('RIFF', 0);
-  header.writeUInt32LE(36 + dataLength, 4); // File size - 8
-  header.write('WAVE', 8);
-  
-  // fmt sub-chunk
-  header.write('fmt ', 12);
-  header.writeUInt32LE(16, 16); // Subchunk1Size (16 for PCM)
-  header.writeUInt16LE(1, 20); // AudioFormat (1 for PCM)
-  header.writeUInt16LE(numChannels, 22);
-  header.writeUInt32LE(sampleRate, 24);
-  header.writeUInt32LE(sampleRate * numChannels * bitsPerSample / 8, 28); // ByteRate
-  header.writeUInt16LE(numChannels * bitsPerSample / 8, 32); // BlockAlign
-  header.writeUInt16LE(bitsPerSample, 34);
-  
-  // data sub-chunk
-  header.write('data', 36);
-  header.writeUInt32LE(dataLength, 40);
-  
-  return header;
-}
-
 /**
  * Azure OpenAI GPT-4o Realtime API Service
  * 
@@ -62,11 +24,13 @@ function createWavHeader(
  */
 const VOICE_MAP: Record<string, string> = {
   // Gender-based mapping
-  'Male': 'echo',
-  'Female': 'alloy',
+  'male': 'echo',
+  'female': 'alloy',
   
   // Azure Speech SDK voice name mapping
   'JennyNeural': 'alloy',
+  'AndrewNeural': 'echo',
+  'FableNeural': 'fable',
   'GuyNeural': 'echo',
   'AriaNeural': 'nova',
   'DavisNeural': 'onyx',
@@ -82,6 +46,22 @@ const VOICE_MAP: Record<string, string> = {
   'shimmer': 'shimmer'
 };
 
+// Realtime audio is 24 kHz 16-bit mono PCM
+export const REALTIME_SAMPLE_RATE = 24000;
+
+// Audio and transcript chunks arrive many times a second in a conversation; they are not logged one by one
+const isStreamingEvent = (type: string) => type === 'input_audio_buffer.append' || type.endsWith('.delta');
+
+/** Picks the Realtime voice for a UI voice name, falling back to the gender's voice and then alloy. */
+export function resolveRealtimeVoice(voiceName?: string, voiceGender?: string): string {
+  if (voiceName && VOICE_MAP[voiceName]) return VOICE_MAP[voiceName];
+  // Full Azure names from the voice catalog, e.g. en-US-JennyNeural
+  const shortName = voiceName?.replace(/^[a-z]{2,3}-[A-Za-z]+-/, '');
+  if (shortName && VOICE_MAP[shortName]) return VOICE_MAP[shortName];
+  if (voiceGender && VOICE_MAP[voiceGender.toLowerCase()]) return VOICE_MAP[voiceGender.toLowerCase()];
+  return 'alloy';
+}
+
 interface RealtimeConfig {
   endpoint: string;
   apiKey: string;
@@ -156,7 +136,7 @@ async function createRealtimeClient(): Promise<any> {
       },
       
       send(data: any) {
-        console.log(`[Realtime] Sending event: ${data.type}`);
+        if (!isStreamingEvent(data.type)) console.log(`[Realtime] Sending event: ${data.type}`);
         this.socket.send(JSON.stringify(data));
       },
       
@@ -169,7 +149,7 @@ async function createRealtimeClient(): Promise<any> {
     socket.on('message', (wsEvent: any) => {
       try {
         const event = JSON.parse(wsEvent.toString());
-        console.log(`[Realtime] WebSocket event: ${event.type}`);
+        if (!isStreamingEvent(event.type)) console.log(`[Realtime] WebSocket event: ${event.type}`);
         
         const handlers = realtimeClient._listeners.get(event.type) || [];
         handlers.forEach((handler: Function) => handler(event));
@@ -259,22 +239,88 @@ async function createRealtimeClient(): Promise<any> {
   }
 }
 
+/**
+ * Session settings for a speech-to-speech conversation, sent with session.update.
+ * Audio is 24 kHz PCM16 both ways.
+ */
+export interface RealtimeConversationSettings {
+  instructions: string;
+  voice: string;
+  // Whisper transcription language hint (ISO 639-1); unset lets Whisper detect it
+  transcriptionLanguage?: string;
+}
+
+// Server-side VAD: how loud speech must be and how long a pause ends the trainee's turn
+const TURN_DETECTION = { type: 'server_vad', threshold: 0.5, prefix_padding_ms: 300, silence_duration_ms: 600 };
+
 /**
  * Configure realtime session for audio input/output
  * Based on Microsoft Learn documentation: https://learn.microsoft.com/en-us/azure/ai-foundry/openai/how-to/realtime-audio
+ *
+ * The STT and TTS stand-ins keep the default session. A speech-to-speech
+ * conversation sends its instructions, voice, turn detection and input
+ * transcription, and waits for the service to confirm them.
  */
 async function configureRealtimeSession(
   connection: any,
-  voice: string = 'alloy'
+  voice: string = 'alloy',
+  conversation?: RealtimeConversationSettings
 ): Promise<void> {
-  console.log(`[Realtime] Skipping session.update - Azure Global Standard may use default configuration`);
-  console.log(`[Realtime] Voice setting will need to be configured differently or use default voice`);
-  
-  // For now, skip session configuration as Azure seems to reject session.update
-  // The session.created event includes default configuration
-  // We'll use the default session settings
-  
-  return Promise.resolve();
+  if (!conversation) {
+    console.log(`[Realtime] Skipping session.update - Azure Global Standard may use default configuration`);
+    console.log(`[Realtime] Voice setting will need to be configured differently or use default voice`);
+    
+    // For now, skip session configuration as Azure seems to reject session.update
+    // The session.created event includes default configuration
+    // We'll use the default session settings
+    
+    return Promise.resolve();
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve();
+    };
+    const timeout = setTimeout(() => settle(new Error('Realtime session was not configured in time')), 10000);
+    connection.on('session.updated', () => settle());
+    connection.on('error', (event: any) => settle(new Error(event?.error?.message ?? event?.message ?? 'Realtime session update failed')));
+    connection.send({
+      type: 'session.update',
+      session: {
+        modalities: ['audio', 'text'],
+        instructions: conversation.instructions,
+        voice: conversation.voice || voice,
+        input_audio_format: 'pcm16',
+        output_audio_format: 'pcm16',
+        input_audio_transcription: {
+          model: 'whisper-1',
+          ...(conversation.transcriptionLanguage ? { language: conversation.transcriptionLanguage } : {})
+        },
+        turn_detection: TURN_DETECTION
+      }
+    });
+  });
+}
+
+/**
+ * Opens a Realtime session that holds a spoken conversation itself: it hears
+ * the trainee, decides when they have finished and answers in the configured
+ * voice. Events are read with `connection.on`; the caller closes it.
+ */
+export async function openRealtimeConversation(settings: RealtimeConversationSettings): Promise<any> {
+  const connection = await createRealtimeClient();
+  try {
+    await configureRealtimeSession(connection, settings.voice, settings);
+    return connection;
+  } catch (error) {
+    connection.close();
+    throw error;
+  }
 }
 
 /**
@@ -379,21 +425,12 @@ export async function synthesizeSpeechRealtime(
     throw new Error('No text provided for synthesis');
   }
 
-  // Record stats
-  statsService.recordAudioChars(text.length);
-
   const startTime = Date.now();
   let connection: any | null = null;
   const audioChunks: Buffer[] = [];
   let responseDone = false;
 
-  // Determine voice
-  let selectedVoice = 'alloy';
-  if (voiceName && VOICE_MAP[voiceName]) {
-    selectedVoice = VOICE_MAP[voiceName];
-  } else if (voiceGender && VOICE_MAP[voiceGender]) {
-    selectedVoice = VOICE_MAP[voiceGender];
-  }
+  const selectedVoice = resolveRealtimeVoice(voiceName, voiceGender);
 
   console.log(`[Realtime TTS] Synthesizing text (${text.length} chars) with voice: ${selectedVoice}`);
 
@@ -461,7 +498,7 @@ export async function synthesizeSpeechRealtime(
     const pcmAudioBuffer = Buffer.concat(audioChunks);
 
     // Create WAV file with header (24kHz, mono, 16-bit PCM)
-    const wavHeader = createWavHeader(pcmAudioBuffer.length, 24000, 1, 16);
+    const wavHeader = createWavHeader(pcmAudioBuffer.length, REALTIME_SAMPLE_RATE, 1, 16);
     const audioBuffer = Buffer.concat([wavHeader, pcmAudioBuffer]);
 
     const duration = Date.now() - startTime;
@@ -482,112 +519,81 @@ export async function synthesizeSpeechRealtime(
 
 /**
  * Stream speech synthesis using Azure OpenAI Realtime API
- * 
+ *
+ * Passes each 24 kHz PCM chunk to `onAudio` as it arrives and resolves when
+ * the response is complete. Aborting closes the connection and resolves early.
+ *
  * @param text - Text to convert to speech
- * @param res - Express response object to stream audio
- * @param voiceName - Voice name (maps to OpenAI voice)
- * @param voiceGender - Voice gender (fallback if voiceName not provided)
+ * @param onAudio - Receives raw PCM chunks
+ * @param options - Voice name (maps to OpenAI voice), voice gender fallback and abort signal
  */
-export async function synthesizeSpeechStreamRealtime(
+export async function streamSpeechRealtime(
   text: string,
-  res: Response,
-  voiceName?: string,
-  voiceGender?: string
+  onAudio: (chunk: Buffer) => void,
+  options: { voiceName?: string; voiceGender?: string; signal?: AbortSignal } = {}
 ): Promise<void> {
   if (!text) {
     throw new Error('No text provided for synthesis');
   }
-
-  // Record stats
-  statsService.recordAudioChars(text.length);
+  const { voiceName, voiceGender, signal } = options;
+  if (signal?.aborted) return;
 
   const startTime = Date.now();
-  let connection: any | null = null;
-  let sessionConfigured = false;
-
-  // Determine voice
-  let selectedVoice = 'alloy';
-  if (voiceName && VOICE_MAP[voiceName]) {
-    selectedVoice = VOICE_MAP[voiceName];
-  } else if (voiceGender && VOICE_MAP[voiceGender]) {
-    selectedVoice = VOICE_MAP[voiceGender];
-  }
-
+  const selectedVoice = resolveRealtimeVoice(voiceName, voiceGender);
   console.log(`[Realtime TTS Stream] Synthesizing text (${text.length} chars) with voice: ${selectedVoice}`);
 
-  res.setHeader('Content-Type', 'audio/pcm');
-  res.setHeader('Transfer-Encoding', 'chunked');
-
+  const connection = await createRealtimeClient();
   try {
-    // Create WebSocket connection
-    connection = await createRealtimeClient();
-
-    // Set up event handlers
-    connection.on('error', (error: any) => {
-      console.error('[Realtime TTS Stream] Error:', error.message);
-      if (!res.headersSent) {
-        res.status(500).send(`Synthesis error: ${error.message}`);
-      }
-    });
-
-    connection.on('session.updated', () => {
-      sessionConfigured = true;
-    });
-
-    connection.on('response.audio.delta', (event: any) => {
-      // Stream audio chunks directly to response
-      const audioBuffer = Buffer.from(event.delta, 'base64');
-      res.write(audioBuffer);
-    });
-
-    connection.on('response.done', () => {
-      res.end();
-      const duration = Date.now() - startTime;
-      console.log(`[Realtime TTS Stream] Completed in ${duration}ms`);
-      if (connection) {
-        connection.close();
-      }
-    });
-
-    // Configure session for TTS
-    await configureRealtimeSession(connection, selectedVoice);
-
-    // Wait for configuration
-    while (!sessionConfigured) {
-      await new Promise((resolve) => setTimeout(resolve, 50));
-    }
-
-    // Send text for synthesis
-    await connection.send({
-      type: 'conversation.item.create',
-      item: {
-        type: 'message',
-        role: 'user',
-        content: [{
-          type: 'input_text',
-          text: text
-        }]
-      }
-    });
-
-    // Request response with audio
-    await connection.send({
-      type: 'response.create',
-      response: {
-        modalities: ['audio'],
-        instructions: 'Please respond with speech.'
-      }
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Synthesis timeout - no response received')), 30000);
+      const finish = (error?: Error) => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onAbort = () => finish();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const onDelta = (event: any) => {
+        if (!signal?.aborted) onAudio(Buffer.from(event.delta, 'base64'));
+      };
+      // Preview deployments name the audio event differently from GA ones
+      connection.on('response.audio.delta', onDelta);
+      connection.on('response.output_audio.delta', onDelta);
+      connection.on('response.done', () => {
+        console.log(`[Realtime TTS Stream] Completed in ${Date.now() - startTime}ms`);
+        finish();
+      });
+      connection.on('close', () => finish(new Error('Realtime connection closed before the response finished')));
+
+      (async () => {
+        await configureRealtimeSession(connection, selectedVoice);
+        await connection.send({
+          type: 'conversation.item.create',
+          item: {
+            type: 'message',
+            role: 'user',
+            content: [{
+              type: 'input_text',
+              text: text
+            }]
+          }
+        });
+        await connection.send({
+          type: 'response.create',
+          response: {
+            modalities: ['audio'],
+            instructions: 'Please respond with speech.'
+          }
+        });
+      })().catch(error => finish(error instanceof Error ? error : new Error(String(error))));
     });
-
   } catch (error) {
-    const duration = Date.now() - startTime;
-    console.error(`[Realtime TTS Stream] Failed after ${duration}ms:`, error);
-    if (!res.headersSent) {
-      res.status(500).send(`Synthesis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-    if (connection) {
-      connection.close();
-    }
+    console.error(`[Realtime TTS Stream] Failed after ${Date.now() - startTime}ms:`, error);
+    throw new Error(`Speech synthesis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    connection.close();
   }
 }
 
@@ -604,12 +610,13 @@ export function getRealtimeInfo() {
     features: {
       stt: true,
       tts: true,
+      speechToSpeech: true,
       streaming: true,
       realtimeAudio: true,
       voiceActivityDetection: true,
       whisperTranscription: true
     },
-    voices: Object.keys(VOICE_MAP).filter(k => !['Male', 'Female'].includes(k)),
+    voices: Object.keys(VOICE_MAP).filter(k => !['male', 'female'].includes(k)),
     audioFormat: 'PCM 24kHz',
     latency: 'Low (WebSocket-based)',
     note: 'Requires gpt-4o-realtime deployment in Azure OpenAI'
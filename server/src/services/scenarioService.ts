@@ -66,6 +66,12 @@ export function formatScenarioForTemplate(scenario: Scenario): Record<string, st
     }
   }
   
+  // The customer knows their own account so they can answer identity verification questions
+  formatted.account_details = formatAccountForCustomer(scenario);
+  if (formatted.account_details) {
+    scenarioParts.push(`Account details (share only when the agent asks to verify your identity): ${formatted.account_details}`);
+  }
+
   formatted.scenario_details = scenarioParts.join('\n');
 
   // Format exit criteria with customer signals
@@ -98,6 +104,17 @@ export function formatScenarioForTemplate(scenario: Scenario): Record<string, st
   return formatted;
 }
 
+function formatAccountForCustomer(scenario: Scenario): string {
+  if (!scenario.account) return '';
+  const { account_number, holder } = scenario.account;
+  const parts = [`Account number: ${account_number}`];
+  if (holder.phone) parts.push(`Phone: ${holder.phone}`);
+  if (holder.service_address) parts.push(`Service address: ${holder.service_address}`);
+  if (holder.security_pin) parts.push(`Security PIN: ${holder.security_pin}`);
+  if (holder.last4_ssn) parts.push(`Last 4 of SSN: ${holder.last4_ssn}`);
+  return parts.join(' | ');
+}
+
 export async function getScenarioById(id: string): Promise<Scenario | null> {
   try {
     // Try DocumentService first
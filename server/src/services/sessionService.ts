@@ -14,6 +14,7 @@ class SessionService {
       sessionId,
       userId: user.username,
       username: user.username,
+      role: user.role ?? 'trainee',
       createdAt: now,
       expiresAt,
       lastActivity: now,
@@ -0,0 +1,125 @@
+import type { Conversation, FillerWordCount, SpeechAnalytics } from '../types/api';
+
+/**
+ * Delivery analytics for coaching: the trainee's pace and filler words, how
+ * the talk time was shared, the longest dead air and how quickly the trainee
+ * picked up after each customer turn. Timing comes from the call recording
+ * when there is one, and is otherwise estimated from message timestamps and
+ * recognition data.
+ */
+
+// Pace the synthesized customer is assumed to speak at when the call was not recorded
+const CUSTOMER_WORDS_PER_MINUTE = 150;
+
+// Longer gaps mean the conversation was put down and resumed later, not dead air
+const MAX_GAP_MS = 5 * 60 * 1000;
+
+// Single- and two-word fillers, matched against lower-case words without punctuation
+const FILLER_WORDS = ['um', 'umm', 'uh', 'uhm', 'er', 'ah', 'hmm', 'like', 'basically', 'literally', 'you know', 'i mean', 'kind of', 'sort of'];
+
+// "like" is only a filler when it is not a verb or a comparison: "I'd like", "looks like"
+const NOT_FILLER_BEFORE_LIKE = new Set([
+  'i', 'you', 'we', 'they', "i'd", "you'd", "we'd", "they'd", 'would', 'to', 'do', "don't", "didn't",
+  'look', 'looks', 'looked', 'sound', 'sounds', 'feel', 'feels', 'seem', 'seems', 'something', 'anything', 'more', 'just'
+]);
+
+interface Span {
+  speaker: 'trainee' | 'customer';
+  startMs: number;
+  endMs: number;
+}
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function countFillers(words: string[]): FillerWordCount[] {
+  const counts: Record<string, number> = {};
+  words.forEach((word, index) => {
+    const pair = `${word} ${words[index + 1] ?? ''}`;
+    const filler = FILLER_WORDS.find(candidate => candidate === word || candidate === pair);
+    if (!filler || (filler === 'like' && index > 0 && NOT_FILLER_BEFORE_LIKE.has(words[index - 1]))) return;
+    counts[filler] = (counts[filler] ?? 0) + 1;
+  });
+  return Object.keys(counts)
+    .map(word => ({ word, count: counts[word] }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Who spoke when, from the recording's turn timestamps
+function spansFromRecording(conversation: Conversation): Span[] | null {
+  const turns = conversation.recording?.turns ?? [];
+  if (turns.length === 0) return null;
+  return turns.map(turn => ({ speaker: turn.speaker, startMs: turn.startMs, endMs: turn.endMs }));
+}
+
+// Who spoke when, estimated from when each message was stored. A spoken turn ends
+// when it is stored and lasted as long as its speech; typed turns take no time.
+// Replies are assumed to start when stored and to last as long as reading them out.
+function spansFromTranscript(conversation: Conversation): Span[] {
+  return conversation.messages
+    .filter(message => message.role !== 'system')
+    .map(message => {
+      const at = Date.parse(message.createdAt);
+      if (message.role === 'user') {
+        return { speaker: 'trainee' as const, startMs: at - (message.metadata?.recognition?.durationMs ?? 0), endMs: at };
+      }
+      const speechMs = countWords(message.content) / CUSTOMER_WORDS_PER_MINUTE * 60000;
+      return { speaker: 'customer' as const, startMs: at, endMs: at + speechMs };
+    });
+}
+
+const total = (spans: Span[]) => spans.reduce((sum, span) => sum + (span.endMs - span.startMs), 0);
+
+/** Computes the delivery analytics of a conversation's active branch. */
+export function computeSpeechAnalytics(conversation: Conversation): SpeechAnalytics {
+  const spoken = conversation.messages.filter(message => message.role === 'user' && message.metadata?.recognition);
+  const words = spoken
+    .reduce<string[]>((all, message) => all.concat(message.metadata!.recognition!.words.map(word => word.word)), [])
+    .map(normalize)
+    .filter(Boolean);
+  const speechMs = spoken.reduce((sum, message) => sum + message.metadata!.recognition!.durationMs, 0);
+  const fillerWords = countFillers(words);
+  const fillerWordCount = fillerWords.reduce((sum, filler) => sum + filler.count, 0);
+
+  const recorded = spansFromRecording(conversation);
+  const spans = (recorded ?? spansFromTranscript(conversation)).sort((a, b) => a.startMs - b.startMs);
+  const traineeTalkMs = total(spans.filter(span => span.speaker === 'trainee'));
+  const customerTalkMs = total(spans.filter(span => span.speaker === 'customer'));
+
+  let longestSilenceMs = 0;
+  const responseLatenciesMs: number[] = [];
+  spans.forEach((span, index) => {
+    const next = spans[index + 1];
+    if (!next) return;
+    const gap = next.startMs - span.endMs;
+    if (gap > MAX_GAP_MS) return;
+    longestSilenceMs = Math.max(longestSilenceMs, gap);
+    // Only the first trainee turn after a reply counts; talking over it is a zero wait
+    if (span.speaker === 'customer' && next.speaker === 'trainee') {
+      responseLatenciesMs.push(Math.max(0, Math.round(gap)));
+    }
+  });
+
+  return {
+    wordsPerMinute: speechMs > 0 ? Math.round(words.length / (speechMs / 60000)) : null,
+    traineeWordCount: words.length,
+    fillerWords,
+    fillerWordCount,
+    fillerRate: words.length > 0 ? Math.round(fillerWordCount / words.length * 1000) / 10 : null,
+    traineeTalkMs: Math.round(traineeTalkMs),
+    customerTalkMs: Math.round(customerTalkMs),
+    talkRatio: traineeTalkMs + customerTalkMs > 0
+      ? Math.round(traineeTalkMs / (traineeTalkMs + customerTalkMs) * 100) / 100
+      : null,
+    longestSilenceMs: Math.round(longestSilenceMs),
+    responseLatenciesMs,
+    averageResponseLatencyMs: responseLatenciesMs.length > 0
+      ? Math.round(responseLatenciesMs.reduce((sum, ms) => sum + ms, 0) / responseLatenciesMs.length)
+      : null,
+    source: recorded ? 'recording' : 'transcript',
+    computedAt: new Date().toISOString()
+  };
+}
@@ -1,79 +1,164 @@
-// Use require for speech SDK to bypass missing type declarations
-const sdk: any = require('microsoft-cognitiveservices-speech-sdk');
+import type { Response } from 'express';
 import { processAudioForSpeechRecognition } from '../speechService';
-import { generateSpeech } from './speechUtil';
-import { config } from '../config/env';
-import statsService from './statsService';
+import { FfmpegUnavailableError } from './ffmpeg';
+import {
+  AudioFormatError,
+  convertClip,
+  createAudioStreamEncoder,
+  formatOfClip,
+  getTtsProvider,
+  negotiateAudioFormat,
+  type AudioOutput,
+  type AudioOutputFormat,
+  type AudioOutputOptions,
+  type SynthesizedAudio,
+  type TtsProviderName
+} from './tts';
+import type { RecognitionOptions } from './stt';
+import { databaseServiceFactory } from './database-service-factory';
+import { voiceCatalog } from './voiceCatalogService';
+import type { MoodVoiceStyle } from '../types/api';
 
-export async function recognizeSpeech(audioData: string) {
-  if (!audioData) throw new Error('No audio data provided');
-  return await processAudioForSpeechRecognition(audioData);
+/** Recognizes a WAV clip with the configured STT provider; see audioUpload for other formats. */
+export async function recognizeSpeech(wav: Buffer, options?: RecognitionOptions) {
+  return await processAudioForSpeechRecognition(wav, options);
 }
 
-export async function synthesizeSpeech(text: string, voiceGender?: 'male' | 'female', voiceName?: string) {
+/** Looks up the voice style stored on a mood, by name. Unknown moods are spoken neutrally. */
+export async function getMoodVoiceStyle(mood?: string): Promise<MoodVoiceStyle | undefined> {
+  const documentService = databaseServiceFactory.getDocumentService();
+  if (!mood || !documentService) return undefined;
+  const moods = await documentService.listMoods();
+  return moods.find(m => m.mood.toLowerCase() === mood.toLowerCase())?.voiceStyle;
+}
+
+export async function synthesizeSpeech(
+  text: string,
+  voiceGender?: 'male' | 'female',
+  voiceName?: string,
+  provider?: TtsProviderName,
+  mood?: string,
+  language?: string
+): Promise<SynthesizedAudio> {
+  const speech = await prepareSpeech(text, voiceGender, voiceName, provider, mood, language);
+  return await speech.synthesize();
+}
+
+/** A synthesis that has not run yet, and what is known of its clip from the request alone. */
+export interface PreparedSpeech {
+  clip: ClipDescription;
+  synthesize(): Promise<SynthesizedAudio>;
+}
+
+// Format, WAV sample rate and ETag of a clip
+export interface ClipDescription {
+  format: AudioOutputFormat;
+  sampleRate?: number;
+  etag?: string;
+}
+
+/**
+ * Picks the provider and voice style for a clip without synthesizing it. Its
+ * ETag comes from the audio cache key, so revalidated replays can be answered
+ * before anything is synthesized (or billed).
+ */
+export async function prepareSpeech(
+  text: string,
+  voiceGender?: 'male' | 'female',
+  voiceName?: string,
+  provider?: TtsProviderName,
+  mood?: string,
+  language?: string
+): Promise<PreparedSpeech> {
   if (!text) throw new Error('No text provided');
-  // Record synthesized audio character count
-  statsService.recordAudioChars(text.length);
-  return await generateSpeech(text, voiceGender, voiceName);
+  const voiceStyle = await getMoodVoiceStyle(mood);
+  const tts = getTtsProvider(provider ?? await voiceCatalog.providerFor(voiceName));
+  const request = { text, voiceGender, voiceName, voiceStyle, language };
+  return {
+    clip: {
+      format: tts.clipFormat,
+      sampleRate: tts.clipFormat === 'wav' ? tts.streamSampleRate : undefined,
+      etag: tts.etagFor?.(request)
+    },
+    synthesize: () => tts.synthesize(request)
+  };
 }
 
-export async function synthesizeSpeechStream(text: string, voiceGender: 'male' | 'female' | undefined, res: any, voiceName?: string) {
+/** The HTTP status of a failed synthesis: the format error's own, 503 when ffmpeg is missing, otherwise 500. */
+export function synthesisErrorStatus(error: unknown): number {
+  if (error instanceof AudioFormatError) return error.status;
+  return error instanceof FfmpegUnavailableError ? 503 : 500;
+}
+
+/**
+ * Picks the format a clip is answered in, by `format` or Accept header, and
+ * the ETag of the clip in that format. Clips that need converting get their
+ * own ETag, so caches keep each representation apart; knowing it before
+ * synthesizing lets revalidated replays skip synthesis and conversion.
+ */
+export function planSynthesizedAudio(
+  clip: ClipDescription,
+  options: AudioOutputOptions,
+  accept?: string
+): { output: AudioOutput; etag?: string } {
+  const output = { format: negotiateAudioFormat(options, accept, clip.format), sampleRate: options.sampleRate };
+  const inFormat = clip.format === output.format && (!output.sampleRate || output.sampleRate === clip.sampleRate);
+  if (!clip.etag || inFormat) return { output, etag: clip.etag };
+  return { output, etag: `${clip.etag}-${output.format}${output.sampleRate ? `-${output.sampleRate}` : ''}` };
+}
+
+/** Answers a synthesized clip in the format the request asked for, converting it when the engine produced another. */
+export async function formatSynthesizedAudio(
+  clip: SynthesizedAudio,
+  options: AudioOutputOptions,
+  accept?: string
+): Promise<SynthesizedAudio & { sampleRate?: number }> {
+  const output = { format: negotiateAudioFormat(options, accept, formatOfClip(clip)), sampleRate: options.sampleRate };
+  return await convertClip(clip, output);
+}
+
+/**
+ * Streams synthesized speech as it is produced, as WAV unless `format` or the
+ * Accept header asks for raw PCM, MP3 or Opus. Format errors and a missing
+ * ffmpeg are thrown before anything is sent, for the route to answer.
+ */
+export async function synthesizeSpeechStream(
+  text: string,
+  voiceGender: 'male' | 'female' | undefined,
+  res: Response,
+  voiceName?: string,
+  provider?: TtsProviderName,
+  mood?: string,
+  language?: string,
+  output: AudioOutputOptions = {},
+  accept?: string
+) {
   if (!text) throw new Error('No text provided');
-  // Record synthesized audio character count
-  statsService.recordAudioChars(text.length);  let resolvedVoiceName: string;
-  if (voiceName) {
-    if (voiceName === 'JennyNeural') resolvedVoiceName = 'en-US-JennyNeural';
-    else if (voiceName === 'AndrewNeural') resolvedVoiceName = 'en-US-AndrewNeural';
-    else if (voiceName === 'FableNeural') resolvedVoiceName = 'en-US-FableNeural';
-    else if (voiceName === 'en-US-Alloy:DragonHDLatestNeural') resolvedVoiceName = 'en-US-Alloy:DragonHDLatestNeural';
-    else resolvedVoiceName = voiceGender === 'male' ? 'en-US-AndrewNeural' : 'en-US-JennyNeural';
-  } else {
-    resolvedVoiceName = voiceGender === 'male' ? 'en-US-AndrewNeural' : 'en-US-JennyNeural';
-  }
-  const speechConfig = sdk.SpeechConfig.fromSubscription(
-    config.azureSpeechKey,
-    config.azureSpeechRegion
-  );
-  speechConfig.speechSynthesisVoiceName = resolvedVoiceName;
-  speechConfig.speechSynthesisOutputFormat = sdk.SpeechSynthesisOutputFormat.Raw16Khz16BitMonoPcm;
-  res.setHeader('Content-Type', 'audio/wav');
+  const tts = getTtsProvider(provider ?? await voiceCatalog.providerFor(voiceName));
+  const voiceStyle = await getMoodVoiceStyle(mood);
+  const format = negotiateAudioFormat(output, accept, 'wav');
+  const encoder = await createAudioStreamEncoder({ format, sampleRate: output.sampleRate }, tts.streamSampleRate, chunk => res.write(chunk));
+  // Stop synthesizing when the client goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    controller.abort();
+    encoder.abort();
+  });
+  res.setHeader('Content-Type', encoder.contentType);
   res.setHeader('Transfer-Encoding', 'chunked');
-  const pushStream = sdk.AudioOutputStream.createPullStream();
-  const audioConfig = sdk.AudioConfig.fromStreamOutput(pushStream);
-  const synthesizer = new sdk.SpeechSynthesizer(speechConfig, audioConfig);
-  const ssml = `
-    <speak version="1.0" xml:lang="en-US">
-      <voice name="${resolvedVoiceName}">
-        ${text}
-      </voice>
-    </speak>
-  `;
-  let responseEnded = false;
-  synthesizer.speakSsmlAsync(
-    ssml,
-    (result: any) => {
-      synthesizer.close();
-    },
-    (error: any) => {
-      synthesizer.close();
-      if (!responseEnded) {
-        responseEnded = true;
-        res.status(500).json({ error: 'Speech synthesis failed' });
-      }
-    }
-  );
-  const buffer = Buffer.alloc(4096);
-  (async function readAndSend() {
-    let bytesRead = await pushStream.read(buffer);
-    while (bytesRead > 0) {
-      if (!responseEnded) {
-        res.write(buffer.slice(0, bytesRead));
-      }
-      bytesRead = await pushStream.read(buffer);
-    }
-    if (!responseEnded) {
-      responseEnded = true;
-      res.end();
-    }
-  })();
+  res.setHeader('X-Audio-Sample-Rate', String(encoder.sampleRate));
+  res.setHeader('Vary', 'Accept');
+  try {
+    await tts.stream(
+      { text, voiceGender, voiceName, voiceStyle, language, signal: controller.signal },
+      { onAudio: chunk => encoder.write(chunk) }
+    );
+    await encoder.end();
+    res.end();
+  } catch (error) {
+    console.error('[TTS] Streaming synthesis failed:', error);
+    encoder.abort();
+    if (!res.headersSent) res.status(500).json({ error: 'Speech synthesis failed' });
+    else res.end();
+  }
 }
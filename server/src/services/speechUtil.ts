@@ -1,18 +1,92 @@
 import * as sdk from 'microsoft-cognitiveservices-speech-sdk';
 import { config } from '../config/env';
+import { buildSsml } from './tts/ssml';
+import { DEFAULT_LANGUAGE } from './languageService';
+import type { MoodVoiceStyle } from '../types/api';
 
-export async function generateSpeech(text: string, voiceGender?: 'male' | 'female', voiceName?: string): Promise<Buffer> {  // Determine voice
-  let resolvedVoiceName: string;
+// Sample rate of the raw PCM streamed to voice channel clients
+export const STREAM_SAMPLE_RATE = 16000;
+
+// Short names earlier clients sent before voices came from the catalog
+const LEGACY_VOICE_NAMES: Record<string, string> = {
+  JennyNeural: 'en-US-JennyNeural',
+  AndrewNeural: 'en-US-AndrewNeural',
+  FableNeural: 'en-US-FableTurboMultilingualNeural',
+};
+
+// Voices spoken when the trainee has not picked one, by session language
+const DEFAULT_VOICES: Record<string, { male: string; female: string }> = {
+  'en-US': { male: 'en-US-AndrewNeural', female: 'en-US-JennyNeural' },
+  'en-GB': { male: 'en-GB-RyanNeural', female: 'en-GB-SoniaNeural' },
+  'es-ES': { male: 'es-ES-AlvaroNeural', female: 'es-ES-ElviraNeural' },
+  'es-MX': { male: 'es-MX-JorgeNeural', female: 'es-MX-DaliaNeural' },
+  'es-US': { male: 'es-US-AlonsoNeural', female: 'es-US-PalomaNeural' },
+  'fr-FR': { male: 'fr-FR-HenriNeural', female: 'fr-FR-DeniseNeural' },
+  'de-DE': { male: 'de-DE-ConradNeural', female: 'de-DE-KatjaNeural' },
+  'it-IT': { male: 'it-IT-DiegoNeural', female: 'it-IT-ElsaNeural' },
+  'pt-BR': { male: 'pt-BR-AntonioNeural', female: 'pt-BR-FranciscaNeural' },
+};
+
+/**
+ * Maps a catalog voice name, a legacy short name, or a gender to an Azure voice
+ * name. Gender defaults follow the language, matching on the language alone
+ * (es-AR speaks with es-ES voices) before falling back to English.
+ */
+export function resolveVoiceName(voiceGender?: 'male' | 'female', voiceName?: string, language = DEFAULT_LANGUAGE): string {
   if (voiceName) {
-    // Map UI value to Azure full voice name
-    if (voiceName === 'JennyNeural') resolvedVoiceName = 'en-US-JennyNeural';
-    else if (voiceName === 'AndrewNeural') resolvedVoiceName = 'en-US-AndrewNeural';
-    else if (voiceName === 'FableNeural') resolvedVoiceName = 'en-US-FableTurboMultilingualNeural';
-    else if (voiceName === 'en-US-Alloy:DragonHDLatestNeural') resolvedVoiceName = 'en-US-Alloy:DragonHDLatestNeural';
-    else resolvedVoiceName = voiceGender === 'male' ? 'en-US-AndrewNeural' : 'en-US-JennyNeural';
-  } else {
-    resolvedVoiceName = voiceGender === 'male' ? 'en-US-AndrewNeural' : 'en-US-JennyNeural';
+    if (LEGACY_VOICE_NAMES[voiceName]) return LEGACY_VOICE_NAMES[voiceName];
+    // Full Azure names look like en-US-JennyNeural or en-US-Alloy:DragonHDLatestNeural
+    if (/^[a-z]{2,3}-[A-Za-z]+-.+Neural$/.test(voiceName)) return voiceName;
+  }
+  const primary = language.split('-')[0];
+  const voices = DEFAULT_VOICES[language]
+    ?? Object.entries(DEFAULT_VOICES).find(([tag]) => tag.split('-')[0] === primary)?.[1]
+    ?? DEFAULT_VOICES[DEFAULT_LANGUAGE];
+  return voiceGender === 'male' ? voices.male : voices.female;
+}
+
+export interface AzureVoiceInfo {
+  shortName: string;
+  displayName: string;
+  locale: string;
+  gender: 'male' | 'female' | 'neutral';
+  styles: string[];
+}
+
+/** Lists the neural voices the Speech resource offers in its region, optionally for one locale. */
+export async function listAzureVoices(locale?: string): Promise<AzureVoiceInfo[]> {
+  const speechConfig = sdk.SpeechConfig.fromSubscription(
+    config.azureSpeechKey,
+    config.azureSpeechRegion
+  );
+  const synthesizer = new sdk.SpeechSynthesizer(speechConfig);
+  try {
+    const result = await synthesizer.getVoicesAsync(locale);
+    if (result.reason !== sdk.ResultReason.VoicesListRetrieved) {
+      throw new Error(`Listing voices failed: ${result.errorDetails || 'Unknown error'}`);
+    }
+    return result.voices.map((voice: sdk.VoiceInfo) => ({
+      shortName: voice.shortName,
+      displayName: voice.displayName || voice.shortName,
+      locale: voice.locale,
+      gender: voice.gender === sdk.SynthesisVoiceGender.Male ? 'male'
+        : voice.gender === sdk.SynthesisVoiceGender.Female ? 'female'
+        : 'neutral',
+      styles: (voice.styleList || []).filter((style: string) => style && style !== 'default'),
+    }));
+  } finally {
+    synthesizer.close();
   }
+}
+
+export async function generateSpeech(
+  text: string,
+  voiceGender?: 'male' | 'female',
+  voiceName?: string,
+  voiceStyle?: MoodVoiceStyle,
+  language?: string
+): Promise<Buffer> {
+  const resolvedVoiceName = resolveVoiceName(voiceGender, voiceName, language);
   console.log(`[TTS] Using Azure voice: ${resolvedVoiceName}`);
   return new Promise((resolve, reject) => {
     const speechConfig = sdk.SpeechConfig.fromSubscription(
@@ -22,16 +96,9 @@ export async function generateSpeech(text: string, voiceGender?: 'male' | 'femal
     speechConfig.speechSynthesisVoiceName = resolvedVoiceName;
     speechConfig.speechSynthesisOutputFormat = sdk.SpeechSynthesisOutputFormat.Audio24Khz160KBitRateMonoMp3;
     const speechSynthesizer = new sdk.SpeechSynthesizer(speechConfig);
-    const ssml = `
-      <speak version="1.0" xml:lang="en-US">
-        <voice name="${resolvedVoiceName}">
-          ${text}
-        </voice>
-      </speak>
-    `;
     speechSynthesizer.speakSsmlAsync(
-      ssml,
-      (result: any) => {
+      buildSsml(text, resolvedVoiceName, voiceStyle, language),
+      (result: sdk.SpeechSynthesisResult) => {
         speechSynthesizer.close();
         if (result.reason === sdk.ResultReason.SynthesizingAudioCompleted && result.audioData) {
           resolve(Buffer.from(result.audioData));
@@ -40,9 +107,83 @@ export async function generateSpeech(text: string, voiceGender?: 'male' | 'femal
           reject(new Error(`Speech synthesis failed: ${errorMsg}`));
         }
       },
-      (error: any) => {
+      (error: string) => {
         speechSynthesizer.close();
-        reject(new Error(error.message || 'Speech synthesis failed'));
+        reject(new Error(error || 'Speech synthesis failed'));
+      }
+    );
+  });
+}
+
+/**
+ * Synthesizes speech as raw 16 kHz 16-bit mono PCM, passing each chunk to
+ * `onAudio` as soon as the service produces it. `onWord` reports where each
+ * spoken word ends in `text` and where it starts in the audio, so callers can
+ * tell how much was heard. Aborting stops forwarding audio and resolves once
+ * the synthesizer is closed.
+ */
+export async function streamSpeech(
+  text: string,
+  onAudio: (chunk: Buffer) => void,
+  options: {
+    voiceGender?: 'male' | 'female';
+    voiceName?: string;
+    voiceStyle?: MoodVoiceStyle;
+    language?: string;
+    signal?: AbortSignal;
+    onWord?: (word: { textOffset: number; audioOffsetMs: number }) => void;
+  } = {}
+): Promise<void> {
+  const { voiceGender, voiceName, voiceStyle, language, signal, onWord } = options;
+  const resolvedVoiceName = resolveVoiceName(voiceGender, voiceName, language);
+  const speechConfig = sdk.SpeechConfig.fromSubscription(
+    config.azureSpeechKey,
+    config.azureSpeechRegion
+  );
+  speechConfig.speechSynthesisVoiceName = resolvedVoiceName;
+  speechConfig.speechSynthesisOutputFormat = sdk.SpeechSynthesisOutputFormat.Raw16Khz16BitMonoPcm;
+  // No audio config: audio is only delivered through the synthesizing events
+  const synthesizer = new sdk.SpeechSynthesizer(speechConfig, null);
+  synthesizer.synthesizing = (_sender: sdk.SpeechSynthesizer, event: sdk.SpeechSynthesisEventArgs) => {
+    if (!signal?.aborted && event.result.audioData?.byteLength) {
+      onAudio(Buffer.from(event.result.audioData));
+    }
+  };
+
+  // Boundary offsets count SSML characters, so find each word in the plain text instead
+  let cursor = 0;
+  synthesizer.wordBoundary = (_sender: sdk.SpeechSynthesizer, event: sdk.SpeechSynthesisWordBoundaryEventArgs) => {
+    if (signal?.aborted || !onWord || !event.text) return;
+    const start = text.indexOf(event.text, cursor);
+    if (start === -1) return;
+    cursor = start + event.text.length;
+    // Audio offsets are reported in 100-nanosecond ticks
+    onWord({ textOffset: cursor, audioOffsetMs: Math.round(event.audioOffset / 10000) });
+  };
+
+  return new Promise((resolve, reject) => {
+    let closed = false;
+    const close = () => {
+      if (closed) return false;
+      closed = true;
+      signal?.removeEventListener('abort', onAbort);
+      synthesizer.close();
+      return true;
+    };
+    const onAbort = () => {
+      if (close()) resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    synthesizer.speakSsmlAsync(
+      buildSsml(text, resolvedVoiceName, voiceStyle, language),
+      (result: sdk.SpeechSynthesisResult) => {
+        if (!close()) return;
+        if (result.reason === sdk.ResultReason.SynthesizingAudioCompleted) resolve();
+        else reject(new Error(`Speech synthesis failed: ${result.errorDetails || 'Unknown error in speech synthesis'}`));
+      },
+      (error: string) => {
+        if (close()) reject(new Error(error || 'Speech synthesis failed'));
       }
     );
   });
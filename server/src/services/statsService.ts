@@ -1,7 +1,18 @@
-import { Stats } from '../types/api';
+import { Stats, VoiceMode } from '../types/api';
 
 class StatsService {
-  private stats: Stats = { llmTokenCount: 0, speechDurationSeconds: 0, audioCharacterCount: 0 };
+  private stats: Omit<Stats, 'replyLatency'> = {
+    llmTokenCount: 0,
+    speechDurationSeconds: 0,
+    audioCharacterCount: 0,
+    interruptionCount: 0,
+    audioCacheHits: 0,
+    audioCacheMisses: 0,
+  };
+  private replyLatency: Record<VoiceMode, { count: number; totalMs: number }> = {
+    pipeline: { count: 0, totalMs: 0 },
+    'speech-to-speech': { count: 0, totalMs: 0 },
+  };
 
   recordTokens(count: number): void {
     this.stats.llmTokenCount += count;
@@ -15,14 +26,46 @@ class StatsService {
     this.stats.audioCharacterCount += count;
   }
 
+  recordInterruption(): void {
+    this.stats.interruptionCount += 1;
+  }
+
+  recordAudioCacheHit(): void {
+    this.stats.audioCacheHits += 1;
+  }
+
+  recordAudioCacheMiss(): void {
+    this.stats.audioCacheMisses += 1;
+  }
+
+  recordReplyLatency(mode: VoiceMode, ms: number): void {
+    this.replyLatency[mode].count += 1;
+    this.replyLatency[mode].totalMs += ms;
+  }
+
   resetStats(): void {
     this.stats.llmTokenCount = 0;
     this.stats.speechDurationSeconds = 0;
     this.stats.audioCharacterCount = 0;
+    this.stats.interruptionCount = 0;
+    this.stats.audioCacheHits = 0;
+    this.stats.audioCacheMisses = 0;
+    this.replyLatency.pipeline = { count: 0, totalMs: 0 };
+    this.replyLatency['speech-to-speech'] = { count: 0, totalMs: 0 };
   }
 
   getStats(): Stats {
-    return { ...this.stats };
+    const average = ({ count, totalMs }: { count: number; totalMs: number }) => ({
+      count,
+      averageMs: count > 0 ? Math.round(totalMs / count) : null,
+    });
+    return {
+      ...this.stats,
+      replyLatency: {
+        pipeline: average(this.replyLatency.pipeline),
+        'speech-to-speech': average(this.replyLatency['speech-to-speech']),
+      },
+    };
   }
 }
 
@@ -0,0 +1,95 @@
+import * as sdk from 'microsoft-cognitiveservices-speech-sdk';
+import { config } from '../../config/env';
+import { DEFAULT_LANGUAGE } from '../languageService';
+import { readAzureConfidence, readAzureWords } from './wordTiming';
+import type { RecognitionOptions, RecognitionResult, SttProvider } from './types';
+
+const RECOGNITION_TIMEOUT_MS = 10000;
+
+/** Azure Speech SDK single-shot recognition of a WAV clip, detecting the language when alternates are given. */
+export class AzureSpeechSttProvider implements SttProvider {
+  readonly name = 'azure-speech' as const;
+
+  async recognize(wav: Buffer, options: RecognitionOptions = {}): Promise<RecognitionResult> {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const alternates = options.alternateLanguages ?? [];
+    const result = await this.recognizeOnce(wav, language, alternates);
+    if (result.reason === sdk.ResultReason.RecognizedSpeech) {
+      return {
+        text: result.text.trim(),
+        confidence: readAzureConfidence(result.json),
+        // Ticks (100 ns) to seconds
+        durationSec: (result.duration ?? 0) / 10000000,
+        language: alternates.length > 0
+          ? sdk.AutoDetectSourceLanguageResult.fromResult(result).language || language
+          : language,
+        words: readAzureWords(result.json, result.offset),
+      };
+    }
+    if (result.reason === sdk.ResultReason.NoMatch) {
+      const noMatchDetail = sdk.NoMatchDetails.fromResult(result);
+      let errorMessage = 'Failed to recognize speech: ';
+      switch (noMatchDetail.reason) {
+        case sdk.NoMatchReason.NotRecognized:
+          errorMessage += 'Speech was detected but not recognized. Please speak clearly and try again.';
+          break;
+        case sdk.NoMatchReason.InitialSilenceTimeout:
+          errorMessage += 'No speech was detected. Please check your microphone and try again.';
+          break;
+        default:
+          errorMessage += 'Unable to process speech. Please try again.';
+      }
+      throw new Error(errorMessage);
+    }
+    throw new Error(`Speech recognition failed: ${result.reason}`);
+  }
+
+  private async recognizeOnce(wav: Buffer, language: string, alternates: string[]): Promise<sdk.SpeechRecognitionResult> {
+    const audioConfig = sdk.AudioConfig.fromWavFileInput(wav);
+    const speechConfig = sdk.SpeechConfig.fromSubscription(config.azureSpeechKey, config.azureSpeechRegion);
+    // Detailed output carries the confidence of each candidate transcript
+    speechConfig.outputFormat = sdk.OutputFormat.Detailed;
+    requestWordDetail(speechConfig);
+
+    let recognizer: sdk.SpeechRecognizer;
+    if (alternates.length > 0) {
+      const autoDetect = sdk.AutoDetectSourceLanguageConfig.fromLanguages([language, ...alternates]);
+      recognizer = sdk.SpeechRecognizer.FromConfig(speechConfig, autoDetect, audioConfig);
+    } else {
+      speechConfig.speechRecognitionLanguage = language;
+      recognizer = new sdk.SpeechRecognizer(speechConfig, audioConfig);
+    }
+    try {
+      return await new Promise<sdk.SpeechRecognitionResult>((resolve, reject) => {
+        let isCompleted = false;
+
+        recognizer.recognizeOnceAsync(
+          (result: sdk.SpeechRecognitionResult) => {
+            isCompleted = true;
+            resolve(result);
+          },
+          (error: string) => {
+            if (!isCompleted) {
+              reject(error);
+            }
+          }
+        );
+
+        setTimeout(() => {
+          if (!isCompleted) {
+            recognizer.stopContinuousRecognitionAsync();
+            reject(new Error('Recognition timeout'));
+          }
+        }, RECOGNITION_TIMEOUT_MS);
+      });
+    } finally {
+      recognizer.close();
+    }
+  }
+}
+
+/** Asks for the timing and confidence of each word in detailed results. */
+export function requestWordDetail(speechConfig: sdk.SpeechConfig): void {
+  speechConfig.requestWordLevelTimestamps();
+  speechConfig.setServiceProperty('wordLevelConfidence', 'true', sdk.ServicePropertyChannel.UriQueryParameter);
+}
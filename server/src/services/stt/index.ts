@@ -0,0 +1,34 @@
+import { config } from '../../config/env';
+import { AzureSpeechSttProvider } from './azureSpeechSttProvider';
+import { LocalSttProvider } from './localSttProvider';
+import type { SttProvider, SttProviderName } from './types';
+
+export * from './types';
+export * from './wordTiming';
+export { AzureSpeechSttProvider, requestWordDetail } from './azureSpeechSttProvider';
+export { LocalSttProvider } from './localSttProvider';
+
+/** Builds the recognizer with the given name from the current configuration. */
+export function createSttProvider(name: SttProviderName = config.sttProvider): SttProvider {
+  switch (name) {
+    case 'azure-speech':
+      return new AzureSpeechSttProvider();
+    case 'local':
+      return new LocalSttProvider({ command: config.localSttCommand, model: config.localSttModel });
+    default:
+      throw new Error(`Unknown STT_PROVIDER '${name}'. Expected azure-speech or local.`);
+  }
+}
+
+let provider: SttProvider | null = null;
+
+/** Returns the shared recognizer selected by STT_PROVIDER. */
+export function getSttProvider(): SttProvider {
+  if (!provider) provider = createSttProvider();
+  return provider;
+}
+
+/** Replaces the shared recognizer (tests, or swapping engines at runtime); null restores the default. */
+export function setSttProvider(next: SttProvider | null): void {
+  provider = next;
+}
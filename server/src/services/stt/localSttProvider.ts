@@ -0,0 +1,132 @@
+import { spawn } from 'child_process';
+import * as fsExtra from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { readWavHeader } from '../tts/wav';
+import { DEFAULT_LANGUAGE } from '../languageService';
+import { joinWhisperTokens } from './wordTiming';
+import type { RecognitionOptions, RecognitionResult, SttProvider } from './types';
+
+const RECOGNITION_TIMEOUT_MS = 60000;
+
+export interface LocalSttOptions {
+  // Command line with {model}, {input}, and optionally {language} and {output} placeholders.
+  // {language} is the two-letter code whisper.cpp takes, or 'auto' when alternates are allowed.
+  // With {output} the engine is expected to write whisper.cpp JSON to `{output}.json`;
+  // without it, the transcript is read from stdout.
+  command: string;
+  model: string;
+}
+
+interface WhisperToken {
+  text: string;
+  p?: number;
+  offsets?: { from: number; to: number };
+}
+
+interface WhisperSegment {
+  text: string;
+  offsets?: { from: number; to: number };
+  tokens?: WhisperToken[];
+}
+
+/**
+ * Runs a command-line recognizer such as whisper.cpp, or a wrapper script
+ * around Vosk, on each clip. Needs no network or credentials.
+ */
+export class LocalSttProvider implements SttProvider {
+  readonly name = 'local' as const;
+
+  constructor(private readonly options: LocalSttOptions) {}
+
+  async recognize(wav: Buffer, options: RecognitionOptions = {}): Promise<RecognitionResult> {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const detect = (options.alternateLanguages ?? []).length > 0;
+    const workDir = await fsExtra.mkdtemp(path.join(os.tmpdir(), 'voice-stt-'));
+    const input = path.join(workDir, 'input.wav');
+    const output = path.join(workDir, 'result');
+    try {
+      await fsExtra.writeFile(input, wav);
+      const placeholders: Record<string, string> = {
+        '{model}': this.options.model,
+        '{input}': input,
+        '{output}': output,
+        '{language}': detect ? 'auto' : language.split('-')[0],
+      };
+      const [command, ...args] = this.options.command.trim().split(/\s+/)
+        .map(part => part.replace(/\{model\}|\{input\}|\{output\}|\{language\}/g, match => placeholders[match]));
+      const stdout = await run(command, args);
+
+      if (this.options.command.includes('{output}')) {
+        const json = await fsExtra.readJson(`${output}.json`);
+        const result = fromWhisperSegments(json.transcription ?? [], wav);
+        // whisper.cpp reports only the language code it detected, e.g. 'es'
+        return { ...result, language: matchLanguage(json.result?.language, language, options.alternateLanguages) };
+      }
+      return { text: stdout.trim(), confidence: null, durationSec: clipDuration(wav), language };
+    } finally {
+      await fsExtra.remove(workDir).catch(() => {});
+    }
+  }
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Local STT command '${command}' timed out`));
+    }, RECOGNITION_TIMEOUT_MS);
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-500);
+    });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Local STT command '${command}' failed to start: ${error.message}`));
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`Local STT command '${command}' exited with code ${code}: ${stderr.trim() || 'no output'}`));
+    });
+  });
+}
+
+function fromWhisperSegments(segments: WhisperSegment[], wav: Buffer): RecognitionResult {
+  const text = segments.map(segment => segment.text).join('').trim();
+  // Special tokens such as [_BEG_] carry no meaning for the transcript's reliability
+  const tokens = segments.reduce<WhisperToken[]>((all, segment) => all.concat(segment.tokens ?? []), []);
+  const probabilities = tokens
+    .filter(token => typeof token.p === 'number' && !token.text.startsWith('[_'))
+    .map(token => token.p as number);
+  const confidence = probabilities.length
+    ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+    : null;
+  const first = segments[0]?.offsets;
+  const last = segments[segments.length - 1]?.offsets;
+  const durationSec = first && last ? (last.to - first.from) / 1000 : clipDuration(wav);
+  // Token offsets are from the start of the clip, like the segments'
+  const words = joinWhisperTokens(tokens).map(word => ({ ...word, offsetMs: word.offsetMs - (first?.from ?? 0) }));
+  return { text, confidence, durationSec, words };
+}
+
+// Maps a detected language code back to the session tag it belongs to
+function matchLanguage(code: unknown, language: string, alternates: string[] = []): string {
+  if (typeof code !== 'string') return language;
+  return [language, ...alternates].find(tag => tag.split('-')[0] === code) ?? code;
+}
+
+// Whole-clip length, for engines that do not time the speech itself
+function clipDuration(wav: Buffer): number {
+  try {
+    const header = readWavHeader(wav);
+    return header?.byteRate ? (wav.length - header.dataOffset) / header.byteRate : 0;
+  } catch {
+    return 0;
+  }
+}
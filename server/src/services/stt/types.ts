@@ -0,0 +1,38 @@
+import type { RecognizedWord } from '../../types/api';
+
+export type SttProviderName = 'azure-speech' | 'local';
+
+export const STT_PROVIDER_NAMES: readonly SttProviderName[] = ['azure-speech', 'local'];
+
+export function isSttProviderName(value: unknown): value is SttProviderName {
+  return typeof value === 'string' && (STT_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export interface RecognitionResult {
+  text: string;
+  // 0–1, or null when the engine does not score its transcripts
+  confidence: number | null;
+  // Length of the recognized speech in seconds
+  durationSec: number;
+  // Language the speech was recognized in, when the engine reports it
+  language?: string;
+  // Per-word timing and confidence, when the engine reports them
+  words?: RecognizedWord[];
+}
+
+export interface RecognitionOptions {
+  // BCP-47 tag of the expected language; the session language by default
+  language?: string;
+  // Other languages to detect among, for bilingual sessions
+  alternateLanguages?: string[];
+}
+
+/**
+ * A speech recognition backend for one-shot clips. Adapters take a WAV file
+ * and throw an Error whose message can be shown to the trainee when nothing
+ * usable was heard.
+ */
+export interface SttProvider {
+  readonly name: SttProviderName;
+  recognize(wav: Buffer, options?: RecognitionOptions): Promise<RecognitionResult>;
+}
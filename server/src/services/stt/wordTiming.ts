@@ -0,0 +1,116 @@
+import type { RecognizedWord, SpeechRecognitionDetail } from '../../types/api';
+
+// Words recognized with less confidence than this are flagged to trainees and evaluators
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// A spoken turn is at most a few minutes; anything longer is not a recognition result
+const MAX_WORDS = 2000;
+
+interface AzureWord {
+  Word?: string;
+  Offset?: number;
+  Duration?: number;
+  Confidence?: number;
+}
+
+interface WhisperToken {
+  text: string;
+  p?: number;
+  offsets?: { from: number; to: number };
+}
+
+/** Confidence of the best candidate in an Azure detailed recognition result. */
+export function readAzureConfidence(json: string | undefined): number | null {
+  try {
+    const confidence = json ? JSON.parse(json)?.NBest?.[0]?.Confidence : undefined;
+    return typeof confidence === 'number' ? confidence : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the words of the best candidate from an Azure detailed recognition
+ * result. Offsets come in 100-nanosecond ticks from the start of the audio
+ * stream, so they are rebased on `utteranceOffset` (also in ticks).
+ */
+export function readAzureWords(json: string | undefined, utteranceOffset = 0): RecognizedWord[] {
+  if (!json) return [];
+  try {
+    const words: AzureWord[] = JSON.parse(json)?.NBest?.[0]?.Words ?? [];
+    return words
+      .filter(word => typeof word.Word === 'string' && word.Word.length > 0)
+      .map(word => ({
+        word: word.Word as string,
+        offsetMs: Math.max(0, Math.round(((word.Offset ?? utteranceOffset) - utteranceOffset) / 10000)),
+        durationMs: Math.round((word.Duration ?? 0) / 10000),
+        confidence: typeof word.Confidence === 'number' ? word.Confidence : null
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Joins whisper.cpp tokens into words: a token that starts with a space starts
+ * a new word. A word's confidence is that of its least likely token.
+ */
+export function joinWhisperTokens(tokens: WhisperToken[]): RecognizedWord[] {
+  return tokens
+    // Special tokens such as [_BEG_] are not speech
+    .filter(token => !token.text.startsWith('[_') && token.text.trim().length > 0)
+    .reduce<RecognizedWord[]>((words, token) => {
+      const from = token.offsets?.from ?? 0;
+      const to = token.offsets?.to ?? from;
+      const p = typeof token.p === 'number' ? token.p : null;
+      const last = words[words.length - 1];
+      if (last && !/^\s/.test(token.text)) {
+        last.word += token.text;
+        last.durationMs = Math.max(last.durationMs, to - last.offsetMs);
+        last.confidence = p === null ? last.confidence : Math.min(last.confidence ?? 1, p);
+        return words;
+      }
+      return words.concat({ word: token.text.trim(), offsetMs: from, durationMs: to - from, confidence: p });
+    }, []);
+}
+
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isTime(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Checks recognition detail sent along with a spoken turn and keeps only the
+ * known fields. Returns undefined when none was sent; throws when it is malformed.
+ */
+export function parseRecognitionDetail(value: unknown): SpeechRecognitionDetail | undefined {
+  if (value === undefined || value === null) return undefined;
+  const detail = value as Partial<SpeechRecognitionDetail>;
+  if (!Array.isArray(detail.words) || detail.words.length > MAX_WORDS) {
+    throw new Error(`Recognition words must be a list of at most ${MAX_WORDS} words`);
+  }
+  const words = detail.words.map(word => {
+    if (typeof word?.word !== 'string' || !isTime(word.offsetMs) || !isTime(word.durationMs)
+      || !(word.confidence === null || isScore(word.confidence))) {
+      throw new Error('Recognition words need a word, offsetMs, durationMs and a confidence between 0 and 1');
+    }
+    return { word: word.word, offsetMs: word.offsetMs, durationMs: word.durationMs, confidence: word.confidence };
+  });
+  if (!(detail.confidence === null || isScore(detail.confidence)) || !isTime(detail.durationMs)) {
+    throw new Error('Recognition detail needs a confidence between 0 and 1 and a durationMs');
+  }
+  return {
+    words,
+    confidence: detail.confidence,
+    durationMs: detail.durationMs,
+    ...(typeof detail.language === 'string' ? { language: detail.language } : {})
+  };
+}
+
+/** Words the engine was unsure of; empty when it does not score single words. */
+export function uncertainWords(detail: SpeechRecognitionDetail | undefined): RecognizedWord[] {
+  return (detail?.words ?? []).filter(word => word.confidence !== null && word.confidence < LOW_CONFIDENCE_THRESHOLD);
+}
@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import * as fsExtra from 'fs-extra';
+import * as path from 'path';
+import type { SynthesizedAudio } from './types';
+
+const EXTENSIONS: Record<string, string> = { 'audio/mpeg': '.mp3', 'audio/wav': '.wav' };
+const CONTENT_TYPES: Record<string, string> = { '.mp3': 'audio/mpeg', '.wav': 'audio/wav' };
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Content-addressed store of synthesized clips on disk. Once the total size
+ * passes the cap, the least recently used clips are deleted. The index is
+ * rebuilt from the directory on first use, with file times as access order.
+ */
+export class AudioCache {
+  // Map iteration follows insertion order, so the first entry is the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly dir: string, private readonly maxBytes: number) {}
+
+  /** Stable hash of everything that determines a clip's audio. */
+  static keyFor(parts: Record<string, unknown>): string {
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  async get(key: string): Promise<SynthesizedAudio | null> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    const filePath = path.join(this.dir, entry.file);
+    try {
+      const audio = await fsExtra.readFile(filePath);
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      // Record the access on disk too, so the order survives a restart
+      const now = new Date();
+      fsExtra.utimes(filePath, now, now).catch(() => {});
+      return { audio, contentType: entry.contentType };
+    } catch {
+      // Removed behind our back
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+      return null;
+    }
+  }
+
+  async set(key: string, clip: SynthesizedAudio): Promise<void> {
+    await this.load();
+    if (clip.audio.length > this.maxBytes) return;
+    const file = key + (EXTENSIONS[clip.contentType] ?? '.bin');
+    await fsExtra.writeFile(path.join(this.dir, file), clip.audio);
+    const previous = this.entries.get(key);
+    if (previous) {
+      this.entries.delete(key);
+      this.totalBytes -= previous.size;
+    }
+    this.entries.set(key, { file, size: clip.audio.length, contentType: clip.contentType });
+    this.totalBytes += clip.audio.length;
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+      await fsExtra.remove(path.join(this.dir, entry.file)).catch(() => {});
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) this.loading = this.scan();
+    return this.loading;
+  }
+
+  private async scan(): Promise<void> {
+    await fsExtra.ensureDir(this.dir);
+    const found: (CacheEntry & { key: string; accessedAt: number })[] = [];
+    for (const file of await fsExtra.readdir(this.dir)) {
+      const extension = path.extname(file);
+      const key = path.basename(file, extension);
+      if (!KEY_PATTERN.test(key)) continue;
+      const stat = await fsExtra.stat(path.join(this.dir, file));
+      found.push({
+        key,
+        file,
+        size: stat.size,
+        contentType: CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        accessedAt: stat.mtimeMs,
+      });
+    }
+    found.sort((a, b) => a.accessedAt - b.accessedAt);
+    for (const { key, file, size, contentType } of found) {
+      this.entries.set(key, { file, size, contentType });
+      this.totalBytes += size;
+    }
+    await this.evict();
+  }
+}
@@ -0,0 +1,275 @@
+import { once } from 'events';
+import { runFfmpeg, spawnFfmpeg, FfmpegUnavailableError } from '../ffmpeg';
+import { createResampler, createWavHeader, readWavHeader, toWav } from './wav';
+import type { SynthesizedAudio } from './types';
+
+export type AudioOutputFormat = 'mp3' | 'ogg-opus' | 'wav' | 'pcm';
+
+export const AUDIO_OUTPUT_FORMATS: readonly AudioOutputFormat[] = ['mp3', 'ogg-opus', 'wav', 'pcm'];
+
+export const AUDIO_OUTPUT_SAMPLE_RATES: readonly number[] = [8000, 12000, 16000, 22050, 24000, 44100, 48000];
+
+// Opus only encodes at these rates
+const OPUS_SAMPLE_RATES: readonly number[] = [8000, 12000, 16000, 24000, 48000];
+
+// Media types in Accept headers and clip content types, without parameters
+const MEDIA_TYPE_FORMATS: Record<string, AudioOutputFormat> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg-opus',
+  'audio/opus': 'ogg-opus',
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/pcm': 'pcm',
+};
+
+// Streamed WAV has no known length, so the header declares the largest one
+const STREAMING_WAV_DATA_LENGTH = 0xffffffff - 36;
+
+/** A synthesis request asked for audio it cannot have: 400 for bad parameters, 406 when nothing in Accept is offered. */
+export class AudioFormatError extends Error {
+  constructor(message: string, readonly status: 400 | 406) {
+    super(message);
+    this.name = 'AudioFormatError';
+  }
+}
+
+export interface AudioOutputOptions {
+  format?: AudioOutputFormat;
+  // Output sample rate; unset keeps the engine's own
+  sampleRate?: number;
+}
+
+export interface AudioOutput {
+  format: AudioOutputFormat;
+  sampleRate?: number;
+}
+
+/** The content type of audio in `format`; raw PCM carries its rate as a parameter. */
+export function contentTypeFor(format: AudioOutputFormat, sampleRate?: number): string {
+  switch (format) {
+    case 'mp3':
+      return 'audio/mpeg';
+    case 'ogg-opus':
+      return 'audio/ogg; codecs=opus';
+    case 'wav':
+      return 'audio/wav';
+    case 'pcm':
+      return `audio/pcm; rate=${sampleRate}; channels=1; bits=16; endianness=little`;
+  }
+}
+
+function formatOfMediaType(mediaType: string | undefined): AudioOutputFormat | undefined {
+  return MEDIA_TYPE_FORMATS[mediaType?.split(';')[0].trim().toLowerCase() ?? ''];
+}
+
+/** Reads `format` and `sampleRate` from a request body or query string. Throws AudioFormatError (400) for unknown values. */
+export function readAudioOutputOptions(params: Record<string, unknown>): AudioOutputOptions {
+  const options: AudioOutputOptions = {};
+  if (params.format !== undefined && params.format !== '') {
+    const format = String(params.format).toLowerCase();
+    // 'opus' and 'ogg' are common shorthands for Opus in Ogg
+    options.format = format === 'opus' || format === 'ogg' ? 'ogg-opus' : format as AudioOutputFormat;
+    if (!AUDIO_OUTPUT_FORMATS.includes(options.format)) {
+      throw new AudioFormatError(`Unknown audio format '${params.format}'. Expected ${AUDIO_OUTPUT_FORMATS.join(', ')}.`, 400);
+    }
+  }
+  if (params.sampleRate !== undefined && params.sampleRate !== '') {
+    const sampleRate = Number(params.sampleRate);
+    if (!AUDIO_OUTPUT_SAMPLE_RATES.includes(sampleRate)) {
+      throw new AudioFormatError(`Unsupported sample rate '${params.sampleRate}'. Expected one of ${AUDIO_OUTPUT_SAMPLE_RATES.join(', ')}.`, 400);
+    }
+    options.sampleRate = sampleRate;
+  }
+  if (options.format === 'ogg-opus' && options.sampleRate && !OPUS_SAMPLE_RATES.includes(options.sampleRate)) {
+    throw new AudioFormatError(`Opus does not support ${options.sampleRate} Hz. Expected one of ${OPUS_SAMPLE_RATES.join(', ')}.`, 400);
+  }
+  return options;
+}
+
+/**
+ * Picks the format to answer in. An explicit `format` wins; otherwise the
+ * most preferred format in the Accept header, with the engine's own format
+ * taking ties (and any wildcard) so it is only converted when asked for
+ * something else. Throws AudioFormatError (406) when Accept rules out every
+ * format on offer.
+ */
+export function negotiateAudioFormat(options: AudioOutputOptions, accept: string | undefined, native: AudioOutputFormat): AudioOutputFormat {
+  if (options.format) return options.format;
+  if (!accept?.trim()) return native;
+  const ranges = accept.split(',').map((range, index) => {
+    const [mediaType, ...params] = range.split(';').map(part => part.trim().toLowerCase());
+    const q = params.find(param => param.startsWith('q='));
+    return { mediaType, q: q ? Number(q.slice(2)) : 1, index };
+  });
+  const offered = ranges
+    .filter(range => range.q > 0)
+    .map(range => ({
+      ...range,
+      format: range.mediaType === '*/*' || range.mediaType === 'audio/*' ? native : formatOfMediaType(range.mediaType),
+    }))
+    .filter(range => range.format)
+    .sort((a, b) => b.q - a.q || Number(b.format === native) - Number(a.format === native) || a.index - b.index);
+  if (offered.length === 0) {
+    throw new AudioFormatError(`None of the accepted types (${accept}) can be produced. Offered: audio/mpeg, audio/ogg, audio/wav, audio/pcm.`, 406);
+  }
+  return offered[0].format!;
+}
+
+/** The format of a synthesized clip, from its content type. */
+export function formatOfClip(clip: SynthesizedAudio): AudioOutputFormat {
+  return formatOfMediaType(clip.contentType) ?? 'mp3';
+}
+
+function toSamples(pcm: Buffer): Int16Array {
+  return new Int16Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.length - (pcm.length % 2)));
+}
+
+function toBuffer(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
+
+// ffmpeg output options for one format; its own resampler covers rates the encoder cannot take
+function encoderArgs(output: AudioOutput): string[] {
+  const rate = output.sampleRate ? ['-ar', String(output.sampleRate)] : [];
+  switch (output.format) {
+    case 'mp3':
+      return ['-vn', '-ac', '1', ...rate, '-c:a', 'libmp3lame', '-b:a', '64k', '-f', 'mp3', 'pipe:1'];
+    case 'ogg-opus':
+      return ['-vn', '-ac', '1', ...rate, '-c:a', 'libopus', '-b:a', '32k', '-f', 'ogg', 'pipe:1'];
+    case 'wav':
+      return ['-vn', '-ac', '1', ...rate, '-c:a', 'pcm_s16le', '-f', 'wav', 'pipe:1'];
+    case 'pcm':
+      return ['-vn', '-ac', '1', ...rate, '-c:a', 'pcm_s16le', '-f', 's16le', 'pipe:1'];
+  }
+}
+
+/** Whether a synthesized clip is already in `output`, so converting it would change nothing. */
+export function isClipInFormat(clip: SynthesizedAudio, output: AudioOutput): boolean {
+  const native = formatOfClip(clip);
+  if (native !== output.format) return false;
+  return !output.sampleRate || (native === 'wav' && output.sampleRate === readWavHeader(clip.audio)?.sampleRate);
+}
+
+/**
+ * Converts a synthesized clip to the requested format and sample rate. WAV
+ * is resampled and rewrapped in process; anything involving MP3 or Opus goes
+ * through ffmpeg. Returns the clip as is when it already matches, and the
+ * sample rate of the result when it is known.
+ */
+export async function convertClip(clip: SynthesizedAudio, output: AudioOutput): Promise<SynthesizedAudio & { sampleRate?: number }> {
+  const header = formatOfClip(clip) === 'wav' ? readWavHeader(clip.audio) : null;
+  if (isClipInFormat(clip, output)) return { ...clip, sampleRate: header?.sampleRate };
+
+  if (header && (output.format === 'wav' || output.format === 'pcm')) {
+    const sampleRate = output.sampleRate ?? header.sampleRate;
+    const pcm = toBuffer(createResampler(header.sampleRate, sampleRate)(toSamples(clip.audio.subarray(header.dataOffset))));
+    return {
+      audio: output.format === 'wav' ? toWav(pcm, sampleRate) : pcm,
+      contentType: contentTypeFor(output.format, sampleRate),
+      sampleRate,
+    };
+  }
+
+  if (output.format === 'wav' || output.format === 'pcm') {
+    // Piped WAV leaves the sizes unset, so decode to WAV for the rate and rewrap the samples
+    const decoded = await runFfmpeg(['-i', 'pipe:0', ...encoderArgs({ format: 'wav', sampleRate: output.sampleRate })], clip.audio);
+    const decodedHeader = readWavHeader(decoded);
+    if (!decodedHeader) throw new Error('ffmpeg returned no audio');
+    const pcm = decoded.subarray(decodedHeader.dataOffset);
+    return {
+      audio: output.format === 'wav' ? toWav(pcm, decodedHeader.sampleRate) : pcm,
+      contentType: contentTypeFor(output.format, decodedHeader.sampleRate),
+      sampleRate: decodedHeader.sampleRate,
+    };
+  }
+
+  const audio = await runFfmpeg(['-i', 'pipe:0', ...encoderArgs(output)], clip.audio);
+  return { audio, contentType: contentTypeFor(output.format), sampleRate: output.sampleRate };
+}
+
+/** Encodes streamed PCM into the output format as it arrives. */
+export interface AudioStreamEncoder {
+  readonly contentType: string;
+  readonly sampleRate: number;
+  write(pcm: Buffer): void;
+  // Flushes what is left and resolves once all output has been handed on
+  end(): Promise<void>;
+  // Stops early, e.g. when the client went away
+  abort(): void;
+}
+
+/**
+ * Starts an encoder from 16-bit mono PCM at `inputRate` to `output`, handing
+ * encoded bytes to `onData`. WAV gets a header declaring an open-ended length
+ * and raw PCM is passed on, both resampled in process; MP3 and Opus are
+ * encoded by an ffmpeg process, so this rejects with FfmpegUnavailableError
+ * before any audio is sent when ffmpeg is missing.
+ */
+export async function createAudioStreamEncoder(
+  output: AudioOutput,
+  inputRate: number,
+  onData: (chunk: Buffer) => void
+): Promise<AudioStreamEncoder> {
+  if (output.format === 'wav' || output.format === 'pcm') {
+    const sampleRate = output.sampleRate ?? inputRate;
+    const resample = createResampler(inputRate, sampleRate);
+    let pending = Buffer.alloc(0);
+    let started = false;
+    const start = () => {
+      if (!started && output.format === 'wav') onData(createWavHeader(STREAMING_WAV_DATA_LENGTH, sampleRate));
+      started = true;
+    };
+    return {
+      contentType: contentTypeFor(output.format, sampleRate),
+      sampleRate,
+      write(pcm) {
+        start();
+        // Chunks may split a sample; the odd byte waits for the next chunk
+        const joined = pending.length ? Buffer.concat([pending, pcm]) : pcm;
+        const usable = joined.length - (joined.length % 2);
+        pending = joined.subarray(usable);
+        if (usable > 0) onData(toBuffer(resample(toSamples(joined.subarray(0, usable)))));
+      },
+      async end() {
+        start();
+      },
+      abort() {},
+    };
+  }
+
+  const encoder = spawnFfmpeg([
+    '-f', 's16le', '-ar', String(inputRate), '-ac', '1', '-i', 'pipe:0', ...encoderArgs(output)
+  ]);
+  let stderr = '';
+  encoder.stderr.on('data', (data: Buffer) => {
+    stderr = (stderr + data.toString()).slice(-500);
+  });
+  encoder.stdout.on('data', onData);
+  // The encoder exits early when aborted; late writes are dropped
+  encoder.stdin.on('error', () => {});
+  try {
+    await once(encoder, 'spawn');
+  } catch (error) {
+    throw new FfmpegUnavailableError(error as Error);
+  }
+  // Once running, failures show in the exit code
+  encoder.on('error', () => {});
+  const closed = once(encoder, 'close');
+  return {
+    contentType: contentTypeFor(output.format),
+    sampleRate: output.sampleRate ?? inputRate,
+    write(pcm) {
+      encoder.stdin.write(pcm);
+    },
+    async end() {
+      encoder.stdin.end();
+      const [code] = await closed;
+      if (code !== 0) throw new Error(stderr.trim() || `ffmpeg exited with code ${code}`);
+    },
+    abort() {
+      encoder.kill();
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { REALTIME_SAMPLE_RATE, streamSpeechRealtime, synthesizeSpeechRealtime } from '../realtimeService';
+import type { SynthesizedAudio, TtsProvider, TtsRequest, TtsStreamHandlers, TtsVoice } from './types';
+
+const VOICES: TtsVoice[] = [
+  { id: 'alloy', displayName: 'Alloy', gender: 'neutral', locale: 'en-US', styles: [] },
+  { id: 'echo', displayName: 'Echo', gender: 'male', locale: 'en-US', styles: [] },
+  { id: 'fable', displayName: 'Fable', gender: 'neutral', locale: 'en-US', styles: [] },
+  { id: 'onyx', displayName: 'Onyx', gender: 'male', locale: 'en-US', styles: [] },
+  { id: 'nova', displayName: 'Nova', gender: 'female', locale: 'en-US', styles: [] },
+  { id: 'shimmer', displayName: 'Shimmer', gender: 'female', locale: 'en-US', styles: [] },
+];
+
+/** Azure OpenAI Realtime synthesis: 24 kHz PCM, returned as WAV clips. No word timings. */
+export class AzureRealtimeTtsProvider implements TtsProvider {
+  readonly name = 'azure-realtime' as const;
+  readonly streamSampleRate = REALTIME_SAMPLE_RATE;
+  readonly clipFormat = 'wav';
+
+  async listVoices(): Promise<TtsVoice[]> {
+    return VOICES;
+  }
+
+  async synthesize(request: TtsRequest): Promise<SynthesizedAudio> {
+    const audio = await synthesizeSpeechRealtime(request.text, request.voiceName, request.voiceGender);
+    return { audio, contentType: 'audio/wav' };
+  }
+
+  stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void> {
+    const { text, voiceName, voiceGender, signal } = request;
+    return streamSpeechRealtime(text, handlers.onAudio, { voiceName, voiceGender, signal });
+  }
+}
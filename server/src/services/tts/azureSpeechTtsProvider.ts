@@ -0,0 +1,51 @@
+import { generateSpeech, listAzureVoices, streamSpeech, STREAM_SAMPLE_RATE } from '../speechUtil';
+import type { SynthesizedAudio, TtsProvider, TtsRequest, TtsStreamHandlers, TtsVoice } from './types';
+
+// Offered until an admin curates the catalog, and listed when the service cannot be asked
+const FEATURED_VOICES: TtsVoice[] = [
+  {
+    id: 'en-US-JennyNeural', displayName: 'Jenny', gender: 'female', locale: 'en-US',
+    styles: ['assistant', 'chat', 'customerservice', 'newscast', 'angry', 'cheerful', 'sad', 'excited',
+      'friendly', 'terrified', 'shouting', 'unfriendly', 'whispering', 'hopeful'],
+  },
+  { id: 'en-US-AndrewNeural', displayName: 'Andrew', gender: 'male', locale: 'en-US', styles: [] },
+  { id: 'en-US-FableTurboMultilingualNeural', displayName: 'Fable', gender: 'neutral', locale: 'en-US', styles: [] },
+  { id: 'en-US-Alloy:DragonHDLatestNeural', displayName: 'Alloy (HD)', gender: 'neutral', locale: 'en-US', styles: [] },
+];
+const FEATURED_IDS = new Set(FEATURED_VOICES.map(voice => voice.id));
+
+/** Azure Speech SDK synthesis: MP3 clips, and 16 kHz PCM with word timings when streaming. Applies mood voice styles and the session language. */
+export class AzureSpeechTtsProvider implements TtsProvider {
+  readonly name = 'azure-speech' as const;
+  readonly streamSampleRate = STREAM_SAMPLE_RATE;
+  readonly clipFormat = 'mp3';
+
+  // Every neural voice in the region; only the featured ones are offered by default
+  async listVoices(): Promise<TtsVoice[]> {
+    try {
+      const voices = await listAzureVoices();
+      return voices.map(({ shortName, displayName, locale, gender, styles }) => ({
+        id: shortName,
+        displayName,
+        gender,
+        locale,
+        styles,
+        featured: FEATURED_IDS.has(shortName),
+      }));
+    } catch (error) {
+      console.warn('[TTS] Could not list Azure voices, using the featured ones:', error);
+      return FEATURED_VOICES;
+    }
+  }
+
+  async synthesize(request: TtsRequest): Promise<SynthesizedAudio> {
+    const { text, voiceGender, voiceName, voiceStyle, language } = request;
+    const audio = await generateSpeech(text, voiceGender, voiceName, voiceStyle, language);
+    return { audio, contentType: 'audio/mpeg' };
+  }
+
+  stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void> {
+    const { text, voiceGender, voiceName, voiceStyle, language, signal } = request;
+    return streamSpeech(text, handlers.onAudio, { voiceGender, voiceName, voiceStyle, language, signal, onWord: handlers.onWord });
+  }
+}
@@ -0,0 +1,61 @@
+import statsService from '../statsService';
+import { AudioCache } from './audioCache';
+import type { SynthesizedAudio, TtsProvider, TtsRequest, TtsStreamHandlers, TtsVoice } from './types';
+
+/**
+ * Serves repeated clips from the audio cache, so replays are neither
+ * synthesized nor billed again. Streams always go to the provider.
+ */
+export class CachedTtsProvider implements TtsProvider {
+  constructor(
+    private readonly inner: TtsProvider,
+    private readonly cache: AudioCache,
+    private readonly stats: typeof statsService = statsService
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get streamSampleRate() {
+    return this.inner.streamSampleRate;
+  }
+
+  get clipFormat() {
+    return this.inner.clipFormat;
+  }
+
+  listVoices(): Promise<TtsVoice[]> {
+    return this.inner.listVoices();
+  }
+
+  // The cache key, a content hash of the request, so it is known before the clip is synthesized
+  etagFor(request: TtsRequest): string {
+    const { signal, ...parts } = request;
+    // The provider fixes the clip format, so it is part of the key along with text, voice and style
+    return AudioCache.keyFor({ provider: this.name, ...parts });
+  }
+
+  async synthesize(request: TtsRequest): Promise<SynthesizedAudio> {
+    const etag = this.etagFor(request);
+    const cached = await this.cache.get(etag).catch(error => {
+      console.warn('[TTS] Audio cache read failed:', error);
+      return null;
+    });
+    if (cached) {
+      this.stats.recordAudioCacheHit();
+      return { ...cached, etag };
+    }
+
+    this.stats.recordAudioCacheMiss();
+    const clip = await this.inner.synthesize(request);
+    await this.cache.set(etag, clip).catch(error => {
+      console.warn('[TTS] Audio cache write failed:', error);
+    });
+    return { ...clip, etag };
+  }
+
+  stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void> {
+    return this.inner.stream(request, handlers);
+  }
+}
@@ -0,0 +1,101 @@
+import { config } from '../../config/env';
+import { AzureSpeechTtsProvider } from './azureSpeechTtsProvider';
+import { AzureRealtimeTtsProvider } from './azureRealtimeTtsProvider';
+import { LocalTtsProvider } from './localTtsProvider';
+import { MockTtsProvider } from './mockTtsProvider';
+import { MeteredTtsProvider } from './meteredTtsProvider';
+import { AudioCache } from './audioCache';
+import { CachedTtsProvider } from './cachedTtsProvider';
+import type { TtsProvider, TtsProviderName } from './types';
+
+export * from './types';
+export { AzureSpeechTtsProvider } from './azureSpeechTtsProvider';
+export { AzureRealtimeTtsProvider } from './azureRealtimeTtsProvider';
+export { LocalTtsProvider } from './localTtsProvider';
+export { MockTtsProvider } from './mockTtsProvider';
+export { MeteredTtsProvider } from './meteredTtsProvider';
+export { CachedTtsProvider } from './cachedTtsProvider';
+export { AudioCache } from './audioCache';
+export { createResampler, createWavHeader, readWavHeader, toWav } from './wav';
+export {
+  AUDIO_OUTPUT_FORMATS,
+  AudioFormatError,
+  contentTypeFor,
+  convertClip,
+  createAudioStreamEncoder,
+  formatOfClip,
+  isClipInFormat,
+  negotiateAudioFormat,
+  readAudioOutputOptions,
+  type AudioOutput,
+  type AudioOutputFormat,
+  type AudioOutputOptions,
+  type AudioStreamEncoder,
+} from './audioFormat';
+export { buildSsml, escapeXml, validateVoiceStyle } from './ssml';
+
+/** Builds the provider with the given name from the current configuration. */
+export function createTtsProvider(name: TtsProviderName = config.ttsProvider): TtsProvider {
+  switch (name) {
+    case 'azure-speech':
+      return new AzureSpeechTtsProvider();
+    case 'azure-realtime':
+      return new AzureRealtimeTtsProvider();
+    case 'local':
+      return new LocalTtsProvider({
+        command: config.localTtsCommand,
+        output: config.localTtsOutput,
+        sampleRate: config.localTtsSampleRate,
+        maleVoice: config.localTtsMaleVoice,
+        femaleVoice: config.localTtsFemaleVoice,
+      });
+    case 'mock':
+      return new MockTtsProvider();
+    default:
+      throw new Error(`Unknown TTS_PROVIDER '${name}'. Expected azure-speech, azure-realtime, local or mock.`);
+  }
+}
+
+/**
+ * Whether `name` can synthesize in this deployment: the Azure engines need their
+ * credentials, and the local and mock engines are only used as the default.
+ */
+export function isTtsProviderConfigured(name: TtsProviderName): boolean {
+  if (name === config.ttsProvider) return true;
+  switch (name) {
+    case 'azure-speech':
+      return config.azureSpeechKey !== 'your-azure-speech-key';
+    case 'azure-realtime':
+      return Boolean(config.azureOpenAiRealtimeEndpoint && config.azureOpenAiRealtimeKey);
+    default:
+      return false;
+  }
+}
+
+const providers = new Map<TtsProviderName, TtsProvider>();
+// One cache for every provider; the provider name is part of each key
+const audioCache = config.audioCacheMaxMb > 0
+  ? new AudioCache(config.audioCacheDir, config.audioCacheMaxMb * 1024 * 1024)
+  : null;
+
+/**
+ * Returns the shared provider for `name`, defaulting to TTS_PROVIDER, so a
+ * request can pick another engine than the deployment default. Synthesis
+ * through it is counted in the usage stats, and clips are served from the
+ * audio cache when it is enabled.
+ */
+export function getTtsProvider(name: TtsProviderName = config.ttsProvider): TtsProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = new MeteredTtsProvider(createTtsProvider(name));
+    if (audioCache) provider = new CachedTtsProvider(provider, audioCache);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/** Replaces the shared provider for its name (tests, or swapping engines at runtime); null restores the default. */
+export function setTtsProvider(name: TtsProviderName, provider: TtsProvider | null): void {
+  if (provider) providers.set(name, provider);
+  else providers.delete(name);
+}
@@ -0,0 +1,115 @@
+import { spawn } from 'child_process';
+import { readWavHeader, toWav } from './wav';
+import type { SynthesizedAudio, TtsProvider, TtsRequest, TtsStreamHandlers, TtsVoice } from './types';
+
+export interface LocalTtsOptions {
+  // Command line with a {voice} placeholder; the text is written to its stdin
+  command: string;
+  // What the command writes to stdout: a WAV stream, or headerless 16-bit mono PCM
+  output: 'wav' | 'raw';
+  sampleRate: number;
+  maleVoice: string;
+  femaleVoice: string;
+}
+
+/**
+ * Runs a command-line engine such as espeak-ng or piper once per request.
+ * Needs no network or credentials, so it suits development machines and CI.
+ */
+export class LocalTtsProvider implements TtsProvider {
+  readonly name = 'local' as const;
+  readonly streamSampleRate: number;
+  readonly clipFormat = 'wav';
+
+  constructor(private readonly options: LocalTtsOptions) {
+    this.streamSampleRate = options.sampleRate;
+  }
+
+  async listVoices(): Promise<TtsVoice[]> {
+    const { maleVoice, femaleVoice } = this.options;
+    return [
+      { id: femaleVoice, displayName: `${femaleVoice} (local)`, gender: 'female', locale: 'en-US', styles: [] },
+      { id: maleVoice, displayName: `${maleVoice} (local)`, gender: 'male', locale: 'en-US', styles: [] },
+    ];
+  }
+
+  async synthesize(request: TtsRequest): Promise<SynthesizedAudio> {
+    const chunks: Buffer[] = [];
+    await this.stream(request, { onAudio: chunk => chunks.push(chunk) });
+    return { audio: toWav(Buffer.concat(chunks), this.streamSampleRate), contentType: 'audio/wav' };
+  }
+
+  stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void> {
+    const { text, signal } = request;
+    const [command, ...args] = this.options.command.trim().split(/\s+/).map(part => part.replace('{voice}', this.resolveVoice(request)));
+    if (signal?.aborted) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      let header: Buffer | null = this.options.output === 'wav' ? Buffer.alloc(0) : null;
+      // A chunk can end mid-sample; hold the odd byte for the next one
+      let carry: Buffer = Buffer.alloc(0);
+      let stderr = '';
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onAbort = () => {
+        child.kill();
+        settle();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const emit = (data: Buffer) => {
+        const pcm = carry.length ? Buffer.concat([carry, data]) : data;
+        const usable = pcm.length - (pcm.length % 2);
+        carry = pcm.subarray(usable);
+        if (usable > 0 && !signal?.aborted) handlers.onAudio(pcm.subarray(0, usable));
+      };
+
+      child.stdout.on('data', (data: Buffer) => {
+        if (!header) {
+          emit(data);
+          return;
+        }
+        header = Buffer.concat([header, data]);
+        try {
+          const wav = readWavHeader(header);
+          if (!wav) return;
+          if (wav.sampleRate && wav.sampleRate !== this.streamSampleRate) {
+            console.warn(`[TTS] Local engine produced ${wav.sampleRate} Hz audio; LOCAL_TTS_SAMPLE_RATE is ${this.streamSampleRate}`);
+          }
+          const rest = header.subarray(wav.dataOffset);
+          header = null;
+          if (rest.length) emit(rest);
+        } catch (error) {
+          child.kill();
+          settle(error as Error);
+        }
+      });
+      child.stderr.on('data', (data: Buffer) => {
+        stderr = (stderr + data.toString()).slice(-500);
+      });
+      child.on('error', error => {
+        settle(new Error(`Local TTS command '${command}' failed to start: ${error.message}`));
+      });
+      child.on('close', code => {
+        if (code === 0 || signal?.aborted) settle();
+        else settle(new Error(`Local TTS command '${command}' exited with code ${code}: ${stderr.trim() || 'no output'}`));
+      });
+
+      child.stdin.on('error', () => { /* reported through 'close' */ });
+      child.stdin.end(text);
+    });
+  }
+
+  private resolveVoice(request: TtsRequest): string {
+    const { maleVoice, femaleVoice } = this.options;
+    if (request.voiceName === maleVoice || request.voiceName === femaleVoice) return request.voiceName;
+    return request.voiceGender === 'male' ? maleVoice : femaleVoice;
+  }
+}
@@ -0,0 +1,33 @@
+import statsService from '../statsService';
+import type { SynthesizedAudio, TtsProvider, TtsRequest, TtsStreamHandlers, TtsVoice } from './types';
+
+/** Counts synthesized characters in the usage stats, whichever provider does the work. */
+export class MeteredTtsProvider implements TtsProvider {
+  constructor(private readonly inner: TtsProvider, private readonly stats: typeof statsService = statsService) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get streamSampleRate() {
+    return this.inner.streamSampleRate;
+  }
+
+  get clipFormat() {
+    return this.inner.clipFormat;
+  }
+
+  listVoices(): Promise<TtsVoice[]> {
+    return this.inner.listVoices();
+  }
+
+  synthesize(request: TtsRequest): Promise<SynthesizedAudio> {
+    this.stats.recordAudioChars(request.text.length);
+    return this.inner.synthesize(request);
+  }
+
+  stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void> {
+    this.stats.recordAudioChars(request.text.length);
+    return this.inner.stream(request, handlers);
+  }
+}
@@ -0,0 +1,82 @@
+import { toWav } from './wav';
+import type { SynthesizedAudio, TtsProvider, TtsRequest, TtsStreamHandlers, TtsVoice } from './types';
+
+const SAMPLE_RATE = 16000;
+const CHUNK_SAMPLES = SAMPLE_RATE / 10;
+const MS_PER_CHAR = 60;
+const MIN_WORD_MS = 120;
+const GAP_MS = 80;
+const FADE_SAMPLES = SAMPLE_RATE / 200;
+
+const VOICES: TtsVoice[] = [
+  { id: 'mock-female', displayName: 'Mock (high tone)', gender: 'female', locale: 'en-US', styles: [] },
+  { id: 'mock-male', displayName: 'Mock (low tone)', gender: 'male', locale: 'en-US', styles: [] },
+];
+
+const samplesFor = (ms: number) => Math.round(ms * SAMPLE_RATE / 1000);
+
+/**
+ * Offline stand-in for speech synthesis: every word becomes a beep whose length
+ * follows the word's length, separated by short silences. Output and word
+ * timings depend only on the text and voice, so tests can assert on them.
+ */
+export class MockTtsProvider implements TtsProvider {
+  readonly name = 'mock' as const;
+  readonly streamSampleRate = SAMPLE_RATE;
+  readonly clipFormat = 'wav';
+
+  async listVoices(): Promise<TtsVoice[]> {
+    return VOICES;
+  }
+
+  async synthesize(request: TtsRequest): Promise<SynthesizedAudio> {
+    return { audio: toWav(this.render(request).pcm, SAMPLE_RATE), contentType: 'audio/wav' };
+  }
+
+  async stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void> {
+    const { pcm, words } = this.render(request);
+    let wordIndex = 0;
+    for (let offset = 0; offset < pcm.length; offset += CHUNK_SAMPLES * 2) {
+      if (request.signal?.aborted) return;
+      const chunkEndMs = (offset / 2 + CHUNK_SAMPLES) * 1000 / SAMPLE_RATE;
+      // Report words just before the audio they start in, as the real services do
+      while (wordIndex < words.length && words[wordIndex].audioOffsetMs < chunkEndMs) {
+        const word = words[wordIndex++];
+        handlers.onWord?.(word);
+      }
+      handlers.onAudio(pcm.subarray(offset, offset + CHUNK_SAMPLES * 2));
+      // Yield between chunks so the audio arrives as a stream
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  private render(request: TtsRequest): { pcm: Buffer; words: { textOffset: number; audioOffsetMs: number }[] } {
+    const male = request.voiceName === 'mock-male' || (request.voiceName !== 'mock-female' && request.voiceGender === 'male');
+    const frequency = male ? 220 : 440;
+    const words: { textOffset: number; samples: number }[] = [];
+    const pattern = /\S+/g;
+    for (let match = pattern.exec(request.text); match; match = pattern.exec(request.text)) {
+      words.push({
+        textOffset: match.index + match[0].length,
+        samples: samplesFor(Math.max(MIN_WORD_MS, match[0].length * MS_PER_CHAR)),
+      });
+    }
+
+    const gap = samplesFor(GAP_MS);
+    const total = words.reduce((sum, word) => sum + word.samples + gap, 0);
+    const pcm = Buffer.alloc(total * 2);
+    const timings: { textOffset: number; audioOffsetMs: number }[] = [];
+    let position = 0;
+    for (const word of words) {
+      timings.push({ textOffset: word.textOffset, audioOffsetMs: Math.round(position * 1000 / SAMPLE_RATE) });
+      for (let i = 0; i < word.samples; i++) {
+        // Short fades keep the beeps from clicking
+        const envelope = Math.min(1, i / FADE_SAMPLES, (word.samples - i) / FADE_SAMPLES);
+        const sample = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 0.3;
+        pcm.writeInt16LE(Math.round(sample * 0x7fff), (position + i) * 2);
+      }
+      position += word.samples + gap;
+    }
+    return { pcm, words: timings };
+  }
+}
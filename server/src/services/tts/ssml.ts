@@ -0,0 +1,64 @@
+import type { MoodVoiceStyle } from '../../types/api';
+import { DEFAULT_LANGUAGE } from '../languageService';
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+// Relative or absolute numbers (+10%, -2st, 120Hz, 0.9) or the SSML named levels
+const PROSODY_VALUE = /^([+-]?\d+(\.\d+)?(%|Hz|st)?|x-slow|slow|medium|fast|x-fast|x-low|low|high|x-high|silent|x-soft|soft|loud|x-loud|default)$/;
+const PROSODY_ATTRIBUTES = ['rate', 'pitch', 'volume'] as const;
+
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+}
+
+/**
+ * Builds the SSML document for one utterance. The text is escaped, and a mood's
+ * voice style wraps it in `prosody` and `mstts:express-as` elements. Multilingual
+ * voices are told the text's language so they do not guess it from the first words.
+ */
+export function buildSsml(text: string, voiceName: string, voiceStyle: MoodVoiceStyle = {}, language = DEFAULT_LANGUAGE): string {
+  let body = escapeXml(text);
+  if (/Multilingual/.test(voiceName)) {
+    body = `<lang xml:lang="${escapeXml(language)}">${body}</lang>`;
+  }
+  const prosody = PROSODY_ATTRIBUTES
+    .filter(attribute => voiceStyle[attribute])
+    .map(attribute => `${attribute}="${escapeXml(voiceStyle[attribute]!)}"`);
+  if (prosody.length) {
+    body = `<prosody ${prosody.join(' ')}>${body}</prosody>`;
+  }
+  if (voiceStyle.style) {
+    const degree = voiceStyle.styleDegree !== undefined ? ` styledegree="${voiceStyle.styleDegree}"` : '';
+    body = `<mstts:express-as style="${escapeXml(voiceStyle.style)}"${degree}>${body}</mstts:express-as>`;
+  }
+  return '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" '
+    + `xml:lang="${escapeXml(language)}"><voice name="${escapeXml(voiceName)}">${body}</voice>`
+    + '</speak>';
+}
+
+/** Throws when a stored voice style could not be rendered as valid SSML. Null and undefined mean "no style". */
+export function validateVoiceStyle(voiceStyle: unknown): void {
+  if (voiceStyle === undefined || voiceStyle === null) return;
+  if (typeof voiceStyle !== 'object' || Array.isArray(voiceStyle)) {
+    throw new Error('Voice style must be an object');
+  }
+  const { style, styleDegree } = voiceStyle as Record<string, unknown>;
+  if (style !== undefined && (typeof style !== 'string' || !/^[a-z-]+$/i.test(style))) {
+    throw new Error('Voice style name must be a single word such as "angry"');
+  }
+  if (styleDegree !== undefined && (typeof styleDegree !== 'number' || styleDegree < 0.01 || styleDegree > 2)) {
+    throw new Error('Voice style degree must be a number from 0.01 to 2');
+  }
+  for (const attribute of PROSODY_ATTRIBUTES) {
+    const value = (voiceStyle as Record<string, unknown>)[attribute];
+    if (value !== undefined && (typeof value !== 'string' || !PROSODY_VALUE.test(value))) {
+      throw new Error(`Voice style ${attribute} must be a relative value such as "+10%" or a named level such as "slow"`);
+    }
+  }
+}
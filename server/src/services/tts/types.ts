@@ -0,0 +1,66 @@
+import type { MoodVoiceStyle } from '../../types/api';
+import type { AudioOutputFormat } from './audioFormat';
+
+export type TtsProviderName = 'azure-speech' | 'azure-realtime' | 'local' | 'mock';
+
+export const TTS_PROVIDER_NAMES: readonly TtsProviderName[] = ['azure-speech', 'azure-realtime', 'local', 'mock'];
+
+export function isTtsProviderName(value: unknown): value is TtsProviderName {
+  return typeof value === 'string' && (TTS_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export interface TtsVoice {
+  // Name to pass as voiceName in synthesis requests
+  id: string;
+  displayName: string;
+  gender: 'male' | 'female' | 'neutral';
+  locale: string;
+  // Speaking styles the voice supports in mood voice styles; empty when it has none
+  styles: string[];
+  // False for voices left out of the picker until an admin offers them; unset means offered
+  featured?: boolean;
+}
+
+export interface TtsRequest {
+  text: string;
+  // Catalog voice id (e.g. 'en-US-JennyNeural' or 'alloy'); legacy UI names like 'JennyNeural' still resolve
+  voiceName?: string;
+  // Picks the provider's default voice for a gender when voiceName is unknown or unset
+  voiceGender?: 'male' | 'female';
+  // Mood-driven speaking style and prosody; only SSML-capable providers apply it
+  voiceStyle?: MoodVoiceStyle;
+  // Session language of the text (BCP-47); SSML-capable providers pick default voices by it
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface TtsStreamHandlers {
+  // Raw 16-bit little-endian mono PCM at the provider's streamSampleRate
+  onAudio: (chunk: Buffer) => void;
+  // Where each spoken word ends in the text and where it starts in the audio; not every provider reports words
+  onWord?: (word: { textOffset: number; audioOffsetMs: number }) => void;
+}
+
+export interface SynthesizedAudio {
+  audio: Buffer;
+  contentType: string;
+  // Content hash of the request, set when the clip went through the audio cache
+  etag?: string;
+}
+
+/**
+ * A speech synthesis backend. Adapters hide SDK, protocol and voice naming
+ * differences: `synthesize` returns a playable clip, `stream` delivers PCM as
+ * it is produced, and aborting a stream resolves it early.
+ */
+export interface TtsProvider {
+  readonly name: TtsProviderName;
+  readonly streamSampleRate: number;
+  // Format of the clips `synthesize` returns; WAV clips are at streamSampleRate
+  readonly clipFormat: AudioOutputFormat;
+  listVoices(): Promise<TtsVoice[]>;
+  synthesize(request: TtsRequest): Promise<SynthesizedAudio>;
+  // The ETag `synthesize` gives the clip for `request`, for providers that set one
+  etagFor?(request: TtsRequest): string;
+  stream(request: TtsRequest, handlers: TtsStreamHandlers): Promise<void>;
+}
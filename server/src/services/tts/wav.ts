@@ -0,0 +1,87 @@
+/**
+ * Create a WAV file header for PCM audio data
+ * @param dataLength - Length of the PCM audio data in bytes
+ * @param sampleRate - Sample rate (default: 24000 Hz for Realtime API)
+ * @param numChannels - Number of channels (default: 1 for mono)
+ * @param bitsPerSample - Bits per sample (default: 16 for PCM16)
+ */
+export function createWavHeader(
+  dataLength: number,
+  sampleRate: number = 24000,
+  numChannels: number = 1,
+  bitsPerSample: number = 16
+): Buffer {
+  const header = Buffer.alloc(44);
+
+  // RIFF chunk descriptor
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataLength, 4); // File size - 8
+  header.write('WAVE', 8);
+
+  // fmt sub-chunk
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // Subchunk1Size (16 for PCM)
+  header.writeUInt16LE(1, 20); // AudioFormat (1 for PCM)
+  header.writeUInt16LE(numChannels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * numChannels * bitsPerSample / 8, 28); // ByteRate
+  header.writeUInt16LE(numChannels * bitsPerSample / 8, 32); // BlockAlign
+  header.writeUInt16LE(bitsPerSample, 34);
+
+  // data sub-chunk
+  header.write('data', 36);
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+/** Wraps 16-bit mono PCM in a WAV container. */
+export function toWav(pcm: Buffer, sampleRate: number): Buffer {
+  return Buffer.concat([createWavHeader(pcm.length, sampleRate), pcm]);
+}
+
+/**
+ * Finds where the samples start in a WAV stream and the sample and byte rates it declares.
+ * Returns null until enough of the header has arrived. Streaming encoders often
+ * leave the data size unset, so only the chunk layout is relied on.
+ */
+export function readWavHeader(buffer: Buffer): { sampleRate: number; byteRate: number; dataOffset: number } | null {
+  if (buffer.length < 12) return null;
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Audio is not a WAV stream');
+  }
+  let sampleRate = 0;
+  let byteRate = 0;
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === 'data') return { sampleRate, byteRate, dataOffset: offset + 8 };
+    if (id === 'fmt ') {
+      if (offset + 20 > buffer.length) return null;
+      sampleRate = buffer.readUInt32LE(offset + 12);
+      byteRate = buffer.readUInt32LE(offset + 16);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/** Linear interpolation from one sample rate to another, carrying the position across chunks. */
+export function createResampler(inputRate: number, outputRate: number): (input: Int16Array) => Int16Array {
+  const step = inputRate / outputRate;
+  let position = 0;
+  let previous = 0;
+  return input => {
+    if (step === 1) return input;
+    const output: number[] = [];
+    for (; Math.floor(position) + 1 < input.length; position += step) {
+      const index = Math.floor(position);
+      const from = index < 0 ? previous : input[index];
+      const to = input[index + 1];
+      output.push(Math.round(from + (to - from) * (position - index)));
+    }
+    position -= input.length;
+    if (input.length > 0) previous = input[input.length - 1];
+    return Int16Array.from(output);
+  };
+}
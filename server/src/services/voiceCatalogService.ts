@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { config } from '../config/env';
+import { getTtsProvider, isTtsProviderConfigured, TTS_PROVIDER_NAMES, type TtsProviderName } from './tts';
+import type { VoiceCatalogEntry, VoiceCatalogFilter } from '../types/api';
+
+// Voice lists rarely change; refetching hourly still picks up voices Azure adds
+const CATALOG_TTL_MS = 60 * 60 * 1000;
+
+// Preview lines by language; other languages fall back to English
+const SAMPLE_PHRASES: Record<string, string> = {
+  en: 'Hello, thanks for calling. How can I help you today?',
+  es: 'Hola, gracias por llamar. ¿En qué puedo ayudarle hoy?',
+  fr: 'Bonjour, merci de votre appel. Comment puis-je vous aider aujourd’hui ?',
+  de: 'Hallo, danke für Ihren Anruf. Wie kann ich Ihnen heute helfen?',
+  it: 'Buongiorno, grazie per aver chiamato. Come posso aiutarla oggi?',
+  pt: 'Olá, obrigado por ligar. Como posso ajudar hoje?',
+  nl: 'Hallo, bedankt voor uw telefoontje. Waarmee kan ik u vandaag helpen?',
+  ja: 'お電話ありがとうございます。本日はどのようなご用件でしょうか。',
+  zh: '您好，感谢您的来电。今天有什么可以帮您？',
+  ko: '전화 주셔서 감사합니다. 무엇을 도와드릴까요?',
+  hi: 'नमस्ते, कॉल करने के लिए धन्यवाद। मैं आज आपकी क्या मदद कर सकता हूँ?',
+};
+
+export function samplePhraseFor(locale: string): string {
+  return SAMPLE_PHRASES[locale.split('-')[0].toLowerCase()] ?? SAMPLE_PHRASES.en;
+}
+
+type CatalogVoice = Omit<VoiceCatalogEntry, 'offered'> & { featured: boolean };
+
+interface CurationFile {
+  offered: string[];
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+/**
+ * The voices of every configured synthesis engine, fetched once an hour, and
+ * the admin's choice of which of them trainees are offered. Until an admin
+ * curates the list, each engine's featured voices are offered. The choice is
+ * saved to VOICE_CATALOG_FILE so it survives restarts.
+ */
+class VoiceCatalog {
+  private voices: CatalogVoice[] = [];
+  private expiresAt = 0;
+  private loading: Promise<CatalogVoice[]> | null = null;
+  // null until an admin curates; undefined until the file has been read
+  private offered: Set<string> | null | undefined;
+
+  async list(filter: VoiceCatalogFilter = {}): Promise<VoiceCatalogEntry[]> {
+    const [voices, offered] = await Promise.all([this.getVoices(), this.getOffered()]);
+    const locale = filter.locale?.toLowerCase();
+    return voices
+      .map(({ featured, ...voice }) => ({ ...voice, offered: offered ? offered.has(voice.key) : featured }))
+      .filter(voice =>
+        (filter.includeWithdrawn || voice.offered) &&
+        (!filter.provider || voice.provider === filter.provider) &&
+        (!filter.gender || voice.gender === filter.gender) &&
+        (!locale || voice.locale.toLowerCase() === locale || voice.locale.toLowerCase().startsWith(`${locale}-`))
+      );
+  }
+
+  /** Drops the cached voice lists so the next call asks the engines again. */
+  refresh(): void {
+    this.expiresAt = 0;
+  }
+
+  /**
+   * Replaces the offered voices with `keys`; null goes back to the featured
+   * voices. Throws when a key is not in the catalog.
+   */
+  async setOffered(keys: string[] | null, changedBy?: string): Promise<void> {
+    if (keys) {
+      const known = new Set((await this.getVoices()).map(voice => voice.key));
+      const unknown = keys.filter(key => !known.has(key));
+      if (unknown.length > 0) throw new Error(`Unknown voices: ${unknown.join(', ')}`);
+      const curation: CurationFile = { offered: keys, updatedBy: changedBy, updatedAt: new Date().toISOString() };
+      await fs.mkdir(path.dirname(config.voiceCatalogFile), { recursive: true });
+      await fs.writeFile(config.voiceCatalogFile, JSON.stringify(curation, null, 2));
+    } else {
+      await fs.rm(config.voiceCatalogFile, { force: true });
+    }
+    this.offered = keys ? new Set(keys) : null;
+    console.log(`[Voices] ${keys ? `${keys.length} voices offered` : 'Featured voices restored'}${changedBy ? ` by ${changedBy}` : ''}`);
+  }
+
+  /**
+   * The engine that lists `voiceName`, preferring TTS_PROVIDER, so picking a
+   * voice also picks its engine. Undefined when no engine knows the name.
+   */
+  async providerFor(voiceName?: string): Promise<TtsProviderName | undefined> {
+    if (!voiceName) return undefined;
+    const matches = (await this.getVoices()).filter(voice => voice.id === voiceName);
+    return (matches.find(voice => voice.provider === config.ttsProvider) ?? matches[0])?.provider;
+  }
+
+  private async getVoices(): Promise<CatalogVoice[]> {
+    if (Date.now() < this.expiresAt) return this.voices;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<CatalogVoice[]> {
+    const names = TTS_PROVIDER_NAMES.filter(isTtsProviderConfigured);
+    const lists = await Promise.all(names.map(async name => {
+      try {
+        const voices = await getTtsProvider(name).listVoices();
+        return voices.map(voice => ({
+          key: `${name}/${voice.id}`,
+          provider: name,
+          id: voice.id,
+          displayName: voice.displayName,
+          gender: voice.gender,
+          locale: voice.locale,
+          styles: voice.styles,
+          samplePhrase: samplePhraseFor(voice.locale),
+          featured: voice.featured !== false,
+        }));
+      } catch (error) {
+        console.warn(`[Voices] Could not list ${name} voices:`, error);
+        return [];
+      }
+    }));
+    this.voices = lists.reduce<CatalogVoice[]>((all, list) => all.concat(list), []);
+    this.expiresAt = Date.now() + CATALOG_TTL_MS;
+    return this.voices;
+  }
+
+  private async getOffered(): Promise<Set<string> | null> {
+    if (this.offered !== undefined) return this.offered;
+    try {
+      const curation = JSON.parse(await fs.readFile(config.voiceCatalogFile, 'utf8')) as CurationFile;
+      this.offered = Array.isArray(curation.offered) ? new Set(curation.offered) : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[Voices] Could not read the offered voices, using the featured ones:', error);
+      }
+      this.offered = null;
+    }
+    return this.offered;
+  }
+}
+
+export const voiceCatalog = new VoiceCatalog();
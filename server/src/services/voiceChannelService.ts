@@ -0,0 +1,340 @@
+import * as sdk from 'microsoft-cognitiveservices-speech-sdk';
+import WebSocket from 'ws';
+import { config } from '../config/env';
+import { STREAM_SAMPLE_RATE } from './speechUtil';
+import statsService from './statsService';
+import { getTtsProvider, isTtsProviderName } from './tts';
+import { getMoodVoiceStyle } from './speechServiceApi';
+import { voiceCatalog } from './voiceCatalogService';
+import { DEFAULT_LANGUAGE, validateLanguageSetting } from './languageService';
+import { CallRecorder } from './callRecordingService';
+import { getConversation } from './conversationService';
+import { RealtimeCall } from './realtimeCallService';
+import { readAzureConfidence, readAzureWords, requestWordDetail } from './stt';
+import type { VoiceClientMessage, VoiceServerMessage } from '../types/api';
+
+/**
+ * One client's full-duplex voice channel. Microphone PCM arrives as binary
+ * frames and is pushed into continuous Azure recognition, which reports interim
+ * and final transcripts; `speak` requests stream synthesized PCM back over the
+ * same socket, with word timings so the client can tell how much was heard.
+ * Only one reply is spoken at a time; a new one (or `cancel`) stops the last.
+ * When the trainee opts in, both sides of the call are recorded as they go.
+ * In speech-to-speech mode the microphone audio goes to a RealtimeCall
+ * instead, and the Realtime model hears and answers the trainee by itself.
+ */
+export class VoiceChannel {
+  private recognizer: sdk.SpeechRecognizer | null = null;
+  private audioStream: sdk.PushAudioInputStream | null = null;
+  // Samples pushed into the current recognition stream
+  private streamSamples = 0;
+  private speech: { id: string; controller: AbortController } | null = null;
+  private recorder: CallRecorder | null = null;
+  private call: RealtimeCall | null = null;
+  // When the last utterance was recognized, until the reply to it starts playing
+  private lastFinalAt: number | null = null;
+
+  // owner is the authenticated username, undefined when auth is disabled
+  constructor(private readonly socket: WebSocket, private readonly owner?: string) {}
+
+  start(): void {
+    this.socket.on('message', (data, isBinary) => {
+      if (isBinary) this.pushAudio(data);
+      else this.handleMessage(data.toString());
+    });
+    this.socket.on('close', () => this.close());
+    this.send({ type: 'ready' });
+  }
+
+  private handleMessage(raw: string): void {
+    let message: VoiceClientMessage | null = null;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      // Answered below, like JSON that is not a message (e.g. `null` or a bare string)
+    }
+    if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+      this.send({ type: 'error', error: 'Voice messages must be JSON' });
+      return;
+    }
+    switch (message.type) {
+      case 'start':
+        if (message.mode === 'speech-to-speech') void this.startCall(message);
+        else this.startRecognition(message);
+        break;
+      case 'stop':
+        this.stopRecognition();
+        this.stopCall();
+        break;
+      case 'speak':
+        void this.speak(message);
+        break;
+      case 'cancel':
+        // The trainee talked over the reply; stop synthesizing the rest of it
+        this.speech?.controller.abort();
+        this.call?.cancelReply();
+        this.recorder?.cutReply();
+        break;
+      case 'record':
+        void this.setRecording(message);
+        break;
+      default:
+        this.send({ type: 'error', error: `Unknown voice message type '${(message as { type?: string }).type}'` });
+    }
+  }
+
+  private pushAudio(data: WebSocket.RawData): void {
+    // Audio sent before `start` (or before the Realtime session is ready) or after `stop` has nowhere to go
+    if (this.call ? !this.call.ready : !this.audioStream) return;
+    const chunks = Array.isArray(data) ? data : [Buffer.from(data as ArrayBuffer)];
+    for (const chunk of chunks) {
+      if (this.call) this.call.appendAudio(chunk);
+      else this.audioStream?.write(chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength) as ArrayBuffer);
+      this.recorder?.addTraineeAudio(chunk, this.streamSamples);
+      this.streamSamples += chunk.byteLength / 2;
+    }
+  }
+
+  private startRecognition(message: Extract<VoiceClientMessage, { type: 'start' }>): void {
+    if (this.recognizer || this.call) return;
+    const { language, alternateLanguages } = message;
+    try {
+      validateLanguageSetting({ language, alternateLanguages }, 'Session');
+    } catch (error) {
+      this.send({ type: 'error', error: (error as Error).message });
+      return;
+    }
+    const candidates = alternateLanguages?.length ? [language || DEFAULT_LANGUAGE, ...alternateLanguages] : null;
+    const audioStream = sdk.AudioInputStream.createPushStream(sdk.AudioStreamFormat.getWaveFormatPCM(STREAM_SAMPLE_RATE, 16, 1));
+    const speechConfig = sdk.SpeechConfig.fromSubscription(config.azureSpeechKey, config.azureSpeechRegion);
+    // Same pause length the browser recognizer used to end an utterance
+    speechConfig.setProperty(sdk.PropertyId.Speech_SegmentationSilenceTimeoutMs, '600');
+    // Detailed results time and score each word of the final transcript
+    speechConfig.outputFormat = sdk.OutputFormat.Detailed;
+    requestWordDetail(speechConfig);
+    const audioConfig = sdk.AudioConfig.fromStreamInput(audioStream);
+    let recognizer: sdk.SpeechRecognizer;
+    if (candidates) {
+      // Bilingual trainees switch mid-call, so keep identifying the language on every utterance
+      speechConfig.setProperty(sdk.PropertyId.SpeechServiceConnection_LanguageIdMode, 'Continuous');
+      recognizer = sdk.SpeechRecognizer.FromConfig(speechConfig, sdk.AutoDetectSourceLanguageConfig.fromLanguages(candidates), audioConfig);
+    } else {
+      speechConfig.speechRecognitionLanguage = language || DEFAULT_LANGUAGE;
+      recognizer = new sdk.SpeechRecognizer(speechConfig, audioConfig);
+    }
+    this.audioStream = audioStream;
+    this.recognizer = recognizer;
+    this.streamSamples = 0;
+
+    recognizer.recognizing = (_sender: sdk.Recognizer, event: sdk.SpeechRecognitionEventArgs) => {
+      if (event.result.text) this.send({ type: 'interim', text: event.result.text });
+    };
+    recognizer.recognized = (_sender: sdk.Recognizer, event: sdk.SpeechRecognitionEventArgs) => {
+      if (event.result.reason !== sdk.ResultReason.RecognizedSpeech || !event.result.text) return;
+      // Offset and duration are reported in 100-nanosecond ticks
+      const durationMs = Math.round(event.result.duration / 10000);
+      statsService.recordSpeechDuration(durationMs / 1000);
+      this.recorder?.addTraineeTurn(event.result.text, Math.round(event.result.offset / 10000), durationMs);
+      const detected = candidates ? sdk.AutoDetectSourceLanguageResult.fromResult(event.result).language : undefined;
+      const recognizedLanguage = detected || language || DEFAULT_LANGUAGE;
+      const json = event.result.properties?.getProperty(sdk.PropertyId.SpeechServiceResponse_JsonResult);
+      this.send({
+        type: 'final',
+        text: event.result.text,
+        durationMs,
+        language: recognizedLanguage,
+        recognition: {
+          words: readAzureWords(json, event.result.offset),
+          confidence: readAzureConfidence(json),
+          durationMs,
+          language: recognizedLanguage
+        }
+      });
+      this.lastFinalAt = Date.now();
+    };
+    recognizer.canceled = (_sender: sdk.Recognizer, event: sdk.SpeechRecognitionCanceledEventArgs) => {
+      if (event.reason === sdk.CancellationReason.Error) {
+        console.error('[Voice] Recognition canceled:', event.errorDetails);
+        this.send({ type: 'error', error: `Recognition canceled: ${event.errorDetails}` });
+        this.stopRecognition();
+      }
+    };
+
+    recognizer.startContinuousRecognitionAsync(
+      () => {
+        // A cancellation may already have torn this recognizer down
+        if (this.recognizer === recognizer) this.send({ type: 'listening' });
+      },
+      (error: string) => {
+        console.error('[Voice] Failed to start recognition:', error);
+        this.send({ type: 'error', error: 'Failed to start speech recognition' });
+        this.stopRecognition();
+      }
+    );
+  }
+
+  /** Hands the call to the Realtime model, which plays the customer of the given conversation. */
+  private async startCall({ conversationId }: Extract<VoiceClientMessage, { type: 'start' }>): Promise<void> {
+    if (this.call || this.recognizer) return;
+    if (!conversationId) {
+      this.send({ type: 'error', error: 'Speech-to-speech mode needs a conversation' });
+      return;
+    }
+    let conversation;
+    try {
+      conversation = await getConversation(conversationId, this.owner);
+    } catch {
+      this.send({ type: 'error', error: `Conversation '${conversationId}' not found` });
+      return;
+    }
+    const call = new RealtimeCall(conversation, this.owner, {
+      send: message => this.send(message),
+      sendAudio: chunk => {
+        if (this.socket.readyState === WebSocket.OPEN) this.socket.send(chunk, { binary: true });
+      },
+      recorder: () => this.recorder
+    });
+    this.call = call;
+    this.streamSamples = 0;
+    try {
+      await call.start();
+      if (this.call === call) this.send({ type: 'listening' });
+    } catch (error) {
+      console.error('[Voice] Failed to start the Realtime conversation:', error);
+      call.close();
+      if (this.call !== call) return;
+      this.call = null;
+      this.send({ type: 'error', error: `Failed to start the speech-to-speech conversation: ${(error as Error).message}` });
+    }
+  }
+
+  private stopCall(): void {
+    const call = this.call;
+    if (!call) return;
+    this.call = null;
+    call.close();
+    this.send({ type: 'stopped' });
+  }
+
+  private stopRecognition(): void {
+    const { recognizer, audioStream } = this;
+    if (!recognizer) return;
+    this.recognizer = null;
+    this.audioStream = null;
+    // Closing the stream lets the recognizer finish the last utterance
+    audioStream?.close();
+    const finish = () => {
+      recognizer.close();
+      this.send({ type: 'stopped' });
+    };
+    recognizer.stopContinuousRecognitionAsync(finish, (error: string) => {
+      console.warn('[Voice] Failed to stop recognition cleanly:', error);
+      finish();
+    });
+  }
+
+  private async speak(message: Extract<VoiceClientMessage, { type: 'speak' }>): Promise<void> {
+    const { id, text, voiceName, voiceGender, provider, mood, language } = message;
+    if (typeof text !== 'string' || !text.trim()) {
+      this.send({ type: 'error', error: 'Text to speak is required', id });
+      return;
+    }
+    if (provider !== undefined && !isTtsProviderName(provider)) {
+      this.send({ type: 'error', error: `Unknown speech provider '${provider}'`, id });
+      return;
+    }
+    this.speech?.controller.abort();
+    const controller = new AbortController();
+    this.speech = { id, controller };
+
+    try {
+      // A catalog voice brings its own engine unless the client names one
+      const tts = getTtsProvider(provider ?? await voiceCatalog.providerFor(voiceName));
+      const voiceStyle = await getMoodVoiceStyle(mood);
+      this.send({ type: 'audio-start', id, sampleRate: tts.streamSampleRate });
+      this.recorder?.startReply(id, text, tts.streamSampleRate);
+      await tts.stream({ text, voiceName, voiceGender, voiceStyle, language, signal: controller.signal }, {
+        onAudio: chunk => {
+          // Latency of the classic chain: recognition, the chat reply and synthesis up to the first audio
+          if (this.lastFinalAt !== null) {
+            statsService.recordReplyLatency('pipeline', Date.now() - this.lastFinalAt);
+            this.lastFinalAt = null;
+          }
+          if (this.socket.readyState === WebSocket.OPEN) this.socket.send(chunk, { binary: true });
+          this.recorder?.addReplyAudio(id, chunk);
+        },
+        onWord: word => this.send({ type: 'word', id, ...word })
+      });
+      this.recorder?.endReply(id);
+      this.send({ type: 'audio-end', id, ...(controller.signal.aborted ? { cancelled: true } : {}) });
+    } catch (error) {
+      console.error('[Voice] Speech synthesis failed:', error);
+      this.send({ type: 'error', error: 'Speech synthesis failed', id });
+      this.send({ type: 'audio-end', id, cancelled: true });
+    } finally {
+      if (this.speech?.controller === controller) this.speech = null;
+    }
+  }
+
+  /**
+   * Starts, continues or stops recording. A recording without a conversation
+   * yet is kept until the client names one; moving to another conversation
+   * saves the recording so far and starts a new one.
+   */
+  private async setRecording({ enabled, conversationId = null }: Extract<VoiceClientMessage, { type: 'record' }>): Promise<void> {
+    const current = this.recorder;
+    if (!enabled) {
+      this.recorder = null;
+      if (current) await this.saveRecording(current);
+      else this.send({ type: 'recording-stopped', conversationId: null, durationMs: 0 });
+      return;
+    }
+    if (current && current.conversationId === conversationId) return;
+    if (conversationId) {
+      try {
+        await getConversation(conversationId, this.owner);
+      } catch {
+        this.send({ type: 'recording-stopped', conversationId: null, durationMs: 0, error: `Conversation '${conversationId}' not found` });
+        return;
+      }
+    }
+    if (current && current.conversationId === null && conversationId) {
+      current.conversationId = conversationId;
+      return;
+    }
+    this.recorder = new CallRecorder(conversationId);
+    await this.saveRecording(current);
+  }
+
+  private async saveRecording(recorder: CallRecorder | null): Promise<void> {
+    if (!recorder) return;
+    try {
+      const recording = await recorder.save();
+      this.send({
+        type: 'recording-stopped',
+        conversationId: recording ? recorder.conversationId : null,
+        durationMs: recording?.durationMs ?? 0
+      });
+    } catch (error) {
+      console.error('[Recording] Failed to save call recording:', error);
+      this.send({ type: 'recording-stopped', conversationId: null, durationMs: 0, error: 'Failed to save the call recording' });
+    }
+  }
+
+  private send(message: VoiceServerMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private close(): void {
+    this.speech?.controller.abort();
+    this.speech = null;
+    this.stopRecognition();
+    this.call?.close();
+    this.call = null;
+    const recorder = this.recorder;
+    this.recorder = null;
+    void this.saveRecording(recorder);
+  }
+}
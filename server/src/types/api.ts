@@ -7,6 +7,19 @@ export interface Persona {
   behavior?: string;
   needs?: string;
   painpoints?: string;
+  // Language the persona speaks (BCP-47, e.g. 'es-MX'), used unless the scenario or session sets one
+  language?: string;
+  // Other languages the persona may switch to
+  alternate_languages?: string[];
+}
+
+// Generation parameters from a template's Prompty frontmatter or a scenario override
+export interface ModelParameters {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
 }
 
 export interface Template {
@@ -14,12 +27,35 @@ export interface Template {
   name: string;
   description: string;
   prompt: string;
+  // Prompty `model` frontmatter, kept for templates synced from .prompty files
+  model?: {
+    api?: string;
+    configuration?: Record<string, unknown>;
+    parameters?: ModelParameters;
+  };
 }
 
 export interface Mood {
   id: string;
   mood: string;
   description?: string;
+  // How the simulated customer's voice carries this mood
+  voiceStyle?: MoodVoiceStyle;
+}
+
+/**
+ * Expressive speech settings for a mood, rendered as SSML prosody and an
+ * Azure `mstts:express-as` speaking style. Voices ignore styles they lack.
+ */
+export interface MoodVoiceStyle {
+  // Azure speaking style, e.g. 'angry', 'cheerful', 'terrified'
+  style?: string;
+  // Style intensity from 0.01 to 2 (1 is the voice's default)
+  styleDegree?: number;
+  // Relative (+10%) or named (slow, fast) prosody values
+  rate?: string;
+  pitch?: string;
+  volume?: string;
 }
 
 export interface ChatMessage {
@@ -27,6 +63,10 @@ export interface ChatMessage {
   content: string;
 }
 
+// How a voice call is carried: speech recognition, chat model and speech synthesis in turn ('pipeline'),
+// or the Realtime model hearing the trainee and answering aloud itself ('speech-to-speech')
+export type VoiceMode = 'pipeline' | 'speech-to-speech';
+
 export interface ScenarioParameters {
   persona: string;
   mood: string;
@@ -35,6 +75,11 @@ export interface ScenarioParameters {
   voice: string;
   templateName?: string;
   scenarioId?: string;
+  // Session language chosen by the trainee; overrides the scenario's and persona's
+  language?: string;
+  alternateLanguages?: string[];
+  // Voice mode chosen for the session; 'pipeline' when unset
+  voiceMode?: VoiceMode;
 }
 
 export interface ChatRequest {
@@ -42,20 +87,330 @@ export interface ChatRequest {
   parameters?: ScenarioParameters;
 }
 
-export interface ChatResponse {
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Where the call stands against the scenario's exit criteria
+export type ConversationState = 'in-progress' | 'resolution-reached' | 'customer-abandoned';
+
+export interface ExitCriteriaAssessment {
+  state: ConversationState;
+  // Scenario exit signals observed so far (cumulative across turns)
+  signalsMet: string[];
+  signalsPending: string[];
+  reason?: string;
+  assessedAt: string;
+  // Assistant message the assessment was made after; it only applies to branches containing it
+  messageId?: string;
+}
+
+// Where a reply leaves the call, as chat responses and the stream's `assessment` event carry it
+export interface ReplyAssessment {
+  conversationState?: ConversationState;
+  exitCriteria?: ExitCriteriaAssessment;
+}
+
+export interface ChatResponse extends ReplyAssessment {
   role: 'assistant';
   content: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: ChatUsage;
+  // Effective generation parameters (template frontmatter merged with scenario overrides)
+  modelParameters?: ModelParameters;
+}
+
+// Message metadata persisted with each transcript entry
+// The trainee talked over a reply: its content was cut down to what had been spoken
+export interface ReplyInterruption {
+  // Characters of the original reply that were spoken before the cut
+  spokenChars: number;
+  fullContent: string;
+  interruptedAt: string;
+}
+
+// One word of a recognized utterance, timed from the start of the utterance
+export interface RecognizedWord {
+  word: string;
+  offsetMs: number;
+  durationMs: number;
+  // 0–1, or null when the engine does not score single words
+  confidence: number | null;
+}
+
+// How a spoken trainee turn was recognized, kept so recognition errors can be told apart from what was said
+export interface SpeechRecognitionDetail {
+  words: RecognizedWord[];
+  // Confidence of the utterance as a whole; null when the engine does not score it
+  confidence: number | null;
+  durationMs: number;
+  language?: string;
+}
+
+export interface ConversationMessageMetadata {
+  usage?: ChatUsage;
+  modelParameters?: ModelParameters;
+  interruption?: ReplyInterruption;
+  // Set on user messages that were spoken rather than typed
+  recognition?: SpeechRecognitionDetail;
+  // Set on replies spoken by the Realtime model: from the end of the trainee's speech to the first reply audio
+  replyLatencyMs?: number;
+}
+
+export interface ConversationMessage extends ChatMessage {
+  id: string;
+  // Previous message on the same branch; null for the first turn
+  parentId: string | null;
+  seq: number;
+  createdAt: string;
+  metadata?: ConversationMessageMetadata;
+  // Every version of this message (regenerated, edited or forked), oldest first.
+  // Only set on the active branch, and only when there is more than one.
+  siblingIds?: string[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  status: 'active' | 'ended';
+  parameters: ScenarioParameters;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Rolling summary of the turns that no longer fit in the model's context window
+export interface ContextSummary {
+  content: string;
+  // Highest message seq folded into the summary
+  coveredThroughSeq: number;
+  coveredMessageCount: number;
+  updatedAt: string;
+}
+
+// Live coaching feedback on one trainee turn, based on the scenario's evaluation criteria
+export interface CoachingHint {
+  id: string;
+  // 1-based number of the trainee turn the hint is about
+  turn: number;
+  content: string;
+  createdAt: string;
+}
+
+export interface CoachingSettings {
+  // False while a supervisor has turned coaching off (e.g. for assessed runs)
+  enabled: boolean;
+  // Whether the caller may change `enabled`
+  canManage: boolean;
+}
+
+// One voice from a configured speech synthesis engine, as listed by /api/speech/voices
+export interface VoiceCatalogEntry {
+  // `provider/id`, unique across engines; what admins offer or withdraw
+  key: string;
+  provider: 'azure-speech' | 'azure-realtime' | 'local' | 'mock';
+  // Value to send as voiceName
+  id: string;
+  displayName: string;
+  gender: 'male' | 'female' | 'neutral';
+  locale: string;
+  // Speaking styles usable in mood voice styles
+  styles: string[];
+  // Short line in the voice's language for previews
+  samplePhrase: string;
+  // Whether trainees see the voice in the picker
+  offered: boolean;
+}
+
+export interface VoiceCatalogFilter {
+  provider?: string;
+  // Matches the locale or its language, e.g. 'en' or 'en-GB'
+  locale?: string;
+  gender?: string;
+  // Also list voices that are not offered (for curation)
+  includeWithdrawn?: boolean;
+}
+
+export type AccountSection = 'overview' | 'services' | 'devices' | 'memos' | 'outages';
+
+export type DesktopLookupAction = 'search' | 'view';
+
+// One trainee action on the mock agent desktop, logged for the evaluator
+export interface DesktopLookup {
+  id: string;
+  action: DesktopLookupAction;
+  // Search text for `search`
+  query?: string;
+  // Whether the search found the scenario's account
+  matched?: boolean;
+  // Section opened for `view`
+  section?: AccountSection;
+  // Number of trainee turns taken when the action happened
+  turn: number;
+  createdAt: string;
+}
+
+// Account search hit; the full record is fetched section by section
+export interface AccountSearchResult {
+  accountNumber: string;
+  holderName: string;
+  serviceAddress?: string;
+}
+
+// One stretch of speech in a call recording, in milliseconds from the start of the file
+export interface RecordingTurn {
+  speaker: 'trainee' | 'customer';
+  startMs: number;
+  endMs: number;
+  text: string;
+  // The trainee talked over this customer reply; the recording stops where they did
+  interrupted?: boolean;
+}
+
+// Two-channel WAV of a voice call: the trainee's microphone on the left, the customer's voice on the right
+export interface CallRecording {
+  sampleRate: number;
+  durationMs: number;
+  sizeBytes: number;
+  turns: RecordingTurn[];
+  createdAt: string;
+  updatedAt: string;
+  // When the retention sweep deletes the audio; unset when recordings are kept indefinitely
+  expiresAt?: string;
+}
+
+export interface FillerWordCount {
+  word: string;
+  count: number;
+}
+
+// How the trainee delivered the call, for coaching; durations are in milliseconds
+export interface SpeechAnalytics {
+  // Trainee words per minute of their own speech; null when no turn was spoken
+  wordsPerMinute: number | null;
+  traineeWordCount: number;
+  // Most frequent first
+  fillerWords: FillerWordCount[];
+  fillerWordCount: number;
+  // Filler words per 100 spoken trainee words
+  fillerRate: number | null;
+  traineeTalkMs: number;
+  customerTalkMs: number;
+  // Trainee's share of the talk time, 0–1
+  talkRatio: number | null;
+  longestSilenceMs: number;
+  // How long the trainee took to start answering after each customer turn
+  responseLatenciesMs: number[];
+  averageResponseLatencyMs: number | null;
+  // 'recording' when timed from the call audio, 'transcript' when estimated from message timestamps
+  source: 'recording' | 'transcript';
+  computedAt: string;
+}
+
+// Feature-specific conversation state, stored as JSON alongside the conversation
+export interface ConversationMetadata {
+  // Running summaries of the branches that outgrew the context window
+  contextSummaries?: ContextSummary[];
+  // The single summary stored before branches had their own
+  contextSummary?: ContextSummary;
+  exitCriteria?: ExitCriteriaAssessment;
+  coachingHints?: CoachingHint[];
+  desktopLookups?: DesktopLookup[];
+  recording?: CallRecording;
+  speechAnalytics?: SpeechAnalytics;
+  // Last message of the branch being shown; null for an empty branch, unset for linear transcripts
+  activeLeafId?: string | null;
+}
+
+// A server-owned conversation: the system prompt is rendered once at creation
+export interface Conversation extends ConversationSummary {
+  owner?: string | null;
+  systemPrompt: string;
+  modelParameters: ModelParameters;
+  contextSummary: ContextSummary | null;
+  exitCriteria: ExitCriteriaAssessment | null;
+  coachingHints: CoachingHint[];
+  desktopLookups: DesktopLookup[];
+  // Audio of the call, when it was recorded
+  recording: CallRecording | null;
+  // Delivery analytics as last computed; see POST /api/conversations/:id/analytics
+  speechAnalytics: SpeechAnalytics | null;
+  // The active branch, first turn to last
+  messages: ConversationMessage[];
+}
+
+export interface ConversationTurnRequest {
+  content: string;
+  // Message the turn follows; null starts a new branch from the beginning. Defaults to the end of the active branch.
+  parentId?: string | null;
+  // Word timing and confidence when the turn was spoken
+  recognition?: SpeechRecognitionDetail;
+}
+
+export interface ConversationInterruptionRequest {
+  // How much of the reply was spoken, counted in characters of its content
+  spokenChars: number;
+}
+
+export interface ConversationRegenerateRequest {
+  // User message to reply to again; defaults to the last user message on the active branch
+  messageId?: string;
 }
 
+export interface ConversationBranchRequest {
+  // null selects the empty branch before the first turn
+  messageId: string | null;
+}
+
+export interface ConversationTurnResponse extends ChatResponse {
+  conversationId: string;
+  userMessage: ConversationMessage;
+  assistantMessage: ConversationMessage;
+  contextSummary: ContextSummary | null;
+}
+
+// Server-Sent Events emitted by POST /api/chat/stream
+// Why an LLM call failed; returned with error responses so clients can explain it
+export type LlmErrorCode =
+  | 'content-filter'
+  | 'rate-limited'
+  | 'timeout'
+  | 'misconfigured'
+  | 'upstream-5xx'
+  | 'circuit-open'
+  | 'unknown';
+
+export interface ChatErrorResponse {
+  error: string;
+  code?: LlmErrorCode;
+  // Present when the caller should wait before trying again
+  retryAfterSeconds?: number;
+}
+
+export type ChatStreamEvent =
+  | { event: 'delta'; data: { content: string } }
+  | { event: 'done'; data: ChatResponse }
+  // After `done`, when the scenario has exit signals to check the reply against
+  | { event: 'assessment'; data: Required<ReplyAssessment> }
+  | { event: 'error'; data: ChatErrorResponse };
+
 export interface Stats {
   llmTokenCount: number;
   speechDurationSeconds: number;
   audioCharacterCount: number;
+  // Replies the trainee talked over
+  interruptionCount: number;
+  // Synthesized clips served from the audio cache, and those that had to be synthesized
+  audioCacheHits: number;
+  audioCacheMisses: number;
+  // Time from the end of the trainee's speech to the first reply audio, per voice mode
+  replyLatency: Record<VoiceMode, ReplyLatencyStats>;
+}
+
+export interface ReplyLatencyStats {
+  count: number;
+  averageMs: number | null;
 }
 
 export interface Scenario {
@@ -84,6 +439,78 @@ export interface Scenario {
   scenario_type: string;
   difficulty_level?: string;
   expected_duration_seconds?: number;
+  // Overrides the template's model parameters for this scenario (e.g. lower temperature)
+  model_parameters?: ModelParameters;
+  // Language of the call (BCP-47, e.g. 'es-US'), and others a bilingual customer may switch to
+  language?: string;
+  alternate_languages?: string[];
+  // Mock CRM record the trainee can look up on the agent desktop
+  account?: ScenarioAccount;
   version?: string;
   [key: string]: unknown;
 }
+
+export interface ScenarioAccount {
+  account_number: string;
+  holder: {
+    // Defaults to the simulated customer's name for the conversation
+    name?: string;
+    phone?: string;
+    email?: string;
+    service_address?: string;
+    // Details the customer can give to verify their identity
+    security_pin?: string;
+    last4_ssn?: string;
+    customer_since?: string;
+  };
+  authorized_users?: Array<{ name: string; relationship: string }>;
+  services: Array<{ name: string; status: string; monthly_rate?: number; notes?: string }>;
+  devices: Array<{ type: string; model: string; serial?: string; status: string; last_seen?: string }>;
+  memos: Array<{ date: string; author: string; note: string }>;
+  outages?: Array<{ area: string; status: 'active' | 'resolved'; description: string; started_at?: string; estimated_resolution?: string }>;
+}
+
+// Messages on the /api/voice WebSocket, sent as JSON text frames. Audio travels in
+// binary frames: 16 kHz 16-bit mono PCM from the client while listening, and the
+// same format from the server between `audio-start` and `audio-end`.
+export type VoiceClientMessage =
+  // Session language to recognize (en-US by default), and alternates to detect among
+  // With mode 'speech-to-speech', the Realtime model holds the call for the conversation instead
+  | { type: 'start'; language?: string; alternateLanguages?: string[]; mode?: VoiceMode; conversationId?: string }
+  | { type: 'stop' }
+  | {
+      type: 'speak';
+      id: string;
+      text: string;
+      voiceName?: string;
+      voiceGender?: 'male' | 'female';
+      // Synthesis engine for this reply; the server's TTS_PROVIDER when omitted
+      provider?: 'azure-speech' | 'azure-realtime' | 'local' | 'mock';
+      // Customer mood name; its voice style colours the reply
+      mood?: string;
+      // Session language; picks the default voice when voiceName is unset
+      language?: string;
+    }
+  | { type: 'cancel' }
+  // Records both sides of the call. The conversation id may follow once the first turn has created
+  // it; a different id (or null for a new conversation) saves the recording so far and starts another.
+  | { type: 'record'; enabled: boolean; conversationId?: string | null };
+
+export type VoiceServerMessage =
+  | { type: 'ready' }
+  | { type: 'listening' }
+  | { type: 'interim'; text: string }
+  | { type: 'final'; text: string; durationMs: number; language: string; recognition: SpeechRecognitionDetail }
+  // Speech-to-speech only: the trainee started talking (the reply being spoken stops), and a
+  // turn of either side was stored in the conversation, with the assessment after a reply
+  | { type: 'speech-started' }
+  | { type: 'turn'; message: ConversationMessage; exitCriteria?: ExitCriteriaAssessment }
+  | { type: 'stopped' }
+  | { type: 'audio-start'; id: string; sampleRate: number }
+  // textOffset is where the word ends in the spoken text; audioOffsetMs where it starts in the audio
+  | { type: 'word'; id: string; textOffset: number; audioOffsetMs: number }
+  | { type: 'audio-end'; id: string; cancelled?: boolean }
+  // Answers every recording that ends while the socket is open; durationMs is the conversation's whole
+  // recording, 0 with a null conversationId when nothing was kept (no audio, or no conversation named)
+  | { type: 'recording-stopped'; conversationId: string | null; durationMs: number; error?: string }
+  | { type: 'error'; error: string; id?: string };
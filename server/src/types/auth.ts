@@ -3,8 +3,12 @@ export interface AuthUser {
   password: string;
   apiKey?: string;
   rateLimitOverride?: number;
+  // Supervisors can change training policy such as coaching hints
+  role?: UserRole;
 }
 
+export type UserRole = 'trainee' | 'supervisor';
+
 export interface AuthConfig {
   sessionSecret: string;
   sessionDurationHours: number;
@@ -17,6 +21,7 @@ export interface UserSession {
   sessionId: string;
   userId: string;
   username: string;
+  role?: UserRole;
   createdAt: Date;
   expiresAt: Date;
   lastActivity: Date;
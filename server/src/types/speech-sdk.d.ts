@@ -1,2 +0,0 @@
-// Ambient declaration for Microsoft Cognitive Services Speech SDK
-declare module 'microsoft-cognitiveservices-speech-sdk';
@@ -0,0 +1,25 @@
+import type { Response } from 'express';
+
+/**
+ * Prepares a response for Server-Sent Events and returns an AbortSignal that
+ * fires if the client disconnects before the stream is finished.
+ */
+export function openEventStream(res: Response): AbortSignal {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so deltas reach the browser immediately
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+  return abortController.signal;
+}
+
+// Write a single Server-Sent Event frame
+export function sendEvent(res: Response, { event, data }: { event: string; data: unknown }) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
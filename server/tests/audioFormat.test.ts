@@ -0,0 +1,139 @@
+import {
+  AudioFormatError,
+  contentTypeFor,
+  convertClip,
+  createAudioStreamEncoder,
+  formatOfClip,
+  isClipInFormat,
+  negotiateAudioFormat,
+  readAudioOutputOptions,
+} from '../src/services/tts/audioFormat';
+import { planSynthesizedAudio, prepareSpeech } from '../src/services/speechServiceApi';
+import { AudioCache, CachedTtsProvider, MockTtsProvider, setTtsProvider } from '../src/services/tts';
+import { readWavHeader, toWav } from '../src/services/tts/wav';
+
+const pcm = (samples: number[]) => Buffer.from(Int16Array.from(samples).buffer);
+const wavClip = (sampleRate = 16000) => ({ audio: toWav(pcm([0, 100, 200, 300]), sampleRate), contentType: 'audio/wav' });
+const mp3Clip = { audio: Buffer.from('ID3'), contentType: 'audio/mpeg' };
+
+describe('readAudioOutputOptions', () => {
+  it('reads the format and sample rate, with Opus shorthands', () => {
+    expect(readAudioOutputOptions({})).toEqual({});
+    expect(readAudioOutputOptions({ format: 'PCM', sampleRate: '8000' })).toEqual({ format: 'pcm', sampleRate: 8000 });
+    expect(readAudioOutputOptions({ format: 'opus' })).toEqual({ format: 'ogg-opus' });
+    expect(readAudioOutputOptions({ format: 'ogg', sampleRate: '' })).toEqual({ format: 'ogg-opus' });
+  });
+
+  it('answers 400 to formats and rates it cannot produce', () => {
+    expect(() => readAudioOutputOptions({ format: 'flac' })).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => readAudioOutputOptions({ sampleRate: '11025' })).toThrow(AudioFormatError);
+    expect(() => readAudioOutputOptions({ format: 'ogg-opus', sampleRate: '44100' })).toThrow('Opus does not support 44100 Hz');
+  });
+});
+
+describe('negotiateAudioFormat', () => {
+  it('lets an explicit format win over Accept', () => {
+    expect(negotiateAudioFormat({ format: 'mp3' }, 'audio/wav', 'wav')).toBe('mp3');
+  });
+
+  it('keeps the engine\'s own format without a preference', () => {
+    expect(negotiateAudioFormat({}, undefined, 'mp3')).toBe('mp3');
+    expect(negotiateAudioFormat({}, '*/*', 'wav')).toBe('wav');
+    expect(negotiateAudioFormat({}, 'audio/*', 'mp3')).toBe('mp3');
+  });
+
+  it('follows quality values, with the own format taking ties', () => {
+    expect(negotiateAudioFormat({}, 'audio/mpeg;q=0.5, audio/ogg', 'mp3')).toBe('ogg-opus');
+    expect(negotiateAudioFormat({}, 'audio/ogg, audio/mpeg', 'mp3')).toBe('mp3');
+    expect(negotiateAudioFormat({}, 'audio/ogg, audio/pcm', 'mp3')).toBe('ogg-opus');
+    expect(negotiateAudioFormat({}, 'audio/wav;q=0, audio/*;q=0.1, audio/pcm', 'wav')).toBe('pcm');
+  });
+
+  it('answers 406 when nothing accepted is on offer', () => {
+    expect(() => negotiateAudioFormat({}, 'text/html, audio/wav;q=0', 'wav')).toThrow(expect.objectContaining({ status: 406 }));
+  });
+});
+
+describe('contentTypeFor and formatOfClip', () => {
+  it('names raw PCM with its rate', () => {
+    expect(contentTypeFor('pcm', 16000)).toBe('audio/pcm; rate=16000; channels=1; bits=16; endianness=little');
+    expect(contentTypeFor('ogg-opus')).toBe('audio/ogg; codecs=opus');
+  });
+
+  it('tells a clip\'s format from its content type', () => {
+    expect(formatOfClip({ audio: Buffer.alloc(0), contentType: 'audio/ogg; codecs=opus' })).toBe('ogg-opus');
+    expect(formatOfClip({ audio: Buffer.alloc(0), contentType: 'audio/x-wav' })).toBe('wav');
+    expect(formatOfClip({ audio: Buffer.alloc(0), contentType: 'application/octet-stream' })).toBe('mp3');
+  });
+});
+
+describe('convertClip', () => {
+  it('returns a clip already in the format as it is', async () => {
+    const clip = wavClip(16000);
+    expect(isClipInFormat(clip, { format: 'wav', sampleRate: 16000 })).toBe(true);
+    expect(await convertClip(clip, { format: 'wav' })).toEqual({ ...clip, sampleRate: 16000 });
+    expect(isClipInFormat(mp3Clip, { format: 'mp3', sampleRate: 24000 })).toBe(false);
+  });
+
+  it('resamples and rewraps WAV in process', async () => {
+    const converted = await convertClip(wavClip(16000), { format: 'wav', sampleRate: 8000 });
+    expect(converted.sampleRate).toBe(8000);
+    expect(readWavHeader(converted.audio)).toEqual({ sampleRate: 8000, byteRate: 16000, dataOffset: 44 });
+    expect(converted.audio.subarray(44)).toEqual(pcm([0, 200]));
+  });
+
+  it('unwraps WAV to raw PCM', async () => {
+    const converted = await convertClip(wavClip(24000), { format: 'pcm' });
+    expect(converted).toEqual({ audio: pcm([0, 100, 200, 300]), contentType: contentTypeFor('pcm', 24000), sampleRate: 24000 });
+  });
+});
+
+describe('createAudioStreamEncoder', () => {
+  it('streams WAV with an open-ended header and samples split across chunks', async () => {
+    const chunks: Buffer[] = [];
+    const encoder = await createAudioStreamEncoder({ format: 'wav' }, 16000, chunk => chunks.push(chunk));
+    const audio = pcm([1, 2, 3]);
+    encoder.write(audio.subarray(0, 3));
+    encoder.write(audio.subarray(3));
+    await encoder.end();
+    const output = Buffer.concat(chunks);
+    expect(readWavHeader(output)).toEqual({ sampleRate: 16000, byteRate: 32000, dataOffset: 44 });
+    expect(output.subarray(44)).toEqual(audio);
+    expect(encoder.contentType).toBe('audio/wav');
+  });
+});
+
+describe('planSynthesizedAudio', () => {
+  const wavSource = (etag?: string) => ({ format: 'wav' as const, sampleRate: 16000, etag });
+  const mp3Source = { format: 'mp3' as const, etag: 'abc' };
+
+  it('keeps the clip\'s ETag when nothing needs converting', () => {
+    expect(planSynthesizedAudio(wavSource('abc'), {}, undefined)).toEqual({ output: { format: 'wav', sampleRate: undefined }, etag: 'abc' });
+    expect(planSynthesizedAudio(wavSource('abc'), { sampleRate: 16000 }).etag).toBe('abc');
+  });
+
+  it('gives converted clips an ETag of their own, before synthesizing them', () => {
+    expect(planSynthesizedAudio(mp3Source, {}, 'audio/ogg')).toEqual({ output: { format: 'ogg-opus', sampleRate: undefined }, etag: 'abc-ogg-opus' });
+    expect(planSynthesizedAudio(wavSource('abc'), { format: 'pcm', sampleRate: 8000 }).etag).toBe('abc-pcm-8000');
+    expect(planSynthesizedAudio(mp3Source, { sampleRate: 24000 }).etag).toBe('abc-mp3-24000');
+  });
+
+  it('has no ETag for clips that are not cached', () => {
+    expect(planSynthesizedAudio(wavSource(), { format: 'pcm' }).etag).toBeUndefined();
+  });
+});
+
+describe('prepareSpeech', () => {
+  afterEach(() => setTtsProvider('mock', null));
+
+  it('knows a cached clip\'s ETag without synthesizing it', async () => {
+    const engine = new MockTtsProvider();
+    const synthesize = jest.spyOn(engine, 'synthesize');
+    const tts = new CachedTtsProvider(engine, new AudioCache('unused', 0));
+    setTtsProvider('mock', tts);
+
+    const speech = await prepareSpeech('Hello there', 'female', undefined, 'mock');
+    expect(speech.clip).toEqual({ format: 'wav', sampleRate: 16000, etag: tts.etagFor({ text: 'Hello there', voiceGender: 'female' }) });
+    expect(synthesize).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import type { Request } from 'express';
+import {
+  AudioUploadError,
+  checkDuration,
+  decodeAudioUpload,
+  detectAudioFormat,
+  parseMultipart,
+  readAudioUpload,
+  toRecognitionWav,
+} from '../src/services/audioUpload';
+import { config } from '../src/config/env';
+import { readWavHeader, toWav } from '../src/services/tts/wav';
+
+const BOUNDARY = '----form42';
+
+function multipartBody(parts: Array<{ name: string; filename?: string; type?: string; data: string | Buffer }>): Buffer {
+  const chunks: Buffer[] = [];
+  for (const part of parts) {
+    let headers = `Content-Disposition: form-data; name="${part.name}"`;
+    if (part.filename) headers += `; filename="${part.filename}"`;
+    if (part.type) headers += `\r\nContent-Type: ${part.type}`;
+    chunks.push(Buffer.from(`--${BOUNDARY}\r\n${headers}\r\n\r\n`), Buffer.from(part.data), Buffer.from('\r\n'));
+  }
+  chunks.push(Buffer.from(`--${BOUNDARY}--\r\n`));
+  return Buffer.concat(chunks);
+}
+
+// Just the parts of a request readAudioUpload looks at
+function fakeRequest(contentType: string, body: unknown, query: Record<string, string> = {}): Request {
+  const mime = contentType.split(';')[0].trim();
+  return {
+    headers: { 'content-type': contentType },
+    body,
+    query,
+    is: (type: string) => (type === mime ? type : false),
+  } as unknown as Request;
+}
+
+async function uploadError(promise: Promise<unknown>): Promise<AudioUploadError> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AudioUploadError);
+  return error as AudioUploadError;
+}
+
+describe('parseMultipart', () => {
+  const contentType = `multipart/form-data; boundary=${BOUNDARY}`;
+
+  it('takes the file and the text fields', () => {
+    const audio = Buffer.from([0, 1, 2, 0x0d, 0x0a, 3]);
+    const upload = parseMultipart(multipartBody([
+      { name: 'language', data: 'de-DE' },
+      { name: 'audio', filename: 'clip.webm', type: 'audio/webm;codecs=opus', data: audio },
+    ]), contentType);
+    expect(upload.audio.equals(audio)).toBe(true);
+    expect(upload.mimeType).toBe('audio/webm');
+    expect(upload.fields).toEqual({ language: 'de-DE' });
+  });
+
+  it('prefers the audio field when a form carries several files', () => {
+    const upload = parseMultipart(multipartBody([
+      { name: 'audio', filename: 'clip.ogg', data: 'wanted' },
+      { name: 'attachment', filename: 'notes.txt', data: 'other' },
+    ]), `multipart/form-data; boundary="${BOUNDARY}"`);
+    expect(upload.audio.toString()).toBe('wanted');
+  });
+
+  it('rejects forms without a boundary or a file', () => {
+    expect(() => parseMultipart(Buffer.alloc(0), 'multipart/form-data')).toThrow(AudioUploadError);
+    expect(() => parseMultipart(multipartBody([{ name: 'language', data: 'en-US' }]), contentType))
+      .toThrow('Multipart upload has no audio file');
+  });
+});
+
+describe('detectAudioFormat', () => {
+  it('tells containers by their magic numbers', () => {
+    expect(detectAudioFormat(toWav(Buffer.alloc(4), 16000))).toBe('wav');
+    expect(detectAudioFormat(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0]))).toBe('webm');
+    expect(detectAudioFormat(Buffer.from('OggS\0\0'))).toBe('ogg');
+    expect(detectAudioFormat(Buffer.from('\0\0\0\x20ftypM4A '))).toBe('m4a');
+    expect(detectAudioFormat(Buffer.from('ID3\x04'))).toBe('mp3');
+    expect(detectAudioFormat(Buffer.from([0xff, 0xfb, 0x90, 0]))).toBe('mp3');
+  });
+
+  it('falls back to the declared type, and to null', () => {
+    expect(detectAudioFormat(Buffer.from('????'), 'audio/x-m4a')).toBe('m4a');
+    expect(detectAudioFormat(Buffer.from('????'), 'text/plain')).toBeNull();
+    expect(detectAudioFormat(Buffer.from('????'))).toBeNull();
+  });
+});
+
+describe('readAudioUpload', () => {
+  it('reads base64 JSON, raw and multipart bodies', () => {
+    const json = readAudioUpload(fakeRequest('application/json', { audioData: Buffer.from('abc').toString('base64'), language: 'fr-FR' }));
+    expect(json.audio.toString()).toBe('abc');
+    expect(json.fields.language).toBe('fr-FR');
+
+    const raw = readAudioUpload(fakeRequest('audio/ogg; codecs=opus', Buffer.from('OggS'), { language: 'es-ES' }));
+    expect(raw.mimeType).toBe('audio/ogg');
+    expect(raw.fields).toEqual({ language: 'es-ES' });
+
+    const form = readAudioUpload(fakeRequest(`multipart/form-data; boundary=${BOUNDARY}`,
+      multipartBody([{ name: 'audio', filename: 'a.wav', data: 'RIFF' }])));
+    expect(form.audio.toString()).toBe('RIFF');
+  });
+
+  it('answers 415 to content types it cannot read', () => {
+    expect(() => readAudioUpload(fakeRequest('text/plain', 'hello'))).toThrow(expect.objectContaining({ status: 415 }));
+  });
+
+  it('answers 413 to uploads over the size limit', () => {
+    const body = Buffer.alloc(config.speechUploadMaxBytes + 1);
+    expect(() => readAudioUpload(fakeRequest('audio/wav', body))).toThrow(expect.objectContaining({ status: 413 }));
+  });
+
+  it('answers 400 to empty uploads', () => {
+    expect(() => readAudioUpload(fakeRequest('audio/wav', Buffer.alloc(0)))).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
+
+describe('decodeAudioUpload', () => {
+  it('answers 415 to formats it does not know', async () => {
+    const error = await uploadError(decodeAudioUpload({ audio: Buffer.from('not audio'), mimeType: 'text/plain', fields: {} }, 16000));
+    expect(error.status).toBe(415);
+  });
+
+  it('answers 413 to clips over the length limit', async () => {
+    expect(() => checkDuration(config.speechUploadMaxSeconds + 1)).toThrow(expect.objectContaining({ status: 413 }));
+    expect(() => checkDuration(config.speechUploadMaxSeconds)).not.toThrow();
+
+    const sampleRate = 8000;
+    const wav = toWav(Buffer.alloc((config.speechUploadMaxSeconds + 1) * sampleRate * 2), sampleRate);
+    const error = await uploadError(decodeAudioUpload({ audio: wav, fields: {} }, 16000));
+    expect(error.status).toBe(413);
+  });
+
+  it('takes the samples of a WAV already at the wanted rate without ffmpeg', async () => {
+    const pcm = Buffer.from([1, 2, 3, 4]);
+    await expect(decodeAudioUpload({ audio: toWav(pcm, 16000), fields: {} }, 16000)).resolves.toEqual(pcm);
+  });
+});
+
+describe('toRecognitionWav', () => {
+  it('rewraps the decoded samples with a header for the wanted rate', async () => {
+    const pcm = Buffer.from([1, 2, 3, 4]);
+    const wav = await toRecognitionWav({ audio: toWav(pcm, 16000), fields: {} }, 16000);
+    expect(readWavHeader(wav)).toEqual({ sampleRate: 16000, byteRate: 32000, dataOffset: 44 });
+    expect(wav.subarray(44)).toEqual(pcm);
+  });
+});
@@ -0,0 +1,65 @@
+import { getBranch, getLatestLeaf, resolveActiveLeaf, withSiblingIds } from '../src/services/messageTree';
+import type { ConversationMessage } from '../src/types/api';
+
+let seq = 0;
+function message(id: string, parentId: string | null, role: 'user' | 'assistant' = 'user'): ConversationMessage {
+  seq += 1;
+  return { id, parentId, seq, role, content: id, createdAt: new Date(seq * 1000).toISOString() };
+}
+
+// u1 ─ a1 ─ u2 ─ a2
+//   └─ a1b ─ u2b        (a1 regenerated, then continued)
+//            └ u2c ─ a2c (u2b edited)
+const messages = [
+  message('u1', null),
+  message('a1', 'u1', 'assistant'),
+  message('u2', 'a1'),
+  message('a2', 'u2', 'assistant'),
+  message('a1b', 'u1', 'assistant'),
+  message('u2b', 'a1b'),
+  message('u2c', 'a1b'),
+  message('a2c', 'u2c', 'assistant'),
+];
+const ids = (branch: ConversationMessage[]) => branch.map(m => m.id);
+
+describe('getBranch', () => {
+  it('walks from the leaf up to the first turn, oldest first', () => {
+    expect(ids(getBranch(messages, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+    expect(ids(getBranch(messages, 'a2c'))).toEqual(['u1', 'a1b', 'u2c', 'a2c']);
+  });
+
+  it('gives an empty branch for a null or unknown leaf', () => {
+    expect(getBranch(messages, null)).toEqual([]);
+    expect(getBranch(messages, 'missing')).toEqual([]);
+  });
+});
+
+describe('resolveActiveLeaf', () => {
+  it('uses the stored leaf, including null for an emptied branch', () => {
+    expect(resolveActiveLeaf(messages, 'a2')).toBe('a2');
+    expect(resolveActiveLeaf(messages, null)).toBeNull();
+  });
+
+  it('ends never-branched transcripts at their newest message', () => {
+    expect(resolveActiveLeaf(messages, undefined)).toBe('a2c');
+    expect(resolveActiveLeaf([], undefined)).toBeNull();
+  });
+});
+
+describe('getLatestLeaf', () => {
+  it('follows the newest reply at every level', () => {
+    expect(getLatestLeaf(messages, 'u1')).toBe('a2c');
+    expect(getLatestLeaf(messages, 'a1')).toBe('a2');
+  });
+
+  it('returns a leaf as it is', () => {
+    expect(getLatestLeaf(messages, 'u2b')).toBe('u2b');
+  });
+});
+
+describe('withSiblingIds', () => {
+  it('lists every version of branched messages, oldest first', () => {
+    const annotated = withSiblingIds(getBranch(messages, 'a2c'), messages);
+    expect(annotated.map(m => m.siblingIds)).toEqual([undefined, ['a1', 'a1b'], ['u2b', 'u2c'], undefined]);
+  });
+});
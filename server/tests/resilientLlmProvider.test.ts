@@ -0,0 +1,179 @@
+import { CircuitBreaker, ResilientLlmProvider } from '../src/services/llm/resilientLlmProvider';
+import { LlmError, parseRetryAfter } from '../src/services/llm/errors';
+import type { LlmCompletionResult, LlmProvider } from '../src/services/llm/types';
+
+const upstreamError = () => new LlmError('upstream-5xx', 'Bad gateway');
+const reply: LlmCompletionResult = { content: 'Hello' };
+
+// A provider whose calls are answered, in turn, by the given outcomes
+function scriptedProvider(outcomes: Array<LlmCompletionResult | Error>): LlmProvider & { calls: number } {
+  const provider = {
+    name: 'mock' as const,
+    model: 'test',
+    calls: 0,
+    async complete() {
+      const outcome = outcomes[Math.min(provider.calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    },
+    async stream() {
+      return provider.complete();
+    },
+  };
+  return provider;
+}
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('opens after the threshold of consecutive retryable failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure(upstreamError());
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure(upstreamError());
+    expect(breaker.state).toBe('open');
+    expect(() => breaker.assertCanRequest()).toThrow(expect.objectContaining({ code: 'circuit-open', retryAfterMs: 1000 }));
+  });
+
+  it('ignores failures that are not the upstream service\'s fault', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(new LlmError('content-filter', 'Blocked'));
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('lets one trial call through after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(upstreamError());
+    now += 1000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.assertCanRequest()).toBe(true);
+    expect(() => breaker.assertCanRequest()).toThrow(LlmError);
+  });
+
+  it('closes when the trial succeeds and reopens when it fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(upstreamError());
+    now += 1000;
+    breaker.assertCanRequest();
+    breaker.recordFailure(upstreamError());
+    expect(breaker.state).toBe('open');
+
+    now += 1000;
+    breaker.assertCanRequest();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.assertCanRequest()).toBe(false);
+  });
+
+  it('frees the trial slot when the trial is released', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(upstreamError());
+    now += 1000;
+    breaker.assertCanRequest();
+    breaker.releaseTrial();
+    expect(breaker.assertCanRequest()).toBe(true);
+  });
+});
+
+describe('ResilientLlmProvider', () => {
+  const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('retries retryable failures and returns the first success', async () => {
+    const inner = scriptedProvider([upstreamError(), upstreamError(), reply]);
+    const provider = new ResilientLlmProvider(inner, retry, new CircuitBreaker({ failureThreshold: 10, cooldownMs: 1000 }));
+    await expect(provider.complete({ messages: [] })).resolves.toEqual(reply);
+    expect(inner.calls).toBe(3);
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    const inner = scriptedProvider([new LlmError('misconfigured', 'No deployment'), reply]);
+    const provider = new ResilientLlmProvider(inner, retry, new CircuitBreaker({ failureThreshold: 10, cooldownMs: 1000 }));
+    await expect(provider.complete({ messages: [] })).rejects.toMatchObject({ code: 'misconfigured' });
+    expect(inner.calls).toBe(1);
+  });
+
+  it('does not retry a stream that already emitted content', async () => {
+    const inner = scriptedProvider([reply]);
+    inner.stream = async (_request, onDelta) => {
+      inner.calls++;
+      onDelta('Hel');
+      throw upstreamError();
+    };
+    const provider = new ResilientLlmProvider(inner, retry, new CircuitBreaker({ failureThreshold: 10, cooldownMs: 1000 }));
+    await expect(provider.stream({ messages: [] }, () => undefined)).rejects.toMatchObject({ code: 'upstream-5xx' });
+    expect(inner.calls).toBe(1);
+  });
+
+  it('releases the half-open trial when the caller aborts it', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0 });
+    breaker.recordFailure(upstreamError());
+    const controller = new AbortController();
+    const inner = scriptedProvider([reply]);
+    inner.complete = async () => {
+      controller.abort();
+      throw new Error('Request was aborted');
+    };
+    const provider = new ResilientLlmProvider(inner, retry, breaker);
+    await expect(provider.complete({ messages: [], signal: controller.signal })).rejects.toThrow('Request was aborted');
+
+    inner.complete = async () => reply;
+    await expect(provider.complete({ messages: [] })).resolves.toEqual(reply);
+    expect(breaker.state).toBe('closed');
+  });
+
+  describe('backoff', () => {
+    const provider = new ResilientLlmProvider(scriptedProvider([reply]), { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 }, new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0 }));
+
+    it('draws a full-jitter delay under an exponential ceiling', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      expect(provider['backoff'](1, upstreamError())).toBe(100);
+      expect(provider['backoff'](3, upstreamError())).toBe(400);
+      expect(provider['backoff'](10, upstreamError())).toBe(1000);
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      expect(provider['backoff'](3, upstreamError())).toBe(0);
+    });
+
+    it('honors Retry-After up to the longest delay', () => {
+      expect(provider['backoff'](1, new LlmError('rate-limited', 'Slow down', { retryAfterMs: 750 }))).toBe(750);
+      expect(provider['backoff'](1, new LlmError('rate-limited', 'Slow down', { retryAfterMs: 5000 }))).toBeNull();
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('prefers retry-after-ms', () => {
+    expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '3' })).toBe(250);
+  });
+
+  it('reads retry-after in seconds', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after': '3' }))).toBe(3000);
+  });
+
+  it('reads retry-after as an HTTP date', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-01-01T00:00:00Z'));
+    expect(parseRetryAfter({ 'retry-after': 'Wed, 01 Jan 2025 00:00:10 GMT' })).toBe(10000);
+    jest.restoreAllMocks();
+  });
+
+  it('returns undefined when absent or unparseable', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter({})).toBeUndefined();
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+  });
+});
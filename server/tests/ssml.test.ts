@@ -0,0 +1,44 @@
+import { buildSsml, escapeXml, validateVoiceStyle } from '../src/services/tts/ssml';
+
+const speak = (language: string, voice: string, body: string) =>
+  '<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" '
+  + `xml:lang="${language}"><voice name="${voice}">${body}</voice></speak>`;
+
+describe('escapeXml', () => {
+  it('escapes the five XML special characters', () => {
+    expect(escapeXml(`Tom & "Jerry" <'s>`)).toBe('Tom &amp; &quot;Jerry&quot; &lt;&apos;s&gt;');
+  });
+});
+
+describe('buildSsml', () => {
+  it('wraps escaped text in the voice, in US English by default', () => {
+    expect(buildSsml('Fish & chips <now>', 'en-US-JennyNeural'))
+      .toBe(speak('en-US', 'en-US-JennyNeural', 'Fish &amp; chips &lt;now&gt;'));
+  });
+
+  it('tells multilingual voices the language of the text', () => {
+    expect(buildSsml('Hola', 'en-US-AvaMultilingualNeural', {}, 'es-ES'))
+      .toBe(speak('es-ES', 'en-US-AvaMultilingualNeural', '<lang xml:lang="es-ES">Hola</lang>'));
+  });
+
+  it('applies the prosody and speaking style of a mood', () => {
+    const ssml = buildSsml('I want a refund.', 'en-US-JennyNeural', { rate: '+10%', volume: 'loud', style: 'angry', styleDegree: 1.5 });
+    expect(ssml).toBe(speak('en-US', 'en-US-JennyNeural',
+      '<mstts:express-as style="angry" styledegree="1.5"><prosody rate="+10%" volume="loud">I want a refund.</prosody></mstts:express-as>'));
+  });
+});
+
+describe('validateVoiceStyle', () => {
+  it('accepts no style and well-formed ones', () => {
+    expect(() => validateVoiceStyle(undefined)).not.toThrow();
+    expect(() => validateVoiceStyle(null)).not.toThrow();
+    expect(() => validateVoiceStyle({ style: 'cheerful', styleDegree: 0.5, rate: 'slow', pitch: '-2st', volume: '80' })).not.toThrow();
+  });
+
+  it('rejects values that would not render as valid SSML', () => {
+    expect(() => validateVoiceStyle('angry')).toThrow('must be an object');
+    expect(() => validateVoiceStyle({ style: 'angry"><evil' })).toThrow('single word');
+    expect(() => validateVoiceStyle({ styleDegree: 3 })).toThrow('0.01 to 2');
+    expect(() => validateVoiceStyle({ rate: 'very fast' })).toThrow('Voice style rate');
+  });
+});
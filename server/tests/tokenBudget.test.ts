@@ -0,0 +1,88 @@
+import { config } from '../src/config/env';
+import { estimateMessageTokens, estimateTokens, getContextWindow, getPromptTokenBudget } from '../src/services/llm/tokenBudget';
+import { planContextWindow, SUMMARY_TOKEN_RESERVE } from '../src/services/chatService';
+
+// 400 characters, so 100 tokens plus the per-message overhead
+const turn = (index: number) => ({ role: index % 2 === 0 ? 'user' : 'assistant', content: `${index}`.padEnd(400, '.') });
+const turns = (count: number) => Array.from({ length: count }, (_, index) => turn(index));
+
+describe('token estimates', () => {
+  it('counts about four characters per token, plus framing per message', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcde')).toBe(2);
+    expect(estimateMessageTokens({ content: 'abcd' })).toBe(5);
+  });
+
+  it('knows the context windows of common models and falls back to a small one', () => {
+    expect(getContextWindow('gpt-4o-mini')).toBe(128000);
+    expect(getContextWindow('gpt-4-32k')).toBe(32768);
+    expect(getContextWindow('gpt-4')).toBe(8192);
+    expect(getContextWindow('gpt-35-turbo')).toBe(16385);
+    expect(getContextWindow('llama3')).toBe(8192);
+  });
+});
+
+describe('getPromptTokenBudget', () => {
+  const configured = config.contextTokenBudget;
+  afterEach(() => {
+    config.contextTokenBudget = configured;
+  });
+
+  it('leaves room for the reply in the model window', () => {
+    config.contextTokenBudget = 0;
+    expect(getPromptTokenBudget('gpt-4')).toBe(8192 - 1024);
+    expect(getPromptTokenBudget('gpt-4', { max_tokens: 192 })).toBe(8000);
+  });
+
+  it('is capped by CONTEXT_TOKEN_BUDGET, but never above the window', () => {
+    config.contextTokenBudget = 2000;
+    expect(getPromptTokenBudget('gpt-4o')).toBe(2000);
+    config.contextTokenBudget = 100000;
+    expect(getPromptTokenBudget('gpt-4')).toBe(8192 - 1024);
+  });
+});
+
+describe('planContextWindow', () => {
+  const configured = config.contextTokenBudget;
+  beforeEach(() => {
+    config.contextTokenBudget = 0;
+  });
+  afterEach(() => {
+    config.contextTokenBudget = configured;
+  });
+
+  // A prompt budget of 1000 tokens on gpt-4
+  const modelParameters = { max_tokens: 8192 - 1000 };
+
+  it('keeps everything that fits', () => {
+    const history = turns(4);
+    expect(planContextWindow({ systemPrompt: '', history, modelParameters }, 'gpt-4')).toEqual({ kept: history, dropped: [] });
+  });
+
+  it('drops the oldest turns and leaves room for their summary', () => {
+    const history = turns(30);
+    const { kept, dropped } = planContextWindow({ systemPrompt: '', history, modelParameters }, 'gpt-4');
+    const perTurn = estimateMessageTokens(turn(0));
+    expect(kept).toHaveLength(Math.floor((1000 - SUMMARY_TOKEN_RESERVE) / perTurn));
+    expect([...dropped, ...kept]).toEqual(history);
+  });
+
+  it('counts the system prompt against the budget', () => {
+    const history = turns(8);
+    const { kept } = planContextWindow({ systemPrompt: 'x'.repeat(2000), history, modelParameters }, 'gpt-4');
+    expect(kept.length).toBeLessThan(history.length);
+  });
+
+  it('caps the window at MESSAGE_WINDOW_SIZE turns', () => {
+    const history = turns(config.messageWindowSize + 5).map(m => ({ ...m, content: 'short' }));
+    const { kept, dropped } = planContextWindow({ systemPrompt: '', history, modelParameters: {} }, 'gpt-4o');
+    expect(kept).toHaveLength(config.messageWindowSize);
+    expect(dropped).toHaveLength(5);
+  });
+
+  it('always keeps the newest turn and leaves out system messages', () => {
+    const newest = { role: 'user', content: 'x'.repeat(20000) };
+    const history = [{ role: 'system', content: 'Old prompt' }, turn(0), newest];
+    expect(planContextWindow({ systemPrompt: '', history, modelParameters }, 'gpt-4')).toEqual({ kept: [newest], dropped: [turn(0)] });
+  });
+});
@@ -0,0 +1,67 @@
+import { createResampler, createWavHeader, readWavHeader, toWav } from '../src/services/tts/wav';
+
+describe('createWavHeader', () => {
+  it('describes 16-bit mono PCM at the given rate', () => {
+    const header = createWavHeader(1000, 16000);
+    expect(header).toHaveLength(44);
+    expect(header.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(header.readUInt32LE(4)).toBe(1036);
+    expect(header.toString('ascii', 8, 16)).toBe('WAVEfmt ');
+    expect(header.readUInt16LE(22)).toBe(1);
+    expect(header.readUInt32LE(24)).toBe(16000);
+    expect(header.readUInt32LE(28)).toBe(32000);
+    expect(header.readUInt16LE(34)).toBe(16);
+    expect(header.toString('ascii', 36, 40)).toBe('data');
+    expect(header.readUInt32LE(40)).toBe(1000);
+  });
+});
+
+describe('readWavHeader', () => {
+  it('reads back what toWav wrote', () => {
+    const wav = toWav(Buffer.alloc(8), 24000);
+    expect(readWavHeader(wav)).toEqual({ sampleRate: 24000, byteRate: 48000, dataOffset: 44 });
+  });
+
+  it('skips chunks before the samples', () => {
+    const wav = toWav(Buffer.alloc(8), 22050);
+    const list = Buffer.concat([Buffer.from('LIST'), Buffer.from([5, 0, 0, 0]), Buffer.from('INFOx'), Buffer.alloc(1)]);
+    const withList = Buffer.concat([wav.subarray(0, 36), list, wav.subarray(36)]);
+    expect(readWavHeader(withList)).toEqual({ sampleRate: 22050, byteRate: 44100, dataOffset: 36 + list.length + 8 });
+  });
+
+  it('waits for more of a streamed header, whatever sizes it declares', () => {
+    const wav = createWavHeader(0xffffffff - 36, 16000);
+    expect(readWavHeader(wav.subarray(0, 8))).toBeNull();
+    expect(readWavHeader(wav.subarray(0, 30))).toBeNull();
+    expect(readWavHeader(wav)).toEqual({ sampleRate: 16000, byteRate: 32000, dataOffset: 44 });
+  });
+
+  it('rejects audio that is not WAV', () => {
+    expect(() => readWavHeader(Buffer.from('ID3\u0004\u0000\u0000\u0000\u0000\u0000\u0000\u0000\u0000'))).toThrow('not a WAV');
+  });
+});
+
+describe('createResampler', () => {
+  it('passes audio at the same rate through', () => {
+    const input = Int16Array.from([1, 2, 3]);
+    expect(createResampler(16000, 16000)(input)).toBe(input);
+  });
+
+  it('downsamples by taking every other sample at half the rate', () => {
+    const resample = createResampler(48000, 24000);
+    expect(Array.from(resample(Int16Array.from([0, 100, 200, 300, 400, 500])))).toEqual([0, 200, 400]);
+  });
+
+  it('interpolates between samples when upsampling', () => {
+    const resample = createResampler(8000, 16000);
+    expect(Array.from(resample(Int16Array.from([0, 100, 200, 300])))).toEqual([0, 50, 100, 150, 200, 250]);
+  });
+
+  it('carries its position across chunks, so chunked audio resamples like the whole', () => {
+    const input = Int16Array.from({ length: 50 }, (_, index) => index * 37 - 900);
+    const whole = Array.from(createResampler(16000, 24000)(input));
+    const chunked = createResampler(16000, 24000);
+    const pieces = [input.subarray(0, 7), input.subarray(7, 8), input.subarray(8, 31), input.subarray(31)];
+    expect(pieces.flatMap(piece => Array.from(chunked(piece)))).toEqual(whole);
+  });
+});